@@ -4,6 +4,15 @@ import { env } from './environment.ts';
 import { logger } from '../utils/logger.ts';
 import { Document } from '../models/Document.ts';
 import { DocumentChunk } from '../models/DocumentChunk.ts';
+import { DocumentVersion } from '../models/DocumentVersion.ts';
+import { DocumentVersionChunk } from '../models/DocumentVersionChunk.ts';
+import { EmbeddingModel } from '../models/EmbeddingModel.ts';
+import { IngestionJob } from '../models/IngestionJob.ts';
+import { MaintenanceRun } from '../models/MaintenanceRun.ts';
+import { User } from '../models/User.ts';
+import { ApiKey } from '../models/ApiKey.ts';
+import { Conversation } from '../models/Conversation.ts';
+import { ConversationMessage } from '../models/ConversationMessage.ts';
 import { DatabaseConnectionError } from '../errors/DomainErrors.ts';
 
 /**
@@ -27,7 +36,19 @@ export const dataSourceOptions: DataSourceOptions = {
     : false,
 
   /* Entities (TypeORM will use these for migrations and queries )*/
-  entities: [Document, DocumentChunk],
+  entities: [
+    Document,
+    DocumentChunk,
+    DocumentVersion,
+    DocumentVersionChunk,
+    EmbeddingModel,
+    IngestionJob,
+    MaintenanceRun,
+    User,
+    ApiKey,
+    Conversation,
+    ConversationMessage,
+  ],
 
   /**
    * Synchronize: true in development, false in production
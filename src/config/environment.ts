@@ -23,43 +23,202 @@ interface OpenAIConfig {
   apiKey: string;
   model?: string;
   embeddingModel?: string;
+  baseUrl?: string;
+}
+
+export type EmbeddingProviderName = 'huggingface' | 'openai' | 'openai-compatible' | 'hashing';
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+  /* OpenAI-compatible servers (vLLM, Ollama, llama.cpp, TEI...) */
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export type HuggingfaceInferenceProvider =
+  | 'baseten'
+  | 'black-forest-labs'
+  | 'cerebras'
+  | 'clarifai'
+  | 'cohere'
+  | 'fal-ai'
+  | 'featherless-ai'
+  | 'fireworks-ai'
+  | 'groq'
+  | 'hf-inference'
+  | 'hyperbolic'
+  | 'nebius'
+  | 'novita'
+  | 'nscale'
+  | 'openai'
+  | 'ovhcloud'
+  | 'publicai'
+  | 'replicate'
+  | 'sambanova'
+  | 'scaleway'
+  | 'together'
+  | 'wavespeed'
+  | 'zai-org'
+  | 'auto';
+
+export type CompletionProviderName = 'huggingface' | 'openai' | 'openai-compatible' | 'scripted';
+
+/* Deployment-wide generation defaults; each Q&A call may override them */
+export interface CompletionConfig {
+  provider: CompletionProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  stop: string[];
+  seed?: number;
+  /* OpenAI-compatible servers (llama.cpp, Ollama, vLLM...) */
+  baseUrl?: string;
+  apiKey?: string;
 }
 
 export interface HuggingfaceConfig {
   apiKey: string;
   model?: string;
-  provider?:
-    | 'baseten'
-    | 'black-forest-labs'
-    | 'cerebras'
-    | 'clarifai'
-    | 'cohere'
-    | 'fal-ai'
-    | 'featherless-ai'
-    | 'fireworks-ai'
-    | 'groq'
-    | 'hf-inference'
-    | 'hyperbolic'
-    | 'nebius'
-    | 'novita'
-    | 'nscale'
-    | 'openai'
-    | 'ovhcloud'
-    | 'publicai'
-    | 'replicate'
-    | 'sambanova'
-    | 'scaleway'
-    | 'together'
-    | 'wavespeed'
-    | 'zai-org'
-    | 'auto';
+  provider?: HuggingfaceInferenceProvider;
+  /* Inference provider serving chat completions (HF_COMPLETION_PROVIDER) */
+  completionProvider?: HuggingfaceInferenceProvider;
   completionModel?: string;
   vectorDimensions: number;
 }
 
+interface IngestionConfig {
+  batchSize: number;
+  concurrency: number;
+  pollIntervalMs: number;
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+  staleJobTimeoutMs: number;
+}
+
+export type ChunkingStrategyName =
+  | 'fixed'
+  | 'recursive'
+  | 'markdown-heading'
+  | 'sentence'
+  | 'token';
+
+interface ChunkingConfig {
+  /* Default strategy when an upload doesn't pick one */
+  strategy: ChunkingStrategyName;
+  /* Characters */
+  chunkSize: number;
+  chunkOverlap: number;
+  /* Tokens, for the token strategy */
+  tokenChunkSize: number;
+  tokenChunkOverlap: number;
+}
+
+interface ConversationConfig {
+  /* Approximate tokens of previous turns sent along with a follow-up question */
+  historyTokenBudget: number;
+}
+
+export type FusionMethod = 'rrf' | 'linear';
+
+/* How exhaustively approximate nearest-neighbour search scans the vector index */
+export type SearchRecall = 'fast' | 'balanced' | 'high';
+
+export type VectorIndexType = 'ivfflat' | 'hnsw';
+
+export type RerankerProviderName = 'huggingface' | 'tei' | 'lexical';
+
+export interface RerankingConfig {
+  provider: RerankerProviderName;
+  /* Cross-encoder model (huggingface) */
+  model: string;
+  /* Hugging Face inference endpoint, or the Text Embeddings Inference server (tei) */
+  baseUrl?: string;
+  apiKey?: string;
+  /* Requests to the reranker give up after this long; search then keeps the retrieval order */
+  timeoutMs: number;
+  /* Candidates retrieved before reranking down to the requested limit */
+  candidates: number;
+  /* Rerank the sources of Q&A answers unless a request opts out */
+  qaDefault: boolean;
+}
+
+interface SearchConfig {
+  /* How hybrid search merges the vector and full-text rankings */
+  fusionMethod: FusionMethod;
+  /* RRF damping constant: score = weight / (k + rank) */
+  rrfK: number;
+  vectorWeight: number;
+  textWeight: number;
+  /* Each retriever returns limit * candidateMultiplier candidates before fusion */
+  candidateMultiplier: number;
+  /* Recall of searches that don't pick one */
+  recall: SearchRecall;
+}
+
+interface MaintenanceConfig {
+  /* Run the background maintenance scheduler in this process */
+  enabled: boolean;
+  /* Cron expression: minute hour day-of-month month day-of-week, in server time */
+  schedule: string;
+  /* How often the ingestion queue is checked for a finished burst of uploads */
+  burstCheckIntervalMs: number;
+  /* Ingestion jobs completed since the last run that make a burst worth maintenance */
+  burstJobs: number;
+}
+
+interface EmbeddingMigrationConfig {
+  /* Chunks re-embedded per backfill batch */
+  batchSize: number;
+  /* How often the backfill looks for work and replicas pick up a cutover */
+  pollIntervalMs: number;
+}
+
+interface EmbeddingCacheConfig {
+  /* Cache chunk and query embeddings in memory and in Redis */
+  enabled: boolean;
+  /* Memory the in-process cache may use before evicting the least recently used embeddings */
+  maxMemoryBytes: number;
+  /* How long embeddings stay in Redis */
+  ttlSeconds: number;
+}
+
+interface VectorIndexConfig {
+  /* Index type built on document_chunks when no index exists yet */
+  type: VectorIndexType;
+  /* HNSW neighbours per node */
+  hnswM: number;
+  /* HNSW candidate list size while building */
+  hnswEfConstruction: number;
+}
+
+/* What an upload whose text duplicates an existing document of the same user does */
+export type DuplicatePolicy = 'reject' | 'link' | 'new_version';
+
+interface DeduplicationConfig {
+  /* Default policy when an upload doesn't pick one */
+  policy: DuplicatePolicy;
+  /* SimHash bits two texts may differ by and still be near-duplicates */
+  simhashDistance: number;
+  /* Cosine similarity of mean chunk embeddings above which findDuplicates pairs documents */
+  embeddingSimilarity: number;
+}
+
+interface EnrichmentConfig {
+  /* Generate a summary, keywords, title and entities for every ingested document */
+  enabled: boolean;
+  /* Approximate tokens of document text per completion; longer documents are summarized in parts */
+  contextTokens: number;
+  maxKeywords: number;
+  /* Completion model override (defaults to COMPLETION_MODEL) */
+  model?: string;
+}
+
 interface JWTConfig {
   secret: string;
   expiresIn: string;
+  refreshExpiresIn: string;
 }
 
 interface EnvironmentConfig {
@@ -72,11 +231,30 @@ interface EnvironmentConfig {
   };
   redis: RedisConfig;
   huggingface: HuggingfaceConfig;
+  openai: OpenAIConfig;
+  embedding: EmbeddingConfig;
+  embeddingMigration: EmbeddingMigrationConfig;
+  embeddingCache: EmbeddingCacheConfig;
+  completion: CompletionConfig;
   jwt: JWTConfig;
   upload: {
     maxFileSize: number;
     allowedMimeTypes: string[];
+    /* Files per multipart request (uploadDocuments) */
+    maxFiles: number;
+    /* ZIP/TAR.GZ archives may be larger than a single document */
+    maxArchiveSize: number;
+    maxArchiveEntries: number;
   };
+  ingestion: IngestionConfig;
+  chunking: ChunkingConfig;
+  conversation: ConversationConfig;
+  search: SearchConfig;
+  vectorIndex: VectorIndexConfig;
+  maintenance: MaintenanceConfig;
+  reranking: RerankingConfig;
+  deduplication: DeduplicationConfig;
+  enrichment: EnrichmentConfig;
 }
 
 const loadEnvironment = (): EnvironmentConfig => {
@@ -91,11 +269,23 @@ const loadEnvironment = (): EnvironmentConfig => {
     throw new Error(`Missing required environment variables: ${missingVars.join(', ')}`);
   }
 
+  const embeddingProvider = (process.env.EMBEDDING_PROVIDER ||
+    'huggingface') as EmbeddingProviderName;
+
   /* Check for HuggingFace API key */
-  if (!process.env.HF_API_KEY) {
+  if (embeddingProvider === 'huggingface' && !process.env.HF_API_KEY) {
     console.warn('⚠️  HF_API_KEY not set. Embedding generation will fail.');
   }
 
+  /* Anyone knowing the default secret could sign tokens, so it is only tolerated in development */
+  if (!process.env.JWT_SECRET) {
+    const nodeEnv = process.env.NODE_ENV || 'development';
+    if (nodeEnv !== 'development' && nodeEnv !== 'test') {
+      throw new Error(`JWT_SECRET is required when NODE_ENV is "${nodeEnv}"`);
+    }
+    console.warn('⚠️  JWT_SECRET not set. Using an insecure default secret.');
+  }
+
   return {
     NODE_ENV: process.env.NODE_ENV || 'development',
     PORT: parseInt(process.env.PORT || '3000', 10),
@@ -120,13 +310,57 @@ const loadEnvironment = (): EnvironmentConfig => {
       apiKey: process.env.HF_API_KEY || '',
       model: process.env.HF_MODEL || '',
       provider: 'hf-inference',
+      completionProvider: (process.env.HF_COMPLETION_PROVIDER ||
+        'auto') as HuggingfaceInferenceProvider,
       completionModel: process.env.HF_COMPLETION_MODEL || '',
       vectorDimensions: parseInt(process.env.VECTOR_DIMENSIONS!, 10) || 1024,
     },
 
+    openai: {
+      apiKey: process.env.OPENAI_API_KEY || '',
+      model: process.env.OPENAI_MODEL || '',
+      embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-large',
+      ...(process.env.OPENAI_BASE_URL && { baseUrl: process.env.OPENAI_BASE_URL }),
+    },
+
+    embedding: {
+      provider: embeddingProvider,
+      model: process.env.EMBEDDING_MODEL || process.env.HF_MODEL || '',
+      dimensions:
+        parseInt(process.env.EMBEDDING_DIMENSIONS || process.env.VECTOR_DIMENSIONS!, 10) || 1024,
+      ...(process.env.EMBEDDING_BASE_URL && { baseUrl: process.env.EMBEDDING_BASE_URL }),
+      ...(process.env.EMBEDDING_API_KEY && { apiKey: process.env.EMBEDDING_API_KEY }),
+    },
+
+    embeddingMigration: {
+      batchSize: parseInt(process.env.EMBEDDING_BACKFILL_BATCH_SIZE || '50', 10),
+      pollIntervalMs: parseInt(process.env.EMBEDDING_BACKFILL_POLL_INTERVAL_MS || '5000', 10),
+    },
+
+    embeddingCache: {
+      enabled: process.env.EMBEDDING_CACHE_ENABLED !== 'false',
+      maxMemoryBytes: parseInt(process.env.EMBEDDING_CACHE_MEMORY_MB || '64', 10) * 1024 * 1024,
+      ttlSeconds: parseInt(process.env.EMBEDDING_CACHE_TTL_SECONDS || '604800', 10),
+    },
+
+    completion: {
+      provider: (process.env.COMPLETION_PROVIDER || 'huggingface') as CompletionProviderName,
+      model: process.env.COMPLETION_MODEL || process.env.HF_COMPLETION_MODEL || '',
+      temperature: parseFloat(process.env.COMPLETION_TEMPERATURE || '0.7'),
+      maxTokens: parseInt(process.env.COMPLETION_MAX_TOKENS || '1000', 10),
+      stop: (process.env.COMPLETION_STOP || '')
+        .split(',')
+        .map((sequence) => sequence.trim())
+        .filter(Boolean),
+      ...(process.env.COMPLETION_SEED && { seed: parseInt(process.env.COMPLETION_SEED, 10) }),
+      ...(process.env.COMPLETION_BASE_URL && { baseUrl: process.env.COMPLETION_BASE_URL }),
+      ...(process.env.COMPLETION_API_KEY && { apiKey: process.env.COMPLETION_API_KEY }),
+    },
+
     jwt: {
       secret: process.env.JWT_SECRET || 'change-me-in-production',
       expiresIn: process.env.JWT_EXPIRES_IN || '7d',
+      refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '30d',
     },
 
     graphql: {
@@ -138,8 +372,92 @@ const loadEnvironment = (): EnvironmentConfig => {
     upload: {
       maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760', 10), // 10MB default
       allowedMimeTypes: (
-        process.env.ALLOWED_MIME_TYPES || 'application/pdf,text/markdown,text/plain'
+        process.env.ALLOWED_MIME_TYPES ||
+        [
+          'application/pdf',
+          'text/markdown',
+          'text/plain',
+          'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+          'text/html',
+          'text/csv',
+          'text/tab-separated-values',
+          'application/json',
+          'application/epub+zip',
+          'application/rtf',
+        ].join(',')
       ).split(','),
+      maxFiles: parseInt(process.env.MAX_FILES_PER_UPLOAD || '20', 10),
+      maxArchiveSize: parseInt(process.env.MAX_ARCHIVE_SIZE || '104857600', 10), // 100MB default
+      maxArchiveEntries: parseInt(process.env.MAX_ARCHIVE_ENTRIES || '500', 10),
+    },
+
+    ingestion: {
+      batchSize: parseInt(process.env.INGESTION_BATCH_SIZE || '10', 10),
+      concurrency: parseInt(process.env.INGESTION_CONCURRENCY || '1', 10),
+      pollIntervalMs: parseInt(process.env.INGESTION_POLL_INTERVAL_MS || '2000', 10),
+      maxAttempts: parseInt(process.env.INGESTION_MAX_ATTEMPTS || '3', 10),
+      retryBaseDelayMs: parseInt(process.env.INGESTION_RETRY_BASE_DELAY_MS || '5000', 10),
+      staleJobTimeoutMs: parseInt(process.env.INGESTION_STALE_JOB_TIMEOUT_MS || '600000', 10), // 10 min
+    },
+
+    chunking: {
+      strategy: (process.env.CHUNKING_STRATEGY || 'fixed') as ChunkingStrategyName,
+      chunkSize: parseInt(process.env.CHUNK_SIZE || '1000', 10),
+      chunkOverlap: parseInt(process.env.CHUNK_OVERLAP || '200', 10),
+      tokenChunkSize: parseInt(process.env.CHUNK_TOKEN_SIZE || '256', 10),
+      tokenChunkOverlap: parseInt(process.env.CHUNK_TOKEN_OVERLAP || '32', 10),
+    },
+
+    conversation: {
+      historyTokenBudget: parseInt(process.env.CONVERSATION_HISTORY_TOKEN_BUDGET || '2000', 10),
+    },
+
+    search: {
+      fusionMethod: (process.env.SEARCH_FUSION_METHOD || 'rrf') as FusionMethod,
+      rrfK: parseInt(process.env.SEARCH_RRF_K || '60', 10),
+      vectorWeight: parseFloat(process.env.SEARCH_VECTOR_WEIGHT || '1'),
+      textWeight: parseFloat(process.env.SEARCH_TEXT_WEIGHT || '1'),
+      candidateMultiplier: parseInt(process.env.SEARCH_CANDIDATE_MULTIPLIER || '4', 10),
+      recall: (process.env.SEARCH_RECALL || 'balanced') as SearchRecall,
+    },
+
+    vectorIndex: {
+      type: (process.env.VECTOR_INDEX_TYPE || 'ivfflat') as VectorIndexType,
+      hnswM: parseInt(process.env.HNSW_M || '16', 10),
+      hnswEfConstruction: parseInt(process.env.HNSW_EF_CONSTRUCTION || '64', 10),
+    },
+
+    maintenance: {
+      enabled: process.env.MAINTENANCE_ENABLED !== 'false',
+      schedule: process.env.MAINTENANCE_SCHEDULE || '0 3 * * *',
+      burstCheckIntervalMs: parseInt(
+        process.env.MAINTENANCE_BURST_CHECK_INTERVAL_MS || '300000',
+        10
+      ), // 5 min
+      burstJobs: parseInt(process.env.MAINTENANCE_BURST_JOBS || '20', 10),
+    },
+
+    reranking: {
+      provider: (process.env.RERANKER_PROVIDER || 'lexical') as RerankerProviderName,
+      model: process.env.RERANKER_MODEL || 'BAAI/bge-reranker-base',
+      ...(process.env.RERANKER_BASE_URL && { baseUrl: process.env.RERANKER_BASE_URL }),
+      ...(process.env.RERANKER_API_KEY && { apiKey: process.env.RERANKER_API_KEY }),
+      timeoutMs: parseInt(process.env.RERANKER_TIMEOUT_MS || '10000', 10),
+      candidates: parseInt(process.env.RERANK_CANDIDATES || '50', 10),
+      qaDefault: process.env.RERANK_QA !== 'false',
+    },
+
+    deduplication: {
+      policy: (process.env.DUPLICATE_POLICY || 'link') as DuplicatePolicy,
+      simhashDistance: parseInt(process.env.DUPLICATE_SIMHASH_DISTANCE || '3', 10),
+      embeddingSimilarity: parseFloat(process.env.DUPLICATE_EMBEDDING_SIMILARITY || '0.97'),
+    },
+
+    enrichment: {
+      enabled: process.env.ENRICHMENT_ENABLED !== 'false',
+      contextTokens: parseInt(process.env.ENRICHMENT_CONTEXT_TOKENS || '6000', 10),
+      maxKeywords: parseInt(process.env.ENRICHMENT_MAX_KEYWORDS || '10', 10),
+      ...(process.env.ENRICHMENT_MODEL && { model: process.env.ENRICHMENT_MODEL }),
     },
   };
 };
@@ -2,9 +2,31 @@ import { createClient, RedisClientType } from 'redis';
 import { env } from './environment.ts';
 import { logger } from '../utils/logger.ts';
 
+/* Keys per DEL command */
+const DEL_BATCH_SIZE = 500;
+
+/**
+ * Set a value and add its key to tag sets, unless a counter moved since the caller read it
+ * KEYS: value key, tag sets..., counters...  ARGV: value, TTL, tag count, counter values...
+ */
+const SET_TAGGED_SCRIPT = `
+local tagCount = tonumber(ARGV[3])
+for i = 2 + tagCount, #KEYS do
+  if (redis.call('GET', KEYS[i]) or '0') ~= ARGV[i - tagCount + 2] then
+    return 0
+  end
+end
+redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+for i = 2, 1 + tagCount do
+  redis.call('SADD', KEYS[i], KEYS[1])
+  redis.call('EXPIRE', KEYS[i], ARGV[2])
+end
+return 1
+`;
+
 /**
  * Redis client configuration
- * Used for caching search results and query embeddings
+ * Used for caching search results and chunk and query embeddings
  */
 class RedisClient {
   #client: RedisClientType | null = null;
@@ -148,28 +170,87 @@ class RedisClient {
     }
   }
 
-  /* Delete keys matching pattern */
-  async delPattern(pattern: string): Promise<number> {
+  /**
+   * Set value in cache and record its key in tag sets, so invalidateTags can drop it with the
+   * other values of a tag. Tag sets expire with their most recent value.
+   * Nothing is written when one of the `unchanged` counters no longer holds the value the caller
+   * read (missing counters read as 0), so a value computed before an invalidation is never cached
+   * after it. Returns whether the value was written.
+   */
+  async setTagged(
+    key: string,
+    value: unknown,
+    tags: string[],
+    expirationSeconds: number,
+    unchanged: Record<string, number> = {}
+  ): Promise<boolean> {
+    if (!this.isReady() || !this.#client) {
+      logger.debug(`Cache set skipped (Redis not available): ${key}`);
+      return false;
+    }
+
+    try {
+      const counters = Object.entries(unchanged);
+      const written = await this.#client.eval(SET_TAGGED_SCRIPT, {
+        keys: [key, ...tags, ...counters.map(([counter]) => counter)],
+        arguments: [
+          JSON.stringify(value),
+          String(expirationSeconds),
+          String(tags.length),
+          ...counters.map(([, expected]) => String(expected)),
+        ],
+      });
+
+      return written === 1;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      logger.error(`Error setting cache key ${key}: `, error.message);
+      return false;
+    }
+  }
+
+  /* Delete the values recorded under any of the tags, and the tag sets */
+  async invalidateTags(tags: string[]): Promise<number> {
     if (!this.isReady() || !this.#client) {
-      logger.debug(`Cache pattern delete skipped (Redis not available): ${pattern}`);
+      logger.debug(`Cache tag invalidation skipped (Redis not available): ${tags.join(', ')}`);
       return 0;
     }
 
     try {
-      const keys = await this.#client.keys(pattern);
+      let deleted = 0;
+      for (const tag of tags) {
+        /* Read and clear at once: keys tagged afterwards land in a new set and survive */
+        const [keys] = await this.#client.multi().sMembers(tag).del(tag).execTyped();
 
-      if (keys.length === 0) {
-        return 0;
+        for (let i = 0; i < keys.length; i += DEL_BATCH_SIZE) {
+          deleted += await this.#client.del(keys.slice(i, i + DEL_BATCH_SIZE));
+        }
       }
 
-      return await this.#client.del(keys);
+      return deleted;
     } catch (err) {
       const error = err instanceof Error ? err : new Error(String(err));
-      logger.error(`Error deleting cache pattern ${pattern}: `, error.message);
+      logger.error(`Error invalidating cache tags ${tags.join(', ')}: `, error.message);
       return 0;
     }
   }
 
+  /* Increment a counter, returning its new value (null when Redis is not available) */
+  async incr(key: string): Promise<number | null> {
+    if (!this.isReady() || !this.#client) {
+      logger.debug(`Cache increment skipped (Redis not available): ${key}`);
+      return null;
+    }
+
+    try {
+      return await this.#client.incr(key);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      logger.error(`Error incrementing cache key ${key}: `, error.message);
+      return null;
+    }
+  }
+
   /* Close Redis connection */
   async close(): Promise<void> {
     if (this.#client) {
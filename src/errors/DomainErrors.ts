@@ -11,6 +11,18 @@ export class DocumentNotFoundError extends AppError {
   }
 }
 
+export class DocumentVersionNotFoundError extends AppError {
+  constructor(documentId: string, versionNumber: number) {
+    super(
+      `Version ${versionNumber} of document "${documentId}" was not found.`,
+      'DOCUMENT_VERSION_NOT_FOUND',
+      404,
+      true,
+      { documentId, versionNumber }
+    );
+  }
+}
+
 export class DocumentProcessingError extends AppError {
   constructor(message: string, cause?: Error, context?: Record<string, any>) {
     super(`Failed to process document: ${message}`, 'DOCUMENT_PROCESSING_FAILED', 422, true, {
@@ -46,6 +58,27 @@ export class FileTooLargeError extends AppError {
   }
 }
 
+export class InvalidArchiveError extends AppError {
+  constructor(fileName: string, reason: string) {
+    super(`Archive "${fileName}" could not be read: ${reason}`, 'INVALID_ARCHIVE', 400, true, {
+      fileName,
+      reason,
+    });
+  }
+}
+
+export class DuplicateDocumentError extends AppError {
+  constructor(fileName: string, duplicateOfId: string, exact: boolean) {
+    super(
+      `"${fileName}" ${exact ? 'duplicates' : 'nearly duplicates'} document "${duplicateOfId}".`,
+      'DOCUMENT_DUPLICATE',
+      409,
+      true,
+      { fileName, duplicateOfId, exact }
+    );
+  }
+}
+
 export class EmptyDocumentError extends AppError {
   constructor() {
     super(
@@ -57,6 +90,39 @@ export class EmptyDocumentError extends AppError {
   }
 }
 
+export class EnrichmentError extends AppError {
+  constructor(message: string, cause?: Error, context?: Record<string, unknown>) {
+    super(`Failed to enrich document: ${message}`, 'ENRICHMENT_FAILED', 502, true, {
+      ...context,
+      cause: cause?.message,
+    });
+  }
+}
+
+/**
+ * Ingestion-related errors
+ */
+export class IngestionJobNotFoundError extends AppError {
+  constructor(jobId: string) {
+    super(`Ingestion job with ID "${jobId}" was not found.`, 'INGESTION_JOB_NOT_FOUND', 404, true, {
+      jobId,
+    });
+  }
+}
+
+/* The job's lock went stale and another worker claimed it */
+export class IngestionJobLockLostError extends AppError {
+  constructor(jobId: string, workerId: string) {
+    super(
+      `Ingestion job "${jobId}" is no longer held by worker "${workerId}".`,
+      'INGESTION_JOB_LOCK_LOST',
+      409,
+      true,
+      { jobId, workerId }
+    );
+  }
+}
+
 /**
  * Search-related errors
  */
@@ -69,6 +135,14 @@ export class SearchError extends AppError {
   }
 }
 
+export class RerankingError extends AppError {
+  constructor(message: string, cause?: Error) {
+    super(`Failed to rerank search results: ${message}`, 'RERANKING_FAILED', 500, true, {
+      cause: cause?.message,
+    });
+  }
+}
+
 export class InvalidSearchQueryError extends AppError {
   constructor(query: string) {
     super(
@@ -89,6 +163,52 @@ export class EmbeddingGenerationError extends AppError {
   }
 }
 
+export class EmbeddingDimensionMismatchError extends AppError {
+  constructor(
+    provider: string,
+    model: string,
+    providerDimensions: number,
+    columnDimensions: number
+  ) {
+    super(
+      `Embedding provider "${provider}" (${model}) produces ${providerDimensions}-dimensional vectors, but the embedding column stores vector(${columnDimensions}).`,
+      'EMBEDDING_DIMENSION_MISMATCH',
+      500,
+      false,
+      { provider, model, providerDimensions, columnDimensions }
+    );
+  }
+}
+
+export class EmbeddingModelChangedError extends AppError {
+  constructor() {
+    super(
+      'The embedding model changed while the chunks were being embedded. Try again.',
+      'EMBEDDING_MODEL_CHANGED',
+      409,
+      true
+    );
+  }
+}
+
+export class EmbeddingMigrationConflictError extends AppError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, 'EMBEDDING_MIGRATION_CONFLICT', 409, true, context);
+  }
+}
+
+export class IndexRebuildInProgressError extends AppError {
+  constructor(indexName: string) {
+    super(
+      `Index "${indexName}" is already being rebuilt. Try again once the rebuild finishes.`,
+      'SEARCH_INDEX_REBUILD_IN_PROGRESS',
+      409,
+      true,
+      { indexName }
+    );
+  }
+}
+
 /**
  * Q&A-related errors
  */
@@ -113,6 +233,27 @@ export class NoRelevantContextError extends AppError {
   }
 }
 
+export class ConversationNotFoundError extends AppError {
+  constructor(conversationId: string) {
+    super(
+      `Conversation with ID "${conversationId}" was not found.`,
+      'CONVERSATION_NOT_FOUND',
+      404,
+      true,
+      { conversationId }
+    );
+  }
+}
+
+export class AnswerGenerationError extends AppError {
+  constructor(message: string, cause?: Error, context?: Record<string, any>) {
+    super(`Failed to generate answer: ${message}`, 'ANSWER_GENERATION_FAILED', 502, true, {
+      ...context,
+      cause: cause?.message,
+    });
+  }
+}
+
 /**
  * Database-related errors
  */
@@ -125,6 +266,17 @@ export class DatabaseError extends AppError {
   }
 }
 
+export class MaintenanceInProgressError extends AppError {
+  constructor() {
+    super(
+      'Database maintenance is already running. Try again once it finishes.',
+      'DATABASE_MAINTENANCE_IN_PROGRESS',
+      409,
+      true
+    );
+  }
+}
+
 export class DatabaseConnectionError extends AppError {
   constructor(cause?: Error) {
     super(
@@ -161,6 +313,55 @@ export class HuggingFaceAPIError extends AppError {
   }
 }
 
+/**
+ * Configuration errors
+ */
+export class ConfigurationError extends AppError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(`Invalid configuration: ${message}`, 'CONFIGURATION_ERROR', 500, false, context);
+  }
+}
+
+/**
+ * Authentication/Authorization errors
+ */
+export class AuthenticationRequiredError extends AppError {
+  constructor() {
+    super(
+      'Authentication is required. Provide a bearer token or an API key.',
+      'AUTH_REQUIRED',
+      401,
+      true
+    );
+  }
+}
+
+export class InvalidCredentialsError extends AppError {
+  constructor() {
+    super('Invalid email or password.', 'AUTH_INVALID_CREDENTIALS', 401, true);
+  }
+}
+
+export class InvalidTokenError extends AppError {
+  constructor(message: string = 'The provided token is invalid or has expired.') {
+    super(message, 'AUTH_INVALID_TOKEN', 401, true);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'You do not have permission to perform this operation.') {
+    super(message, 'AUTH_FORBIDDEN', 403, true);
+  }
+}
+
+export class EmailAlreadyRegisteredError extends AppError {
+  constructor(email: string) {
+    super(`An account with email "${email}" already exists.`, 'AUTH_EMAIL_TAKEN', 409, true, {
+      email,
+    });
+  }
+}
+
 /**
  * Validation errors
  */
@@ -1,11 +1,13 @@
 /**
  * Categories:
  * - DOCUMENT_* - Document operations
+ * - INGESTION_* - Asynchronous ingestion jobs
  * - SEARCH_* - Search operations
  * - QA_* - Q&A operations
  * - DATABASE_* - Database operations
  * - EXTERNAL_* - External service errors
  * - VALIDATION_* - Input validation
+ * - CONFIGURATION_* - Invalid deployment configuration
  * - AUTH_* - Authentication/Authorization
  */
 
@@ -17,38 +19,64 @@
 export const ErrorCodes = {
   /* Document errors */
   DOCUMENT_NOT_FOUND: 'DOCUMENT_NOT_FOUND',
+  DOCUMENT_VERSION_NOT_FOUND: 'DOCUMENT_VERSION_NOT_FOUND',
   DOCUMENT_PROCESSING_FAILED: 'DOCUMENT_PROCESSING_FAILED',
   UNSUPPORTED_FILE_TYPE: 'UNSUPPORTED_FILE_TYPE',
   FILE_TOO_LARGE: 'FILE_TOO_LARGE',
+  INVALID_ARCHIVE: 'INVALID_ARCHIVE',
   EMPTY_DOCUMENT: 'EMPTY_DOCUMENT',
+  DOCUMENT_DUPLICATE: 'DOCUMENT_DUPLICATE',
+  ENRICHMENT_FAILED: 'ENRICHMENT_FAILED',
   DOCUMENT_DELETE_FAILED: 'DOCUMENT_DELETE_FAILED',
 
+  /* Ingestion errors */
+  INGESTION_JOB_NOT_FOUND: 'INGESTION_JOB_NOT_FOUND',
+  INGESTION_JOB_LOCK_LOST: 'INGESTION_JOB_LOCK_LOST',
+  INGESTION_FAILED: 'INGESTION_FAILED',
+
   /* Search errors */
   SEARCH_FAILED: 'SEARCH_FAILED',
   INVALID_SEARCH_QUERY: 'INVALID_SEARCH_QUERY',
   EMBEDDING_GENERATION_FAILED: 'EMBEDDING_GENERATION_FAILED',
+  EMBEDDING_DIMENSION_MISMATCH: 'EMBEDDING_DIMENSION_MISMATCH',
+  EMBEDDING_MODEL_CHANGED: 'EMBEDDING_MODEL_CHANGED',
+  EMBEDDING_MIGRATION_CONFLICT: 'EMBEDDING_MIGRATION_CONFLICT',
   NO_SEARCH_RESULTS: 'NO_SEARCH_RESULTS',
+  RERANKING_FAILED: 'RERANKING_FAILED',
+  SEARCH_INDEX_REBUILD_IN_PROGRESS: 'SEARCH_INDEX_REBUILD_IN_PROGRESS',
 
   /* Q&A errors */
   QA_FAILED: 'QA_FAILED',
   NO_RELEVANT_CONTEXT: 'NO_RELEVANT_CONTEXT',
   ANSWER_GENERATION_FAILED: 'ANSWER_GENERATION_FAILED',
+  CONVERSATION_NOT_FOUND: 'CONVERSATION_NOT_FOUND',
 
   /* Database errors */
   DATABASE_ERROR: 'DATABASE_ERROR',
   DATABASE_CONNECTION_FAILED: 'DATABASE_CONNECTION_FAILED',
   DATABASE_QUERY_FAILED: 'DATABASE_QUERY_FAILED',
+  DATABASE_MAINTENANCE_IN_PROGRESS: 'DATABASE_MAINTENANCE_IN_PROGRESS',
 
   /* External service errors */
   EXTERNAL_SERVICE_ERROR: 'EXTERNAL_SERVICE_ERROR',
   HUGGINGFACE_API_ERROR: 'HUGGINGFACE_API_ERROR',
   REDIS_CONNECTION_FAILED: 'REDIS_CONNECTION_FAILED',
 
+  /* Authentication/Authorization errors */
+  AUTH_REQUIRED: 'AUTH_REQUIRED',
+  AUTH_INVALID_CREDENTIALS: 'AUTH_INVALID_CREDENTIALS',
+  AUTH_INVALID_TOKEN: 'AUTH_INVALID_TOKEN',
+  AUTH_FORBIDDEN: 'AUTH_FORBIDDEN',
+  AUTH_EMAIL_TAKEN: 'AUTH_EMAIL_TAKEN',
+
   /* Validation errors */
   VALIDATION_ERROR: 'VALIDATION_ERROR',
   INVALID_INPUT: 'INVALID_INPUT',
   MISSING_REQUIRED_FIELD: 'MISSING_REQUIRED_FIELD',
 
+  /* Configuration errors */
+  CONFIGURATION_ERROR: 'CONFIGURATION_ERROR',
+
   // Generic errors
   INTERNAL_SERVER_ERROR: 'INTERNAL_SERVER_ERROR',
   SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',
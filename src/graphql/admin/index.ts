@@ -0,0 +1,4 @@
+import { adminResolver } from './resolvers/AdminResolver.ts';
+import { typeDefs } from './schemas/index.ts';
+
+export { adminResolver, typeDefs };
@@ -0,0 +1,311 @@
+import { IndexOptimizer } from '../../../utils/index-optmizer.ts';
+import type { IndexStats, VectorIndexParams } from '../../../utils/index-optmizer.ts';
+import type { VectorIndexType } from '../../../config/environment.ts';
+import type { MaintenanceRun } from '../../../models/MaintenanceRun.ts';
+import { maintenanceService } from '../../../services/MaintenanceService.ts';
+import type { EmbeddingModel } from '../../../models/EmbeddingModel.ts';
+import { embeddingModelService } from '../../../services/EmbeddingModelService.ts';
+import { embeddingCache } from '../../../services/embeddings/index.ts';
+import type { EmbeddingCacheStats } from '../../../services/embeddings/index.ts';
+import type {
+  EmbeddingMigrationProgress,
+  EmbeddingModelInput,
+} from '../../../services/EmbeddingModelService.ts';
+
+import { logError } from '../../../utils/errorHandler.ts';
+import { AppError } from '../../../errors/AppError.ts';
+import { MaintenanceInProgressError, ValidationError } from '../../../errors/DomainErrors.ts';
+import { GraphQLContext, requireRole } from '../../context.ts';
+
+interface VectorIndexStats {
+  rowCount: number;
+  type: VectorIndexType | null;
+  lists: number | null;
+  recommendedLists: number;
+  m: number | null;
+  efConstruction: number | null;
+  size: string;
+  usage: string;
+  valid: boolean;
+  needsOptimization: boolean;
+  buildPhase: string | null;
+  buildProgress: number | null;
+}
+
+/* Transform to match GraphQL schema */
+async function toVectorIndexStats(stats: IndexStats): Promise<VectorIndexStats> {
+  return {
+    rowCount: stats.rowCount,
+    type: stats.indexType,
+    lists: stats.currentLists,
+    recommendedLists: stats.recommendedLists,
+    m: stats.m,
+    efConstruction: stats.efConstruction,
+    size: stats.indexSize,
+    usage: stats.indexUsage,
+    valid: stats.isValid,
+    needsOptimization: await IndexOptimizer.needsOptimization(stats),
+    buildPhase: stats.build?.phase ?? null,
+    buildProgress: stats.build?.progress ?? null,
+  };
+}
+
+/* Rebuild the vector index, surfacing unexpected failures as a generic error */
+async function rebuild(params: Partial<VectorIndexParams>): Promise<VectorIndexStats> {
+  try {
+    return await toVectorIndexStats(await IndexOptimizer.rebuildIndex(params));
+  } catch (err) {
+    if (err instanceof AppError) {
+      throw err;
+    }
+
+    logError(err instanceof Error ? err : new Error(String(err)), {
+      operation: 'rebuildVectorIndex',
+      params,
+    });
+    throw new Error('Failed to rebuild the vector index. Please try again later.');
+  }
+}
+
+/* Run an embedding model operation, surfacing unexpected failures as a generic error */
+async function migrate<T>(operation: string, failure: string, work: () => Promise<T>): Promise<T> {
+  try {
+    return await work();
+  } catch (err) {
+    if (err instanceof AppError) {
+      throw err;
+    }
+
+    logError(err instanceof Error ? err : new Error(String(err)), { operation });
+    throw new Error(`${failure} Please try again later.`);
+  }
+}
+
+/**
+ * Implement all GraphQL queries and mutations for administration
+ */
+export const adminResolver = {
+  /* Map GraphQL enum values to the index access methods */
+  VectorIndexType: {
+    IVFFLAT: 'ivfflat',
+    HNSW: 'hnsw',
+  },
+
+  MaintenanceTrigger: {
+    SCHEDULE: 'schedule',
+    INGESTION: 'ingestion',
+    MANUAL: 'manual',
+  },
+
+  MaintenanceRunStatus: {
+    RUNNING: 'running',
+    COMPLETED: 'completed',
+    FAILED: 'failed',
+  },
+
+  MaintenanceTaskStatus: {
+    COMPLETED: 'completed',
+    SKIPPED: 'skipped',
+    FAILED: 'failed',
+  },
+
+  EmbeddingProvider: {
+    HUGGINGFACE: 'huggingface',
+    OPENAI: 'openai',
+    OPENAI_COMPATIBLE: 'openai-compatible',
+    HASHING: 'hashing',
+  },
+
+  EmbeddingModelStatus: {
+    ACTIVE: 'active',
+    BACKFILLING: 'backfilling',
+    RETIRED: 'retired',
+    CANCELLED: 'cancelled',
+  },
+
+  Query: {
+    /* Statistics of the vector index */
+    async vectorIndexStats(
+      _: unknown,
+      __: unknown,
+      context: GraphQLContext
+    ): Promise<VectorIndexStats> {
+      requireRole(context, 'admin');
+
+      try {
+        return await toVectorIndexStats(await IndexOptimizer.getIndexStats());
+      } catch (err) {
+        logError(err instanceof Error ? err : new Error(String(err)), {
+          operation: 'vectorIndexStats',
+        });
+        throw new Error('Failed to retrieve vector index statistics. Please try again later.');
+      }
+    },
+
+    /* Maintenance run history */
+    async maintenanceRuns(
+      _: unknown,
+      { limit }: { limit: number },
+      context: GraphQLContext
+    ): Promise<MaintenanceRun[]> {
+      requireRole(context, 'admin');
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+        throw new ValidationError('"limit" must be between 1 and 100', 'limit', limit);
+      }
+
+      try {
+        return await maintenanceService.listRuns(limit);
+      } catch (err) {
+        if (err instanceof AppError) {
+          throw err;
+        }
+
+        logError(err instanceof Error ? err : new Error(String(err)), {
+          operation: 'maintenanceRuns',
+        });
+        throw new Error('Failed to retrieve maintenance runs. Please try again later.');
+      }
+    },
+
+    /* Embedding models, most recent first */
+    async embeddingModels(
+      _: unknown,
+      __: unknown,
+      context: GraphQLContext
+    ): Promise<EmbeddingModel[]> {
+      requireRole(context, 'admin');
+
+      return migrate('embeddingModels', 'Failed to retrieve embedding models.', () =>
+        embeddingModelService.listModels()
+      );
+    },
+
+    /* Progress of the embedding model migration in progress */
+    async embeddingMigration(
+      _: unknown,
+      __: unknown,
+      context: GraphQLContext
+    ): Promise<EmbeddingMigrationProgress | null> {
+      requireRole(context, 'admin');
+
+      return migrate('embeddingMigration', 'Failed to retrieve the embedding migration.', () =>
+        embeddingModelService.getMigration()
+      );
+    },
+
+    /* Hit rates and size of the embedding cache */
+    embeddingCacheStats(_: unknown, __: unknown, context: GraphQLContext): EmbeddingCacheStats {
+      requireRole(context, 'admin');
+
+      return embeddingCache.getStats();
+    },
+  },
+
+  Mutation: {
+    /* Rebuild the vector index concurrently */
+    async rebuildVectorIndex(
+      _: unknown,
+      { input }: { input?: Partial<VectorIndexParams> | null },
+      context: GraphQLContext
+    ): Promise<VectorIndexStats> {
+      requireRole(context, 'admin');
+
+      return rebuild(
+        Object.fromEntries(Object.entries(input ?? {}).filter(([, value]) => value != null))
+      );
+    },
+
+    /* Rebuild the vector index as another type */
+    async switchVectorIndexType(
+      _: unknown,
+      { type }: { type: VectorIndexType },
+      context: GraphQLContext
+    ): Promise<VectorIndexStats> {
+      requireRole(context, 'admin');
+
+      return rebuild({ type });
+    },
+
+    /* Run database maintenance now */
+    async runMaintenance(
+      _: unknown,
+      __: unknown,
+      context: GraphQLContext
+    ): Promise<MaintenanceRun> {
+      requireRole(context, 'admin');
+
+      let run: MaintenanceRun | null;
+      try {
+        run = await maintenanceService.runMaintenance('manual');
+      } catch (err) {
+        if (err instanceof AppError) {
+          throw err;
+        }
+
+        logError(err instanceof Error ? err : new Error(String(err)), {
+          operation: 'runMaintenance',
+        });
+        throw new Error('Failed to run maintenance. Please try again later.');
+      }
+
+      if (!run) {
+        throw new MaintenanceInProgressError();
+      }
+      return run;
+    },
+
+    /* Start re-embedding the corpus with another model */
+    async startEmbeddingMigration(
+      _: unknown,
+      {
+        input,
+      }: {
+        input: Omit<EmbeddingModelInput, 'baseUrl' | 'autoCutover'> & {
+          baseUrl?: string | null;
+          autoCutover?: boolean | null;
+        };
+      },
+      context: GraphQLContext
+    ): Promise<EmbeddingMigrationProgress> {
+      requireRole(context, 'admin');
+
+      const { baseUrl, autoCutover, ...model } = input;
+      return migrate('startEmbeddingMigration', 'Failed to start the embedding migration.', () =>
+        embeddingModelService.startMigration({
+          ...model,
+          ...(baseUrl ? { baseUrl } : {}),
+          ...(autoCutover != null ? { autoCutover } : {}),
+        })
+      );
+    },
+
+    /* Switch search to the migrated model */
+    async cutoverEmbeddingMigration(
+      _: unknown,
+      __: unknown,
+      context: GraphQLContext
+    ): Promise<EmbeddingModel> {
+      requireRole(context, 'admin');
+
+      return migrate(
+        'cutoverEmbeddingMigration',
+        'Failed to cut over to the embedding model.',
+        () => embeddingModelService.cutover()
+      );
+    },
+
+    /* Abandon the migration in progress */
+    async cancelEmbeddingMigration(
+      _: unknown,
+      __: unknown,
+      context: GraphQLContext
+    ): Promise<EmbeddingModel> {
+      requireRole(context, 'admin');
+
+      return migrate('cancelEmbeddingMigration', 'Failed to cancel the embedding migration.', () =>
+        embeddingModelService.cancelMigration()
+      );
+    },
+  },
+};
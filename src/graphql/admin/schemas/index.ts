@@ -0,0 +1,209 @@
+export const typeDefs = `#graphql
+  enum VectorIndexType {
+    """ Clusters vectors into lists; build it once the table holds representative data """
+    IVFFLAT
+    """ Proximity graph; better recall/speed trade-off, slower to build """
+    HNSW
+  }
+
+  """ Approximate nearest-neighbour index on the chunk embeddings """
+  type VectorIndexStats {
+    rowCount: Int!
+    """ Null when there is no index """
+    type: VectorIndexType
+    """ IVFFlat clusters """
+    lists: Int
+    """ Lists suggested for the current row count """
+    recommendedLists: Int!
+    """ HNSW neighbours per node """
+    m: Int
+    """ HNSW candidate list size while building """
+    efConstruction: Int
+    size: String!
+    usage: String!
+    """ False while an index build is unfinished, or after it failed """
+    valid: Boolean!
+    needsOptimization: Boolean!
+    """ Phase of the index build running on the chunks table, if any """
+    buildPhase: String
+    """ Fraction of the running index build done, between 0 and 1 """
+    buildProgress: Float
+  }
+
+  input VectorIndexInput {
+    """ Defaults to the current index type """
+    type: VectorIndexType
+    """ IVFFlat only; defaults to the recommended lists """
+    lists: Int
+    """ HNSW only; defaults to the deployment setting """
+    m: Int
+    """ HNSW only; at least twice m """
+    efConstruction: Int
+  }
+
+  enum MaintenanceTrigger {
+    SCHEDULE
+    """ Ingestion burst that just drained from the queue """
+    INGESTION
+    MANUAL
+  }
+
+  enum MaintenanceRunStatus {
+    RUNNING
+    COMPLETED
+    """ At least one task failed, or the run was interrupted """
+    FAILED
+  }
+
+  enum MaintenanceTaskStatus {
+    COMPLETED
+    """ Nothing to do, e.g. the index didn't need a rebuild """
+    SKIPPED
+    FAILED
+  }
+
+  type MaintenanceTaskResult {
+    """ prune_orphans, vacuum or index """
+    task: String!
+    status: MaintenanceTaskStatus!
+    durationMs: Int!
+    """ What the task found and did """
+    details: JSON!
+    error: String
+  }
+
+  """ Background database maintenance run """
+  type MaintenanceRun {
+    id: ID!
+    trigger: MaintenanceTrigger!
+    status: MaintenanceRunStatus!
+    tasks: [MaintenanceTaskResult!]!
+    error: String
+    """ Process that ran it """
+    workerId: String!
+    startedAt: DateTime!
+    finishedAt: DateTime
+  }
+
+  enum EmbeddingProvider {
+    HUGGINGFACE
+    OPENAI
+    OPENAI_COMPATIBLE
+    """ Offline feature hashing, for tests """
+    HASHING
+  }
+
+  enum EmbeddingModelStatus {
+    """ Used by search """
+    ACTIVE
+    """ Being migrated to; its embeddings are backfilled next to the active ones """
+    BACKFILLING
+    """ Replaced by a migration; its embeddings were dropped """
+    RETIRED
+    CANCELLED
+  }
+
+  """ Embedding model the corpus is or was embedded with """
+  type EmbeddingModel {
+    id: ID!
+    provider: EmbeddingProvider!
+    model: String!
+    dimensions: Int!
+    baseUrl: String
+    status: EmbeddingModelStatus!
+    """ Switch to the model as soon as its backfill completes """
+    autoCutover: Boolean!
+    """ Last backfill failure """
+    error: String
+    createdAt: DateTime!
+    activatedAt: DateTime
+    retiredAt: DateTime
+  }
+
+  """ Re-embedding of the corpus with another model; search uses the active model until the cutover """
+  type EmbeddingMigration {
+    active: EmbeddingModel!
+    target: EmbeddingModel!
+    totalChunks: Int!
+    """ Chunks that already have an embedding of the target model """
+    embeddedChunks: Int!
+    """ Fraction of the chunks backfilled, between 0 and 1 """
+    progress: Float!
+  }
+
+  input EmbeddingModelInput {
+    provider: EmbeddingProvider!
+    model: String!
+    """ At most 2000, the largest vectors pgvector indexes """
+    dimensions: Int!
+    """ Required for OPENAI_COMPATIBLE """
+    baseUrl: String
+    """ Switch to the model as soon as its backfill completes; otherwise wait for cutoverEmbeddingMigration """
+    autoCutover: Boolean = true
+  }
+
+  type EmbeddingCacheLevelStats {
+    hits: Int!
+    misses: Int!
+    """ hits / (hits + misses), 0 before the first lookup """
+    hitRate: Float!
+  }
+
+  type EmbeddingMemoryCacheStats {
+    hits: Int!
+    misses: Int!
+    hitRate: Float!
+    entries: Int!
+    sizeBytes: Int!
+    """ Least recently used embeddings are evicted past this size """
+    maxSizeBytes: Int!
+    evictions: Int!
+  }
+
+  """ Embedding cache counters of this server since it started """
+  type EmbeddingCacheStats {
+    enabled: Boolean!
+    """ Lookups answered by either level """
+    hitRate: Float!
+    memory: EmbeddingMemoryCacheStats!
+    """ Only consulted on memory misses; shared between servers """
+    redis: EmbeddingCacheLevelStats!
+  }
+
+  extend type Query {
+    """ Statistics of the vector index (admin only) """
+    vectorIndexStats: VectorIndexStats!
+
+    """ Maintenance runs, most recent first (admin only) """
+    maintenanceRuns(limit: Int = 20): [MaintenanceRun!]!
+
+    """ Embedding models, most recent first (admin only) """
+    embeddingModels: [EmbeddingModel!]!
+
+    """ Backfill progress of the embedding model migration in progress, if any (admin only) """
+    embeddingMigration: EmbeddingMigration
+
+    """ Hit rates and size of the chunk and query embedding cache (admin only) """
+    embeddingCacheStats: EmbeddingCacheStats!
+  }
+
+  extend type Mutation {
+    """ Build a replacement vector index concurrently and swap it in; searches keep using the current index meanwhile (admin only) """
+    rebuildVectorIndex(input: VectorIndexInput): VectorIndexStats!
+
+    """ Rebuild the vector index as another type, with that type's default parameters (admin only) """
+    switchVectorIndexType(type: VectorIndexType!): VectorIndexStats!
+
+    """ Prune orphaned chunks, vacuum the chunks table and rebuild the vector index if it drifted, now (admin only) """
+    runMaintenance: MaintenanceRun!
+
+    """ Start re-embedding the corpus with another model in the background (admin only) """
+    startEmbeddingMigration(input: EmbeddingModelInput!): EmbeddingMigration!
+
+    """ Switch search to the migrated model once its backfill is complete, and drop the previous embeddings (admin only) """
+    cutoverEmbeddingMigration: EmbeddingModel!
+
+    """ Abandon the migration in progress and drop its embeddings (admin only) """
+    cancelEmbeddingMigration: EmbeddingModel!
+  }
+`;
@@ -0,0 +1,4 @@
+import { authResolver } from './resolvers/AuthResolver.ts';
+import { typeDefs } from './schemas/index.ts';
+
+export { authResolver, typeDefs };
@@ -0,0 +1,81 @@
+import { authService, AuthResult, CreatedApiKey } from '../../../services/AuthService.ts';
+import type { User, RegisterInput, LoginInput } from '../../../models/User.ts';
+import type { ApiKey } from '../../../models/ApiKey.ts';
+import { GraphQLContext, requireAuth } from '../../context.ts';
+
+import { ValidationError } from '../../../errors/DomainErrors.ts';
+
+/**
+ * Implement all GraphQL queries and mutations for authentication
+ */
+export const authResolver = {
+  /* Map GraphQL enum values to the values stored in the database */
+  UserRole: {
+    USER: 'user',
+    ADMIN: 'admin',
+  },
+
+  Query: {
+    /* Get the authenticated user */
+    async me(_: unknown, __: unknown, context: GraphQLContext): Promise<User | null> {
+      if (!context.principal) {
+        return null;
+      }
+
+      return authService.getUser(context.principal.userId);
+    },
+
+    /* List API keys of the authenticated user */
+    async apiKeys(_: unknown, __: unknown, context: GraphQLContext): Promise<ApiKey[]> {
+      const principal = requireAuth(context);
+      return authService.listApiKeys(principal.userId);
+    },
+  },
+
+  Mutation: {
+    async register(_: unknown, { input }: { input: RegisterInput }): Promise<AuthResult> {
+      if (!input) {
+        throw new ValidationError('Registration input is required');
+      }
+
+      return authService.register(input);
+    },
+
+    async login(_: unknown, { input }: { input: LoginInput }): Promise<AuthResult> {
+      if (!input) {
+        throw new ValidationError('Login input is required');
+      }
+
+      return authService.login(input);
+    },
+
+    async refreshToken(
+      _: unknown,
+      { refreshToken }: { refreshToken: string }
+    ): Promise<AuthResult> {
+      if (!refreshToken || refreshToken.trim().length === 0) {
+        throw new ValidationError('Refresh token is required', 'refreshToken');
+      }
+
+      return authService.refreshToken(refreshToken);
+    },
+
+    async createApiKey(
+      _: unknown,
+      { name }: { name: string },
+      context: GraphQLContext
+    ): Promise<CreatedApiKey> {
+      const principal = requireAuth(context);
+      return authService.createApiKey(principal.userId, name);
+    },
+
+    async revokeApiKey(
+      _: unknown,
+      { id }: { id: string },
+      context: GraphQLContext
+    ): Promise<boolean> {
+      const principal = requireAuth(context);
+      return authService.revokeApiKey(principal.userId, id);
+    },
+  },
+};
@@ -0,0 +1,74 @@
+export const typeDefs = `#graphql
+  enum UserRole {
+    USER
+    ADMIN
+  }
+
+  type User {
+    id: ID!
+    email: String!
+    name: String
+    role: UserRole!
+    createdAt: DateTime!
+  }
+
+  type AuthPayload {
+    accessToken: String!
+    refreshToken: String!
+    """ Lifetime of the access token (e.g. "7d") """
+    expiresIn: String!
+    user: User!
+  }
+
+  type ApiKey {
+    id: ID!
+    name: String!
+    """ First characters of the key, to tell keys apart """
+    prefix: String!
+    lastUsedAt: DateTime
+    revokedAt: DateTime
+    createdAt: DateTime!
+  }
+
+  type CreatedApiKey {
+    apiKey: ApiKey!
+    """ The plain API key. It is only shown once. """
+    key: String!
+  }
+
+  input RegisterInput {
+    email: String!
+    password: String!
+    name: String
+  }
+
+  input LoginInput {
+    email: String!
+    password: String!
+  }
+
+  extend type Query {
+    """ The authenticated user """
+    me: User
+
+    """ List the API keys of the authenticated user """
+    apiKeys: [ApiKey!]!
+  }
+
+  extend type Mutation {
+    """ Create an account """
+    register(input: RegisterInput!): AuthPayload!
+
+    """ Sign in with email and password """
+    login(input: LoginInput!): AuthPayload!
+
+    """ Exchange a refresh token for new tokens """
+    refreshToken(refreshToken: String!): AuthPayload!
+
+    """ Create an API key for the authenticated user """
+    createApiKey(name: String!): CreatedApiKey!
+
+    """ Revoke an API key of the authenticated user """
+    revokeApiKey(id: ID!): Boolean!
+  }
+`;
@@ -0,0 +1,60 @@
+import express from 'express';
+
+import { authService, Principal } from '../services/AuthService.ts';
+import { AuthenticationRequiredError, ForbiddenError } from '../errors/DomainErrors.ts';
+import { AppError } from '../errors/AppError.ts';
+import { createLoaders, Loaders } from './loaders.ts';
+
+/* GraphQL context shape (built in index.ts for HTTP requests and subscriptions) */
+export interface GraphQLContext {
+  req?: express.Request;
+  res?: express.Response;
+  principal: Principal | null;
+  /* Set when credentials were sent but rejected; raised by requireAuth */
+  authError?: AppError;
+  loaders: Loaders;
+}
+
+/**
+ * Build the context of an operation from its credentials
+ * Invalid credentials don't fail the whole request so public operations (login, register) still work
+ */
+export async function createContext(
+  headers: Parameters<typeof authService.authenticate>[0],
+  base: Pick<GraphQLContext, 'req' | 'res'> = {}
+): Promise<GraphQLContext> {
+  const loaders = createLoaders();
+
+  try {
+    return { ...base, principal: await authService.authenticate(headers), loaders };
+  } catch (err) {
+    if (err instanceof AppError) {
+      return { ...base, principal: null, authError: err, loaders };
+    }
+    throw err;
+  }
+}
+
+/* Get the authenticated principal or reject the operation */
+export function requireAuth(context: GraphQLContext): Principal {
+  if (context?.authError) {
+    throw context.authError;
+  }
+
+  if (!context?.principal) {
+    throw new AuthenticationRequiredError();
+  }
+
+  return context.principal;
+}
+
+/* Get the authenticated principal and check it has the given role */
+export function requireRole(context: GraphQLContext, role: Principal['role']): Principal {
+  const principal = requireAuth(context);
+
+  if (principal.role !== role) {
+    throw new ForbiddenError();
+  }
+
+  return principal;
+}
@@ -0,0 +1,4 @@
+import { conversationResolver } from './resolvers/ConversationResolver.ts';
+import { typeDefs } from './schemas/index.ts';
+
+export { conversationResolver, typeDefs };
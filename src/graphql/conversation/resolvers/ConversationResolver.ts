@@ -0,0 +1,132 @@
+import { Conversation } from '../../../models/Conversation.ts';
+import type {
+  StartConversationInput,
+  AskInConversationInput,
+} from '../../../models/Conversation.ts';
+import type { ConversationMessage } from '../../../models/ConversationMessage.ts';
+import { conversationService, ConversationTurn } from '../../../services/ConversationService.ts';
+
+import { ValidationError } from '../../../errors/DomainErrors.ts';
+import { logError } from '../../../utils/errorHandler.ts';
+import { AppError } from '../../../errors/AppError.ts';
+import { GraphQLContext, requireAuth } from '../../context.ts';
+
+/**
+ * Implement all GraphQL queries and mutations for conversations
+ */
+export const conversationResolver = {
+  /* Map GraphQL enum values to the values stored in the database */
+  ConversationRole: {
+    USER: 'user',
+    ASSISTANT: 'assistant',
+  },
+
+  Conversation: {
+    async messages(conversation: Conversation): Promise<ConversationMessage[]> {
+      return conversation.messages ?? conversationService.getMessages(conversation.id);
+    },
+  },
+
+  Query: {
+    /* Get a single conversation by id */
+    async conversation(
+      _: unknown,
+      { id }: { id: string },
+      context: GraphQLContext
+    ): Promise<Conversation | null> {
+      const principal = requireAuth(context);
+
+      if (!id || id.trim().length === 0) {
+        throw new ValidationError('Conversation ID is required', 'id', id);
+      }
+
+      try {
+        return await conversationService.getConversation(id, principal.userId);
+      } catch (err) {
+        if (err instanceof AppError) {
+          throw err;
+        }
+
+        logError(err instanceof Error ? err : new Error(String(err)), {
+          operation: 'conversation',
+          conversationId: id,
+        });
+        throw new Error('Failed to retrieve conversation. Please try again later.');
+      }
+    },
+
+    /* List conversations */
+    async conversations(
+      _: unknown,
+      { limit }: { limit?: number },
+      context: GraphQLContext
+    ): Promise<Conversation[]> {
+      const principal = requireAuth(context);
+
+      if (limit !== undefined && limit !== null && (limit < 1 || limit > 100)) {
+        throw new ValidationError('Limit must be between 1 and 100', 'limit', limit);
+      }
+
+      return conversationService.listConversations(principal.userId, limit ?? undefined);
+    },
+  },
+
+  Mutation: {
+    /* Start a new conversation */
+    async startConversation(
+      _: unknown,
+      { input }: { input?: StartConversationInput },
+      context: GraphQLContext
+    ): Promise<Conversation> {
+      const principal = requireAuth(context);
+      return conversationService.startConversation(principal.userId, input ?? {});
+    },
+
+    /* Ask a question in a conversation */
+    async askInConversation(
+      _: unknown,
+      { input }: { input: AskInConversationInput },
+      context: GraphQLContext
+    ): Promise<ConversationTurn> {
+      const principal = requireAuth(context);
+
+      if (!input) {
+        throw new ValidationError('Conversation input is required');
+      }
+
+      if (!input.conversationId || input.conversationId.trim().length === 0) {
+        throw new ValidationError(
+          'Conversation ID is required',
+          'conversationId',
+          input.conversationId
+        );
+      }
+
+      if (
+        input.maxSources !== undefined &&
+        input.maxSources !== null &&
+        (input.maxSources < 1 || input.maxSources > 20)
+      ) {
+        throw new ValidationError(
+          'Max sources must be between 1 and 20',
+          'maxSources',
+          input.maxSources
+        );
+      }
+
+      try {
+        return await conversationService.askInConversation(principal.userId, input);
+      } catch (err) {
+        if (err instanceof AppError) {
+          throw err;
+        }
+
+        logError(err instanceof Error ? err : new Error(String(err)), {
+          operation: 'askInConversation',
+          conversationId: input.conversationId,
+        });
+        throw new Error('Failed to answer question. Please try again later.');
+      }
+    },
+  },
+};
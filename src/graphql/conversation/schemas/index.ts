@@ -0,0 +1,65 @@
+export const typeDefs = `#graphql
+  enum ConversationRole {
+    USER
+    ASSISTANT
+  }
+
+  type ConversationMessage {
+    id: ID!
+    role: ConversationRole!
+    content: String!
+    """ User messages: the question rewritten to be understood without the conversation """
+    standaloneQuestion: String
+    """ Assistant messages: the document chunks the answer is based on """
+    sources: [QASource!]
+    citations: [Citation!]
+    unsupportedSentences: [AnswerSpan!]
+    model: String
+    usage: TokenUsage
+    createdAt: DateTime!
+  }
+
+  type Conversation {
+    id: ID!
+    title: String
+    """ Every answer of the conversation only uses this document """
+    documentId: ID
+    messages: [ConversationMessage!]!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  type ConversationTurn {
+    conversation: Conversation!
+    question: ConversationMessage!
+    answer: ConversationMessage!
+  }
+
+  input StartConversationInput {
+    title: String
+    documentId: ID
+  }
+
+  input AskInConversationInput {
+    conversationId: ID!
+    question: String!
+    maxSources: Int
+    generation: GenerationOptionsInput
+  }
+
+  extend type Query {
+    """ Retrieve a conversation with its messages """
+    conversation(id: ID!): Conversation
+
+    """ List conversations, most recently active first """
+    conversations(limit: Int): [Conversation!]!
+  }
+
+  extend type Mutation {
+    """ Start a new conversation """
+    startConversation(input: StartConversationInput): Conversation!
+
+    """ Ask a question, using the previous turns of the conversation as context """
+    askInConversation(input: AskInConversationInput!): ConversationTurn!
+  }
+`;
@@ -1,5 +1,3 @@
-import express from 'express';
-
 import { AppDataSource } from '../../../config/data-source.ts';
 import { Document } from '../../../models/Document.ts';
 import { DocumentChunk } from '../../../models/DocumentChunk.ts';
@@ -10,15 +8,46 @@ import type {
 } from '../../../models/Document.ts';
 import { logger } from '../../../utils/logger.ts';
 import { DateTimeScalar } from '../../../graphql/scalars/DateTime.ts';
+import { JSONScalar } from '../../../graphql/scalars/JSON.ts';
 import { documentProcessingService } from '../../../services/DocumentProcessingService.ts';
+import type { ReindexOptions, ReindexResult } from '../../../services/DocumentProcessingService.ts';
+import { ingestionQueueService } from '../../../services/IngestionQueueService.ts';
+import { IngestionJob } from '../../../models/IngestionJob.ts';
 import { env } from '../../../config/environment.ts';
 import { Readable } from 'node:stream';
 import { FileUpload, GraphQLUpload } from 'graphql-upload-ts';
 import { searchService, SearchResult } from '../../../services/SearchService.ts';
-import { qaService, QAAnswer } from '../../../services/QAService.ts';
+import type {
+  DocumentSearchResult,
+  ScoreAggregation,
+  SearchOptions,
+  SimilarDocument,
+} from '../../../services/SearchService.ts';
+import type { FusionOptions, SearchFilter } from '../../../services/search/index.ts';
+import { qaService, QAAnswer, QAStreamEvent } from '../../../services/QAService.ts';
+import type { GenerationOptions } from '../../../services/completions/index.ts';
+import { resolveChunkingOptions } from '../../../services/chunking/index.ts';
+import type { ChunkingOptions } from '../../../services/chunking/index.ts';
+import { detectMimeType } from '../../../services/extraction/index.ts';
+import { batchUploadService } from '../../../services/BatchUploadService.ts';
+import type { BatchUploadReport, UploadedFile } from '../../../services/BatchUploadService.ts';
+import { documentListService } from '../../../services/DocumentListService.ts';
+import { documentVersionService } from '../../../services/DocumentVersionService.ts';
+import { duplicateDetectionService } from '../../../services/DuplicateDetectionService.ts';
+import type { DuplicateCluster } from '../../../services/DuplicateDetectionService.ts';
+import type { DuplicatePolicy, SearchRecall } from '../../../config/environment.ts';
+import type { DocumentEnrichment } from '../../../services/EnrichmentService.ts';
+import type { DocumentVersion } from '../../../models/DocumentVersion.ts';
+import type {
+  DocumentListFilter,
+  DocumentListOptions,
+  DocumentSummary,
+  Page,
+} from '../../../services/DocumentListService.ts';
 
 import {
   DocumentNotFoundError,
+  DocumentVersionNotFoundError,
   UnsupportedFileTypeError,
   FileTooLargeError,
   ValidationError,
@@ -26,6 +55,7 @@ import {
 } from '../../../errors/DomainErrors.ts';
 import { logError } from '../../../utils/errorHandler.ts';
 import { AppError } from '../../../errors/AppError.ts';
+import { GraphQLContext, requireAuth } from '../../context.ts';
 
 /* Helper: stream -> buffer */
 async function streamToBuffer(stream: Readable): Promise<Buffer> {
@@ -37,10 +67,179 @@ async function streamToBuffer(stream: Readable): Promise<Buffer> {
   return Buffer.concat(chunks);
 }
 
-/* GraphQL context shape (what we pass from index.ts) */
-interface GraphQLContext {
-  req: express.Request;
-  res: express.Response;
+/* Drop unset chunking fields and reject invalid ones before any file is read */
+function readChunkingOptions(
+  chunking: Partial<ChunkingOptions> | null | undefined
+): Partial<ChunkingOptions> | undefined {
+  if (!chunking) {
+    return undefined;
+  }
+
+  const chunkingOptions = Object.fromEntries(
+    Object.entries(chunking).filter(([, value]) => value != null)
+  );
+  resolveChunkingOptions(chunkingOptions);
+  return chunkingOptions;
+}
+
+/* Adapt a multipart upload for the batch upload service */
+async function toUploadedFile(file: Promise<FileUpload>): Promise<UploadedFile> {
+  const { createReadStream, filename, mimetype } = await file;
+  if (!createReadStream) {
+    throw new ValidationError('File stream is not available');
+  }
+  if (!filename || filename.trim().length === 0) {
+    throw new ValidationError('File name is required');
+  }
+
+  return {
+    fileName: filename,
+    declaredMimeType: mimetype,
+    read: () => streamToBuffer(createReadStream()),
+  };
+}
+
+/* Relay connection of a page; totalCount is resolved only when selected */
+interface Connection<T> {
+  edges: Page<T>['edges'];
+  pageInfo: {
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+    startCursor: string | null;
+    endCursor: string | null;
+  };
+}
+
+interface DocumentConnection extends Connection<DocumentSummary> {
+  ownerId: string;
+  filter: DocumentListFilter;
+}
+
+interface DocumentChunkConnection extends Connection<DocumentChunk> {
+  documentId: string;
+}
+
+function toConnection<T>(page: Page<T>): Connection<T> {
+  return {
+    edges: page.edges,
+    pageInfo: {
+      hasNextPage: page.hasNextPage,
+      hasPreviousPage: page.hasPreviousPage,
+      startCursor: page.edges[0]?.cursor ?? null,
+      endCursor: page.edges.at(-1)?.cursor ?? null,
+    },
+  };
+}
+
+/* Map a streamed answer frame to the QAStreamEvent GraphQL type */
+function toQAStreamEventPayload(event: QAStreamEvent): Record<string, unknown> {
+  switch (event.type) {
+    case 'token':
+      return { type: 'TOKEN', delta: event.delta };
+    case 'sources':
+      return { type: 'SOURCES', sources: event.sources };
+    case 'citations':
+      return {
+        type: 'CITATIONS',
+        citations: event.citations,
+        unsupportedSentences: event.unsupportedSentences,
+      };
+    case 'done':
+      return { type: 'DONE', model: event.model, usage: event.usage };
+  }
+}
+
+interface SearchInput {
+  question: string;
+  limit: number;
+  threshold: number;
+  documentId: string;
+  filter?: SearchFilter | null;
+  language?: string | null;
+  versionId?: string | null;
+  hybrid?: boolean;
+  fusion?: Partial<FusionOptions> | null;
+  rerank?: boolean | null;
+  rerankCandidates?: number | null;
+  recall?: SearchRecall | null;
+}
+
+/* Validate a search input and turn it into search options for the caller */
+function readSearchOptions(
+  input: SearchInput | null | undefined,
+  ownerId: string
+): { question: string; options: SearchOptions } {
+  if (!input) {
+    throw new ValidationError('Search input is required');
+  }
+  const {
+    question,
+    limit,
+    threshold,
+    documentId,
+    filter,
+    language,
+    versionId,
+    hybrid = false,
+    fusion,
+    rerank,
+    rerankCandidates,
+    recall,
+  } = input;
+
+  if (!question || question.trim().length === 0) {
+    throw new InvalidSearchQueryError(question);
+  }
+
+  if (limit !== undefined && (limit < 1 || limit > 100)) {
+    throw new ValidationError('Search limit must be between 1 and 100', 'limit', limit);
+  }
+
+  if (threshold !== undefined && (threshold < 0 || threshold > 1)) {
+    throw new ValidationError(
+      'Similarity threshold must be between 0 and 1',
+      'threshold',
+      threshold
+    );
+  }
+
+  if (rerankCandidates != null && (rerankCandidates < 1 || rerankCandidates > 200)) {
+    throw new ValidationError(
+      'Rerank candidates must be between 1 and 200',
+      'rerankCandidates',
+      rerankCandidates
+    );
+  }
+
+  return {
+    question,
+    options: {
+      ownerId,
+      limit,
+      threshold,
+      documentId,
+      ...(filter && { filter }),
+      ...(language && { language }),
+      ...(versionId && { versionId }),
+      ...(recall && { recall }),
+      /* Fusion only applies to hybrid search */
+      ...(hybrid && {
+        hybrid,
+        ...(fusion && {
+          fusion: Object.fromEntries(Object.entries(fusion).filter(([, value]) => value != null)),
+        }),
+      }),
+      ...(rerank && { rerank, ...(rerankCandidates != null && { rerankCandidates }) }),
+    },
+  };
+}
+
+interface QAInput {
+  question: string;
+  maxSources?: number;
+  documentId?: string;
+  generation?: GenerationOptions;
+  rerank?: boolean | null;
 }
 
 /**
@@ -49,14 +248,131 @@ interface GraphQLContext {
 export const documentResolver = {
   /* Scalars */
   DateTime: DateTimeScalar,
+  JSON: JSONScalar,
   Upload: GraphQLUpload,
 
+  /* Map GraphQL enum values to the values used by the services */
+  BatchUploadItemStatus: {
+    QUEUED: 'queued',
+    FAILED: 'failed',
+  },
+
+  Retriever: {
+    VECTOR: 'vector',
+    TEXT: 'text',
+  },
+
+  FusionMethod: {
+    RRF: 'rrf',
+    LINEAR: 'linear',
+  },
+
+  MetadataScope: {
+    DOCUMENT: 'document',
+    CHUNK: 'chunk',
+  },
+
+  DocumentOrderField: {
+    CREATED_AT: 'createdAt',
+    UPDATED_AT: 'updatedAt',
+    TITLE: 'title',
+  },
+
+  SortDirection: {
+    ASC: 'asc',
+    DESC: 'desc',
+  },
+
+  SearchRecall: {
+    FAST: 'fast',
+    BALANCED: 'balanced',
+    HIGH: 'high',
+  },
+
+  ScoreAggregation: {
+    MAX: 'max',
+    MEAN: 'mean',
+    SUM: 'sum',
+  },
+
+  DuplicatePolicy: {
+    REJECT: 'reject',
+    LINK: 'link',
+    NEW_VERSION: 'new_version',
+  },
+
+  Document: {
+    /* Listings leave content out; load it only for documents whose content is selected */
+    content(
+      document: Partial<DocumentType>,
+      _: unknown,
+      context: GraphQLContext
+    ): Promise<string | null> | string | null {
+      return document.content !== undefined
+        ? document.content
+        : context.loaders.documentContent.load(document.id!);
+    },
+
+    enrichment(document: DocumentType): DocumentEnrichment | null {
+      return (document.metadata?.enrichment as DocumentEnrichment | undefined) ?? null;
+    },
+
+    chunkCount(document: DocumentType, _: unknown, context: GraphQLContext): Promise<number> {
+      return context.loaders.chunkCount.load(document.id);
+    },
+
+    async chunks(
+      document: DocumentType,
+      { first = 20, after }: { first?: number; after?: string | null },
+      context: GraphQLContext
+    ): Promise<DocumentChunkConnection> {
+      if (first < 1 || first > 100) {
+        throw new ValidationError('"first" must be between 1 and 100', 'first', first);
+      }
+
+      const page = await context.loaders.chunkPage.load({
+        documentId: document.id,
+        first,
+        ...(after && { after }),
+      });
+      return { ...toConnection(page), documentId: document.id };
+    },
+  },
+
+  DocumentConnection: {
+    totalCount(connection: DocumentConnection): Promise<number> {
+      return documentListService.countDocuments(connection.ownerId, connection.filter);
+    },
+  },
+
+  DocumentChunkConnection: {
+    totalCount(
+      connection: DocumentChunkConnection,
+      _: unknown,
+      context: GraphQLContext
+    ): Promise<number> {
+      return context.loaders.chunkCount.load(connection.documentId);
+    },
+  },
+
+  /* Map GraphQL enum values to the strategy names stored in document metadata */
+  ChunkingStrategy: {
+    FIXED: 'fixed',
+    RECURSIVE: 'recursive',
+    MARKDOWN_HEADING: 'markdown-heading',
+    SENTENCE: 'sentence',
+    TOKEN: 'token',
+  },
+
   Query: {
     /* Get all documents */
-    async getDocuments(): Promise<DocumentType[]> {
+    async getDocuments(_: unknown, __: unknown, context: GraphQLContext): Promise<DocumentType[]> {
+      const principal = requireAuth(context);
+
       try {
         const documentRepository = AppDataSource.getRepository(Document);
         const documents = await documentRepository.find({
+          where: { ownerId: principal.userId },
           order: {
             createdAt: 'DESC',
           },
@@ -69,7 +385,9 @@ export const documentResolver = {
           filePath: doc.filePath,
           fileType: doc.fileType,
           content: doc.content,
+          language: doc.language ?? null,
           metadata: doc.metadata || null,
+          contentHash: doc.contentHash ?? null,
           createdAt: doc.createdAt,
           updatedAt: doc.updatedAt,
         }));
@@ -81,8 +399,43 @@ export const documentResolver = {
       }
     },
 
+    /* List documents a page at a time */
+    async documents(
+      _: unknown,
+      { first, after, orderBy, filter }: DocumentListOptions,
+      context: GraphQLContext
+    ): Promise<DocumentConnection> {
+      const principal = requireAuth(context);
+      const options: DocumentListOptions = {
+        ...(first != null && { first }),
+        ...(after && { after }),
+        ...(orderBy && { orderBy }),
+        ...(filter && { filter }),
+      };
+
+      try {
+        const page = await documentListService.listDocuments(principal.userId, options);
+        return { ...toConnection(page), ownerId: principal.userId, filter: filter ?? {} };
+      } catch (err) {
+        if (err instanceof AppError) {
+          throw err;
+        }
+
+        logError(err instanceof Error ? err : new Error(String(err)), {
+          operation: 'documents',
+        });
+        throw new Error('Failed to retrieve documents. Please try again later.');
+      }
+    },
+
     /* Get a single document by id */
-    async getDocument(_: unknown, { id }: { id: string }): Promise<DocumentType | null> {
+    async getDocument(
+      _: unknown,
+      { id }: { id: string },
+      context: GraphQLContext
+    ): Promise<DocumentType | null> {
+      const principal = requireAuth(context);
+
       if (!id || typeof id !== 'string' || id.trim().length === 0) {
         throw new ValidationError(
           'Document ID is required and must be a non-empty string',
@@ -94,7 +447,7 @@ export const documentResolver = {
       try {
         const documentRepository = AppDataSource.getRepository(Document);
         const document = await documentRepository.findOne({
-          where: { id },
+          where: { id, ownerId: principal.userId },
         });
 
         if (!document) {
@@ -108,7 +461,9 @@ export const documentResolver = {
           filePath: document.filePath,
           fileType: document.fileType,
           content: document.content,
+          language: document.language ?? null,
           metadata: document.metadata || null,
+          contentHash: document.contentHash ?? null,
           createdAt: document.createdAt,
           updatedAt: document.updatedAt,
         };
@@ -121,55 +476,90 @@ export const documentResolver = {
       }
     },
 
-    async search(
+    /* Clusters of duplicate documents */
+    async findDuplicates(
       _: unknown,
       {
-        input,
-      }: {
-        input: {
-          question: string;
-          limit: number;
-          threshold: number;
-          documentId: string;
-          hybrid?: boolean;
-        };
-      }
-    ): Promise<SearchResult[]> {
-      if (!input) {
-        throw new ValidationError('Search input is required');
+        maxDistance,
+        minSimilarity,
+      }: { maxDistance?: number | null; minSimilarity?: number | null },
+      context: GraphQLContext
+    ): Promise<DuplicateCluster[]> {
+      const principal = requireAuth(context);
+
+      try {
+        return await duplicateDetectionService.findDuplicates(principal.userId, {
+          ...(maxDistance != null && { maxDistance }),
+          ...(minSimilarity != null && { minSimilarity }),
+        });
+      } catch (err) {
+        if (err instanceof AppError) {
+          throw err;
+        }
+
+        logError(err instanceof Error ? err : new Error(String(err)), {
+          operation: 'findDuplicates',
+        });
+        throw new Error('Failed to find duplicate documents. Please try again later.');
       }
-      const { question, limit, threshold, documentId, hybrid = false } = input;
+    },
 
-      if (!question || question.trim().length === 0) {
-        throw new InvalidSearchQueryError(question);
+    /* History of a document */
+    async documentVersions(
+      _: unknown,
+      { id }: { id: string },
+      context: GraphQLContext
+    ): Promise<DocumentVersion[]> {
+      const principal = requireAuth(context);
+
+      if (!id || id.trim().length === 0) {
+        throw new ValidationError('Document ID is required', 'id', id);
       }
 
-      if (limit !== undefined && (limit < 1 || limit > 100)) {
-        throw new ValidationError('Search limit must be between 1 and 100', 'limit', limit);
+      return documentVersionService.listVersions(id, principal.userId);
+    },
+
+    /* One version of a document, by number or by date */
+    async documentVersion(
+      _: unknown,
+      { id, versionNumber, at }: { id: string; versionNumber?: number | null; at?: Date | null },
+      context: GraphQLContext
+    ): Promise<DocumentVersion | null> {
+      const principal = requireAuth(context);
+
+      if (at != null) {
+        if (versionNumber != null) {
+          throw new ValidationError('Use either "versionNumber" or "at", not both');
+        }
+        return documentVersionService.getVersionAt(id, at, principal.userId);
       }
 
-      if (threshold !== undefined && (threshold < 0 || threshold > 1)) {
-        throw new ValidationError(
-          'Similarity threshold must be between 0 and 1',
-          'threshold',
-          threshold
-        );
+      if (versionNumber == null) {
+        throw new ValidationError('"versionNumber" or "at" is required');
       }
 
       try {
-        if (hybrid) {
-          return await searchService.hybridSearch(question, {
-            limit,
-            threshold,
-            documentId,
-          });
+        return await documentVersionService.getVersion(id, versionNumber, principal.userId);
+      } catch (err) {
+        if (err instanceof DocumentVersionNotFoundError) {
+          return null;
         }
+        throw err;
+      }
+    },
 
-        return await searchService.search(question, {
-          limit,
-          threshold,
-          documentId,
-        });
+    async search(
+      _: unknown,
+      { input }: { input: SearchInput },
+      context: GraphQLContext
+    ): Promise<SearchResult[]> {
+      const principal = requireAuth(context);
+      const { question, options } = readSearchOptions(input, principal.userId);
+
+      try {
+        return options.hybrid
+          ? await searchService.hybridSearch(question, options)
+          : await searchService.search(question, options);
       } catch (err) {
         if (err instanceof AppError) {
           throw err;
@@ -183,18 +573,81 @@ export const documentResolver = {
       }
     },
 
+    /* Search whole documents: chunk hits grouped by document */
+    async searchDocuments(
+      _: unknown,
+      { input, aggregation }: { input: SearchInput; aggregation?: ScoreAggregation | null },
+      context: GraphQLContext
+    ): Promise<DocumentSearchResult[]> {
+      const principal = requireAuth(context);
+      const { question, options } = readSearchOptions(input, principal.userId);
+
+      try {
+        return await searchService.searchDocuments(question, {
+          ...options,
+          ...(aggregation && { aggregation }),
+        });
+      } catch (err) {
+        if (err instanceof AppError) {
+          throw err;
+        }
+
+        logError(err instanceof Error ? err : new Error(String(err)), {
+          operation: 'searchDocuments',
+          input,
+        });
+        throw new Error('Document search failed. Please try again later.');
+      }
+    },
+
+    /* Documents most similar to a document */
+    async similarDocuments(
+      _: unknown,
+      { id, limit }: { id: string; limit?: number | null },
+      context: GraphQLContext
+    ): Promise<SimilarDocument[]> {
+      const principal = requireAuth(context);
+
+      if (!id || id.trim().length === 0) {
+        throw new ValidationError('Document ID is required', 'id', id);
+      }
+      if (limit != null && (limit < 1 || limit > 100)) {
+        throw new ValidationError('Limit must be between 1 and 100', 'limit', limit);
+      }
+
+      try {
+        return await searchService.similarDocuments(id, {
+          ownerId: principal.userId,
+          ...(limit != null && { limit }),
+        });
+      } catch (err) {
+        if (err instanceof AppError) {
+          throw err;
+        }
+
+        logError(err instanceof Error ? err : new Error(String(err)), {
+          operation: 'similarDocuments',
+          documentId: id,
+        });
+        throw new Error('Failed to find similar documents. Please try again later.');
+      }
+    },
+
     /**
      * Answer question using RAG
      */
     async answerQuestion(
       _: unknown,
-      { input }: { input: { question: string; maxSources: number; documentId: string } }
+      { input }: { input: QAInput },
+      context: GraphQLContext
     ): Promise<QAAnswer> {
+      const principal = requireAuth(context);
+
       if (!input) {
         throw new ValidationError('Q&A input is required');
       }
 
-      const { question, maxSources, documentId } = input;
+      const { question, maxSources, documentId, generation, rerank } = input;
 
       if (!question || question.trim().length === 0) {
         throw new ValidationError('Question cannot be empty', 'question', question);
@@ -210,22 +663,65 @@ export const documentResolver = {
 
       try {
         return await qaService.answerQuestion(question, {
-          maxSources,
+          ownerId: principal.userId,
+          ...(maxSources !== undefined && maxSources !== null && { maxSources }),
           documentId,
+          ...(generation && { generation }),
+          ...(typeof rerank === 'boolean' && { rerank }),
         });
       } catch (error) {
+        if (error instanceof AppError) {
+          throw error;
+        }
+
         logger.error('Error answering question:', error);
         throw new Error('Failed to answer question');
       }
     },
   },
 
+  Subscription: {
+    /**
+     * Stream an answer using RAG
+     * Emits TOKEN frames, then a SOURCES frame, then a DONE frame with token usage
+     */
+    answerQuestionStream: {
+      subscribe(
+        _: unknown,
+        { input }: { input: QAInput },
+        context: GraphQLContext
+      ): AsyncGenerator<QAStreamEvent> {
+        const principal = requireAuth(context);
+
+        if (!input) {
+          throw new ValidationError('Q&A input is required');
+        }
+
+        const { question, maxSources, documentId, generation, rerank } = input;
+
+        return qaService.answerQuestionStream(question, {
+          ownerId: principal.userId,
+          ...(maxSources !== undefined && maxSources !== null && { maxSources }),
+          ...(documentId ? { documentId } : {}),
+          ...(generation && { generation }),
+          ...(typeof rerank === 'boolean' && { rerank }),
+        });
+      },
+      resolve(event: QAStreamEvent): Record<string, unknown> {
+        return toQAStreamEventPayload(event);
+      },
+    },
+  },
+
   Mutation: {
     /* Create a new document */
     async createDocument(
       _: unknown,
-      { input }: { input: CreateDocumentInput }
+      { input }: { input: CreateDocumentInput },
+      context: GraphQLContext
     ): Promise<DocumentType> {
+      const principal = requireAuth(context);
+
       try {
         const documentRepository = AppDataSource.getRepository(Document);
 
@@ -242,6 +738,7 @@ export const documentResolver = {
 
         /* Create document entity */
         const document = documentRepository.create({
+          ownerId: principal.userId,
           title: input.title,
           filePath: input.filePath ?? null,
           fileType: input.fileType ?? null,
@@ -250,10 +747,19 @@ export const documentResolver = {
         });
 
         /* Save to database */
-        const savedDocument = await documentRepository.save(document);
+        let savedDocument = await documentRepository.save(document);
 
         logger.info('Document created', { id: savedDocument.id, title: savedDocument.title });
 
+        /* Chunk and embed inline content so the document is searchable */
+        if (savedDocument.content?.trim()) {
+          ({ document: savedDocument } = await documentProcessingService.reindexDocument(
+            savedDocument.id
+          ));
+        } else {
+          await documentVersionService.recordVersion(savedDocument);
+        }
+
         /* Transform to match GraphQL schema */
         return {
           id: savedDocument.id,
@@ -261,11 +767,17 @@ export const documentResolver = {
           filePath: savedDocument.filePath,
           fileType: savedDocument.fileType,
           content: savedDocument.content,
+          language: savedDocument.language ?? null,
           metadata: savedDocument.metadata || null,
+          contentHash: savedDocument.contentHash ?? null,
           createdAt: savedDocument.createdAt,
           updatedAt: savedDocument.updatedAt,
         };
       } catch (err) {
+        if (err instanceof AppError) {
+          throw err;
+        }
+
         logger.error('Error creating document:', { input, err });
         throw new Error('Failed to create document');
       }
@@ -274,14 +786,17 @@ export const documentResolver = {
     /* Update an existing document */
     async updateDocument(
       _: unknown,
-      { id, input }: { id: string; input: UpdateDocumentInput }
+      { id, input }: { id: string; input: UpdateDocumentInput },
+      context: GraphQLContext
     ): Promise<DocumentType | null> {
+      const principal = requireAuth(context);
+
       try {
         const documentRepository = AppDataSource.getRepository(Document);
 
         /* Find document */
         const document = await documentRepository.findOne({
-          where: { id },
+          where: { id, ownerId: principal.userId },
         });
 
         if (!document) {
@@ -289,25 +804,45 @@ export const documentResolver = {
         }
 
         /* Update fields */
+        const changes: NonNullable<ReindexOptions['changes']> = {};
         if (input.title !== undefined) {
-          document.title = input.title;
+          changes.title = input.title;
         }
         if (input.filePath !== undefined) {
-          document.filePath = input.filePath;
+          changes.filePath = input.filePath;
         }
-        if (input.content !== undefined) {
-          document.content = input.content;
+        if (input.fileType !== undefined) {
+          changes.fileType = input.fileType;
         }
         if (input.metadata !== undefined) {
           try {
-            document.metadata = input.metadata ? JSON.parse(input.metadata) : {};
+            changes.metadata = input.metadata ? JSON.parse(input.metadata) : {};
           } catch (error) {
             logger.warn('Invalid metadata JSON, keeping existing metadata');
           }
         }
 
-        /* Save updated document */
-        const updatedDocument = await documentRepository.save(document);
+        const contentChanged = input.content !== undefined && input.content !== document.content;
+        let updatedDocument: Document;
+
+        if (contentChanged) {
+          changes.content = input.content;
+          /* Page and heading offsets described the old text */
+          changes.metadata = { ...(changes.metadata ?? document.metadata) };
+          delete changes.metadata.structure;
+
+          /* Re-chunk the new text; the edit is saved with the new chunks or not at all */
+          ({ document: updatedDocument } = await documentProcessingService.reindexDocument(
+            id,
+            principal.userId,
+            { changes }
+          ));
+        } else {
+          updatedDocument = await documentRepository.save(Object.assign(document, changes));
+          await documentVersionService.recordVersion(updatedDocument);
+          /* Cached results show the old title, and filters may match differently */
+          await searchService.invalidateDocument(id, principal.userId);
+        }
 
         logger.info('Document updated', { id });
 
@@ -318,18 +853,126 @@ export const documentResolver = {
           filePath: updatedDocument.filePath,
           fileType: updatedDocument.fileType,
           content: updatedDocument.content,
+          language: updatedDocument.language ?? null,
           metadata: updatedDocument.metadata || null,
+          contentHash: updatedDocument.contentHash ?? null,
           createdAt: updatedDocument.createdAt,
           updatedAt: updatedDocument.updatedAt,
         };
       } catch (err) {
+        if (err instanceof AppError) {
+          throw err;
+        }
+
         logger.error('Error updating document:', { id, input, err });
         throw new Error('Failed to update document');
       }
     },
 
+    /* Re-chunk a document and embed the chunks whose text changed */
+    async reindexDocument(
+      _: unknown,
+      { id }: { id: string },
+      context: GraphQLContext
+    ): Promise<ReindexResult> {
+      const principal = requireAuth(context);
+
+      if (!id || id.trim().length === 0) {
+        throw new ValidationError('Document ID is required', 'id', id);
+      }
+
+      try {
+        return await documentProcessingService.reindexDocument(id, principal.userId);
+      } catch (err) {
+        if (err instanceof AppError) {
+          throw err;
+        }
+
+        logError(err instanceof Error ? err : new Error(String(err)), {
+          operation: 'reindexDocument',
+          documentId: id,
+        });
+        throw new Error('Failed to re-index document. Please try again later.');
+      }
+    },
+
+    /* Restore an older version of a document */
+    async restoreDocumentVersion(
+      _: unknown,
+      { id, versionNumber }: { id: string; versionNumber: number },
+      context: GraphQLContext
+    ): Promise<ReindexResult> {
+      const principal = requireAuth(context);
+
+      if (!id || id.trim().length === 0) {
+        throw new ValidationError('Document ID is required', 'id', id);
+      }
+
+      try {
+        return await documentProcessingService.restoreVersion(id, versionNumber, principal.userId);
+      } catch (err) {
+        if (err instanceof AppError) {
+          throw err;
+        }
+
+        logError(err instanceof Error ? err : new Error(String(err)), {
+          operation: 'restoreDocumentVersion',
+          documentId: id,
+          versionNumber,
+        });
+        throw new Error('Failed to restore document version. Please try again later.');
+      }
+    },
+
+    /* Generate the enrichment of a document again */
+    async regenerateEnrichment(
+      _: unknown,
+      { id }: { id: string },
+      context: GraphQLContext
+    ): Promise<DocumentType> {
+      const principal = requireAuth(context);
+
+      if (!id || id.trim().length === 0) {
+        throw new ValidationError('Document ID is required', 'id', id);
+      }
+
+      try {
+        const document = await documentProcessingService.regenerateEnrichment(id, principal.userId);
+
+        /* Transform to match GraphQL schema */
+        return {
+          id: document.id,
+          title: document.title,
+          filePath: document.filePath,
+          fileType: document.fileType,
+          content: document.content,
+          language: document.language ?? null,
+          metadata: document.metadata || null,
+          contentHash: document.contentHash ?? null,
+          createdAt: document.createdAt,
+          updatedAt: document.updatedAt,
+        };
+      } catch (err) {
+        if (err instanceof AppError) {
+          throw err;
+        }
+
+        logError(err instanceof Error ? err : new Error(String(err)), {
+          operation: 'regenerateEnrichment',
+          documentId: id,
+        });
+        throw new Error('Failed to regenerate document enrichment. Please try again later.');
+      }
+    },
+
     /* Delete a document */
-    async deleteDocument(_: unknown, { id }: { id: string }): Promise<boolean> {
+    async deleteDocument(
+      _: unknown,
+      { id }: { id: string },
+      context: GraphQLContext
+    ): Promise<boolean> {
+      const principal = requireAuth(context);
+
       if (!id || typeof id !== 'string' || id.trim().length === 0) {
         throw new ValidationError(
           'Document ID is required and must be a non-empty string',
@@ -339,7 +982,7 @@ export const documentResolver = {
       }
 
       try {
-        const result = await documentProcessingService.deleteDocument(id);
+        const result = await documentProcessingService.deleteDocument(id, principal.userId);
 
         return result;
       } catch (err) {
@@ -355,11 +998,38 @@ export const documentResolver = {
       }
     },
 
-    /* Upload and process a document file */
+    /* Upload a document file and queue it for processing */
     async uploadDocument(
       _: unknown,
-      { file }: { file: Promise<FileUpload> }
-    ): Promise<DocumentType> {
+      {
+        file,
+        chunking,
+        documentId,
+        onDuplicate,
+      }: {
+        file: Promise<FileUpload>;
+        chunking?: Partial<ChunkingOptions> | null;
+        documentId?: string | null;
+        onDuplicate?: DuplicatePolicy | null;
+      },
+      context: GraphQLContext
+    ): Promise<IngestionJob> {
+      const principal = requireAuth(context);
+
+      /* Reject bad chunking options before reading the file */
+      const chunkingOptions = readChunkingOptions(chunking);
+
+      /* New versions can only be uploaded for documents of the caller */
+      if (
+        documentId &&
+        !(await AppDataSource.getRepository(Document).existsBy({
+          id: documentId,
+          ownerId: principal.userId,
+        }))
+      ) {
+        throw new DocumentNotFoundError(documentId);
+      }
+
       try {
         /* Validate upload object structure */
         if (!file) {
@@ -378,16 +1048,6 @@ export const documentResolver = {
         if (!filename || filename.trim().length === 0) {
           throw new ValidationError('File name is required');
         }
-        if (!mimetype) {
-          throw new Error(
-            'File MIME type not available. Please ensure the file is uploaded correctly with multipart/form-data.'
-          );
-        }
-
-        /* MIME/type validation */
-        if (!env.upload.allowedMimeTypes.includes(mimetype)) {
-          throw new UnsupportedFileTypeError(mimetype, env.upload.allowedMimeTypes);
-        }
 
         /* Stream -> buffer (for processing service) */
         const buffer = await streamToBuffer(createReadStream());
@@ -397,23 +1057,18 @@ export const documentResolver = {
           throw new FileTooLargeError(buffer.length, env.upload.maxFileSize);
         }
 
-        /* Process document (extract text, chunk, embed, save) */
-        const savedDocument = await documentProcessingService.processDocument(
-          buffer,
-          filename,
-          mimetype
-        );
+        /* MIME/type validation - sniffed from the content, the client-supplied type is only a hint */
+        const mimeType = await detectMimeType(buffer, filename, mimetype);
+        if (!env.upload.allowedMimeTypes.includes(mimeType)) {
+          throw new UnsupportedFileTypeError(mimeType, env.upload.allowedMimeTypes);
+        }
 
-        return {
-          id: savedDocument.id,
-          title: savedDocument.title,
-          filePath: savedDocument.filePath,
-          fileType: savedDocument.fileType,
-          content: savedDocument.content,
-          metadata: savedDocument.metadata || null,
-          createdAt: savedDocument.createdAt,
-          updatedAt: savedDocument.updatedAt,
-        };
+        /* Queue extraction, chunking and embedding - progress is tracked on the job */
+        return await ingestionQueueService.enqueue(buffer, filename, mimeType, principal.userId, {
+          chunking: chunkingOptions,
+          ...(documentId && { targetDocumentId: documentId }),
+          ...(onDuplicate && { duplicatePolicy: onDuplicate }),
+        });
       } catch (err) {
         if (err instanceof AppError) {
           throw err;
@@ -425,5 +1080,92 @@ export const documentResolver = {
         throw new Error('Failed to upload document. Please try again later.');
       }
     },
+
+    /* Upload a ZIP/TAR/TAR.GZ archive and queue every file inside it */
+    async uploadArchive(
+      _: unknown,
+      {
+        file,
+        chunking,
+        onDuplicate,
+      }: {
+        file: Promise<FileUpload>;
+        chunking?: Partial<ChunkingOptions> | null;
+        onDuplicate?: DuplicatePolicy | null;
+      },
+      context: GraphQLContext
+    ): Promise<BatchUploadReport> {
+      const principal = requireAuth(context);
+      const chunkingOptions = readChunkingOptions(chunking);
+
+      try {
+        if (!file) {
+          throw new ValidationError('File is required for upload');
+        }
+
+        return await batchUploadService.ingestArchive(
+          await toUploadedFile(file),
+          principal.userId,
+          chunkingOptions,
+          onDuplicate ?? undefined
+        );
+      } catch (err) {
+        if (err instanceof AppError) {
+          throw err;
+        }
+
+        logError(err instanceof Error ? err : new Error(String(err)), {
+          operation: 'uploadArchive',
+        });
+        throw new Error('Failed to upload archive. Please try again later.');
+      }
+    },
+
+    /* Upload several files (archives are expanded) and queue them all */
+    async uploadDocuments(
+      _: unknown,
+      {
+        files,
+        chunking,
+        onDuplicate,
+      }: {
+        files: Promise<FileUpload>[];
+        chunking?: Partial<ChunkingOptions> | null;
+        onDuplicate?: DuplicatePolicy | null;
+      },
+      context: GraphQLContext
+    ): Promise<BatchUploadReport> {
+      const principal = requireAuth(context);
+      const chunkingOptions = readChunkingOptions(chunking);
+
+      if (!files || files.length === 0) {
+        throw new ValidationError('At least one file is required for upload', 'files');
+      }
+      if (files.length > env.upload.maxFiles) {
+        throw new ValidationError(
+          `At most ${env.upload.maxFiles} files can be uploaded at once`,
+          'files',
+          files.length
+        );
+      }
+
+      try {
+        return await batchUploadService.ingestFiles(
+          await Promise.all(files.map(toUploadedFile)),
+          principal.userId,
+          chunkingOptions,
+          onDuplicate ?? undefined
+        );
+      } catch (err) {
+        if (err instanceof AppError) {
+          throw err;
+        }
+
+        logError(err instanceof Error ? err : new Error(String(err)), {
+          operation: 'uploadDocuments',
+        });
+        throw new Error('Failed to upload documents. Please try again later.');
+      }
+    },
   },
 };
@@ -1,6 +1,7 @@
 export const typeDefs = `#graphql
   scalar Upload
   scalar DateTime
+  scalar JSON
 
   type Document {
     id: ID!
@@ -8,9 +9,103 @@ export const typeDefs = `#graphql
     filePath: String
     fileType: String
     content: String
+    """ BCP 47 tag detected from the content, e.g. "pt" """
+    language: String
     metadata: String
+    """ SHA-256 of the content; documents with the same hash have identical text """
+    contentHash: String
+    """ Generated summary, keywords and entities; null until the document is enriched """
+    enrichment: DocumentEnrichment
     createdAt: DateTime!
     updatedAt: DateTime!
+    chunkCount: Int!
+    """ Chunks in document order """
+    chunks(first: Int = 20, after: String): DocumentChunkConnection!
+  }
+
+  type NamedEntity {
+    name: String!
+    """ person, organization, location, product, event or other """
+    type: String!
+  }
+
+  """ Description of a document generated by the completion provider """
+  type DocumentEnrichment {
+    title: String
+    summary: String!
+    keywords: [String!]!
+    topics: [String!]!
+    """ Language named by the model, e.g. "pt" """
+    language: String
+    entities: [NamedEntity!]!
+    model: String!
+    """ Parts a long document was summarized in before being described """
+    parts: Int!
+    generatedAt: DateTime!
+  }
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    """ True when the page was requested with an "after" cursor """
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  type DocumentEdge {
+    node: Document!
+    cursor: String!
+  }
+
+  type DocumentConnection {
+    edges: [DocumentEdge!]!
+    pageInfo: PageInfo!
+    """ Documents matching the filter, across all pages """
+    totalCount: Int!
+  }
+
+  type DocumentChunkEdge {
+    node: DocumentChunk!
+    cursor: String!
+  }
+
+  type DocumentChunkConnection {
+    edges: [DocumentChunkEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  enum DocumentOrderField {
+    CREATED_AT
+    UPDATED_AT
+    TITLE
+  }
+
+  enum SortDirection {
+    ASC
+    DESC
+  }
+
+  """ Defaults to CREATED_AT DESC """
+  input DocumentOrder {
+    field: DocumentOrderField
+    direction: SortDirection
+  }
+
+  """ All conditions set must hold """
+  input DocumentFilter {
+    """ Case-insensitive substring of the title """
+    titleContains: String
+    """ Full-text query over the title and the generated summary, keywords and topics """
+    search: String
+    """ MIME types """
+    fileTypes: [String!]
+    """ e.g. "pt" """
+    language: String
+    createdAt: DateRangeFilter
+    updatedAt: DateRangeFilter
+    """ Document metadata only """
+    metadata: [MetadataFilter!]
   }
 
   type DocumentChunk {
@@ -22,23 +117,151 @@ export const typeDefs = `#graphql
     createdAt: DateTime!
   }
 
+  enum Retriever {
+    """ Embedding similarity """
+    VECTOR
+    """ PostgreSQL full-text search """
+    TEXT
+  }
+
+  """ Where one retriever placed a search result """
+  type RetrieverHit {
+    retriever: Retriever!
+    """ 1-based position in the retriever's ranking """
+    rank: Int!
+    """ Cosine similarity (VECTOR) or ts_rank (TEXT) """
+    score: Float!
+  }
+
   type SearchResult {
     chunk: DocumentChunk!
     document: Document!
     similarity: Float!
+    """ Similarity for vector search, the fused score for hybrid search, the rerank score when reranked """
+    score: Float!
+    retrievers: [RetrieverHit!]!
+    rerankScore: Float
+  }
+
+  """ How the scores of a document's matching chunks combine into the document score """
+  enum ScoreAggregation {
+    """ Score of the best chunk """
+    MAX
+    MEAN
+    """ Favors documents with many matching chunks """
+    SUM
+  }
+
+  """ A document among the search hits """
+  type DocumentSearchResult {
+    document: Document!
+    """ Aggregated score of the document's matching chunks """
     score: Float!
+    """ Chunks of the document among the hits """
+    matchCount: Int!
+    """ Best-scoring chunk of the document """
+    bestMatch: SearchResult!
+    """ Text of the best-scoring chunk """
+    snippet: String!
+  }
+
+  type SimilarDocument {
+    document: Document!
+    """ Cosine similarity of the document embeddings (the mean of their chunk embeddings) """
+    similarity: Float!
   }
 
   type QASource {
+    """ Number the answer cites this source with, e.g. [1] """
+    marker: Int!
+    chunkId: ID!
     documentId: ID!
     documentTitle: String!
     chunkText: String!
     similarity: Float!
+    """ Character offsets of the chunk in the document content """
+    startOffset: Int
+    endOffset: Int
+  }
+
+  """ A sentence of the answer and its position in the answer """
+  type AnswerSpan {
+    text: String!
+    start: Int!
+    end: Int!
+  }
+
+  """ Ties a sentence of the answer to the source passage it cites """
+  type Citation {
+    marker: Int!
+    chunkId: ID!
+    documentId: ID!
+    """ Character offsets of the sentence in the answer """
+    answerStart: Int!
+    answerEnd: Int!
+    """ Character offsets of the cited passage in the document content """
+    sourceStart: Int
+    sourceEnd: Int
+    """ Share of the sentence's content words found in the passage (0-1) """
+    supportScore: Float!
+    supported: Boolean!
+  }
+
+  type TokenUsage {
+    promptTokens: Int!
+    completionTokens: Int!
+    totalTokens: Int!
+    """ True when the provider did not report usage and it was approximated """
+    estimated: Boolean!
   }
 
   type QAAnswer {
     answer: String!
     sources: [QASource!]!
+    citations: [Citation!]!
+    """ Sentences of the answer not backed by any cited source """
+    unsupportedSentences: [AnswerSpan!]!
+    """ Model that generated the answer; null when no relevant context was found """
+    model: String
+    usage: TokenUsage!
+  }
+
+  enum QAStreamEventType {
+    TOKEN
+    SOURCES
+    CITATIONS
+    DONE
+  }
+
+  """ A frame of a streamed answer: token deltas, then the sources, the citations, then a done frame """
+  type QAStreamEvent {
+    type: QAStreamEventType!
+    delta: String
+    sources: [QASource!]
+    citations: [Citation!]
+    unsupportedSentences: [AnswerSpan!]
+    model: String
+    usage: TokenUsage
+  }
+
+  enum ChunkingStrategy {
+    """ Fixed character window, cut back to a sentence or line end when possible """
+    FIXED
+    """ Paragraphs, then lines, sentences and words until pieces fit """
+    RECURSIVE
+    """ One section per chunk; chunks never span a heading """
+    MARKDOWN_HEADING
+    """ Whole sentences """
+    SENTENCE
+    """ Windows measured in tokenizer tokens """
+    TOKEN
+  }
+
+  input ChunkingOptionsInput {
+    strategy: ChunkingStrategy
+    """ Characters, or tokens for the TOKEN strategy """
+    chunkSize: Int
+    chunkOverlap: Int
   }
 
   input CreateDocumentInput {
@@ -57,18 +280,197 @@ export const typeDefs = `#graphql
     metadata: String
   }
 
+  enum MetadataScope {
+    """ Document.metadata """
+    DOCUMENT
+    """ DocumentChunk.metadata """
+    CHUNK
+  }
+
+  """ Condition on one metadata key; every operator that is set must hold """
+  input MetadataFilter {
+    """ Dots address nested keys, e.g. "author.name" """
+    key: String!
+    """ Defaults to DOCUMENT """
+    scope: MetadataScope
+    eq: JSON
+    """ Equal to any of the values """
+    in: [JSON!]
+    """ The array at the key holds the value (or every value of a list) """
+    contains: JSON
+    """ Range bounds compare numbers numerically and strings (e.g. ISO dates) lexically """
+    gt: JSON
+    gte: JSON
+    lt: JSON
+    lte: JSON
+    exists: Boolean
+  }
+
+  """ From (inclusive) to (exclusive) """
+  input DateRangeFilter {
+    from: DateTime
+    to: DateTime
+  }
+
+  """ All conditions set on one filter must hold; and/or/not combine nested filters """
+  input SearchFilter {
+    documentIds: [ID!]
+    """ MIME types """
+    fileTypes: [String!]
+    createdAt: DateRangeFilter
+    metadata: [MetadataFilter!]
+    and: [SearchFilter!]
+    or: [SearchFilter!]
+    not: SearchFilter
+  }
+
+  """ How exhaustively vector search scans the index: more recall is slower """
+  enum SearchRecall {
+    """ Index defaults (ivfflat.probes 1, hnsw.ef_search 40) """
+    FAST
+    BALANCED
+    HIGH
+  }
+
+  enum FusionMethod {
+    """ Reciprocal rank fusion: sum of weight / (k + rank) """
+    RRF
+    """ Weighted mean of min-max normalized retriever scores """
+    LINEAR
+  }
+
+  """ How hybrid search merges the vector and full-text rankings """
+  input FusionOptionsInput {
+    method: FusionMethod
+    """ RRF damping constant, 1 to 1000 """
+    rrfK: Int
+    vectorWeight: Float
+    textWeight: Float
+  }
+
   input SearchInput {
     question: String!
     limit: Int
     threshold: Float
     documentId: ID
+    filter: SearchFilter
+    """ Only documents in this language, e.g. "pt" """
+    language: String
+    """ Search the chunks of this document version (see documentVersions) instead of the current ones """
+    versionId: ID
     hybrid: Boolean
+    """ Hybrid search only """
+    fusion: FusionOptionsInput
+    """ Rescore the retrieved candidates with the configured reranker """
+    rerank: Boolean
+    """ Candidates retrieved for reranking, 1 to 200 """
+    rerankCandidates: Int
+    """ Defaults to the deployment setting """
+    recall: SearchRecall
+  }
+
+  """ Overrides of the deployment's generation settings """
+  input GenerationOptionsInput {
+    model: String
+    """ 0 to 2 """
+    temperature: Float
+    maxTokens: Int
+    """ Up to 4 stop sequences """
+    stop: [String!]
+    seed: Int
   }
 
   input QAInput {
     question: String!
     maxSources: Int
     documentId: ID
+    generation: GenerationOptionsInput
+    """ Rerank retrieved chunks before picking the sources; defaults to the deployment setting """
+    rerank: Boolean
+  }
+
+  """ A recorded state of a document: its content, metadata, chunks and embedding model """
+  type DocumentVersion {
+    id: ID!
+    documentId: ID!
+    """ Starts at 1 and increases with every change """
+    versionNumber: Int!
+    title: String!
+    filePath: String
+    fileType: String
+    content: String
+    language: String
+    metadata: JSON
+    """ Unknown for versions recorded before versioning existed """
+    embeddingProvider: String
+    embeddingModel: String
+    chunkCount: Int!
+    """ Set when this version was created by restoring an older one """
+    restoredFromVersion: Int
+    createdAt: DateTime!
+  }
+
+  type ReindexResult {
+    document: Document!
+    totalChunks: Int!
+    """ Chunks whose text changed and were embedded again """
+    embeddedChunks: Int!
+    """ Unchanged chunks that kept their embedding """
+    reusedChunks: Int!
+    """ Chunks of text that no longer exists """
+    deletedChunks: Int!
+  }
+
+  """ What an upload whose text duplicates an existing document does """
+  enum DuplicatePolicy {
+    """ Fail the ingestion job """
+    REJECT
+    """ Complete the job with the existing document """
+    LINK
+    """ Replace the content of the existing document, recording a new version """
+    NEW_VERSION
+  }
+
+  """ Two documents with identical or nearly identical text """
+  type DuplicatePair {
+    documentId: ID!
+    duplicateId: ID!
+    """ Identical text """
+    exact: Boolean!
+    """ Differing bits between the SimHashes of both texts """
+    simhashDistance: Int
+    """ Cosine similarity of the mean chunk embeddings of both documents """
+    similarity: Float
+  }
+
+  """ Documents that duplicate each other, directly or through other documents of the cluster """
+  type DuplicateCluster {
+    documents: [Document!]!
+    pairs: [DuplicatePair!]!
+  }
+
+  enum BatchUploadItemStatus {
+    QUEUED
+    FAILED
+  }
+
+  """ Outcome of one file of a batch upload """
+  type BatchUploadItem {
+    """ File name, or archive name followed by the path inside the archive """
+    path: String!
+    status: BatchUploadItemStatus!
+    """ Detected MIME type """
+    mimeType: String
+    job: IngestionJob
+    errorCode: String
+    errorMessage: String
+  }
+
+  type BatchUploadReport {
+    total: Int!
+    queued: Int!
+    failed: Int!
+    items: [BatchUploadItem!]!
   }
 
   type File {
@@ -79,14 +481,42 @@ export const typeDefs = `#graphql
 
   type Query {
     """ list all documents """
-    getDocuments: [Document!]!
+    getDocuments: [Document!]! @deprecated(reason: "Use documents, which is paginated")
+
+    """ List documents a page at a time; content is only loaded when selected """
+    documents(
+      """ 1 to 100 """
+      first: Int = 20
+      after: String
+      orderBy: DocumentOrder
+      filter: DocumentFilter
+    ): DocumentConnection!
 
     """ Retrieve one document based on its Id """
     getDocument(id: ID!): Document
 
+    """ Clusters of duplicate documents, largest first; unset thresholds use the deployment defaults """
+    findDuplicates(
+      """ SimHash bits near-duplicates may differ by, at most 6 """
+      maxDistance: Int
+      minSimilarity: Float
+    ): [DuplicateCluster!]!
+
+    """ History of a document, newest version first """
+    documentVersions(id: ID!): [DocumentVersion!]!
+
+    """ One version of a document, by number or the one that was current at a point in time """
+    documentVersion(id: ID!, versionNumber: Int, at: DateTime): DocumentVersion
+
     """ Perform semantic search """
     search(input: SearchInput!): [SearchResult!]!
 
+    """ Search whole documents: chunk hits grouped by document, best first; limit counts documents """
+    searchDocuments(input: SearchInput!, aggregation: ScoreAggregation = MAX): [DocumentSearchResult!]!
+
+    """ Documents most similar to a document ("more like this") """
+    similarDocuments(id: ID!, limit: Int = 10): [SimilarDocument!]!
+
     """ Answer a question using RAG """
     answerQuestion(input: QAInput!): QAAnswer!
   }
@@ -95,16 +525,51 @@ export const typeDefs = `#graphql
     """ Create a new document """
     createDocument(input: CreateDocumentInput!): Document!
 
-    """ Update a document """
+    """ Update a document; changed content is re-chunked and re-embedded """
     updateDocument(id: ID!, input: UpdateDocumentInput!): Document
 
+    """ Re-chunk a document and embed the chunks whose text changed """
+    reindexDocument(id: ID!): ReindexResult!
+
+    """ Bring a document back to the state of an older version, recorded as a new version """
+    restoreDocumentVersion(id: ID!, versionNumber: Int!): ReindexResult!
+
+    """ Generate the summary, keywords, title and entities of a document again """
+    regenerateEnrichment(id: ID!): Document!
+
     """ Delete a document """
     deleteDocument(id: ID!): Boolean!
 
     """ Perform semantic search """
     search(input: SearchInput!): [SearchResult!]!
 
-    """ Upload and process a document file """
-    uploadDocument(file: Upload!): Document!
+    """ Upload a document file (PDF, Markdown, TXT, DOCX, HTML, CSV/TSV, JSON, EPUB, RTF) and queue it for processing; returns the ingestion job """
+    uploadDocument(
+      file: Upload!
+      chunking: ChunkingOptionsInput
+      """ Upload a new version of this document instead of creating one """
+      documentId: ID
+      """ When the file duplicates an existing document; defaults to the deployment policy """
+      onDuplicate: DuplicatePolicy
+    ): IngestionJob!
+
+    """ Queue every file of a ZIP, TAR or TAR.GZ archive; the path inside the archive is kept as filePath """
+    uploadArchive(
+      file: Upload!
+      chunking: ChunkingOptionsInput
+      onDuplicate: DuplicatePolicy
+    ): BatchUploadReport!
+
+    """ Queue several files at once; archives among them are expanded """
+    uploadDocuments(
+      files: [Upload!]!
+      chunking: ChunkingOptionsInput
+      onDuplicate: DuplicatePolicy
+    ): BatchUploadReport!
+  }
+
+  type Subscription {
+    """ Answer a question using RAG, streaming the answer token by token """
+    answerQuestionStream(input: QAInput!): QAStreamEvent!
   }
 `;
@@ -0,0 +1,4 @@
+import { ingestionResolver } from './resolvers/IngestionResolver.ts';
+import { typeDefs } from './schemas/index.ts';
+
+export { ingestionResolver, typeDefs };
@@ -0,0 +1,163 @@
+import { AppDataSource } from '../../../config/data-source.ts';
+import { Document } from '../../../models/Document.ts';
+import type { Document as DocumentType } from '../../../models/Document.ts';
+import { IngestionJob } from '../../../models/IngestionJob.ts';
+import type { IngestionJobStatus } from '../../../models/IngestionJob.ts';
+import { ingestionQueueService } from '../../../services/IngestionQueueService.ts';
+
+import { IngestionJobNotFoundError, ValidationError } from '../../../errors/DomainErrors.ts';
+import { logError } from '../../../utils/errorHandler.ts';
+import { AppError } from '../../../errors/AppError.ts';
+import { GraphQLContext, requireAuth } from '../../context.ts';
+
+const TERMINAL_STATUSES: IngestionJobStatus[] = ['completed', 'failed'];
+
+/* Load a job visible to the given user */
+async function getOwnedJob(jobId: string, ownerId: string): Promise<IngestionJob | null> {
+  const job = await ingestionQueueService.getJob(jobId);
+  return job && job.ownerId === ownerId ? job : null;
+}
+
+/**
+ * Implement all GraphQL queries and subscriptions for ingestion jobs
+ */
+export const ingestionResolver = {
+  /* Map GraphQL enum values to the values stored in the database */
+  IngestionJobStatus: {
+    QUEUED: 'queued',
+    RUNNING: 'running',
+    COMPLETED: 'completed',
+    FAILED: 'failed',
+  },
+
+  IngestionStage: {
+    QUEUED: 'queued',
+    EXTRACTING: 'extracting',
+    CHUNKING: 'chunking',
+    EMBEDDING: 'embedding',
+    ENRICHING: 'enriching',
+    FINALIZING: 'finalizing',
+    DONE: 'done',
+  },
+
+  IngestionJob: {
+    progress(job: IngestionJob): number {
+      if (job.status === 'completed') {
+        return 1;
+      }
+      return job.totalChunks > 0 ? job.processedChunks / job.totalChunks : 0;
+    },
+
+    async document(job: IngestionJob): Promise<DocumentType | null> {
+      if (!job.documentId) {
+        return null;
+      }
+
+      const document = await AppDataSource.getRepository(Document).findOneBy({
+        id: job.documentId,
+      });
+
+      if (!document) {
+        return null;
+      }
+
+      /* Transform to match GraphQL schema */
+      return {
+        id: document.id,
+        title: document.title,
+        filePath: document.filePath,
+        fileType: document.fileType,
+        content: document.content,
+        language: document.language ?? null,
+        metadata: document.metadata || null,
+        contentHash: document.contentHash ?? null,
+        createdAt: document.createdAt,
+        updatedAt: document.updatedAt,
+      };
+    },
+  },
+
+  Query: {
+    /* Get a single ingestion job by id */
+    async ingestionJob(
+      _: unknown,
+      { id }: { id: string },
+      context: GraphQLContext
+    ): Promise<IngestionJob | null> {
+      const principal = requireAuth(context);
+
+      if (!id || id.trim().length === 0) {
+        throw new ValidationError('Ingestion job ID is required', 'id', id);
+      }
+
+      try {
+        return await getOwnedJob(id, principal.userId);
+      } catch (err) {
+        if (err instanceof AppError) {
+          throw err;
+        }
+
+        logError(err instanceof Error ? err : new Error(String(err)), {
+          operation: 'ingestionJob',
+          jobId: id,
+        });
+        throw new Error('Failed to retrieve ingestion job. Please try again later.');
+      }
+    },
+
+    /* List ingestion jobs */
+    async ingestionJobs(
+      _: unknown,
+      { status, limit }: { status?: IngestionJobStatus; limit?: number },
+      context: GraphQLContext
+    ): Promise<IngestionJob[]> {
+      const principal = requireAuth(context);
+
+      if (limit !== undefined && limit !== null && (limit < 1 || limit > 200)) {
+        throw new ValidationError('Limit must be between 1 and 200', 'limit', limit);
+      }
+
+      return ingestionQueueService.listJobs({
+        ownerId: principal.userId,
+        ...(status && { status }),
+        ...(limit && { limit }),
+      });
+    },
+  },
+
+  Subscription: {
+    /**
+     * Follow an ingestion job
+     * Emits the current state right away, then every update until the job completes or fails
+     */
+    ingestionJobProgress: {
+      async *subscribe(
+        _: unknown,
+        { id }: { id: string },
+        context: GraphQLContext
+      ): AsyncGenerator<IngestionJob> {
+        const principal = requireAuth(context);
+
+        const job = await getOwnedJob(id, principal.userId);
+        if (!job) {
+          throw new IngestionJobNotFoundError(id);
+        }
+
+        yield job;
+        if (TERMINAL_STATUSES.includes(job.status)) {
+          return;
+        }
+
+        for await (const update of ingestionQueueService.watch(job)) {
+          yield update;
+          if (TERMINAL_STATUSES.includes(update.status)) {
+            return;
+          }
+        }
+      },
+      resolve(job: IngestionJob): IngestionJob {
+        return job;
+      },
+    },
+  },
+};
@@ -0,0 +1,55 @@
+export const typeDefs = `#graphql
+  enum IngestionJobStatus {
+    QUEUED
+    RUNNING
+    COMPLETED
+    FAILED
+  }
+
+  enum IngestionStage {
+    QUEUED
+    EXTRACTING
+    CHUNKING
+    EMBEDDING
+    ENRICHING
+    FINALIZING
+    DONE
+  }
+
+  type IngestionJob {
+    id: ID!
+    status: IngestionJobStatus!
+    stage: IngestionStage!
+    documentId: ID
+    document: Document
+    """ Existing document the file duplicated; see DuplicatePolicy for what became of the upload """
+    duplicateOfId: ID
+    duplicatePolicy: DuplicatePolicy
+    fileName: String!
+    mimeType: String!
+    fileSize: Int!
+    processedChunks: Int!
+    totalChunks: Int!
+    """ Fraction of chunks embedded so far, between 0 and 1 """
+    progress: Float!
+    error: String
+    attempts: Int!
+    maxAttempts: Int!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    completedAt: DateTime
+  }
+
+  extend type Query {
+    """ Retrieve one ingestion job based on its Id """
+    ingestionJob(id: ID!): IngestionJob
+
+    """ List ingestion jobs, most recent first """
+    ingestionJobs(status: IngestionJobStatus, limit: Int): [IngestionJob!]!
+  }
+
+  extend type Subscription {
+    """ Follow the progress of an ingestion job until it completes or fails """
+    ingestionJobProgress(id: ID!): IngestionJob!
+  }
+`;
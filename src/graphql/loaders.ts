@@ -0,0 +1,25 @@
+import DataLoader from 'dataloader';
+
+import type { DocumentChunk } from '../models/DocumentChunk.ts';
+import { documentListService } from '../services/DocumentListService.ts';
+import type { ChunkPageKey, Page } from '../services/DocumentListService.ts';
+
+/**
+ * Per-operation DataLoaders
+ * Fields resolved once per document of a list are batched into a single query per field
+ */
+export interface Loaders {
+  documentContent: DataLoader<string, string | null>;
+  chunkCount: DataLoader<string, number>;
+  chunkPage: DataLoader<ChunkPageKey, Page<DocumentChunk>, string>;
+}
+
+export function createLoaders(): Loaders {
+  return {
+    documentContent: new DataLoader((ids) => documentListService.getContents(ids)),
+    chunkCount: new DataLoader((ids) => documentListService.countChunks(ids)),
+    chunkPage: new DataLoader((keys) => documentListService.listChunks(keys), {
+      cacheKeyFn: ({ documentId, first, after }) => `${documentId}:${first}:${after ?? ''}`,
+    }),
+  };
+}
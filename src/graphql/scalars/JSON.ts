@@ -0,0 +1,47 @@
+import { GraphQLScalarType, Kind } from 'graphql';
+import type { ValueNode } from 'graphql';
+
+/* Convert an inline literal (string, number, boolean, null, list or object) to its JSON value */
+function parseJSONLiteral(ast: ValueNode, variables?: Record<string, unknown> | null): unknown {
+  switch (ast.kind) {
+    case Kind.STRING:
+    case Kind.BOOLEAN:
+      return ast.value;
+    case Kind.INT:
+    case Kind.FLOAT:
+      return Number(ast.value);
+    case Kind.NULL:
+      return null;
+    case Kind.LIST:
+      return ast.values.map((value) => parseJSONLiteral(value, variables));
+    case Kind.OBJECT:
+      return Object.fromEntries(
+        ast.fields.map((field) => [field.name.value, parseJSONLiteral(field.value, variables)])
+      );
+    case Kind.VARIABLE:
+      return variables?.[ast.name.value];
+    default:
+      throw new Error(`JSON scalar cannot parse ${ast.kind} literals`);
+  }
+}
+
+/**
+ * JSON scalar for GraphQL
+ * Carries arbitrary JSON values, e.g. metadata values in search filters
+ */
+export const JSONScalar = new GraphQLScalarType({
+  name: 'JSON',
+  description: 'Any JSON value',
+
+  serialize(value: unknown): unknown {
+    return value;
+  },
+
+  parseValue(value: unknown): unknown {
+    return value;
+  },
+
+  parseLiteral(ast, variables): unknown {
+    return parseJSONLiteral(ast, variables);
+  },
+});
@@ -1,7 +1,7 @@
 import 'reflect-metadata';
 import http from 'http';
 import express from 'express';
-import { ApolloServer } from '@apollo/server';
+import { ApolloServer, GraphQLServerListener } from '@apollo/server';
 import { expressMiddleware } from '@as-integrations/express5';
 import { ApolloServerPluginLandingPageLocalDefault } from '@apollo/server/plugin/landingPage/default';
 import { ApolloServerPluginDrainHttpServer } from '@apollo/server/plugin/drainHttpServer';
@@ -9,13 +9,30 @@ import cors from 'cors';
 import helmet from 'helmet';
 import { graphqlUploadExpress } from 'graphql-upload-ts';
 import bodyParser from 'body-parser';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { WebSocketServer } from 'ws';
+import { useServer } from 'graphql-ws/use/ws';
 
 import { env } from './config/environment.ts';
 import { logger } from './utils/logger.ts';
 import { typeDefs, documentResolver } from './graphql/document/index.ts';
+import { typeDefs as ingestionTypeDefs, ingestionResolver } from './graphql/ingestion/index.ts';
+import { typeDefs as authTypeDefs, authResolver } from './graphql/auth/index.ts';
+import {
+  typeDefs as conversationTypeDefs,
+  conversationResolver,
+} from './graphql/conversation/index.ts';
+import { typeDefs as adminTypeDefs, adminResolver } from './graphql/admin/index.ts';
+import { createContext, GraphQLContext } from './graphql/context.ts';
 import { initializeDatabase, closeDatabase, AppDataSource } from './config/data-source.ts';
+import { redisClient } from './config/redis.ts';
 import { IndexOptimizer } from './utils/index-optmizer.ts';
 import { formatGraphQLError } from './graphql/errors/formatError.ts';
+import { qaStreamRouter } from './routes/qaStream.ts';
+import { ingestionWorker } from './services/IngestionWorker.ts';
+import { maintenanceScheduler } from './services/MaintenanceScheduler.ts';
+import { embeddingModelService } from './services/EmbeddingModelService.ts';
+import { embeddingBackfillWorker } from './services/EmbeddingBackfillWorker.ts';
 
 /* Main entrypoint */
 async function server(): Promise<void> {
@@ -24,11 +41,47 @@ async function server(): Promise<void> {
     logger.info('Initializing database connection...');
     await initializeDatabase();
 
+    /* Search results and embeddings are cached in Redis; the server runs without it */
+    await redisClient.connect();
+
+    /* Fail fast if the embedding provider doesn't match the vector column, and serve the recorded model */
+    await embeddingModelService.initialize();
+
     const app = express();
-    const resolvers = documentResolver;
+    const schema = makeExecutableSchema({
+      typeDefs: [typeDefs, ingestionTypeDefs, authTypeDefs, conversationTypeDefs, adminTypeDefs],
+      resolvers: [
+        documentResolver,
+        ingestionResolver,
+        authResolver,
+        conversationResolver,
+        adminResolver,
+      ],
+    });
 
     const httpServer = http.createServer(app);
 
+    /* WebSocket server for GraphQL subscriptions (graphql-ws protocol) */
+    const wsServer = new WebSocketServer({
+      server: httpServer,
+      path: '/graphql',
+    });
+    const wsServerCleanup = useServer(
+      {
+        schema,
+        /* Subscriptions authenticate through the connection_init payload */
+        context: async (ctx): Promise<GraphQLContext> => {
+          const params = ctx.connectionParams ?? {};
+          return createContext({
+            authorization:
+              typeof params.authorization === 'string' ? params.authorization : undefined,
+            'x-api-key': typeof params.apiKey === 'string' ? params.apiKey : undefined,
+          });
+        },
+      },
+      wsServer
+    );
+
     app.use((req, res, next) => {
       /* Skip JSON parsing for multipart requests */
       if (req.is('multipart/form-data')) {
@@ -70,12 +123,13 @@ async function server(): Promise<void> {
     app.get('/health/index', async (req, res) => {
       try {
         const stats = await IndexOptimizer.getIndexStats();
-        const needsOptimization = await IndexOptimizer.needsOptimization();
+        const needsOptimization = await IndexOptimizer.needsOptimization(stats);
 
         res.json({
           status: 'ok',
           index: {
             rowCount: stats.rowCount,
+            type: stats.indexType,
             currentLists: stats.currentLists,
             recommendedLists: stats.recommendedLists,
             indexSize: stats.indexSize,
@@ -90,6 +144,16 @@ async function server(): Promise<void> {
       }
     });
 
+    /* Streaming Q&A endpoint (Server-Sent Events) */
+    app.use(
+      '/qa',
+      cors<cors.CorsRequest>({
+        origin: env.NODE_ENV === 'production' ? process.env.ALLOWED_ORIGINS?.split(',') || [] : '*',
+        credentials: true,
+      }),
+      qaStreamRouter
+    );
+
     /* Info endpoint */
     app.get('/info', (req, res) => {
       res.json({
@@ -103,11 +167,20 @@ async function server(): Promise<void> {
 
     /* Creating Apollo Server */
     const apolloServer = new ApolloServer({
-      typeDefs,
-      resolvers,
+      schema,
       formatError: formatGraphQLError,
       plugins: [
         ApolloServerPluginDrainHttpServer({ httpServer }),
+        /* Close subscription sockets on shutdown */
+        {
+          async serverWillStart(): Promise<GraphQLServerListener> {
+            return {
+              async drainServer(): Promise<void> {
+                await wsServerCleanup.dispose();
+              },
+            };
+          },
+        },
         ...(env.NODE_ENV !== 'production'
           ? [
               ApolloServerPluginLandingPageLocalDefault({
@@ -136,8 +209,9 @@ async function server(): Promise<void> {
       bodyParser.json(),
       /* GraphQL Upload middleware - processes multipart requests */
       graphqlUploadExpress({
-        maxFileSize: env.upload.maxFileSize,
-        maxFiles: 1,
+        /* Archives may exceed the per-document limit; their entries are checked one by one */
+        maxFileSize: Math.max(env.upload.maxFileSize, env.upload.maxArchiveSize),
+        maxFiles: env.upload.maxFiles,
       }),
 
       /* To handle with CSRF blocks */
@@ -149,10 +223,8 @@ async function server(): Promise<void> {
 
       /* Apollo middleware */
       expressMiddleware(apolloServer, {
-        context: async ({ req, res }) => ({
-          req,
-          res,
-        }),
+        context: async ({ req, res }): Promise<GraphQLContext> =>
+          createContext(req.headers, { req, res }),
       })
     );
 
@@ -160,22 +232,41 @@ async function server(): Promise<void> {
       httpServer.listen({ port: env.PORT }, resolve);
     });
 
+    /* Start processing queued uploads */
+    ingestionWorker.start();
+
+    /* Start scheduling database maintenance */
+    maintenanceScheduler.start();
+
+    /* Start backfilling embedding model migrations */
+    embeddingBackfillWorker.start();
+
     logger.info(`🚀 Server up and running on port: ${env.PORT}`);
     logger.info(`📊 GraphQL endpoint: http://localhost:${env.PORT}/graphql`);
+    logger.info(`📡 Subscriptions endpoint: ws://localhost:${env.PORT}/graphql`);
+    logger.info(`💬 Q&A stream (SSE): http://localhost:${env.PORT}/qa/stream`);
     logger.info(`ℹ️  API info: http://localhost:${env.PORT}/info`);
     logger.info(`💊  Health info: http://localhost:${env.PORT}/health`);
 
     /* Graceful shutdown */
     process.on('SIGTERM', async () => {
       logger.info('SIGTERM received, shuting down gracefully...');
+      await ingestionWorker.stop();
+      await maintenanceScheduler.stop();
+      await embeddingBackfillWorker.stop();
       await closeDatabase();
+      await redisClient.close();
       await apolloServer.stop();
       process.exit(0);
     });
 
     process.on('SIGINT', async () => {
       logger.info('SIGINT received, shutting down gracefully...');
+      await ingestionWorker.stop();
+      await maintenanceScheduler.stop();
+      await embeddingBackfillWorker.stop();
       await closeDatabase();
+      await redisClient.close();
       await apolloServer.stop();
       process.exit(0);
     });
@@ -1,5 +1,6 @@
 import { MigrationInterface, QueryRunner } from 'typeorm';
 import { logger } from '../utils/logger.ts';
+import { IndexOptimizer } from '../utils/index-optmizer.ts';
 
 export class CreateVectorIndex1768592559822 implements MigrationInterface {
   name = 'CreateVectorIndex1768592559822';
@@ -18,8 +19,7 @@ export class CreateVectorIndex1768592559822 implements MigrationInterface {
     }
 
     /* Calculate optimal lists parameter */
-    /* Rule of thumb: lists = rows / 1000 (minimum 10, maximum 1000) */
-    const lists = Math.max(10, Math.min(1000, Math.floor(rowCount / 1000) || 100));
+    const lists = IndexOptimizer.calculateOptimalLists(rowCount);
 
     logger.info(`Creating IVFFlat index with lists=${lists} (based on ${rowCount} rows)`);
 
@@ -1,26 +1,10 @@
 import { MigrationInterface, QueryRunner } from 'typeorm';
 import { logger } from '../utils/logger.ts';
+import { IndexOptimizer } from '../utils/index-optmizer.ts';
 
 export class OptimizeVectorIndex1768595499120 implements MigrationInterface {
   name = 'OptimizeVectorIndex1768595499120';
 
-  /**
-   * Calculate optimal lists parameter for IVFFlat index
-   *
-   * Formula: lists = rows / 1000
-   * Constraints: min 10, max 1000
-   *
-   */
-  private calculateOptimalLists(rowCount: number): number {
-    /* Standard formula (faster, good for most cases) */
-    const standardLists = Math.floor(rowCount / 1000);
-
-    /* Apply constraints */
-    const lists = Math.max(10, Math.min(1000, standardLists || 100));
-
-    return lists;
-  }
-
   public async up(queryRunner: QueryRunner): Promise<void> {
     /* Get current row count */
     const result = await queryRunner.query(`
@@ -28,7 +12,7 @@ export class OptimizeVectorIndex1768595499120 implements MigrationInterface {
     `);
 
     const rowCount = parseInt(result[0]?.count || '0', 10);
-    const optimalLists = this.calculateOptimalLists(rowCount);
+    const optimalLists = IndexOptimizer.calculateOptimalLists(rowCount);
 
     logger.info(`📊 Current document_chunks rows: ${rowCount}`);
     logger.info(`🎯 Optimal lists parameter: ${optimalLists}`);
@@ -0,0 +1,63 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Durable queue for asynchronous document ingestion
+ */
+export class CreateIngestionJobs1769600000000 implements MigrationInterface {
+  name = 'CreateIngestionJobs1769600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS ingestion_jobs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        status VARCHAR(20) NOT NULL DEFAULT 'queued',
+        stage VARCHAR(20) NOT NULL DEFAULT 'queued',
+        document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+        file_name VARCHAR(255) NOT NULL,
+        mime_type VARCHAR(255) NOT NULL,
+        file_size INTEGER NOT NULL DEFAULT 0,
+        payload BYTEA,
+        processed_chunks INTEGER NOT NULL DEFAULT 0,
+        total_chunks INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 3,
+        run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        locked_at TIMESTAMP,
+        locked_by VARCHAR(255),
+        completed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    /* Workers poll on (status, run_at) */
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS ingestion_jobs_status_run_at_idx
+        ON ingestion_jobs(status, run_at);
+    `);
+
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS ingestion_jobs_document_id_idx
+        ON ingestion_jobs(document_id);
+    `);
+
+    await queryRunner.query(
+      `DROP TRIGGER IF EXISTS update_ingestion_jobs_updated_at ON ingestion_jobs;`
+    );
+
+    await queryRunner.query(`CREATE TRIGGER update_ingestion_jobs_updated_at
+      BEFORE UPDATE ON ingestion_jobs
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP TRIGGER IF EXISTS update_ingestion_jobs_updated_at ON ingestion_jobs;`
+    );
+    await queryRunner.query(`DROP INDEX IF EXISTS ingestion_jobs_document_id_idx;`);
+    await queryRunner.query(`DROP INDEX IF EXISTS ingestion_jobs_status_run_at_idx;`);
+    await queryRunner.query(`DROP TABLE IF EXISTS ingestion_jobs;`);
+  }
+}
@@ -0,0 +1,93 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Users, API keys and per-user ownership of documents, chunks and ingestion jobs.
+ * Rows created before this migration have no owner and are hidden from every user.
+ */
+export class AddUsersAndOwnership1769700000000 implements MigrationInterface {
+  name = 'AddUsersAndOwnership1769700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS users (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        email VARCHAR(255) NOT NULL UNIQUE,
+        password_hash VARCHAR(255) NOT NULL,
+        name VARCHAR(255),
+        role VARCHAR(20) NOT NULL DEFAULT 'user',
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS api_keys (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        prefix VARCHAR(16) NOT NULL,
+        key_hash VARCHAR(64) NOT NULL UNIQUE,
+        last_used_at TIMESTAMP,
+        revoked_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS api_keys_user_id_idx
+        ON api_keys(user_id);
+    `);
+
+    await queryRunner.query(`DROP TRIGGER IF EXISTS update_users_updated_at ON users;`);
+
+    await queryRunner.query(`CREATE TRIGGER update_users_updated_at
+      BEFORE UPDATE ON users
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+    `);
+
+    /* Ownership columns */
+    await queryRunner.query(`
+        ALTER TABLE documents
+        ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES users(id) ON DELETE CASCADE;
+    `);
+
+    await queryRunner.query(`
+        ALTER TABLE document_chunks
+        ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES users(id) ON DELETE CASCADE;
+    `);
+
+    await queryRunner.query(`
+        ALTER TABLE ingestion_jobs
+        ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES users(id) ON DELETE CASCADE;
+    `);
+
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS documents_owner_id_idx
+        ON documents(owner_id);
+    `);
+
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS document_chunks_owner_id_idx
+        ON document_chunks(owner_id);
+    `);
+
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS ingestion_jobs_owner_id_idx
+        ON ingestion_jobs(owner_id);
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS ingestion_jobs_owner_id_idx;`);
+    await queryRunner.query(`DROP INDEX IF EXISTS document_chunks_owner_id_idx;`);
+    await queryRunner.query(`DROP INDEX IF EXISTS documents_owner_id_idx;`);
+
+    await queryRunner.query(`ALTER TABLE ingestion_jobs DROP COLUMN IF EXISTS owner_id;`);
+    await queryRunner.query(`ALTER TABLE document_chunks DROP COLUMN IF EXISTS owner_id;`);
+    await queryRunner.query(`ALTER TABLE documents DROP COLUMN IF EXISTS owner_id;`);
+
+    await queryRunner.query(`DROP TRIGGER IF EXISTS update_users_updated_at ON users;`);
+    await queryRunner.query(`DROP INDEX IF EXISTS api_keys_user_id_idx;`);
+    await queryRunner.query(`DROP TABLE IF EXISTS api_keys;`);
+    await queryRunner.query(`DROP TABLE IF EXISTS users;`);
+  }
+}
@@ -0,0 +1,61 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Conversations and their messages for multi-turn Q&A
+ */
+export class CreateConversations1769800000000 implements MigrationInterface {
+  name = 'CreateConversations1769800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS conversations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        title VARCHAR(255),
+        document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS conversation_messages (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        role VARCHAR(20) NOT NULL,
+        content TEXT NOT NULL,
+        standalone_question TEXT,
+        sources JSONB,
+        model VARCHAR(255),
+        usage JSONB,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS conversations_owner_id_updated_at_idx
+        ON conversations(owner_id, updated_at DESC);
+    `);
+
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS conversation_messages_conversation_id_created_at_idx
+        ON conversation_messages(conversation_id, created_at);
+    `);
+
+    await queryRunner.query(
+      `DROP TRIGGER IF EXISTS update_conversations_updated_at ON conversations;`
+    );
+
+    await queryRunner.query(`CREATE TRIGGER update_conversations_updated_at
+      BEFORE UPDATE ON conversations
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP TRIGGER IF EXISTS update_conversations_updated_at ON conversations;`
+    );
+    await queryRunner.query(`DROP TABLE IF EXISTS conversation_messages;`);
+    await queryRunner.query(`DROP TABLE IF EXISTS conversations;`);
+  }
+}
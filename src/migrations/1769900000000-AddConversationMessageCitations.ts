@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Store the parsed citations and the unsupported sentences of assistant messages
+ */
+export class AddConversationMessageCitations1769900000000 implements MigrationInterface {
+  name = 'AddConversationMessageCitations1769900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+        ALTER TABLE conversation_messages
+        ADD COLUMN IF NOT EXISTS citations JSONB,
+        ADD COLUMN IF NOT EXISTS unsupported_sentences JSONB;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+        ALTER TABLE conversation_messages
+        DROP COLUMN IF EXISTS unsupported_sentences,
+        DROP COLUMN IF EXISTS citations;
+    `);
+  }
+}
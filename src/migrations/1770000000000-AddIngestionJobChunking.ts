@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Chunking strategy requested with an upload
+ */
+export class AddIngestionJobChunking1770000000000 implements MigrationInterface {
+  name = 'AddIngestionJobChunking1770000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+        ALTER TABLE ingestion_jobs
+        ADD COLUMN IF NOT EXISTS chunking JSONB;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+        ALTER TABLE ingestion_jobs
+        DROP COLUMN IF EXISTS chunking;
+    `);
+  }
+}
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Source path of an upload, e.g. the location of a file inside an archive
+ */
+export class AddIngestionJobFilePath1770100000000 implements MigrationInterface {
+  name = 'AddIngestionJobFilePath1770100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+        ALTER TABLE ingestion_jobs
+        ADD COLUMN IF NOT EXISTS file_path TEXT;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+        ALTER TABLE ingestion_jobs
+        DROP COLUMN IF EXISTS file_path;
+    `);
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Hash of each chunk's text, so re-indexing can keep the embeddings of unchanged chunks
+ */
+export class AddDocumentChunkContentHash1770200000000 implements MigrationInterface {
+  name = 'AddDocumentChunkContentHash1770200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+        ALTER TABLE document_chunks
+        ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+    `);
+
+    await queryRunner.query(`
+        UPDATE document_chunks
+        SET content_hash = encode(sha256(convert_to(chunk_text, 'UTF8')), 'hex')
+        WHERE content_hash IS NULL;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+        ALTER TABLE document_chunks
+        DROP COLUMN IF EXISTS content_hash;
+    `);
+  }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Indexes backing search filters
+ * jsonb_path_ops GIN indexes serve metadata containment (@>) and the B-tree serves createdAt ranges
+ */
+export class AddMetadataFilterIndexes1770300000000 implements MigrationInterface {
+  name = 'AddMetadataFilterIndexes1770300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS documents_metadata_gin_idx
+        ON documents USING GIN (metadata jsonb_path_ops);
+    `);
+
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS document_chunks_metadata_gin_idx
+        ON document_chunks USING GIN (metadata jsonb_path_ops);
+    `);
+
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS documents_owner_id_created_at_idx
+        ON documents (owner_id, created_at);
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS documents_owner_id_created_at_idx;`);
+    await queryRunner.query(`DROP INDEX IF EXISTS document_chunks_metadata_gin_idx;`);
+    await queryRunner.query(`DROP INDEX IF EXISTS documents_metadata_gin_idx;`);
+  }
+}
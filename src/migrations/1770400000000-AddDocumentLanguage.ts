@@ -0,0 +1,69 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Per-document language for full-text search
+ * Chunks carry the text search configuration of their document's language, and a generated
+ * tsvector built with it replaces the expression index that assumed English
+ */
+export class AddDocumentLanguage1770400000000 implements MigrationInterface {
+  name = 'AddDocumentLanguage1770400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+        ALTER TABLE documents
+        ADD COLUMN IF NOT EXISTS language VARCHAR(8);
+    `);
+
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS documents_language_idx
+        ON documents (language);
+    `);
+
+    /* Existing chunks were indexed as English; new chunks always get an explicit configuration */
+    await queryRunner.query(`
+        ALTER TABLE document_chunks
+        ADD COLUMN IF NOT EXISTS ts_config REGCONFIG NOT NULL DEFAULT 'english';
+    `);
+
+    await queryRunner.query(`
+        ALTER TABLE document_chunks
+        ALTER COLUMN ts_config SET DEFAULT 'simple';
+    `);
+
+    await queryRunner.query(`
+        ALTER TABLE document_chunks
+        ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+        GENERATED ALWAYS AS (to_tsvector(ts_config, chunk_text)) STORED;
+    `);
+
+    await queryRunner.query(`DROP INDEX IF EXISTS document_chunks_text_search_idx;`);
+
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS document_chunks_search_vector_idx
+        ON document_chunks USING GIN (search_vector);
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS document_chunks_search_vector_idx;`);
+
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS document_chunks_text_search_idx
+        ON document_chunks
+        USING gin(to_tsvector('english', chunk_text));
+    `);
+
+    await queryRunner.query(`
+        ALTER TABLE document_chunks
+        DROP COLUMN IF EXISTS search_vector,
+        DROP COLUMN IF EXISTS ts_config;
+    `);
+
+    await queryRunner.query(`DROP INDEX IF EXISTS documents_language_idx;`);
+
+    await queryRunner.query(`
+        ALTER TABLE documents
+        DROP COLUMN IF EXISTS language;
+    `);
+  }
+}
@@ -0,0 +1,87 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Document history
+ * Every indexing of a document records a version: its title, content and metadata, and a copy
+ * of the chunk set with embeddings so a past version can still be searched
+ */
+export class CreateDocumentVersions1770500000000 implements MigrationInterface {
+  name = 'CreateDocumentVersions1770500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS document_versions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+        owner_id UUID,
+        version_number INTEGER NOT NULL,
+        title VARCHAR(255) NOT NULL,
+        file_path TEXT,
+        file_type VARCHAR(255),
+        content TEXT,
+        language VARCHAR(8),
+        metadata JSONB DEFAULT '{}'::jsonb,
+        embedding_provider VARCHAR(50),
+        embedding_model VARCHAR(255),
+        chunk_count INTEGER NOT NULL DEFAULT 0,
+        restored_from_version INTEGER,
+        created_at TIMESTAMP DEFAULT NOW(),
+        CONSTRAINT unique_document_version UNIQUE (document_id, version_number)
+      );
+    `);
+
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS document_version_chunks (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        version_id UUID NOT NULL REFERENCES document_versions(id) ON DELETE CASCADE,
+        document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+        owner_id UUID,
+        chunk_text TEXT NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        content_hash VARCHAR(64),
+        ts_config REGCONFIG NOT NULL DEFAULT 'simple',
+        search_vector TSVECTOR GENERATED ALWAYS AS (to_tsvector(ts_config, chunk_text)) STORED,
+        embedding vector,
+        metadata JSONB DEFAULT '{}'::jsonb,
+        created_at TIMESTAMP DEFAULT NOW(),
+        CONSTRAINT unique_document_version_chunk UNIQUE (version_id, chunk_index)
+      );
+    `);
+
+    /* Uploads that replace the content of an existing document */
+    await queryRunner.query(`
+        ALTER TABLE ingestion_jobs
+        ADD COLUMN IF NOT EXISTS target_document_id UUID REFERENCES documents(id) ON DELETE SET NULL;
+    `);
+
+    /* The current state of every document becomes its first version */
+    await queryRunner.query(`
+        INSERT INTO document_versions
+          (document_id, owner_id, version_number, title, file_path, file_type, content, language,
+           metadata, chunk_count, created_at)
+        SELECT d.id, d.owner_id, 1, d.title, d.file_path, d.file_type, d.content, d.language,
+               d.metadata, (SELECT COUNT(*) FROM document_chunks dc WHERE dc.document_id = d.id),
+               d.updated_at
+        FROM documents d
+        ON CONFLICT (document_id, version_number) DO NOTHING;
+    `);
+
+    await queryRunner.query(`
+        INSERT INTO document_version_chunks
+          (version_id, document_id, owner_id, chunk_text, chunk_index, content_hash, ts_config,
+           embedding, metadata, created_at)
+        SELECT v.id, dc.document_id, dc.owner_id, dc.chunk_text, dc.chunk_index, dc.content_hash,
+               dc.ts_config, dc.embedding, dc.metadata, dc.created_at
+        FROM document_chunks dc
+        JOIN document_versions v ON v.document_id = dc.document_id AND v.version_number = 1
+        ON CONFLICT (version_id, chunk_index) DO NOTHING;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+        ALTER TABLE ingestion_jobs
+        DROP COLUMN IF EXISTS target_document_id;
+    `);
+    await queryRunner.query(`DROP TABLE IF EXISTS document_version_chunks;`);
+    await queryRunner.query(`DROP TABLE IF EXISTS document_versions;`);
+  }
+}
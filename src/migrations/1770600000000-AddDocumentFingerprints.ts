@@ -0,0 +1,116 @@
+import { createHash } from 'crypto';
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const BACKFILL_BATCH_SIZE = 100;
+const SHINGLE_SIZE = 3;
+
+/**
+ * SimHash as the application computed it when this migration was written, kept here so later
+ * changes to the application's fingerprinting do not change what this migration does
+ */
+function simhash(text: string): string | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length === 0) {
+    return null;
+  }
+
+  const size = Math.min(SHINGLE_SIZE, words.length);
+  const shingles = new Map<string, number>();
+  for (let i = 0; i + size <= words.length; i++) {
+    const shingle = words.slice(i, i + size).join(' ');
+    shingles.set(shingle, (shingles.get(shingle) ?? 0) + 1);
+  }
+
+  const votes = new Array<number>(64).fill(0);
+  for (const [shingle, count] of shingles) {
+    const digest = createHash('md5').update(shingle).digest();
+    const halves = [digest.readUInt32BE(0), digest.readUInt32BE(4)];
+    halves.forEach((half, h) => {
+      for (let bit = 0; bit < 32; bit++) {
+        votes[h * 32 + bit]! += (half >>> bit) & 1 ? count : -count;
+      }
+    });
+  }
+
+  let fingerprint = 0n;
+  votes.forEach((vote, bit) => {
+    if (vote > 0) {
+      fingerprint |= 1n << BigInt(bit);
+    }
+  });
+  return BigInt.asIntN(64, fingerprint).toString();
+}
+
+/**
+ * Duplicate detection
+ * Documents get a content hash (exact duplicates) and a SimHash (near-duplicates); ingestion
+ * jobs record the duplicate policy they were uploaded with and the document they duplicated
+ */
+export class AddDocumentFingerprints1770600000000 implements MigrationInterface {
+  name = 'AddDocumentFingerprints1770600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+        ALTER TABLE documents
+        ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64),
+        ADD COLUMN IF NOT EXISTS simhash BIGINT;
+    `);
+
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS documents_owner_content_hash_idx
+        ON documents (owner_id, content_hash);
+    `);
+
+    await queryRunner.query(`
+        ALTER TABLE ingestion_jobs
+        ADD COLUMN IF NOT EXISTS duplicate_policy VARCHAR(20),
+        ADD COLUMN IF NOT EXISTS duplicate_of_id UUID REFERENCES documents(id) ON DELETE SET NULL;
+    `);
+
+    /* Same hash as the application computes: SHA-256 of the UTF-8 text */
+    await queryRunner.query(`
+        UPDATE documents
+        SET content_hash = encode(sha256(convert_to(content, 'UTF8')), 'hex')
+        WHERE content IS NOT NULL AND content_hash IS NULL;
+    `);
+
+    /* SimHash has no SQL equivalent; fingerprint existing documents a batch at a time */
+    let lastId: string | null = null;
+    for (;;) {
+      const rows: Array<{ id: string; content: string }> = await queryRunner.query(
+        `SELECT id, content FROM documents
+         WHERE content IS NOT NULL AND simhash IS NULL AND ($1::uuid IS NULL OR id > $1::uuid)
+         ORDER BY id
+         LIMIT $2`,
+        [lastId, BACKFILL_BATCH_SIZE]
+      );
+      if (rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        await queryRunner.query(`UPDATE documents SET simhash = $2 WHERE id = $1`, [
+          row.id,
+          simhash(row.content),
+        ]);
+      }
+      lastId = rows[rows.length - 1]!.id;
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+        ALTER TABLE ingestion_jobs
+        DROP COLUMN IF EXISTS duplicate_of_id,
+        DROP COLUMN IF EXISTS duplicate_policy;
+    `);
+
+    await queryRunner.query(`DROP INDEX IF EXISTS documents_owner_content_hash_idx;`);
+
+    await queryRunner.query(`
+        ALTER TABLE documents
+        DROP COLUMN IF EXISTS simhash,
+        DROP COLUMN IF EXISTS content_hash;
+    `);
+  }
+}
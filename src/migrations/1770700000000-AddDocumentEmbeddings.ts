@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Document-level embeddings
+ * Every document gets the mean of its chunk embeddings, indexed with HNSW so similar documents
+ * can be found without scanning chunks
+ */
+export class AddDocumentEmbeddings1770700000000 implements MigrationInterface {
+  name = 'AddDocumentEmbeddings1770700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    /* Same dimensions as the chunk embeddings it is pooled from */
+    const [column] = await queryRunner.query(`
+        SELECT format_type(atttypid, atttypmod) AS type
+        FROM pg_attribute
+        WHERE attrelid = 'document_chunks'::regclass AND attname = 'embedding';
+    `);
+
+    await queryRunner.query(`
+        ALTER TABLE documents
+        ADD COLUMN IF NOT EXISTS embedding ${column?.type ?? 'vector(1024)'};
+    `);
+
+    await queryRunner.query(`
+        UPDATE documents d
+        SET embedding = (
+          SELECT AVG(dc.embedding)
+          FROM document_chunks dc
+          WHERE dc.document_id = d.id AND dc.embedding IS NOT NULL
+        );
+    `);
+
+    /* Unlike IVFFlat, HNSW needs no data to build a useful index */
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS documents_embedding_idx
+        ON documents
+        USING hnsw (embedding vector_cosine_ops);
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS documents_embedding_idx;`);
+
+    await queryRunner.query(`
+        ALTER TABLE documents
+        DROP COLUMN IF EXISTS embedding;
+    `);
+  }
+}
@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Full-text search over document descriptions
+ * The title and the generated summary, keywords and topics are indexed together, with the
+ * language-neutral configuration since enrichments follow the language of each document
+ */
+export class AddDocumentSearchVector1770800000000 implements MigrationInterface {
+  name = 'AddDocumentSearchVector1770800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+        ALTER TABLE documents
+        ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+          to_tsvector(
+            'simple'::regconfig,
+            title || ' ' ||
+            COALESCE(metadata #>> '{enrichment,summary}', '') || ' ' ||
+            COALESCE(metadata #>> '{enrichment,keywords}', '') || ' ' ||
+            COALESCE(metadata #>> '{enrichment,topics}', '')
+          )
+        ) STORED;
+    `);
+
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS documents_search_vector_idx
+        ON documents
+        USING gin (search_vector);
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS documents_search_vector_idx;`);
+
+    await queryRunner.query(`
+        ALTER TABLE documents
+        DROP COLUMN IF EXISTS search_vector;
+    `);
+  }
+}
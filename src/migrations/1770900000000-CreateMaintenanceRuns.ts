@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Maintenance history
+ * Every background maintenance run (orphan pruning, VACUUM ANALYZE, vector index drift check)
+ * is recorded with the outcome of each of its tasks
+ */
+export class CreateMaintenanceRuns1770900000000 implements MigrationInterface {
+  name = 'CreateMaintenanceRuns1770900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS maintenance_runs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        trigger VARCHAR(20) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'running',
+        tasks JSONB NOT NULL DEFAULT '[]'::jsonb,
+        error TEXT,
+        worker_id VARCHAR(255) NOT NULL,
+        started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        finished_at TIMESTAMP
+      );
+    `);
+
+    await queryRunner.query(`
+        CREATE INDEX IF NOT EXISTS maintenance_runs_started_at_idx
+        ON maintenance_runs (started_at);
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS maintenance_runs;`);
+  }
+}
@@ -0,0 +1,62 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Embedding model registry
+ * Records which model the chunk embeddings were generated with, so the corpus can be migrated to
+ * another model: the new embeddings are backfilled next to the current ones, then swapped in.
+ * The model of existing embeddings is recorded at the next startup, from the configuration.
+ */
+export class CreateEmbeddingModels1771000000000 implements MigrationInterface {
+  name = 'CreateEmbeddingModels1771000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE TABLE IF NOT EXISTS embedding_models (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        provider VARCHAR(50) NOT NULL,
+        model VARCHAR(255) NOT NULL,
+        dimensions INTEGER NOT NULL,
+        base_url TEXT,
+        status VARCHAR(20) NOT NULL,
+        auto_cutover BOOLEAN NOT NULL DEFAULT true,
+        error TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        activated_at TIMESTAMP,
+        retired_at TIMESTAMP
+      );
+    `);
+
+    /* One active model, and one migration at a time */
+    await queryRunner.query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS embedding_models_status_idx
+        ON embedding_models (status)
+        WHERE status IN ('active', 'backfilling');
+    `);
+
+    await queryRunner.query(`
+        ALTER TABLE document_chunks
+        ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(255),
+        ADD COLUMN IF NOT EXISTS embedding_dimensions INTEGER;
+    `);
+
+    await queryRunner.query(`
+        UPDATE document_chunks
+        SET embedding_dimensions = vector_dims(embedding)
+        WHERE embedding IS NOT NULL;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    /* A migration in progress leaves its columns behind */
+    await queryRunner.query(`
+        ALTER TABLE document_chunks
+        DROP COLUMN IF EXISTS embedding_next,
+        DROP COLUMN IF EXISTS embedding_next_model,
+        DROP COLUMN IF EXISTS embedding_next_dimensions,
+        DROP COLUMN IF EXISTS embedding_model,
+        DROP COLUMN IF EXISTS embedding_dimensions;
+    `);
+    await queryRunner.query(`ALTER TABLE documents DROP COLUMN IF EXISTS embedding_next;`);
+
+    await queryRunner.query(`DROP TABLE IF EXISTS embedding_models;`);
+  }
+}
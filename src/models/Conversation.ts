@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToMany,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './User.ts';
+import { Document } from './Document.ts';
+import { ConversationMessage } from './ConversationMessage.ts';
+import type { GenerationOptions } from '../services/completions/index.ts';
+
+export interface StartConversationInput {
+  title?: string | null;
+  /* Restrict every answer of the conversation to one document */
+  documentId?: string | null;
+}
+
+export interface AskInConversationInput {
+  conversationId: string;
+  question: string;
+  maxSources?: number | null;
+  generation?: GenerationOptions | null;
+}
+
+/**
+ * Conversation Entity
+ * A multi-turn Q&A session; follow-up questions are answered with the previous turns as context
+ */
+@Entity('conversations')
+@Index(['ownerId', 'updatedAt'])
+export class Conversation {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'owner_id' })
+  owner?: User;
+
+  @Column({ name: 'owner_id', type: 'uuid' })
+  ownerId!: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  title?: string | null;
+
+  @ManyToOne(() => Document, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'document_id' })
+  document?: Document | null;
+
+  @Column({ name: 'document_id', type: 'uuid', nullable: true })
+  documentId?: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamp' })
+  updatedAt!: Date;
+
+  /* Relationship with messages */
+  @OneToMany(() => ConversationMessage, (message) => message.conversation)
+  messages?: ConversationMessage[];
+}
@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Conversation } from './Conversation.ts';
+import type { QASource } from '../services/QAService.ts';
+import type { AnswerSpan, Citation } from '../services/CitationService.ts';
+import type { TokenUsage } from '../services/completions/index.ts';
+
+export type ConversationRole = 'user' | 'assistant';
+
+/**
+ * ConversationMessage Entity
+ * One turn of a conversation: the user's question or the assistant's answer
+ */
+@Entity('conversation_messages')
+@Index(['conversationId', 'createdAt'])
+export class ConversationMessage {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @ManyToOne(() => Conversation, (conversation) => conversation.messages, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'conversation_id' })
+  conversation?: Conversation;
+
+  @Column({ name: 'conversation_id', type: 'uuid' })
+  conversationId!: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  role!: ConversationRole;
+
+  @Column({ type: 'text' })
+  content!: string;
+
+  /* User messages: the follow-up rewritten into a self-contained search query */
+  @Column({ name: 'standalone_question', type: 'text', nullable: true })
+  standaloneQuestion?: string | null;
+
+  /* Assistant messages: the chunks the answer was grounded on */
+  @Column({ type: 'jsonb', nullable: true })
+  sources?: QASource[] | null;
+
+  /* Assistant messages: which sentence cites which source */
+  @Column({ type: 'jsonb', nullable: true })
+  citations?: Citation[] | null;
+
+  @Column({ name: 'unsupported_sentences', type: 'jsonb', nullable: true })
+  unsupportedSentences?: AnswerSpan[] | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  model?: string | null;
+
+  /* Assistant messages: tokens spent on the turn, query rewriting included */
+  @Column({ type: 'jsonb', nullable: true })
+  usage?: TokenUsage | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt!: Date;
+}
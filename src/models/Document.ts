@@ -5,8 +5,12 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
   OneToMany,
+  ManyToOne,
+  JoinColumn,
+  Index,
 } from 'typeorm';
 import { DocumentChunk } from './DocumentChunk.ts';
+import { User } from './User.ts';
 
 export interface CreateDocumentInput {
   title: string;
@@ -30,25 +34,50 @@ export interface UpdateDocumentInput {
  */
 
 @Entity('documents')
+@Index(['ownerId'])
 export class Document {
   @PrimaryGeneratedColumn('uuid')
   id!: string;
 
+  /* Owner of the document - only the owner can read, search or modify it */
+  @ManyToOne(() => User, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'owner_id' })
+  owner?: User | null;
+
+  @Column({ name: 'owner_id', type: 'uuid', nullable: true })
+  ownerId?: string | null;
+
   @Column({ type: 'varchar', length: 255 })
   title!: string;
 
   @Column({ type: 'text', nullable: true, name: 'file_path' })
   filePath?: string | null | undefined;
 
-  @Column({ type: 'varchar', length: 50, nullable: true, name: 'file_type' })
+  @Column({ type: 'varchar', length: 255, nullable: true, name: 'file_type' })
   fileType?: string | null | undefined;
 
   @Column({ type: 'text', nullable: true })
   content?: string | null | undefined;
 
+  /* BCP 47 tag detected from the content (e.g. "pt"); null when it could not be told */
+  @Column({ type: 'varchar', length: 8, nullable: true })
+  language?: string | null;
+
   @Column({ type: 'jsonb', nullable: true, default: {} })
   metadata?: Record<string, any> | null;
 
+  /* SHA-256 of the content, shared by documents with identical text */
+  @Column({ name: 'content_hash', type: 'varchar', length: 64, nullable: true })
+  contentHash?: string | null;
+
+  /* 64-bit SimHash of the content; near-duplicates differ in a few bits */
+  @Column({ type: 'bigint', nullable: true })
+  simhash?: string | null;
+
+  /* Mean of the chunk embeddings, for document-level similarity; written with raw SQL */
+  @Column({ type: 'vector', nullable: true, select: false })
+  embedding?: number[] | null;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
   createdAt!: Date;
 
@@ -17,6 +17,7 @@ import { Document } from './Document.ts';
 @Entity('document_chunks')
 @Unique(['document', 'chunkIndex'])
 @Index(['documentId'])
+@Index(['ownerId'])
 export class DocumentChunk {
   @PrimaryGeneratedColumn('uuid')
   id!: string;
@@ -30,12 +31,20 @@ export class DocumentChunk {
   @Column({ name: 'document_id', type: 'uuid' })
   documentId!: string;
 
+  /* Denormalized from the document so search can filter chunks by owner directly */
+  @Column({ name: 'owner_id', type: 'uuid', nullable: true })
+  ownerId?: string | null;
+
   @Column({ type: 'text', name: 'chunk_text' })
   chunkText!: string;
 
   @Column({ type: 'int', name: 'chunk_index' })
   chunkIndex!: number;
 
+  /* SHA-256 of chunkText; re-indexing keeps the embedding of chunks whose hash is unchanged */
+  @Column({ type: 'varchar', length: 64, name: 'content_hash', nullable: true })
+  contentHash?: string | null;
+
   /**
    * Vector embedding
    * TypeORM doesn't support pgvector's vector type natively
@@ -49,6 +58,31 @@ export class DocumentChunk {
   })
   embedding?: number[] | null;
 
+  /* Model and dimensions the embedding was generated with */
+  @Column({ name: 'embedding_model', type: 'varchar', length: 255, nullable: true })
+  embeddingModel?: string | null;
+
+  @Column({ name: 'embedding_dimensions', type: 'int', nullable: true })
+  embeddingDimensions?: number | null;
+
+  /**
+   * PostgreSQL text search configuration of the document's language (e.g. "portuguese")
+   * A regconfig in the database - TypeORM has no such type, and writes go through raw SQL
+   */
+  @Column({ type: 'varchar', name: 'ts_config', default: 'simple' })
+  tsConfig?: string;
+
+  /* Lexemes for full-text search, generated from chunkText with tsConfig */
+  @Column({
+    type: 'tsvector',
+    name: 'search_vector',
+    generatedType: 'STORED',
+    asExpression: 'to_tsvector(ts_config, chunk_text)',
+    select: false,
+    nullable: true,
+  })
+  searchVector?: string | null;
+
   @Column({ type: 'jsonb', nullable: true, default: {} })
   metadata?: Record<string, any> | null;
 
@@ -0,0 +1,71 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Document } from './Document.ts';
+
+/**
+ * DocumentVersion Entity
+ * The state of a document after one indexing: its fields, the embedding model of its chunks
+ * and a copy of the chunk set (DocumentVersionChunk)
+ */
+@Entity('document_versions')
+@Unique(['documentId', 'versionNumber'])
+export class DocumentVersion {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @ManyToOne(() => Document, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'document_id' })
+  document?: Document;
+
+  @Column({ name: 'document_id', type: 'uuid' })
+  documentId!: string;
+
+  @Column({ name: 'owner_id', type: 'uuid', nullable: true })
+  ownerId?: string | null;
+
+  /* 1 for the first indexing, incremented by every change */
+  @Column({ name: 'version_number', type: 'int' })
+  versionNumber!: number;
+
+  @Column({ type: 'varchar', length: 255 })
+  title!: string;
+
+  @Column({ type: 'text', nullable: true, name: 'file_path' })
+  filePath?: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true, name: 'file_type' })
+  fileType?: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  content?: string | null;
+
+  @Column({ type: 'varchar', length: 8, nullable: true })
+  language?: string | null;
+
+  @Column({ type: 'jsonb', nullable: true, default: {} })
+  metadata?: Record<string, unknown> | null;
+
+  /* Unknown for versions recorded before versioning existed */
+  @Column({ name: 'embedding_provider', type: 'varchar', length: 50, nullable: true })
+  embeddingProvider?: string | null;
+
+  @Column({ name: 'embedding_model', type: 'varchar', length: 255, nullable: true })
+  embeddingModel?: string | null;
+
+  @Column({ name: 'chunk_count', type: 'int', default: 0 })
+  chunkCount!: number;
+
+  /* Set when this version was created by restoring an older one */
+  @Column({ name: 'restored_from_version', type: 'int', nullable: true })
+  restoredFromVersion?: number | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt!: Date;
+}
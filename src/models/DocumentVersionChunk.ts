@@ -0,0 +1,70 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Unique,
+} from 'typeorm';
+import { DocumentVersion } from './DocumentVersion.ts';
+
+/*
+ * DocumentVersionChunk Entity
+ * A chunk as it was when its version was recorded; same columns as DocumentChunk so search can
+ * run over a version the way it runs over the live chunks
+ */
+@Entity('document_version_chunks')
+@Unique(['versionId', 'chunkIndex'])
+@Index(['versionId'])
+export class DocumentVersionChunk {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @ManyToOne(() => DocumentVersion, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'version_id' })
+  version?: DocumentVersion;
+
+  @Column({ name: 'version_id', type: 'uuid' })
+  versionId!: string;
+
+  @Column({ name: 'document_id', type: 'uuid' })
+  documentId!: string;
+
+  @Column({ name: 'owner_id', type: 'uuid', nullable: true })
+  ownerId?: string | null;
+
+  @Column({ type: 'text', name: 'chunk_text' })
+  chunkText!: string;
+
+  @Column({ type: 'int', name: 'chunk_index' })
+  chunkIndex!: number;
+
+  @Column({ type: 'varchar', length: 64, name: 'content_hash', nullable: true })
+  contentHash?: string | null;
+
+  /* A regconfig in the database, see DocumentChunk */
+  @Column({ type: 'varchar', name: 'ts_config', default: 'simple' })
+  tsConfig?: string;
+
+  @Column({
+    type: 'tsvector',
+    name: 'search_vector',
+    generatedType: 'STORED',
+    asExpression: 'to_tsvector(ts_config, chunk_text)',
+    select: false,
+    nullable: true,
+  })
+  searchVector?: string | null;
+
+  /* Vector embedding, written and searched with raw SQL like DocumentChunk.embedding */
+  @Column({ type: 'vector', nullable: true })
+  embedding?: number[] | null;
+
+  @Column({ type: 'jsonb', nullable: true, default: {} })
+  metadata?: Record<string, unknown> | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt!: Date;
+}
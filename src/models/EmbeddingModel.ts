@@ -0,0 +1,56 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import type { EmbeddingProviderName } from '../config/environment.ts';
+
+/**
+ * - active: the model of `document_chunks.embedding`, which search uses
+ * - backfilling: the model being migrated to, written to `embedding_next` until the cutover
+ * - retired: a previously active model whose embeddings were dropped at a cutover
+ * - cancelled: a migration abandoned before its cutover
+ */
+export type EmbeddingModelStatus = 'active' | 'backfilling' | 'retired' | 'cancelled';
+
+/**
+ * EmbeddingModel Entity
+ * Registry of the embedding models the corpus was embedded with. At most one model is active
+ * and at most one is being backfilled.
+ */
+@Entity('embedding_models')
+@Index(['status'], { unique: true, where: `status IN ('active', 'backfilling')` })
+export class EmbeddingModel {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  provider!: EmbeddingProviderName;
+
+  @Column({ type: 'varchar', length: 255 })
+  model!: string;
+
+  @Column({ type: 'int' })
+  dimensions!: number;
+
+  /* OpenAI-compatible server the model is served by (API keys stay in the environment) */
+  @Column({ name: 'base_url', type: 'text', nullable: true })
+  baseUrl?: string | null;
+
+  @Column({ type: 'varchar', length: 20 })
+  status!: EmbeddingModelStatus;
+
+  /* Switch to the model as soon as its backfill completes */
+  @Column({ name: 'auto_cutover', type: 'boolean', default: true })
+  autoCutover!: boolean;
+
+  /* Last backfill failure, cleared by the next successful batch */
+  @Column({ type: 'text', nullable: true })
+  error?: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt!: Date;
+
+  @Column({ name: 'activated_at', type: 'timestamp', nullable: true })
+  activatedAt?: Date | null;
+
+  /* When the model was retired or its migration cancelled */
+  @Column({ name: 'retired_at', type: 'timestamp', nullable: true })
+  retiredAt?: Date | null;
+}
@@ -0,0 +1,135 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Document } from './Document.ts';
+import type { ChunkingOptions } from '../services/chunking/index.ts';
+import type { DuplicatePolicy } from '../config/environment.ts';
+
+export type IngestionJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type IngestionStage =
+  | 'queued'
+  | 'extracting'
+  | 'chunking'
+  | 'embedding'
+  | 'enriching'
+  | 'finalizing'
+  | 'done';
+
+export interface IngestionProgress {
+  stage?: IngestionStage;
+  documentId?: string;
+  duplicateOfId?: string;
+  processedChunks?: number;
+  totalChunks?: number;
+}
+
+/**
+ * IngestionJob Entity
+ * Tracks the asynchronous extraction, chunking and embedding of an uploaded file
+ */
+@Entity('ingestion_jobs')
+@Index(['status', 'runAt'])
+export class IngestionJob {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 20, default: 'queued' })
+  status!: IngestionJobStatus;
+
+  @Column({ type: 'varchar', length: 20, default: 'queued' })
+  stage!: IngestionStage;
+
+  @ManyToOne(() => Document, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'document_id' })
+  document?: Document | null;
+
+  @Column({ name: 'document_id', type: 'uuid', nullable: true })
+  documentId?: string | null;
+
+  /* Existing document the upload replaces with a new version; unset for new documents */
+  @ManyToOne(() => Document, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'target_document_id' })
+  targetDocument?: Document | null;
+
+  @Column({ name: 'target_document_id', type: 'uuid', nullable: true })
+  targetDocumentId?: string | null;
+
+  /* Existing document whose text the upload duplicated, if any */
+  @ManyToOne(() => Document, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'duplicate_of_id' })
+  duplicateOf?: Document | null;
+
+  @Column({ name: 'duplicate_of_id', type: 'uuid', nullable: true })
+  duplicateOfId?: string | null;
+
+  /* Policy requested with the upload; unset falls back to the deployment default */
+  @Column({ name: 'duplicate_policy', type: 'varchar', length: 20, nullable: true })
+  duplicatePolicy?: DuplicatePolicy | null;
+
+  @Column({ name: 'owner_id', type: 'uuid', nullable: true })
+  ownerId?: string | null;
+
+  @Column({ name: 'file_name', type: 'varchar', length: 255 })
+  fileName!: string;
+
+  @Column({ name: 'mime_type', type: 'varchar', length: 255 })
+  mimeType!: string;
+
+  /* Where the file came from, e.g. `manuals.zip/guides/setup.pdf` for an archive entry */
+  @Column({ name: 'file_path', type: 'text', nullable: true })
+  filePath?: string | null;
+
+  @Column({ name: 'file_size', type: 'int', default: 0 })
+  fileSize!: number;
+
+  /* Raw uploaded file, kept until the job finishes so failed extractions can be retried */
+  @Column({ type: 'bytea', nullable: true, select: false })
+  payload?: Buffer | null;
+
+  /* Chunking requested with the upload; unset fields fall back to the deployment defaults */
+  @Column({ type: 'jsonb', nullable: true })
+  chunking?: Partial<ChunkingOptions> | null;
+
+  /* Chunks already embedded and persisted - retries resume from here */
+  @Column({ name: 'processed_chunks', type: 'int', default: 0 })
+  processedChunks!: number;
+
+  @Column({ name: 'total_chunks', type: 'int', default: 0 })
+  totalChunks!: number;
+
+  @Column({ type: 'text', nullable: true })
+  error?: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  attempts!: number;
+
+  @Column({ name: 'max_attempts', type: 'int', default: 3 })
+  maxAttempts!: number;
+
+  /* Earliest time the job may be picked up (used for retry backoff) */
+  @Column({ name: 'run_at', type: 'timestamp', default: () => 'NOW()' })
+  runAt!: Date;
+
+  @Column({ name: 'locked_at', type: 'timestamp', nullable: true })
+  lockedAt?: Date | null;
+
+  @Column({ name: 'locked_by', type: 'varchar', length: 255, nullable: true })
+  lockedBy?: string | null;
+
+  @Column({ name: 'completed_at', type: 'timestamp', nullable: true })
+  completedAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamp' })
+  updatedAt!: Date;
+}
@@ -0,0 +1,50 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+/* What started a maintenance run */
+export type MaintenanceTrigger = 'schedule' | 'ingestion' | 'manual';
+
+export type MaintenanceRunStatus = 'running' | 'completed' | 'failed';
+
+export type MaintenanceTask = 'prune_orphans' | 'vacuum' | 'index';
+
+export interface MaintenanceTaskResult {
+  task: MaintenanceTask;
+  status: 'completed' | 'skipped' | 'failed';
+  durationMs: number;
+  /* What the task found and did, e.g. chunks deleted or the index before and after a rebuild */
+  details: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * MaintenanceRun Entity
+ * History of background database maintenance: one row per run, with the outcome of each task
+ */
+@Entity('maintenance_runs')
+@Index(['startedAt'])
+export class MaintenanceRun {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  trigger!: MaintenanceTrigger;
+
+  @Column({ type: 'varchar', length: 20, default: 'running' })
+  status!: MaintenanceRunStatus;
+
+  @Column({ type: 'jsonb', default: () => "'[]'::jsonb" })
+  tasks!: MaintenanceTaskResult[];
+
+  @Column({ type: 'text', nullable: true })
+  error?: string | null;
+
+  /* Process that ran it */
+  @Column({ name: 'worker_id', type: 'varchar', length: 255 })
+  workerId!: string;
+
+  @Column({ name: 'started_at', type: 'timestamp', default: () => 'NOW()' })
+  startedAt!: Date;
+
+  @Column({ name: 'finished_at', type: 'timestamp', nullable: true })
+  finishedAt?: Date | null;
+}
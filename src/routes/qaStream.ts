@@ -0,0 +1,165 @@
+import express from 'express';
+
+import { qaService, QAStreamEvent } from '../services/QAService.ts';
+import type { GenerationOptions } from '../services/completions/index.ts';
+import { authService } from '../services/AuthService.ts';
+import { logger } from '../utils/logger.ts';
+import { logError } from '../utils/errorHandler.ts';
+import { AppError } from '../errors/AppError.ts';
+import { AuthenticationRequiredError } from '../errors/DomainErrors.ts';
+
+/**
+ * Server-Sent Events endpoint for streaming RAG answers
+ * Frames: `token` (answer delta), `sources` (QASource list), `citations` (answer sentence -> source),
+ * `done` (model and token usage), `error`
+ */
+
+/* Write a single SSE frame */
+function writeEvent(res: express.Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/* Serialize a streamed answer frame into its SSE payload */
+function toSSEPayload(event: QAStreamEvent): unknown {
+  switch (event.type) {
+    case 'token':
+      return { delta: event.delta };
+    case 'sources':
+      return { sources: event.sources };
+    case 'citations':
+      return { citations: event.citations, unsupportedSentences: event.unsupportedSentences };
+    case 'done':
+      return { model: event.model, usage: event.usage };
+  }
+}
+
+/* Parse a numeric parameter, ignoring it when absent or malformed */
+function readNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Read generation overrides
+ * POST bodies carry a `generation` object; GET requests use flat query parameters
+ * (`model`, `temperature`, `maxTokens`, `seed`, comma-separated `stop`)
+ */
+function readGenerationOptions(source: Record<string, unknown>): GenerationOptions {
+  const stop = Array.isArray(source.stop)
+    ? source.stop.map(String)
+    : typeof source.stop === 'string'
+      ? source.stop.split(',')
+      : undefined;
+  const temperature = readNumber(source.temperature);
+  const maxTokens = readNumber(source.maxTokens);
+  const seed = readNumber(source.seed);
+
+  return {
+    ...(typeof source.model === 'string' && source.model && { model: source.model }),
+    ...(temperature !== undefined && { temperature }),
+    ...(maxTokens !== undefined && { maxTokens }),
+    ...(stop && { stop }),
+    ...(seed !== undefined && { seed }),
+  };
+}
+
+/* Read Q&A parameters from the query string (GET) or the JSON body (POST) */
+function readQAParams(req: express.Request): {
+  question: string;
+  maxSources?: number;
+  documentId?: string;
+  generation?: GenerationOptions;
+  rerank?: boolean;
+} {
+  const source = req.method === 'GET' ? req.query : (req.body ?? {});
+  const question = typeof source.question === 'string' ? source.question : '';
+  const maxSources =
+    source.maxSources !== undefined ? parseInt(String(source.maxSources), 10) : undefined;
+  const documentId = typeof source.documentId === 'string' ? source.documentId : undefined;
+  const rerank =
+    typeof source.rerank === 'boolean'
+      ? source.rerank
+      : source.rerank === 'true' || source.rerank === 'false'
+        ? source.rerank === 'true'
+        : undefined;
+  const generation = readGenerationOptions(
+    req.method === 'GET' ? source : (source.generation ?? {})
+  );
+
+  return {
+    question,
+    ...(maxSources !== undefined && !Number.isNaN(maxSources) && { maxSources }),
+    ...(documentId ? { documentId } : {}),
+    ...(Object.keys(generation).length > 0 && { generation }),
+    ...(rerank !== undefined && { rerank }),
+  };
+}
+
+async function streamAnswer(req: express.Request, res: express.Response): Promise<void> {
+  /* Authenticate before opening the stream so failures are plain HTTP errors */
+  let ownerId: string;
+  try {
+    const principal = await authService.authenticate(req.headers);
+    if (!principal) {
+      throw new AuthenticationRequiredError();
+    }
+    ownerId = principal.userId;
+  } catch (err) {
+    const error = err instanceof AppError ? err : new AuthenticationRequiredError();
+    res.status(error.statusCode).json({ code: error.code, message: error.message });
+    return;
+  }
+
+  const { question, ...options } = readQAParams(req);
+  const stream = qaService.answerQuestionStream(question, { ...options, ownerId });
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no' /* Disable proxy buffering (nginx) */,
+  });
+  res.flushHeaders();
+
+  /* Stop generating tokens as soon as the client goes away */
+  let clientClosed = false;
+  res.on('close', () => {
+    clientClosed = true;
+    stream.return(undefined).catch(() => undefined);
+  });
+
+  try {
+    for await (const event of stream) {
+      if (clientClosed) {
+        break;
+      }
+      writeEvent(res, event.type, toSSEPayload(event));
+    }
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    logError(error, { operation: 'qaStream', question });
+
+    if (!clientClosed) {
+      writeEvent(
+        res,
+        'error',
+        error instanceof AppError
+          ? { code: error.code, message: error.message }
+          : { code: 'QA_FAILED', message: 'Failed to answer question' }
+      );
+    }
+  } finally {
+    if (!clientClosed) {
+      res.end();
+    }
+    logger.debug('Q&A stream closed');
+  }
+}
+
+export const qaStreamRouter = express.Router();
+
+qaStreamRouter.get('/stream', streamAnswer);
+qaStreamRouter.post('/stream', streamAnswer);
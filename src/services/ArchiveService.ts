@@ -0,0 +1,180 @@
+import JSZip from 'jszip';
+import tar from 'tar-stream';
+import { posix } from 'path';
+import { Readable } from 'stream';
+import { createGunzip } from 'zlib';
+
+import { env } from '../config/environment.ts';
+import { ARCHIVE_MIME_TYPES } from './extraction/index.ts';
+import { logger } from '../utils/logger.ts';
+
+import { InvalidArchiveError } from '../errors/DomainErrors.ts';
+import { AppError } from '../errors/AppError.ts';
+import { getErrorMessage } from '../utils/errorHandler.ts';
+
+export interface ArchiveEntry {
+  /* Normalized path inside the archive */
+  path: string;
+  /* Uncompressed size in bytes (a lower bound when the entry was not read completely) */
+  size: number;
+  /* Null when the entry exceeds the maximum file size and was not read */
+  content: Buffer | null;
+}
+
+/* Operating system clutter that never holds documents */
+const IGNORED_SEGMENT = /^(__MACOSX|\.DS_Store|Thumbs\.db|desktop\.ini)$|^\._|^\./;
+
+/**
+ * Archive Service
+ * Expands ZIP, TAR and TAR.GZ uploads into their files, guarding against zip-slip paths,
+ * oversized entries and archives that inflate far beyond their upload size
+ */
+export class ArchiveService {
+  isArchive(mimeType: string): boolean {
+    return ARCHIVE_MIME_TYPES.includes(mimeType);
+  }
+
+  /* List the regular files of an archive, in archive order */
+  async expand(buffer: Buffer, fileName: string, mimeType: string): Promise<ArchiveEntry[]> {
+    const budget = new ExpansionBudget(fileName);
+
+    try {
+      switch (mimeType) {
+        case 'application/zip':
+          return await this.#expandZip(buffer, budget);
+        case 'application/gzip':
+          return await this.#expandTar(Readable.from(buffer).pipe(createGunzip()), budget);
+        case 'application/x-tar':
+          return await this.#expandTar(Readable.from(buffer), budget);
+        default:
+          throw new InvalidArchiveError(
+            fileName,
+            `"${mimeType}" is not a supported archive format`
+          );
+      }
+    } catch (err) {
+      if (err instanceof AppError) {
+        throw err;
+      }
+      logger.error(`Error expanding archive ${fileName}: `, err);
+      throw new InvalidArchiveError(fileName, getErrorMessage(err));
+    }
+  }
+
+  async #expandZip(buffer: Buffer, budget: ExpansionBudget): Promise<ArchiveEntry[]> {
+    const zip = await JSZip.loadAsync(buffer);
+
+    const entries: ArchiveEntry[] = [];
+    for (const file of Object.values(zip.files)) {
+      const path = file.dir ? null : this.#safePath(file.unsafeOriginalName ?? file.name);
+      if (!path) {
+        continue;
+      }
+
+      budget.addEntry();
+      let size = 0;
+      const parts: Buffer[] = [];
+      /* jszip hands out a legacy stream; wrap it to read it with for-await */
+      const stream = new Readable().wrap(file.nodeStream('nodebuffer'));
+      for await (const part of stream as AsyncIterable<Buffer>) {
+        size += part.length;
+        budget.addBytes(part.length);
+        if (size > env.upload.maxFileSize) {
+          /* No need to inflate the rest of an entry that will be rejected */
+          break;
+        }
+        parts.push(part);
+      }
+
+      entries.push({
+        path,
+        size,
+        content: size > env.upload.maxFileSize ? null : Buffer.concat(parts),
+      });
+    }
+
+    return entries;
+  }
+
+  async #expandTar(stream: Readable, budget: ExpansionBudget): Promise<ArchiveEntry[]> {
+    const extract = tar.extract();
+    stream.on('error', (err) => extract.destroy(err));
+    stream.pipe(extract);
+
+    const entries: ArchiveEntry[] = [];
+    for await (const entry of extract) {
+      const path =
+        entry.header.type === 'file' || entry.header.type === 'contiguous-file'
+          ? this.#safePath(entry.header.name)
+          : null;
+      if (!path) {
+        entry.resume();
+        continue;
+      }
+
+      budget.addEntry();
+      const tooLarge = (entry.header.size ?? 0) > env.upload.maxFileSize;
+      const parts: Buffer[] = [];
+      let size = 0;
+      /* The entry has to be drained either way before tar moves on to the next one */
+      for await (const part of entry as AsyncIterable<Buffer>) {
+        size += part.length;
+        budget.addBytes(part.length);
+        if (!tooLarge) {
+          parts.push(part);
+        }
+      }
+
+      entries.push({ path, size, content: tooLarge ? null : Buffer.concat(parts) });
+    }
+
+    return entries;
+  }
+
+  /* Normalize an entry path; null for paths escaping the archive root and OS clutter */
+  #safePath(name: string): string | null {
+    const path = posix.normalize(name.replace(/\\/g, '/')).replace(/^(\.\/)+/, '');
+    const segments = path.split('/').filter((segment) => segment.length > 0);
+
+    if (path.startsWith('/') || segments.length === 0 || segments.includes('..')) {
+      logger.warn(`Skipping unsafe archive entry: ${name}`);
+      return null;
+    }
+    if (segments.some((segment) => IGNORED_SEGMENT.test(segment))) {
+      return null;
+    }
+
+    return segments.join('/');
+  }
+}
+
+/* Caps the number of entries and the total inflated size of one archive */
+class ExpansionBudget {
+  readonly #fileName: string;
+  #entries = 0;
+  #bytes = 0;
+
+  constructor(fileName: string) {
+    this.#fileName = fileName;
+  }
+
+  addEntry(): void {
+    if (++this.#entries > env.upload.maxArchiveEntries) {
+      throw new InvalidArchiveError(
+        this.#fileName,
+        `more than ${env.upload.maxArchiveEntries} files`
+      );
+    }
+  }
+
+  addBytes(count: number): void {
+    this.#bytes += count;
+    if (this.#bytes > env.upload.maxArchiveSize) {
+      const maxSizeMB = (env.upload.maxArchiveSize / 1024 / 1024).toFixed(2);
+      throw new InvalidArchiveError(this.#fileName, `expands to more than ${maxSizeMB} MB`);
+    }
+  }
+}
+
+/* Singleton instance */
+export const archiveService = new ArchiveService();
@@ -0,0 +1,293 @@
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { createHash, randomBytes } from 'crypto';
+import { IsNull } from 'typeorm';
+
+import { AppDataSource } from '../config/data-source.ts';
+import { env } from '../config/environment.ts';
+import { User, UserRole, RegisterInput, LoginInput } from '../models/User.ts';
+import { ApiKey } from '../models/ApiKey.ts';
+import { logger } from '../utils/logger.ts';
+
+import {
+  EmailAlreadyRegisteredError,
+  InvalidCredentialsError,
+  InvalidTokenError,
+  ValidationError,
+} from '../errors/DomainErrors.ts';
+import { handleDatabaseError } from '../utils/errorHandler.ts';
+
+/* The authenticated caller of a request */
+export interface Principal {
+  userId: string;
+  email: string;
+  role: UserRole;
+  authMethod: 'jwt' | 'apiKey';
+}
+
+export interface AuthResult {
+  user: User;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
+export interface CreatedApiKey {
+  apiKey: ApiKey;
+  key: string;
+}
+
+interface TokenPayload {
+  sub: string;
+  email: string;
+  role: UserRole;
+  type: 'access' | 'refresh';
+}
+
+const BCRYPT_ROUNDS = 12;
+const API_KEY_PREFIX = 'sds_';
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Auth Service
+ * Handles registration, login, JWT issuing/verification and API keys
+ */
+export class AuthService {
+  /* Create an account and sign it in */
+  async register(input: RegisterInput): Promise<AuthResult> {
+    const email = input.email?.trim().toLowerCase();
+
+    if (!email || !EMAIL_PATTERN.test(email)) {
+      throw new ValidationError('A valid email address is required', 'email', input.email);
+    }
+
+    if (!input.password || input.password.length < 8) {
+      throw new ValidationError('Password must be at least 8 characters long', 'password');
+    }
+
+    const userRepository = AppDataSource.getRepository(User);
+
+    const existing = await userRepository.findOneBy({ email });
+    if (existing) {
+      throw new EmailAlreadyRegisteredError(email);
+    }
+
+    try {
+      const passwordHash = await bcrypt.hash(input.password, BCRYPT_ROUNDS);
+      const user = await userRepository.save(
+        userRepository.create({
+          email,
+          passwordHash,
+          name: input.name?.trim() || null,
+        })
+      );
+
+      logger.info(`User registered: ${user.id}`);
+      return this.#issueTokens(user);
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to register user');
+    }
+  }
+
+  /* Exchange email and password for tokens */
+  async login(input: LoginInput): Promise<AuthResult> {
+    const email = input.email?.trim().toLowerCase();
+
+    if (!email || !input.password) {
+      throw new InvalidCredentialsError();
+    }
+
+    const user = await AppDataSource.getRepository(User)
+      .createQueryBuilder('user')
+      .addSelect('user.passwordHash')
+      .where('user.email = :email', { email })
+      .getOne();
+
+    if (!user || !(await bcrypt.compare(input.password, user.passwordHash))) {
+      throw new InvalidCredentialsError();
+    }
+
+    return this.#issueTokens(user);
+  }
+
+  /* Exchange a refresh token for a new pair of tokens */
+  async refreshToken(refreshToken: string): Promise<AuthResult> {
+    const payload = this.#verifyToken(refreshToken, 'refresh');
+
+    const user = await AppDataSource.getRepository(User).findOneBy({ id: payload.sub });
+    if (!user) {
+      throw new InvalidTokenError('The account for this token no longer exists.');
+    }
+
+    return this.#issueTokens(user);
+  }
+
+  /**
+   * Resolve the principal of an access token
+   * The email and role come from the account, not the token, so role changes apply right away
+   */
+  async verifyAccessToken(accessToken: string): Promise<Principal> {
+    const payload = this.#verifyToken(accessToken, 'access');
+
+    const user = await AppDataSource.getRepository(User).findOneBy({ id: payload.sub });
+    if (!user) {
+      throw new InvalidTokenError('The account for this token no longer exists.');
+    }
+
+    return {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      authMethod: 'jwt',
+    };
+  }
+
+  /**
+   * Authenticate a request from its headers
+   * Accepts `Authorization: Bearer <jwt>`, `Authorization: ApiKey <key>` or `X-API-Key: <key>`.
+   * Returns null for anonymous requests; throws when credentials are present but invalid.
+   */
+  async authenticate(headers: {
+    authorization?: string | undefined;
+    'x-api-key'?: string | string[] | undefined;
+  }): Promise<Principal | null> {
+    const apiKeyHeader = headers['x-api-key'];
+    if (apiKeyHeader) {
+      return this.authenticateApiKey(Array.isArray(apiKeyHeader) ? apiKeyHeader[0]! : apiKeyHeader);
+    }
+
+    const authorization = headers.authorization?.trim();
+    if (!authorization) {
+      return null;
+    }
+
+    const [scheme, credentials] = authorization.split(/\s+/, 2);
+    if (!credentials) {
+      throw new InvalidTokenError('Malformed Authorization header.');
+    }
+
+    switch (scheme?.toLowerCase()) {
+      case 'bearer':
+        return this.verifyAccessToken(credentials);
+      case 'apikey':
+        return this.authenticateApiKey(credentials);
+      default:
+        throw new InvalidTokenError(`Unsupported authorization scheme "${scheme}".`);
+    }
+  }
+
+  /* Resolve the principal of an API key */
+  async authenticateApiKey(key: string): Promise<Principal> {
+    const apiKey = await AppDataSource.getRepository(ApiKey).findOne({
+      where: { keyHash: this.#hashApiKey(key), revokedAt: IsNull() },
+      relations: { user: true },
+    });
+
+    if (!apiKey || !apiKey.user) {
+      throw new InvalidTokenError('The provided API key is invalid or has been revoked.');
+    }
+
+    /* Usage tracking is best-effort */
+    AppDataSource.getRepository(ApiKey)
+      .update(apiKey.id, { lastUsedAt: new Date() })
+      .catch((err) => logger.warn('Failed to record API key usage:', err));
+
+    return {
+      userId: apiKey.user.id,
+      email: apiKey.user.email,
+      role: apiKey.user.role,
+      authMethod: 'apiKey',
+    };
+  }
+
+  /* Get a user by id */
+  async getUser(userId: string): Promise<User | null> {
+    return AppDataSource.getRepository(User).findOneBy({ id: userId });
+  }
+
+  /* Create an API key; the plain key is only returned here */
+  async createApiKey(userId: string, name: string): Promise<CreatedApiKey> {
+    if (!name || name.trim().length === 0) {
+      throw new ValidationError('API key name is required', 'name', name);
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+    try {
+      const apiKeyRepository = AppDataSource.getRepository(ApiKey);
+      const apiKey = await apiKeyRepository.save(
+        apiKeyRepository.create({
+          userId,
+          name: name.trim(),
+          prefix: key.slice(0, 12),
+          keyHash: this.#hashApiKey(key),
+        })
+      );
+
+      logger.info(`API key created: ${apiKey.id} for user ${userId}`);
+
+      /* Never hand the hash back to callers */
+      delete (apiKey as Partial<ApiKey>).keyHash;
+      return { apiKey, key };
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to create API key');
+    }
+  }
+
+  /* List API keys of a user */
+  async listApiKeys(userId: string): Promise<ApiKey[]> {
+    return AppDataSource.getRepository(ApiKey).find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /* Revoke an API key owned by the user */
+  async revokeApiKey(userId: string, apiKeyId: string): Promise<boolean> {
+    const result = await AppDataSource.getRepository(ApiKey).update(
+      { id: apiKeyId, userId, revokedAt: IsNull() },
+      { revokedAt: new Date() }
+    );
+
+    return (result.affected ?? 0) > 0;
+  }
+
+  #issueTokens(user: User): AuthResult {
+    const claims = { sub: user.id, email: user.email, role: user.role };
+
+    const accessToken = jwt.sign({ ...claims, type: 'access' }, env.jwt.secret, {
+      expiresIn: env.jwt.expiresIn as jwt.SignOptions['expiresIn'] & string,
+    });
+    const refreshToken = jwt.sign({ ...claims, type: 'refresh' }, env.jwt.secret, {
+      expiresIn: env.jwt.refreshExpiresIn as jwt.SignOptions['expiresIn'] & string,
+    });
+
+    /* Never hand the password hash back to callers */
+    delete (user as Partial<User>).passwordHash;
+
+    return { user, accessToken, refreshToken, expiresIn: env.jwt.expiresIn };
+  }
+
+  #verifyToken(token: string, expectedType: TokenPayload['type']): TokenPayload {
+    let payload: TokenPayload;
+
+    try {
+      payload = jwt.verify(token, env.jwt.secret) as TokenPayload;
+    } catch {
+      throw new InvalidTokenError();
+    }
+
+    if (payload.type !== expectedType || !payload.sub) {
+      throw new InvalidTokenError(`The provided token is not a valid ${expectedType} token.`);
+    }
+
+    return payload;
+  }
+
+  #hashApiKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
+
+/* Singleton instance */
+export const authService = new AuthService();
@@ -0,0 +1,201 @@
+import { posix } from 'path';
+
+import { env } from '../config/environment.ts';
+import type { DuplicatePolicy } from '../config/environment.ts';
+import { IngestionJob } from '../models/IngestionJob.ts';
+import type { ChunkingOptions } from './chunking/index.ts';
+import { detectMimeType } from './extraction/index.ts';
+import { archiveService } from './ArchiveService.ts';
+import { ingestionQueueService } from './IngestionQueueService.ts';
+import { logger } from '../utils/logger.ts';
+
+import {
+  FileTooLargeError,
+  InvalidArchiveError,
+  UnsupportedFileTypeError,
+} from '../errors/DomainErrors.ts';
+import { AppError } from '../errors/AppError.ts';
+import { logError } from '../utils/errorHandler.ts';
+
+/* A file of a multipart upload; read lazily so one broken stream only fails its own entry */
+export interface UploadedFile {
+  fileName: string;
+  declaredMimeType?: string | undefined;
+  read: () => Promise<Buffer>;
+}
+
+export type BatchUploadItemStatus = 'queued' | 'failed';
+
+export interface BatchUploadItem {
+  /* File name, or `archive/path/inside` for archive entries */
+  path: string;
+  status: BatchUploadItemStatus;
+  mimeType: string | null;
+  job: IngestionJob | null;
+  errorCode: string | null;
+  errorMessage: string | null;
+}
+
+export interface BatchUploadReport {
+  total: number;
+  queued: number;
+  failed: number;
+  items: BatchUploadItem[];
+}
+
+interface IngestContext {
+  ownerId: string;
+  chunking?: Partial<ChunkingOptions> | undefined;
+  duplicatePolicy?: DuplicatePolicy | undefined;
+}
+
+/**
+ * Batch Upload Service
+ * Queues several files (and the contents of ZIP/TAR.GZ archives) for ingestion at once.
+ * Every file gets the same MIME and size checks as a single upload; a rejected file is
+ * reported in the batch report without failing the others.
+ */
+export class BatchUploadService {
+  /* Queue every file of an archive; fails as a whole only when the archive itself is unreadable */
+  async ingestArchive(
+    file: UploadedFile,
+    ownerId: string,
+    chunking?: Partial<ChunkingOptions>,
+    duplicatePolicy?: DuplicatePolicy
+  ): Promise<BatchUploadReport> {
+    const buffer = await file.read();
+    const mimeType = await detectMimeType(buffer, file.fileName, file.declaredMimeType);
+    if (!archiveService.isArchive(mimeType)) {
+      throw new InvalidArchiveError(file.fileName, 'not a ZIP, TAR or TAR.GZ archive');
+    }
+    if (buffer.length > env.upload.maxArchiveSize) {
+      throw new FileTooLargeError(buffer.length, env.upload.maxArchiveSize);
+    }
+
+    const items = await this.#ingestArchiveEntries(buffer, file.fileName, mimeType, {
+      ownerId,
+      chunking,
+      duplicatePolicy,
+    });
+    return this.#report(items);
+  }
+
+  /* Queue a list of uploaded files, expanding any archive among them */
+  async ingestFiles(
+    files: UploadedFile[],
+    ownerId: string,
+    chunking?: Partial<ChunkingOptions>,
+    duplicatePolicy?: DuplicatePolicy
+  ): Promise<BatchUploadReport> {
+    const context: IngestContext = { ownerId, chunking, duplicatePolicy };
+
+    const items: BatchUploadItem[] = [];
+    for (const file of files) {
+      try {
+        const buffer = await file.read();
+        const mimeType = await detectMimeType(buffer, file.fileName, file.declaredMimeType);
+
+        if (archiveService.isArchive(mimeType)) {
+          if (buffer.length > env.upload.maxArchiveSize) {
+            throw new FileTooLargeError(buffer.length, env.upload.maxArchiveSize);
+          }
+          items.push(
+            ...(await this.#ingestArchiveEntries(buffer, file.fileName, mimeType, context))
+          );
+        } else {
+          items.push(await this.#ingestFile(file.fileName, buffer, mimeType, context));
+        }
+      } catch (err) {
+        items.push(this.#failure(file.fileName, null, err));
+      }
+    }
+
+    return this.#report(items);
+  }
+
+  async #ingestArchiveEntries(
+    buffer: Buffer,
+    archiveName: string,
+    archiveMimeType: string,
+    context: IngestContext
+  ): Promise<BatchUploadItem[]> {
+    const entries = await archiveService.expand(buffer, archiveName, archiveMimeType);
+    logger.info(`Expanded archive ${archiveName}: ${entries.length} files`);
+
+    const items: BatchUploadItem[] = [];
+    for (const entry of entries) {
+      const path = `${archiveName}/${entry.path}`;
+
+      if (!entry.content) {
+        items.push(
+          this.#failure(path, null, new FileTooLargeError(entry.size, env.upload.maxFileSize))
+        );
+        continue;
+      }
+
+      try {
+        const mimeType = await detectMimeType(entry.content, entry.path);
+        items.push(await this.#ingestFile(path, entry.content, mimeType, context));
+      } catch (err) {
+        items.push(this.#failure(path, null, err));
+      }
+    }
+
+    return items;
+  }
+
+  /* Apply the single-upload checks to one file and queue it */
+  async #ingestFile(
+    path: string,
+    buffer: Buffer,
+    mimeType: string,
+    { ownerId, chunking, duplicatePolicy }: IngestContext
+  ): Promise<BatchUploadItem> {
+    try {
+      if (buffer.length > env.upload.maxFileSize) {
+        throw new FileTooLargeError(buffer.length, env.upload.maxFileSize);
+      }
+      if (!env.upload.allowedMimeTypes.includes(mimeType)) {
+        throw new UnsupportedFileTypeError(mimeType, env.upload.allowedMimeTypes);
+      }
+
+      const job = await ingestionQueueService.enqueue(
+        buffer,
+        posix.basename(path),
+        mimeType,
+        ownerId,
+        { chunking, filePath: path, duplicatePolicy }
+      );
+
+      return { path, status: 'queued', mimeType, job, errorCode: null, errorMessage: null };
+    } catch (err) {
+      return this.#failure(path, mimeType, err);
+    }
+  }
+
+  #failure(path: string, mimeType: string | null, err: unknown): BatchUploadItem {
+    if (!(err instanceof AppError)) {
+      logError(err instanceof Error ? err : new Error(String(err)), {
+        operation: 'batchUpload',
+        path,
+      });
+    }
+
+    return {
+      path,
+      status: 'failed',
+      mimeType,
+      job: null,
+      errorCode: err instanceof AppError ? err.code : 'INGESTION_FAILED',
+      errorMessage: err instanceof AppError ? err.message : 'Failed to queue file for ingestion',
+    };
+  }
+
+  #report(items: BatchUploadItem[]): BatchUploadReport {
+    const queued = items.filter((item) => item.status === 'queued').length;
+    return { total: items.length, queued, failed: items.length - queued, items };
+  }
+}
+
+/* Singleton instance */
+export const batchUploadService = new BatchUploadService();
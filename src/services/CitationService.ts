@@ -0,0 +1,216 @@
+import { In } from 'typeorm';
+
+import { AppDataSource } from '../config/data-source.ts';
+import { Document } from '../models/Document.ts';
+import { logger } from '../utils/logger.ts';
+
+/* A context passage the model can cite as [marker] */
+export interface CitablePassage {
+  marker: number;
+  chunkId: string;
+  documentId: string;
+  text: string;
+  /* Character offsets of the passage in the document content, when known */
+  startOffset: number | null;
+  endOffset: number | null;
+}
+
+/* A sentence of the answer, with its character offsets in the answer */
+export interface AnswerSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/* Ties an answer sentence to the passage it cites */
+export interface Citation {
+  marker: number;
+  chunkId: string;
+  documentId: string;
+  answerStart: number;
+  answerEnd: number;
+  /* Character offsets of the cited passage in the document content */
+  sourceStart: number | null;
+  sourceEnd: number | null;
+  /* Share of the sentence's content words found in the passage (0-1) */
+  supportScore: number;
+  supported: boolean;
+}
+
+export interface GroundingReport {
+  citations: Citation[];
+  /* Sentences that cite nothing, or only passages that don't support them */
+  unsupportedSentences: AnswerSpan[];
+}
+
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/* Below this share of shared content words a citation doesn't count as support */
+const MIN_SUPPORT_SCORE = 0.2;
+
+/* Sentences shorter than this (markers excluded) are not checked */
+const MIN_SENTENCE_LENGTH = 12;
+
+const STOP_WORDS = new Set(
+  'a an and are as at be but by for from has have in is it its of on or that the this to was were which with'.split(
+    ' '
+  )
+);
+
+/**
+ * Citation Service
+ * Parses [n] markers in generated answers and checks every sentence is grounded in the context
+ */
+export class CitationService {
+  /**
+   * Number the retrieved chunks so the model can cite them
+   * Offsets come from chunk metadata, or are located in the document content for older chunks
+   */
+  async buildPassages(
+    chunks: Array<{
+      id: string;
+      documentId: string;
+      chunkText: string;
+      metadata: Record<string, any> | null;
+    }>
+  ): Promise<CitablePassage[]> {
+    const missingOffsets = chunks.filter(
+      (chunk) => typeof chunk.metadata?.startOffset !== 'number'
+    );
+    const contents = await this.#loadContents([
+      ...new Set(missingOffsets.map((chunk) => chunk.documentId)),
+    ]);
+
+    return chunks.map((chunk, index) => {
+      let startOffset: number | null = null;
+
+      if (typeof chunk.metadata?.startOffset === 'number') {
+        startOffset = chunk.metadata.startOffset;
+      } else {
+        const position = contents.get(chunk.documentId)?.indexOf(chunk.chunkText) ?? -1;
+        startOffset = position >= 0 ? position : null;
+      }
+
+      return {
+        marker: index + 1,
+        chunkId: chunk.id,
+        documentId: chunk.documentId,
+        text: chunk.chunkText,
+        startOffset,
+        endOffset: startOffset !== null ? startOffset + chunk.chunkText.length : null,
+      };
+    });
+  }
+
+  /* Parse the citation markers of an answer and flag sentences without support */
+  verify(answer: string, passages: CitablePassage[]): GroundingReport {
+    const passagesByMarker = new Map(passages.map((passage) => [passage.marker, passage]));
+    const citations: Citation[] = [];
+    const unsupportedSentences: AnswerSpan[] = [];
+
+    for (const sentence of this.#splitSentences(answer)) {
+      const markers = this.#parseMarkers(sentence.text);
+      const claim = sentence.text.replace(MARKER_PATTERN, '').trim();
+
+      let supported = false;
+      for (const marker of markers) {
+        const passage = passagesByMarker.get(marker);
+        if (!passage) {
+          logger.debug(`Answer cites unknown passage [${marker}]`);
+          continue;
+        }
+
+        const supportScore = this.#supportScore(claim, passage.text);
+        const citationSupported = supportScore >= MIN_SUPPORT_SCORE;
+        supported ||= citationSupported;
+
+        citations.push({
+          marker,
+          chunkId: passage.chunkId,
+          documentId: passage.documentId,
+          answerStart: sentence.start,
+          answerEnd: sentence.end,
+          sourceStart: passage.startOffset,
+          sourceEnd: passage.endOffset,
+          supportScore,
+          supported: citationSupported,
+        });
+      }
+
+      if (!supported && claim.length >= MIN_SENTENCE_LENGTH) {
+        unsupportedSentences.push(sentence);
+      }
+    }
+
+    return { citations, unsupportedSentences };
+  }
+
+  /* Split an answer into sentences, keeping trailing markers with their sentence */
+  #splitSentences(answer: string): AnswerSpan[] {
+    const spans: AnswerSpan[] = [];
+    const pattern = /[^.!?\n]+(?:[.!?]+(?:\s*\[\d+(?:\s*,\s*\d+)*\])*|(?=\n)|$)/g;
+
+    for (const match of answer.matchAll(pattern)) {
+      const raw = match[0];
+      const leading = raw.length - raw.trimStart().length;
+      const text = raw.trim();
+      if (text.length === 0) {
+        continue;
+      }
+
+      const start = match.index + leading;
+      spans.push({ text, start, end: start + text.length });
+    }
+
+    return spans;
+  }
+
+  #parseMarkers(text: string): number[] {
+    const markers = new Set<number>();
+    for (const match of text.matchAll(MARKER_PATTERN)) {
+      for (const value of match[1]!.split(',')) {
+        markers.add(parseInt(value, 10));
+      }
+    }
+    return [...markers];
+  }
+
+  /* Lexical check that the passage actually covers the sentence */
+  #supportScore(claim: string, passage: string): number {
+    const claimWords = this.#contentWords(claim);
+    if (claimWords.size === 0) {
+      return 1;
+    }
+
+    const passageWords = this.#contentWords(passage);
+    let shared = 0;
+    for (const word of claimWords) {
+      if (passageWords.has(word)) {
+        shared++;
+      }
+    }
+
+    return Math.round((shared / claimWords.size) * 100) / 100;
+  }
+
+  #contentWords(text: string): Set<string> {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    return new Set(words.filter((word) => word.length > 2 && !STOP_WORDS.has(word)));
+  }
+
+  async #loadContents(documentIds: string[]): Promise<Map<string, string>> {
+    if (documentIds.length === 0) {
+      return new Map();
+    }
+
+    const documents = await AppDataSource.getRepository(Document).find({
+      select: { id: true, content: true },
+      where: { id: In(documentIds) },
+    });
+
+    return new Map(documents.map((document) => [document.id, document.content ?? '']));
+  }
+}
+
+/* Singleton instance */
+export const citationService = new CitationService();
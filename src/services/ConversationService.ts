@@ -0,0 +1,240 @@
+import { AppDataSource } from '../config/data-source.ts';
+import { env } from '../config/environment.ts';
+import { Conversation } from '../models/Conversation.ts';
+import type { StartConversationInput, AskInConversationInput } from '../models/Conversation.ts';
+import { ConversationMessage } from '../models/ConversationMessage.ts';
+import { Document } from '../models/Document.ts';
+import { qaService } from './QAService.ts';
+import {
+  completionProvider,
+  buildStandaloneQuestionMessages,
+  estimateTokens,
+  sumUsage,
+} from './completions/index.ts';
+import type { ChatMessage, TokenUsage } from './completions/index.ts';
+import { logger } from '../utils/logger.ts';
+
+import {
+  ConversationNotFoundError,
+  DocumentNotFoundError,
+  ValidationError,
+} from '../errors/DomainErrors.ts';
+import { handleDatabaseError } from '../utils/errorHandler.ts';
+
+export interface ConversationTurn {
+  conversation: Conversation;
+  question: ConversationMessage;
+  answer: ConversationMessage;
+}
+
+const TITLE_MAX_LENGTH = 100;
+
+const CITATION_MARKERS = /\s*\[\d+(?:\s*,\s*\d+)*\]/g;
+
+/* Rewriting is a short, deterministic task */
+const REWRITE_OPTIONS = { temperature: 0, maxTokens: 200 };
+
+/**
+ * Conversation Service
+ * Multi-turn Q&A: follow-ups are rewritten into standalone queries for retrieval
+ * and answered with the previous turns as context
+ */
+export class ConversationService {
+  /* Start an empty conversation */
+  async startConversation(
+    ownerId: string,
+    input: StartConversationInput = {}
+  ): Promise<Conversation> {
+    const documentId = input.documentId?.trim() || null;
+
+    if (documentId) {
+      const document = await AppDataSource.getRepository(Document).findOneBy({
+        id: documentId,
+        ownerId,
+      });
+      if (!document) {
+        throw new DocumentNotFoundError(documentId);
+      }
+    }
+
+    try {
+      const conversationRepository = AppDataSource.getRepository(Conversation);
+      const conversation = await conversationRepository.save(
+        conversationRepository.create({
+          ownerId,
+          title: input.title?.trim().slice(0, TITLE_MAX_LENGTH) || null,
+          documentId,
+        })
+      );
+
+      logger.info(`Conversation started: ${conversation.id}`);
+      return conversation;
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to start conversation');
+    }
+  }
+
+  /* Get a conversation of the user */
+  async getConversation(conversationId: string, ownerId: string): Promise<Conversation | null> {
+    return AppDataSource.getRepository(Conversation).findOneBy({ id: conversationId, ownerId });
+  }
+
+  /* List conversations of the user, most recently active first */
+  async listConversations(ownerId: string, limit: number = 20): Promise<Conversation[]> {
+    return AppDataSource.getRepository(Conversation).find({
+      where: { ownerId },
+      order: { updatedAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Messages of a conversation in chronological order
+   * A turn is saved in one transaction, so its question and answer share created_at (the
+   * transaction start); role descending ('user' before 'assistant') puts the question first.
+   */
+  async getMessages(conversationId: string): Promise<ConversationMessage[]> {
+    return AppDataSource.getRepository(ConversationMessage).find({
+      where: { conversationId },
+      order: { createdAt: 'ASC', role: 'DESC' },
+    });
+  }
+
+  /**
+   * Ask a question in a conversation
+   * The turn is only persisted once the answer has been generated
+   */
+  async askInConversation(
+    ownerId: string,
+    input: AskInConversationInput
+  ): Promise<ConversationTurn> {
+    const { conversationId, question, maxSources, generation } = input;
+
+    if (!question || question.trim().length === 0) {
+      throw new ValidationError('Question cannot be empty', 'question', question);
+    }
+
+    const conversation = await this.getConversation(conversationId, ownerId);
+    if (!conversation) {
+      throw new ConversationNotFoundError(conversationId);
+    }
+
+    const history = this.#fitHistory(await this.getMessages(conversation.id));
+
+    /* Retrieval works on single queries - resolve references to previous turns first */
+    const rewrite = await this.#rewriteQuestion(history, question);
+
+    const answer = await qaService.answerQuestion(question, {
+      ownerId,
+      ...(maxSources !== undefined && maxSources !== null && { maxSources }),
+      ...(conversation.documentId ? { documentId: conversation.documentId } : {}),
+      ...(generation && { generation }),
+      history,
+      searchQuery: rewrite.question,
+    });
+
+    try {
+      return await AppDataSource.transaction(async (manager) => {
+        const messageRepository = manager.getRepository(ConversationMessage);
+
+        const questionMessage = await messageRepository.save(
+          messageRepository.create({
+            conversationId: conversation.id,
+            role: 'user',
+            content: question,
+            standaloneQuestion: rewrite.question,
+          })
+        );
+
+        const answerMessage = await messageRepository.save(
+          messageRepository.create({
+            conversationId: conversation.id,
+            role: 'assistant',
+            content: answer.answer,
+            sources: answer.sources,
+            citations: answer.citations,
+            unsupportedSentences: answer.unsupportedSentences,
+            model: answer.model,
+            usage: rewrite.usage ? sumUsage(rewrite.usage, answer.usage) : answer.usage,
+          })
+        );
+
+        /* Name the conversation after its first question and bump updated_at */
+        conversation.title ??= question.trim().slice(0, TITLE_MAX_LENGTH);
+        conversation.updatedAt = new Date();
+        await manager.getRepository(Conversation).save(conversation);
+
+        return { conversation, question: questionMessage, answer: answerMessage };
+      });
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to save conversation turn');
+    }
+  }
+
+  /**
+   * Keep the most recent turns that fit in the history token budget
+   * Turns are dropped whole, oldest first, so a question never loses its answer
+   */
+  #fitHistory(messages: ConversationMessage[]): ChatMessage[] {
+    const budget = env.conversation.historyTokenBudget;
+    const history: ChatMessage[] = [];
+    let used = 0;
+
+    for (let end = messages.length; end > 0; ) {
+      /* A turn starts at a user message */
+      let start = end - 1;
+      while (start > 0 && messages[start]!.role !== 'user') {
+        start--;
+      }
+
+      const turn = messages.slice(start, end);
+      const tokens = turn.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+      if (used + tokens > budget) {
+        break;
+      }
+
+      /* Citation markers refer to the sources of their own turn - drop them */
+      history.unshift(
+        ...turn.map(({ role, content }) => ({
+          role,
+          content: content.replace(CITATION_MARKERS, '').replace(/ +([.,;:!?])/g, '$1'),
+        }))
+      );
+      used += tokens;
+      end = start;
+    }
+
+    return history;
+  }
+
+  /**
+   * Rewrite a follow-up question into a standalone one
+   * Falls back to the question as asked if there is no history or rewriting fails
+   */
+  async #rewriteQuestion(
+    history: ChatMessage[],
+    question: string
+  ): Promise<{ question: string; usage: TokenUsage | null }> {
+    if (history.length === 0) {
+      return { question, usage: null };
+    }
+
+    try {
+      const result = await completionProvider.complete(
+        buildStandaloneQuestionMessages(history, question),
+        REWRITE_OPTIONS
+      );
+
+      const rewritten = result.content.trim().replace(/^["']|["']$/g, '');
+      logger.debug(`Rewrote follow-up question "${question}" as "${rewritten}"`);
+
+      return { question: rewritten || question, usage: result.usage };
+    } catch (err) {
+      logger.warn('Failed to rewrite follow-up question, using it as asked:', err);
+      return { question, usage: null };
+    }
+  }
+}
+
+/* Singleton instance */
+export const conversationService = new ConversationService();
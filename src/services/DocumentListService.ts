@@ -0,0 +1,365 @@
+import { AppDataSource } from '../config/data-source.ts';
+import type { Document } from '../models/Document.ts';
+import type { DocumentChunk } from '../models/DocumentChunk.ts';
+import { compileSearchFilter, normalizeLanguage } from './search/index.ts';
+import type { DateRangeFilter, MetadataFilter } from './search/index.ts';
+
+import { ValidationError } from '../errors/DomainErrors.ts';
+import { handleDatabaseError } from '../utils/errorHandler.ts';
+
+export type DocumentOrderField = 'createdAt' | 'updatedAt' | 'title';
+export type SortDirection = 'asc' | 'desc';
+
+export interface DocumentOrder {
+  field: DocumentOrderField;
+  direction: SortDirection;
+}
+
+/* All conditions must hold */
+export interface DocumentListFilter {
+  /* Case-insensitive substring of the title */
+  titleContains?: string | null;
+  /* Full-text query over the title and the generated summary, keywords and topics */
+  search?: string | null;
+  fileTypes?: string[] | null;
+  language?: string | null;
+  createdAt?: DateRangeFilter | null;
+  updatedAt?: DateRangeFilter | null;
+  /* Document metadata only */
+  metadata?: MetadataFilter[] | null;
+}
+
+export interface DocumentListOptions {
+  first?: number;
+  after?: string | null;
+  orderBy?: Partial<DocumentOrder> | null;
+  filter?: DocumentListFilter | null;
+}
+
+export interface Edge<T> {
+  node: T;
+  cursor: string;
+}
+
+/* One page of a forward-paginated list */
+export interface Page<T> {
+  edges: Edge<T>[];
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+/* Documents are listed without their content, which is loaded separately when asked for */
+export type DocumentSummary = Omit<Document, 'content'>;
+
+export interface ChunkPageKey {
+  documentId: string;
+  first: number;
+  after?: string | null;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/* Sort columns and the SQL type their cursor values are cast back to */
+const ORDER_COLUMNS: Record<DocumentOrderField, { column: string; type: string }> = {
+  createdAt: { column: 'd.created_at', type: 'timestamp' },
+  updatedAt: { column: 'd.updated_at', type: 'timestamp' },
+  title: { column: 'd.title', type: 'text' },
+};
+
+const SUMMARY_COLUMNS = `
+  d.id,
+  d.owner_id,
+  d.title,
+  d.file_path,
+  d.file_type,
+  d.language,
+  d.metadata,
+  d.content_hash,
+  d.created_at,
+  d.updated_at`;
+
+interface DocumentRow {
+  id: string;
+  owner_id: string | null;
+  title: string;
+  file_path: string | null;
+  file_type: string | null;
+  language: string | null;
+  metadata: Record<string, unknown> | null;
+  content_hash: string | null;
+  created_at: Date;
+  updated_at: Date;
+  cursor_value: string;
+}
+
+interface ChunkRow {
+  id: string;
+  document_id: string;
+  chunk_text: string;
+  chunk_index: number;
+  metadata: Record<string, unknown> | null;
+  created_at: Date;
+}
+
+/* Cursors are opaque to clients: base64url JSON */
+function encodeCursor(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeCursor<T>(cursor: string, isValid: (value: unknown) => value is T): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    value = undefined;
+  }
+
+  if (!isValid(value)) {
+    throw new ValidationError('Invalid pagination cursor', 'after', cursor);
+  }
+  return value;
+}
+
+/* Escape LIKE wildcards so the substring is matched literally */
+function likePattern(substring: string): string {
+  return `%${substring.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+function checkPageSize(first: number, field: string): void {
+  if (!Number.isInteger(first) || first < 1 || first > MAX_PAGE_SIZE) {
+    throw new ValidationError(`"${field}" must be between 1 and ${MAX_PAGE_SIZE}`, field, first);
+  }
+}
+
+/**
+ * Document List Service
+ * Keyset-paginated listing of documents and their chunks
+ */
+export class DocumentListService {
+  /**
+   * List the documents of a user, one page at a time
+   * Pages are keyed on (sort value, id), so documents added while paginating neither shift nor
+   * repeat the following pages
+   */
+  async listDocuments(
+    ownerId: string,
+    { first = DEFAULT_PAGE_SIZE, after, orderBy, filter }: DocumentListOptions = {}
+  ): Promise<Page<DocumentSummary>> {
+    checkPageSize(first, 'first');
+
+    const order: DocumentOrder = {
+      field: orderBy?.field ?? 'createdAt',
+      direction: orderBy?.direction ?? 'desc',
+    };
+    const { column, type } = ORDER_COLUMNS[order.field];
+
+    const params: unknown[] = [ownerId];
+    let sql = `
+      SELECT ${SUMMARY_COLUMNS}, ${column}::text AS cursor_value
+      FROM documents d
+      WHERE d.owner_id = $1 AND ${this.#compileFilter(filter ?? {}, params)}`;
+
+    if (after) {
+      const cursor = decodeCursor(
+        after,
+        (value): value is { field: DocumentOrderField; value: string; id: string } =>
+          typeof value === 'object' &&
+          value !== null &&
+          (value as { field?: unknown }).field === order.field &&
+          typeof (value as { value?: unknown }).value === 'string' &&
+          typeof (value as { id?: unknown }).id === 'string'
+      );
+      const comparison = order.direction === 'asc' ? '>' : '<';
+      sql += ` AND (${column}, d.id) ${comparison} ($${params.push(cursor.value)}::${type}, $${params.push(cursor.id)}::uuid)`;
+    }
+
+    const direction = order.direction === 'asc' ? 'ASC' : 'DESC';
+    sql += ` ORDER BY ${column} ${direction}, d.id ${direction} LIMIT $${params.push(first + 1)}`;
+
+    let rows: DocumentRow[];
+    try {
+      rows = await AppDataSource.query(sql, params);
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to list documents');
+    }
+
+    return {
+      edges: rows.slice(0, first).map((row) => ({
+        node: {
+          id: row.id,
+          ownerId: row.owner_id,
+          title: row.title,
+          filePath: row.file_path,
+          fileType: row.file_type,
+          language: row.language,
+          metadata: row.metadata,
+          contentHash: row.content_hash,
+          createdAt: row.created_at,
+          updatedAt: row.updated_at,
+        },
+        cursor: encodeCursor({ field: order.field, value: row.cursor_value, id: row.id }),
+      })),
+      hasNextPage: rows.length > first,
+      hasPreviousPage: Boolean(after),
+    };
+  }
+
+  /* Number of documents of a user matching a filter */
+  async countDocuments(ownerId: string, filter: DocumentListFilter = {}): Promise<number> {
+    const params: unknown[] = [ownerId];
+    const sql = `
+      SELECT COUNT(*)::int AS count
+      FROM documents d
+      WHERE d.owner_id = $1 AND ${this.#compileFilter(filter, params)}`;
+
+    try {
+      const [row] = await AppDataSource.query(sql, params);
+      return row?.count ?? 0;
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to count documents');
+    }
+  }
+
+  /* Content of several documents, in the order of the ids (null for unknown ids) */
+  async getContents(documentIds: readonly string[]): Promise<(string | null)[]> {
+    const rows: Array<{ id: string; content: string | null }> = await AppDataSource.query(
+      `SELECT id, content FROM documents WHERE id = ANY($1::uuid[])`,
+      [documentIds]
+    );
+    const contents = new Map(rows.map((row) => [row.id, row.content]));
+    return documentIds.map((id) => contents.get(id) ?? null);
+  }
+
+  /* Number of chunks of several documents, in the order of the ids */
+  async countChunks(documentIds: readonly string[]): Promise<number[]> {
+    const rows: Array<{ document_id: string; count: number }> = await AppDataSource.query(
+      `SELECT document_id, COUNT(*)::int AS count
+       FROM document_chunks
+       WHERE document_id = ANY($1::uuid[])
+       GROUP BY document_id`,
+      [documentIds]
+    );
+    const counts = new Map(rows.map((row) => [row.document_id, row.count]));
+    return documentIds.map((id) => counts.get(id) ?? 0);
+  }
+
+  /**
+   * Pages of chunks of several documents, in chunk order
+   * Keys sharing a page size and cursor are fetched with a single query
+   */
+  async listChunks(keys: readonly ChunkPageKey[]): Promise<Page<DocumentChunk>[]> {
+    const groups = new Map<string, ChunkPageKey[]>();
+    for (const key of keys) {
+      checkPageSize(key.first, 'first');
+      const group = `${key.first}:${key.after ?? ''}`;
+      groups.set(group, [...(groups.get(group) ?? []), key]);
+    }
+
+    const pages = new Map<ChunkPageKey, Page<DocumentChunk>>();
+    for (const group of groups.values()) {
+      const { first, after } = group[0]!;
+      const afterIndex = after
+        ? decodeCursor(
+            after,
+            (value): value is { chunkIndex: number } =>
+              typeof value === 'object' &&
+              value !== null &&
+              Number.isInteger((value as { chunkIndex?: unknown }).chunkIndex)
+          ).chunkIndex
+        : -1;
+
+      /* The first `first + 1` chunks past the cursor of every document */
+      const rows: ChunkRow[] = await AppDataSource.query(
+        `SELECT id, document_id, chunk_text, chunk_index, metadata, created_at
+         FROM (
+           SELECT dc.*, ROW_NUMBER() OVER (PARTITION BY dc.document_id ORDER BY dc.chunk_index) AS position
+           FROM document_chunks dc
+           WHERE dc.document_id = ANY($1::uuid[]) AND dc.chunk_index > $2
+         ) ranked
+         WHERE position <= $3
+         ORDER BY document_id, chunk_index`,
+        [group.map((key) => key.documentId), afterIndex, first + 1]
+      );
+
+      for (const key of group) {
+        const chunks = rows.filter((row) => row.document_id === key.documentId);
+        pages.set(key, {
+          edges: chunks.slice(0, first).map((row) => ({
+            node: {
+              id: row.id,
+              documentId: row.document_id,
+              chunkText: row.chunk_text,
+              chunkIndex: row.chunk_index,
+              metadata: row.metadata,
+              createdAt: row.created_at,
+            } as DocumentChunk,
+            cursor: encodeCursor({ chunkIndex: row.chunk_index }),
+          })),
+          hasNextPage: chunks.length > first,
+          hasPreviousPage: Boolean(after),
+        });
+      }
+    }
+
+    return keys.map((key) => pages.get(key)!);
+  }
+
+  #compileFilter(filter: DocumentListFilter, params: unknown[]): string {
+    const clauses: string[] = [];
+
+    if (filter.titleContains) {
+      clauses.push(`d.title ILIKE $${params.push(likePattern(filter.titleContains))}`);
+    }
+
+    if (filter.search?.trim()) {
+      clauses.push(
+        `d.search_vector @@ websearch_to_tsquery('simple', $${params.push(filter.search)})`
+      );
+    }
+
+    if (filter.language) {
+      clauses.push(`d.language = $${params.push(normalizeLanguage(filter.language))}`);
+    }
+
+    if (filter.updatedAt) {
+      const { from, to } = filter.updatedAt;
+      if (from == null && to == null) {
+        throw new ValidationError('A date range needs "from" or "to"', 'filter.updatedAt');
+      }
+      if (from != null) {
+        clauses.push(`d.updated_at >= $${params.push(from)}`);
+      }
+      if (to != null) {
+        clauses.push(`d.updated_at < $${params.push(to)}`);
+      }
+    }
+
+    filter.metadata?.forEach((metadataFilter, index) => {
+      if (metadataFilter.scope === 'chunk') {
+        throw new ValidationError(
+          'Only document metadata can be filtered when listing documents',
+          `filter.metadata[${index}].scope`,
+          metadataFilter.scope
+        );
+      }
+    });
+
+    /* File types, creation date and metadata share the search filter semantics */
+    clauses.push(
+      compileSearchFilter(
+        {
+          ...(filter.fileTypes && { fileTypes: filter.fileTypes }),
+          ...(filter.createdAt && { createdAt: filter.createdAt }),
+          ...(filter.metadata && { metadata: filter.metadata }),
+        },
+        params
+      )
+    );
+
+    return clauses.join(' AND ');
+  }
+}
+
+/* Singleton instance */
+export const documentListService = new DocumentListService();
@@ -1,61 +1,136 @@
+import { createHash } from 'crypto';
+import type { EntityManager, QueryRunner } from 'typeorm';
+
 import { AppDataSource } from '../config/data-source.ts';
 import { Document } from '../models/Document.ts';
 import { DocumentChunk } from '../models/DocumentChunk.ts';
+import { IngestionJob, IngestionProgress } from '../models/IngestionJob.ts';
 import { textExtractionService } from './TextExtractionService.ts';
-import { openAIService } from './HuggingFaceAIService.ts';
+import type { ExtractedText } from './TextExtractionService.ts';
+import { chunkDocument, resolveChunkingOptions } from './chunking/index.ts';
+import type { ChunkingOptions, DocumentStructure, TextChunk } from './chunking/index.ts';
+import { embeddingModelService } from './EmbeddingModelService.ts';
+import type { ChunkEmbeddings } from './EmbeddingModelService.ts';
+import { searchService } from './SearchService.ts';
+import { documentVersionService } from './DocumentVersionService.ts';
+import { duplicateDetectionService } from './DuplicateDetectionService.ts';
+import { enrichmentService } from './EnrichmentService.ts';
+import type { DocumentEnrichment } from './EnrichmentService.ts';
+import { contentHash, simhash } from './deduplication/index.ts';
+import { detectLanguage, textSearchConfig } from './search/index.ts';
 import { logger } from '../utils/logger.ts';
-import { redisClient } from '../config/redis.ts';
+import { env } from '../config/environment.ts';
 
 import {
+  DocumentNotFoundError,
   DocumentProcessingError,
+  DuplicateDocumentError,
   EmptyDocumentError,
   EmbeddingGenerationError,
-  DatabaseError,
+  EmbeddingModelChangedError,
 } from '../errors/DomainErrors.ts';
 import { handleDatabaseError, logError } from '../utils/errorHandler.ts';
-import { AppError } from 'errors/AppError.ts';
+import { AppError } from '../errors/AppError.ts';
+
+export interface ReindexResult {
+  document: Document;
+  totalChunks: number;
+  /* Chunks whose text changed and got a new embedding */
+  embeddedChunks: number;
+  /* Chunks whose text was unchanged and kept their embedding */
+  reusedChunks: number;
+  /* Chunks of the previous text that no longer exist */
+  deletedChunks: number;
+}
+
+export interface ReindexOptions {
+  /* Field changes applied in the same transaction as the new chunks */
+  changes?: Partial<Pick<Document, 'title' | 'filePath' | 'fileType' | 'content' | 'metadata'>>;
+  /* Recorded on the resulting version when it restores an older one */
+  restoredFromVersion?: number;
+}
+
+/* Identifies chunk text across re-indexing runs */
+function hashChunkText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
 
 /**
  * Document Processing Service
- * Handles document upload, text extraction, chunking, and embedding generation
+ * Handles text extraction, chunking, and embedding generation for ingestion jobs
  */
 
 export class DocumentProcessingService {
-  /* Process uploaded file and create document with chunks */
-  async processDocument(fileBuffer: Buffer, fileName: string, mimeType: string): Promise<Document> {
+  /**
+   * Run an ingestion job: extract text, chunk it and embed every batch
+   * Resumable - a retried job reuses its document and skips batches that were already persisted
+   */
+  async processIngestionJob(
+    job: IngestionJob,
+    payload: Buffer | null,
+    reportProgress: (progress: IngestionProgress) => Promise<unknown>
+  ): Promise<Document> {
+    const { fileName, mimeType } = job;
+
     try {
-      /* Extract text from file */
-      logger.info(`Extracting text from ${fileName} (${mimeType})`);
-      const text = await textExtractionService.extractText(fileBuffer, mimeType);
-
-      if (!text || text.trim().length === 0) {
-        throw new EmptyDocumentError();
-      }
-
-      /* Create document */
-      let savedDocument;
-      try {
-        const documentRepository = AppDataSource.getRepository(Document);
-        const document = documentRepository.create({
-          title: fileName,
-          fileType: mimeType,
-          content: text,
-          metadata: {
-            fileName,
-            mimeType,
-            textLength: text.length,
-          },
+      /* A new version of an existing document replaces its content in a single re-index */
+      if (job.targetDocumentId && !job.documentId) {
+        const extracted = await this.#extractText(job, payload, reportProgress);
+        return await this.#ingestNewVersion(job, job.targetDocumentId, extracted, reportProgress);
+      }
+
+      /* The upload already resolved to the existing document it duplicates */
+      if (job.documentId && job.documentId === job.duplicateOfId) {
+        const existing = await AppDataSource.getRepository(Document).findOneBy({
+          id: job.documentId,
+        });
+        if (!existing) {
+          throw new DocumentNotFoundError(job.documentId);
+        }
+        return existing;
+      }
+
+      /* Extract text and create the document (skipped when resuming) */
+      let document: Document;
+      if (job.documentId) {
+        const existing = await AppDataSource.getRepository(Document).findOneBy({
+          id: job.documentId,
         });
+        if (!existing) {
+          throw new DocumentNotFoundError(job.documentId);
+        }
+        document = existing;
+        logger.info(
+          `Resuming ingestion of document ${document.id} at chunk ${job.processedChunks}`
+        );
+      } else {
+        const extracted = await this.#extractText(job, payload, reportProgress);
 
-        savedDocument = await documentRepository.save(document);
-        logger.info(`Document created: ${savedDocument.id}`);
-      } catch (err) {
-        throw handleDatabaseError(err, 'Failed to save document');
+        const duplicate = await this.#resolveDuplicate(job, extracted, reportProgress);
+        if (duplicate) {
+          return duplicate;
+        }
+
+        document = await this.#createDocumentFromFile(
+          extracted,
+          fileName,
+          mimeType,
+          job.ownerId,
+          resolveChunkingOptions(job.chunking),
+          job.filePath
+        );
+        await reportProgress({ documentId: document.id });
       }
 
-      /* Chunk text */
-      logger.info('Chunking text...');
-      const chunks = textExtractionService.chunkText(text, 1000, 200);
+      /* Chunk text with the strategy recorded on the document, so a resumed job gets the same chunks */
+      await reportProgress({ stage: 'chunking' });
+      const chunking = resolveChunkingOptions(document.metadata?.chunking ?? job.chunking);
+      logger.info(`Chunking text (${chunking.strategy}, size ${chunking.chunkSize})...`);
+      const chunks = chunkDocument(
+        document.content ?? '',
+        chunking,
+        (document.metadata?.structure as DocumentStructure | undefined) ?? {}
+      );
       logger.info(`Created ${chunks.length} chunks`);
 
       if (chunks.length === 0) {
@@ -63,166 +138,653 @@ export class DocumentProcessingService {
       }
 
       /* Generate embeddings for chunks */
+      await reportProgress({ stage: 'embedding', totalChunks: chunks.length });
       logger.info('Generating embeddings...');
-      const chunkRepository = AppDataSource.getRepository(DocumentChunk);
 
       /* Process chunks in batches to avoid rate limits */
-      const batchSize = 10;
-      for (let i = 0; i < chunks.length; i += batchSize) {
-        const batch = chunks.slice(i, i + batchSize);
+      const { batchSize } = env.ingestion;
+      const totalBatches = Math.ceil(chunks.length / batchSize);
+      for (let i = job.processedChunks; i < chunks.length; i += batchSize) {
         const batchNumber = Math.floor(i / batchSize) + 1;
-        const totalBatches = Math.ceil(chunks.length / batchSize);
         logger.info(`Processing batch ${batchNumber}/${totalBatches}`);
 
-        try {
-          const embeddings = await openAIService.generateEmbeddings(batch);
-
-          if (!embeddings || embeddings.length !== batch.length) {
-            throw new EmbeddingGenerationError(
-              `Expected ${batch.length} embeddings, but received ${embeddings?.length || 0}`
-            );
-          }
+        await this.#embedBatch(document, chunks.slice(i, i + batchSize), i, {
+          batchNumber,
+          totalBatches,
+        });
+        await reportProgress({ processedChunks: Math.min(i + batchSize, chunks.length) });
+      }
 
-          /* Create chunk entities */
-          const chunkEntities = batch.map((chunkText, index) => {
-            const rawEmbedding = embeddings[index];
-            let embedding: number[] | null = null;
-
-            if (rawEmbedding === null || rawEmbedding === undefined) {
-              throw new EmbeddingGenerationError(
-                `No embedding returned for chunk at index ${index} in batch ${batchNumber}`
-              );
-            }
-
-            if (Array.isArray(rawEmbedding)) {
-              /* Check if it's a nested array (number[][]) */
-              if (rawEmbedding.length > 0 && Array.isArray(rawEmbedding[0])) {
-                /* Flatten: [[1,2], [3,4]] -> [1,2,3,4] */
-                embedding = (rawEmbedding as number[][]).flat();
-              } else {
-                /* Already flat: [1,2,3] */
-                embedding = rawEmbedding as number[];
-              }
-            } else if (typeof rawEmbedding === 'number') {
-              /* Single number -> wrap in array */
-              embedding = [rawEmbedding];
-            }
-
-            if (!embedding || embedding.length === 0) {
-              throw new Error(`Invalid embedding format at index ${index}`);
-            }
-
-            const chunk = chunkRepository.create({
-              document: savedDocument,
-              chunkText,
-              chunkIndex: i + index,
-              embedding,
-              metadata: {
-                chunkLength: chunkText.length,
-              },
-            });
-            return chunk;
-          });
-
-          /* Save chunks (we'll need to use raw SQL for vector storage) */
-          await this.#saveChunksWithEmbeddings(chunkEntities);
-        } catch (err) {
-          if (err instanceof EmbeddingGenerationError) {
-            throw err;
+      /* A resumed job keeps the enrichment of the content it already described */
+      if (
+        env.enrichment.enabled &&
+        document.metadata?.enrichment?.contentHash !== document.contentHash
+      ) {
+        await reportProgress({ stage: 'enriching' });
+        const enrichment = await this.#tryEnrichment(document.content ?? '', fileName);
+        if (enrichment) {
+          this.#applyEnrichment(document, enrichment);
+          try {
+            document = await AppDataSource.getRepository(Document).save(document);
+          } catch (err) {
+            throw handleDatabaseError(err, 'Failed to save document enrichment');
           }
-          throw new DocumentProcessingError(
-            `Failed to process batch ${batchNumber}`,
-            err instanceof Error ? err : undefined,
-            { batchNumber, totalBatches, documentId: savedDocument.id }
-          );
         }
       }
 
-      logger.info(
-        `Successfully processed document ${savedDocument.id} with ${chunks.length} chunks`
-      );
+      await reportProgress({ stage: 'finalizing' });
+      await this.#updateDocumentEmbedding(document.id);
+      await documentVersionService.recordVersion(document);
+      logger.info(`Successfully processed document ${document.id} with ${chunks.length} chunks`);
 
-      /* Invalidate cache (gracefully handle Redis failures) */
-      try {
-        await redisClient.delPattern('documents:*');
-      } catch (err) {
-        /* Log but don't fail - cache invalidation is not critical */
-        logger.warn('Failed to invalidate cache after document processing:', err);
-      }
+      /* The new document may join cached searches of its owner */
+      await this.#invalidateCaches(document.id, document.ownerId);
 
-      return savedDocument;
+      return document;
     } catch (err) {
       if (err instanceof AppError) {
-        logError(err, { fileName, mimeType });
+        logError(err, { fileName, mimeType, jobId: job.id });
         throw err;
       }
       /* Wrap unexpected errors */
       const appError = new DocumentProcessingError(
         'An unexpected error occurred while processing the document',
         err instanceof Error ? err : undefined,
-        { fileName, mimeType }
+        { fileName, mimeType, jobId: job.id }
       );
       logger.error(appError);
       throw appError;
     }
   }
 
+  /**
+   * Replace the content of the job's target document with the uploaded file
+   * Chunks whose text is unchanged keep their embedding; the document is only reported on the
+   * job once the new version is in place, so a failed job never deletes it
+   */
+  async #ingestNewVersion(
+    job: IngestionJob,
+    targetDocumentId: string,
+    { text, structure }: ExtractedText,
+    reportProgress: (progress: IngestionProgress) => Promise<unknown>
+  ): Promise<Document> {
+    const { fileName, mimeType } = job;
+
+    const target = await AppDataSource.getRepository(Document).findOneBy({
+      id: targetDocumentId,
+      ...(job.ownerId && { ownerId: job.ownerId }),
+    });
+    if (!target) {
+      throw new DocumentNotFoundError(targetDocumentId);
+    }
+
+    /* Described before re-indexing, so the new version is recorded with its enrichment */
+    let enrichment: DocumentEnrichment | null = null;
+    if (env.enrichment.enabled && target.metadata?.enrichment?.contentHash !== contentHash(text)) {
+      await reportProgress({ stage: 'enriching' });
+      enrichment = await this.#tryEnrichment(text, fileName);
+    }
+
+    await reportProgress({ stage: 'embedding' });
+    /* Page and heading offsets described the old text */
+    const metadata = { ...target.metadata };
+    delete metadata.structure;
+    const result = await this.reindexDocument(target.id, undefined, {
+      changes: {
+        fileType: mimeType,
+        filePath: job.filePath ?? target.filePath ?? null,
+        content: text,
+        metadata: {
+          ...metadata,
+          fileName,
+          mimeType,
+          chunking: resolveChunkingOptions(job.chunking ?? target.metadata?.chunking),
+          ...(structure.pages?.length || structure.headings?.length ? { structure } : {}),
+          ...(enrichment && { enrichment }),
+        },
+        ...(enrichment?.title && this.#hasDefaultTitle(target) && { title: enrichment.title }),
+      },
+    });
+
+    await reportProgress({
+      stage: 'finalizing',
+      documentId: target.id,
+      totalChunks: result.totalChunks,
+      processedChunks: result.totalChunks,
+    });
+    logger.info(
+      `Uploaded a new version of document ${target.id}: ${result.embeddedChunks} chunks embedded, ${result.reusedChunks} kept`
+    );
+    return result.document;
+  }
+
+  /* Extract the text of the job's uploaded file */
+  async #extractText(
+    job: IngestionJob,
+    payload: Buffer | null,
+    reportProgress: (progress: IngestionProgress) => Promise<unknown>
+  ): Promise<ExtractedText> {
+    if (!payload) {
+      throw new DocumentProcessingError('The uploaded file is no longer available', undefined, {
+        jobId: job.id,
+      });
+    }
+
+    await reportProgress({ stage: 'extracting' });
+    logger.info(`Extracting text from ${job.fileName} (${job.mimeType})`);
+    const extracted = await textExtractionService.extractText(payload, job.mimeType);
+
+    if (!extracted.text || extracted.text.trim().length === 0) {
+      throw new EmptyDocumentError();
+    }
+    return extracted;
+  }
+
+  /**
+   * Apply the job's duplicate policy when the uploaded text duplicates a document of its owner
+   * Returns the document the upload resolved to, or null when it duplicates nothing
+   */
+  async #resolveDuplicate(
+    job: IngestionJob,
+    extracted: ExtractedText,
+    reportProgress: (progress: IngestionProgress) => Promise<unknown>
+  ): Promise<Document | null> {
+    const duplicate = await duplicateDetectionService.findDuplicateOf(job.ownerId ?? null, {
+      contentHash: contentHash(extracted.text),
+      simhash: simhash(extracted.text),
+    });
+    if (!duplicate) {
+      return null;
+    }
+
+    const policy = job.duplicatePolicy ?? env.deduplication.policy;
+    logger.info(
+      `${job.fileName} ${duplicate.exact ? 'duplicates' : 'nearly duplicates'} document ${duplicate.documentId} (policy: ${policy})`
+    );
+
+    switch (policy) {
+      case 'reject':
+        throw new DuplicateDocumentError(job.fileName, duplicate.documentId, duplicate.exact);
+      case 'new_version':
+        await reportProgress({ duplicateOfId: duplicate.documentId });
+        return this.#ingestNewVersion(job, duplicate.documentId, extracted, reportProgress);
+      case 'link': {
+        const document = await AppDataSource.getRepository(Document).findOneBy({
+          id: duplicate.documentId,
+        });
+        if (!document) {
+          throw new DocumentNotFoundError(duplicate.documentId);
+        }
+        await reportProgress({
+          stage: 'finalizing',
+          duplicateOfId: document.id,
+          documentId: document.id,
+        });
+        return document;
+      }
+    }
+  }
+
+  /* Save extracted text as a new document */
+  async #createDocumentFromFile(
+    { text, structure }: ExtractedText,
+    fileName: string,
+    mimeType: string,
+    ownerId: string | null | undefined,
+    chunking: ChunkingOptions,
+    filePath: string | null | undefined
+  ): Promise<Document> {
+    try {
+      const documentRepository = AppDataSource.getRepository(Document);
+      const document = documentRepository.create({
+        ownerId: ownerId ?? null,
+        title: fileName,
+        filePath: filePath ?? null,
+        fileType: mimeType,
+        content: text,
+        language: detectLanguage(text),
+        contentHash: contentHash(text),
+        simhash: simhash(text),
+        metadata: {
+          fileName,
+          mimeType,
+          textLength: text.length,
+          chunking,
+          ...(structure.pages?.length || structure.headings?.length ? { structure } : {}),
+        },
+      });
+
+      const savedDocument = await documentRepository.save(document);
+      logger.info(`Document created: ${savedDocument.id}`);
+      return savedDocument;
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to save document');
+    }
+  }
+
+  /* Embed one batch of chunks and persist it */
+  async #embedBatch(
+    document: Document,
+    batch: TextChunk[],
+    startIndex: number,
+    { batchNumber, totalBatches }: { batchNumber: number; totalBatches: number }
+  ): Promise<void> {
+    const chunkRepository = AppDataSource.getRepository(DocumentChunk);
+
+    try {
+      /* The provider guarantees one vector of the configured dimensions per text */
+      const embedded = await embeddingModelService.embedChunks(batch.map((chunk) => chunk.text));
+
+      /* Create chunk entities */
+      const chunkEntities = batch.map((chunk, index) =>
+        chunkRepository.create({
+          documentId: document.id,
+          ownerId: document.ownerId ?? null,
+          chunkText: chunk.text,
+          chunkIndex: startIndex + index,
+          contentHash: hashChunkText(chunk.text),
+          tsConfig: textSearchConfig(document.language),
+          metadata: this.#chunkMetadata(chunk),
+        })
+      );
+
+      /* Save chunks (we'll need to use raw SQL for vector storage) */
+      await this.#saveChunksWithEmbeddings(chunkEntities, embedded);
+    } catch (err) {
+      if (err instanceof EmbeddingGenerationError || err instanceof EmbeddingModelChangedError) {
+        throw err;
+      }
+      throw new DocumentProcessingError(
+        `Failed to process batch ${batchNumber}`,
+        err instanceof Error ? err : undefined,
+        { batchNumber, totalBatches, documentId: document.id }
+      );
+    }
+  }
+
   /**
    * Save chunks with embeddings using raw SQL
    * TypeORM doesn't support pgvector's vector type natively
+   * `embedded` holds the embeddings of the chunks, in order. While a model migration backfills,
+   * the embeddings of its model are written too; the write fails with EmbeddingModelChangedError
+   * when the models changed since the chunks were embedded.
    */
-  async #saveChunksWithEmbeddings(chunks: Partial<DocumentChunk>[]): Promise<void> {
-    const queryRunner = AppDataSource.createQueryRunner();
+  async #saveChunksWithEmbeddings(
+    chunks: Partial<DocumentChunk>[],
+    embedded: ChunkEmbeddings,
+    transaction?: QueryRunner
+  ): Promise<void> {
+    if (chunks.length === 0) {
+      return;
+    }
+
+    const queryRunner = transaction ?? AppDataSource.createQueryRunner();
+    const { active, target, embeddings, targetEmbeddings } = embedded;
+
+    /* Columns of the model being migrated to exist only while it backfills */
+    const targetColumns = target
+      ? ', embedding_next, embedding_next_model, embedding_next_dimensions'
+      : '';
+    const targetValues = target ? ', $12::vector, $13, $14' : '';
+    const targetUpdates = target
+      ? `, embedding_next = EXCLUDED.embedding_next,
+           embedding_next_model = EXCLUDED.embedding_next_model,
+           embedding_next_dimensions = EXCLUDED.embedding_next_dimensions`
+      : '';
 
     try {
       await queryRunner.connect();
+      if (!transaction) {
+        await queryRunner.startTransaction();
+      }
+      await embeddingModelService.checkModels(queryRunner, embedded);
 
-      for (const chunk of chunks) {
-        if (!chunk.embedding || !Array.isArray(chunk.embedding)) {
+      for (const [index, chunk] of chunks.entries()) {
+        const embedding = embeddings[index];
+        if (!embedding || !Array.isArray(embedding)) {
           throw new Error('Embedding must be a number array');
         }
-
-        /* Convert embedding array to PostgreSQL vector format */
-        const vectorString = `[${chunk.embedding.join(',')}]`;
+        const targetEmbedding = targetEmbeddings?.[index];
 
         await queryRunner.query(
-          `INSERT INTO document_chunks (id, document_id, chunk_text, chunk_index, embedding, metadata, created_at)
-           VALUES ($1, $2, $3, $4, $5::vector, $6::jsonb, NOW())
+          `INSERT INTO document_chunks (id, document_id, owner_id, chunk_text, chunk_index, content_hash, ts_config, embedding, embedding_model, embedding_dimensions, metadata, created_at${targetColumns})
+           VALUES ($1, $2, $3, $4, $5, $6, $7::regconfig, $8::vector, $9, $10, $11::jsonb, NOW()${targetValues})
            ON CONFLICT (document_id, chunk_index) DO UPDATE
            SET chunk_text = EXCLUDED.chunk_text,
+               content_hash = EXCLUDED.content_hash,
+               ts_config = EXCLUDED.ts_config,
                embedding = EXCLUDED.embedding,
-               metadata = EXCLUDED.metadata`,
+               embedding_model = EXCLUDED.embedding_model,
+               embedding_dimensions = EXCLUDED.embedding_dimensions,
+               metadata = EXCLUDED.metadata${targetUpdates}`,
           [
             chunk.id || crypto.randomUUID(),
             chunk.documentId,
+            chunk.ownerId ?? null,
             chunk.chunkText,
             chunk.chunkIndex,
-            vectorString /* This will be cast to vector type */,
+            chunk.contentHash ?? null,
+            chunk.tsConfig ?? textSearchConfig(null),
+            /* Convert embedding array to PostgreSQL vector format */
+            `[${embedding.join(',')}]`,
+            active.model,
+            active.dimensions,
             JSON.stringify(chunk.metadata || {}),
+            /* Left empty for the backfill when the target model failed */
+            ...(target
+              ? [
+                  targetEmbedding ? `[${targetEmbedding.join(',')}]` : null,
+                  targetEmbedding ? target.model : null,
+                  targetEmbedding ? target.dimensions : null,
+                ]
+              : []),
           ]
         );
       }
+
+      if (!transaction) {
+        await queryRunner.commitTransaction();
+      }
     } catch (error) {
+      if (!transaction && queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
       logger.error('Error saving chunks with embeddings:', error);
       throw error;
     } finally {
-      await queryRunner.release();
+      if (!transaction) {
+        await queryRunner.release();
+      }
+    }
+  }
+
+  #chunkMetadata(chunk: TextChunk): Record<string, unknown> {
+    return {
+      chunkLength: chunk.text.length,
+      startOffset: chunk.startOffset,
+      endOffset: chunk.endOffset,
+      headingPath: chunk.headingPath,
+      page: chunk.page,
+    };
+  }
+
+  /**
+   * Bring the chunks of a document in line with its current content
+   * The content is re-chunked and diffed against the stored chunks by content hash:
+   * unchanged chunks keep their embedding (only their position is updated), new text is
+   * embedded, and chunks of text that no longer exists are deleted.
+   * When ownerId is given, only a document owned by that user is re-indexed.
+   * The resulting state is recorded as a new version of the document.
+   */
+  async reindexDocument(
+    documentId: string,
+    ownerId?: string,
+    { changes, restoredFromVersion }: ReindexOptions = {}
+  ): Promise<ReindexResult> {
+    const document = await AppDataSource.getRepository(Document).findOneBy({
+      id: documentId,
+      ...(ownerId && { ownerId }),
+    });
+    if (!document) {
+      throw new DocumentNotFoundError(documentId);
+    }
+    Object.assign(document, changes);
+
+    try {
+      /* The new text may be in another language; every chunk is re-indexed with its configuration */
+      const language = detectLanguage(document.content ?? '');
+      const tsConfig = textSearchConfig(language);
+
+      const chunking = resolveChunkingOptions(document.metadata?.chunking);
+      const chunks = chunkDocument(
+        document.content ?? '',
+        chunking,
+        (document.metadata?.structure as DocumentStructure | undefined) ?? {}
+      );
+
+      /* Match every new chunk with a stored chunk of identical text, if any is left */
+      const existingChunks = await AppDataSource.getRepository(DocumentChunk).find({
+        where: { documentId },
+        select: { id: true, chunkIndex: true, chunkText: true, contentHash: true },
+        order: { chunkIndex: 'ASC' },
+      });
+      const reusable = new Map<string, DocumentChunk[]>();
+      for (const chunk of existingChunks) {
+        const hash = chunk.contentHash ?? hashChunkText(chunk.chunkText);
+        reusable.set(hash, [...(reusable.get(hash) ?? []), chunk]);
+      }
+
+      const plan = chunks.map((chunk, index) => {
+        const contentHash = hashChunkText(chunk.text);
+        return { chunk, index, contentHash, reused: reusable.get(contentHash)?.shift() };
+      });
+      const orphaned = [...reusable.values()].flat();
+      const changed = plan.filter((entry) => !entry.reused);
+
+      /* Embed outside the transaction - it is the slow part */
+      const embedded = await embeddingModelService.embedChunks(
+        changed.map(({ chunk }) => chunk.text)
+      );
+
+      await AppDataSource.transaction(async (manager) => {
+        if (orphaned.length > 0) {
+          await manager.delete(
+            DocumentChunk,
+            orphaned.map((chunk) => chunk.id)
+          );
+        }
+
+        /* Park kept chunks on negative indexes so renumbering never hits the unique index */
+        await manager.query(
+          `UPDATE document_chunks SET chunk_index = -1 - chunk_index WHERE document_id = $1`,
+          [documentId]
+        );
+        for (const { chunk, index, contentHash, reused } of plan) {
+          if (reused) {
+            await manager.query(
+              `UPDATE document_chunks
+               SET chunk_index = $2, owner_id = $3, content_hash = $4, metadata = $5::jsonb,
+                   ts_config = $6::regconfig
+               WHERE id = $1`,
+              [
+                reused.id,
+                index,
+                document.ownerId ?? null,
+                contentHash,
+                JSON.stringify(this.#chunkMetadata(chunk)),
+                tsConfig,
+              ]
+            );
+          }
+        }
+
+        await this.#saveChunksWithEmbeddings(
+          changed.map(({ chunk, index, contentHash }) => ({
+            documentId,
+            ownerId: document.ownerId ?? null,
+            chunkText: chunk.text,
+            chunkIndex: index,
+            contentHash,
+            tsConfig,
+            metadata: this.#chunkMetadata(chunk),
+          })),
+          embedded,
+          manager.queryRunner
+        );
+
+        /* Record the strategy so the next re-index splits the text the same way */
+        document.language = language;
+        document.contentHash = document.content != null ? contentHash(document.content) : null;
+        document.simhash = document.content != null ? simhash(document.content) : null;
+        document.metadata = {
+          ...document.metadata,
+          chunking,
+          textLength: document.content?.length ?? 0,
+        };
+        /* An enrichment only describes the content it was generated from */
+        if (document.metadata.enrichment?.contentHash !== document.contentHash) {
+          delete document.metadata.enrichment;
+        }
+        await manager.save(document);
+        await this.#updateDocumentEmbedding(documentId, manager);
+
+        await documentVersionService.recordVersion(document, { restoredFromVersion, manager });
+      });
+
+      logger.info(
+        `Re-indexed document ${documentId}: ${changed.length} embedded, ${chunks.length - changed.length} kept, ${orphaned.length} deleted`
+      );
+
+      await this.#invalidateCaches(documentId, document.ownerId);
+
+      return {
+        document,
+        totalChunks: chunks.length,
+        embeddedChunks: changed.length,
+        reusedChunks: chunks.length - changed.length,
+        deletedChunks: orphaned.length,
+      };
+    } catch (err) {
+      if (err instanceof AppError) {
+        throw err;
+      }
+      throw handleDatabaseError(err, 'Failed to re-index document');
+    }
+  }
+
+  /**
+   * Bring a document back to the state of one of its versions
+   * The restored state is re-indexed (chunks of text still present keep their embedding) and
+   * recorded as a new version, so the history itself is never rewritten
+   */
+  async restoreVersion(
+    documentId: string,
+    versionNumber: number,
+    ownerId?: string
+  ): Promise<ReindexResult> {
+    const version = await documentVersionService.getVersion(documentId, versionNumber, ownerId);
+
+    return this.reindexDocument(documentId, ownerId, {
+      changes: {
+        title: version.title,
+        filePath: version.filePath ?? null,
+        fileType: version.fileType ?? null,
+        content: version.content ?? null,
+        metadata: version.metadata ?? {},
+      },
+      restoredFromVersion: version.versionNumber,
+    });
+  }
+
+  /**
+   * Generate the summary, keywords, title and entities of a document again
+   * When ownerId is given, only a document owned by that user is enriched.
+   * The result is recorded as a new version of the document.
+   */
+  async regenerateEnrichment(documentId: string, ownerId?: string): Promise<Document> {
+    const documentRepository = AppDataSource.getRepository(Document);
+    const document = await documentRepository.findOneBy({
+      id: documentId,
+      ...(ownerId && { ownerId }),
+    });
+    if (!document) {
+      throw new DocumentNotFoundError(documentId);
+    }
+    if (!document.content?.trim()) {
+      throw new EmptyDocumentError();
+    }
+
+    const enrichment = await enrichmentService.generate(
+      document.content,
+      (document.metadata?.fileName as string | undefined) ?? null
+    );
+    this.#applyEnrichment(document, enrichment);
+
+    let saved: Document;
+    try {
+      saved = await documentRepository.save(document);
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to save document enrichment');
+    }
+    await documentVersionService.recordVersion(saved);
+    await this.#invalidateCaches(saved.id, saved.ownerId);
+
+    logger.info(`Regenerated the enrichment of document ${documentId}`);
+    return saved;
+  }
+
+  /* Enrichment is best-effort during ingestion: a failure leaves the document undescribed */
+  async #tryEnrichment(text: string, fileName: string): Promise<DocumentEnrichment | null> {
+    try {
+      return await enrichmentService.generate(text, fileName);
+    } catch (err) {
+      logger.warn(`Skipping enrichment of ${fileName}:`, err);
+      return null;
+    }
+  }
+
+  /* Store an enrichment on a document, replacing its title unless a user set it */
+  #applyEnrichment(document: Document, enrichment: DocumentEnrichment): void {
+    if (enrichment.title && this.#hasDefaultTitle(document)) {
+      document.title = enrichment.title;
+    }
+    document.metadata = { ...document.metadata, enrichment };
+  }
+
+  /* The title is still the uploaded file name or the generated one */
+  #hasDefaultTitle(document: Document): boolean {
+    return (
+      document.title === document.metadata?.fileName ||
+      document.title === document.metadata?.enrichment?.title
+    );
+  }
+
+  /* Pool the chunk embeddings of a document into its document-level embedding */
+  async #updateDocumentEmbedding(
+    documentId: string,
+    manager: EntityManager = AppDataSource.manager
+  ): Promise<void> {
+    await manager.query(
+      `UPDATE documents
+       SET embedding = (
+         SELECT AVG(embedding)
+         FROM document_chunks
+         WHERE document_id = $1 AND embedding IS NOT NULL
+       )
+       WHERE id = $1`,
+      [documentId]
+    );
+  }
+
+  /* Cached searches may show the changed document, or miss it */
+  async #invalidateCaches(documentId: string, ownerId: string | null | undefined): Promise<void> {
+    try {
+      await searchService.invalidateDocument(documentId, ownerId);
+    } catch (err) {
+      /* Log but don't fail - cache invalidation is not critical */
+      logger.warn(`Failed to invalidate cached searches of document ${documentId}:`, err);
     }
   }
 
   /**
    * Delete document and its chunks
+   * When ownerId is given, only a document owned by that user is deleted
    */
-  async deleteDocument(documentId: string): Promise<boolean> {
+  async deleteDocument(documentId: string, ownerId?: string): Promise<boolean> {
     try {
       const documentRepository = AppDataSource.getRepository(Document);
-      const result = await documentRepository.delete(documentId);
+      const result = await documentRepository.delete({
+        id: documentId,
+        ...(ownerId && { ownerId }),
+      });
 
-      /* Invalidate cache */
-      await redisClient.delPattern('documents:*');
-      await redisClient.delPattern(`search:*`);
+      /* Only the cached searches that returned the document are affected */
+      const deleted = (result.affected ?? 0) > 0;
+      if (deleted) {
+        await searchService.invalidateDocument(documentId, ownerId, { deleted: true });
+      }
 
-      return (result.affected ?? 0) > 0;
+      return deleted;
     } catch (error) {
       logger.error('Error deleting document:', error);
       throw error;
@@ -0,0 +1,154 @@
+import type { EntityManager } from 'typeorm';
+
+import { AppDataSource } from '../config/data-source.ts';
+import type { Document } from '../models/Document.ts';
+import { DocumentVersion } from '../models/DocumentVersion.ts';
+import { embeddingProvider } from './embeddings/index.ts';
+import { logger } from '../utils/logger.ts';
+
+import { DocumentVersionNotFoundError } from '../errors/DomainErrors.ts';
+import { handleDatabaseError } from '../utils/errorHandler.ts';
+
+export interface RecordVersionOptions {
+  /* Version whose state was restored to produce this one */
+  restoredFromVersion?: number | undefined;
+  /* Record inside an ongoing transaction, so the version matches what the transaction wrote */
+  manager?: EntityManager | undefined;
+}
+
+/**
+ * Document Version Service
+ * Records the history of documents and reads it back
+ */
+export class DocumentVersionService {
+  /**
+   * Record the current state of a document and its chunks as a new version
+   * Nothing is recorded when the document is unchanged since its latest version.
+   */
+  async recordVersion(
+    document: Document,
+    { restoredFromVersion, manager }: RecordVersionOptions = {}
+  ): Promise<DocumentVersion | null> {
+    if (!manager) {
+      return AppDataSource.transaction((transaction) =>
+        this.recordVersion(document, { restoredFromVersion, manager: transaction })
+      );
+    }
+
+    try {
+      /* Serialize version numbering per document */
+      await manager.query(`SELECT id FROM documents WHERE id = $1 FOR UPDATE`, [document.id]);
+
+      const fields = [
+        document.title,
+        document.filePath ?? null,
+        document.fileType ?? null,
+        document.content ?? null,
+        document.language ?? null,
+        JSON.stringify(document.metadata ?? {}),
+        embeddingProvider.name,
+        embeddingProvider.model,
+      ];
+
+      const [unchanged] = await manager.query(
+        `SELECT 1
+         FROM (
+           SELECT * FROM document_versions
+           WHERE document_id = $1
+           ORDER BY version_number DESC
+           LIMIT 1
+         ) latest
+         WHERE title = $2
+           AND file_path IS NOT DISTINCT FROM $3
+           AND file_type IS NOT DISTINCT FROM $4
+           AND content IS NOT DISTINCT FROM $5
+           AND language IS NOT DISTINCT FROM $6
+           AND metadata IS NOT DISTINCT FROM $7::jsonb
+           AND embedding_provider IS NOT DISTINCT FROM $8
+           AND embedding_model IS NOT DISTINCT FROM $9
+           AND chunk_count = (SELECT COUNT(*) FROM document_chunks WHERE document_id = $1)`,
+        [document.id, ...fields]
+      );
+      if (unchanged && restoredFromVersion === undefined) {
+        return null;
+      }
+
+      const [row] = await manager.query(
+        `INSERT INTO document_versions
+           (document_id, owner_id, version_number, title, file_path, file_type, content, language,
+            metadata, embedding_provider, embedding_model, chunk_count, restored_from_version)
+         SELECT $1, $2,
+                COALESCE((SELECT MAX(version_number) FROM document_versions WHERE document_id = $1), 0) + 1,
+                $3, $4, $5, $6, $7, $8::jsonb, $9, $10,
+                (SELECT COUNT(*) FROM document_chunks WHERE document_id = $1),
+                $11
+         RETURNING id, version_number`,
+        [document.id, document.ownerId ?? null, ...fields, restoredFromVersion ?? null]
+      );
+
+      /* Copy the chunk set, embeddings included, so the version stays searchable */
+      await manager.query(
+        `INSERT INTO document_version_chunks
+           (version_id, document_id, owner_id, chunk_text, chunk_index, content_hash, ts_config,
+            embedding, metadata)
+         SELECT $1, document_id, owner_id, chunk_text, chunk_index, content_hash, ts_config,
+                embedding, metadata
+         FROM document_chunks
+         WHERE document_id = $2`,
+        [row.id, document.id]
+      );
+
+      logger.info(`Recorded version ${row.version_number} of document ${document.id}`);
+      return manager.getRepository(DocumentVersion).findOneByOrFail({ id: row.id });
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to record document version');
+    }
+  }
+
+  /* Versions of a document, newest first */
+  async listVersions(documentId: string, ownerId?: string): Promise<DocumentVersion[]> {
+    return AppDataSource.getRepository(DocumentVersion).find({
+      where: { documentId, ...(ownerId && { ownerId }) },
+      order: { versionNumber: 'DESC' },
+    });
+  }
+
+  /* One version of a document */
+  async getVersion(
+    documentId: string,
+    versionNumber: number,
+    ownerId?: string
+  ): Promise<DocumentVersion> {
+    const version = await AppDataSource.getRepository(DocumentVersion).findOneBy({
+      documentId,
+      versionNumber,
+      ...(ownerId && { ownerId }),
+    });
+
+    if (!version) {
+      throw new DocumentVersionNotFoundError(documentId, versionNumber);
+    }
+    return version;
+  }
+
+  /* The version of a document that was current at a point in time, if it existed by then */
+  async getVersionAt(
+    documentId: string,
+    at: Date,
+    ownerId?: string
+  ): Promise<DocumentVersion | null> {
+    const query = AppDataSource.getRepository(DocumentVersion)
+      .createQueryBuilder('version')
+      .where('version.documentId = :documentId', { documentId })
+      .andWhere('version.createdAt <= :at', { at });
+
+    if (ownerId) {
+      query.andWhere('version.ownerId = :ownerId', { ownerId });
+    }
+
+    return query.orderBy('version.versionNumber', 'DESC').getOne();
+  }
+}
+
+/* Singleton instance */
+export const documentVersionService = new DocumentVersionService();
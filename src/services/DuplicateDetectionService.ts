@@ -0,0 +1,253 @@
+import { In } from 'typeorm';
+
+import { AppDataSource } from '../config/data-source.ts';
+import { env } from '../config/environment.ts';
+import { Document } from '../models/Document.ts';
+import type { DocumentSummary } from './DocumentListService.ts';
+
+import { ValidationError } from '../errors/DomainErrors.ts';
+import { handleDatabaseError } from '../utils/errorHandler.ts';
+
+export interface Fingerprint {
+  contentHash: string;
+  simhash: string | null;
+}
+
+/* Existing document an upload duplicates */
+export interface DuplicateMatch {
+  documentId: string;
+  /* Identical text, rather than a near-duplicate */
+  exact: boolean;
+  simhashDistance: number | null;
+}
+
+export interface DuplicatePair {
+  documentId: string;
+  duplicateId: string;
+  exact: boolean;
+  simhashDistance: number | null;
+  /* Cosine similarity of the document embeddings */
+  similarity: number | null;
+}
+
+/* Documents linked by duplicate pairs, directly or through each other */
+export interface DuplicateCluster {
+  documents: DocumentSummary[];
+  pairs: DuplicatePair[];
+}
+
+export interface FindDuplicatesOptions {
+  /* SimHash bits near-duplicates may differ by */
+  maxDistance?: number;
+  /* Document embedding similarity above which documents are duplicates */
+  minSimilarity?: number;
+}
+
+/* Only the closest pairs are clustered */
+const MAX_PAIRS = 5000;
+
+/*
+ * SimHashes within maxDistance bits share at least one of maxDistance + 1 bands, so only
+ * documents with an equal band are compared. Past this distance the bands get so narrow that
+ * most documents share one.
+ */
+const MAX_SIMHASH_DISTANCE = 6;
+
+/* Nearest neighbours of each document, through the vector index, compared by embedding */
+const EMBEDDING_NEIGHBOURS = 10;
+
+interface PairRow {
+  document_id: string;
+  duplicate_id: string;
+  exact: boolean;
+  simhash_distance: number | null;
+  similarity: number | null;
+}
+
+/**
+ * Duplicate Detection Service
+ * Finds documents with the same or nearly the same text, from their fingerprints and embeddings
+ */
+export class DuplicateDetectionService {
+  /**
+   * The document of a user that a text duplicates, if any
+   * Exact duplicates win over near-duplicates, then the closest and oldest document
+   */
+  async findDuplicateOf(
+    ownerId: string | null,
+    { contentHash, simhash }: Fingerprint
+  ): Promise<DuplicateMatch | null> {
+    try {
+      const [row]: Array<{ id: string; exact: boolean; simhash_distance: number | null }> =
+        await AppDataSource.query(
+          `SELECT id,
+                  COALESCE(content_hash = $2, false) AS exact,
+                  bit_count((simhash # $3::bigint)::bit(64))::int AS simhash_distance
+           FROM documents
+           WHERE owner_id IS NOT DISTINCT FROM $1
+             AND (content_hash = $2 OR bit_count((simhash # $3::bigint)::bit(64)) <= $4)
+           ORDER BY exact DESC, simhash_distance ASC NULLS LAST, created_at ASC
+           LIMIT 1`,
+          [ownerId, contentHash, simhash, env.deduplication.simhashDistance]
+        );
+
+      return row
+        ? { documentId: row.id, exact: row.exact, simhashDistance: row.simhash_distance }
+        : null;
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to look up duplicate documents');
+    }
+  }
+
+  /**
+   * Clusters of duplicate documents of a user
+   * Two documents are duplicates when their text is identical, their SimHashes are within
+   * maxDistance bits, or the cosine similarity of their document embeddings reaches minSimilarity.
+   * Largest clusters first.
+   * Only candidate pairs are compared: equal content hashes, equal SimHash bands and each
+   * document's nearest neighbours by embedding, all found without comparing every pair.
+   */
+  async findDuplicates(
+    ownerId: string,
+    {
+      maxDistance = env.deduplication.simhashDistance,
+      minSimilarity = env.deduplication.embeddingSimilarity,
+    }: FindDuplicatesOptions = {}
+  ): Promise<DuplicateCluster[]> {
+    if (!Number.isInteger(maxDistance) || maxDistance < 0 || maxDistance > MAX_SIMHASH_DISTANCE) {
+      throw new ValidationError(
+        `"maxDistance" must be between 0 and ${MAX_SIMHASH_DISTANCE}`,
+        'maxDistance',
+        maxDistance
+      );
+    }
+    if (minSimilarity < 0 || minSimilarity > 1) {
+      throw new ValidationError(
+        '"minSimilarity" must be between 0 and 1',
+        'minSimilarity',
+        minSimilarity
+      );
+    }
+
+    let rows: PairRow[];
+    try {
+      rows = await AppDataSource.query(
+        `WITH docs AS (
+           SELECT d.id, d.content_hash, d.simhash, d.embedding
+           FROM documents d
+           WHERE d.owner_id = $1
+         ),
+         bands AS (
+           SELECT d.id,
+                  band,
+                  substring(
+                    d.simhash::bit(64)
+                    FROM band * 64 / ($2 + 1) + 1
+                    FOR (band + 1) * 64 / ($2 + 1) - band * 64 / ($2 + 1)
+                  ) AS bits
+           FROM docs d
+           CROSS JOIN generate_series(0, $2) AS band
+           WHERE d.simhash IS NOT NULL
+         ),
+         candidates AS (
+           SELECT a.id AS a_id, b.id AS b_id
+           FROM docs a
+           JOIN docs b ON b.content_hash = a.content_hash AND a.id < b.id
+           UNION
+           SELECT a.id, b.id
+           FROM bands a
+           JOIN bands b ON b.band = a.band AND b.bits = a.bits AND a.id < b.id
+           UNION
+           SELECT LEAST(a.id, n.id), GREATEST(a.id, n.id)
+           FROM docs a
+           CROSS JOIN LATERAL (
+             SELECT b.id
+             FROM documents b
+             WHERE b.owner_id = $1 AND b.id <> a.id AND b.embedding IS NOT NULL
+             ORDER BY b.embedding <=> a.embedding
+             LIMIT $5
+           ) n
+           WHERE a.embedding IS NOT NULL
+         ),
+         pairs AS (
+           SELECT a.id AS document_id,
+                  b.id AS duplicate_id,
+                  COALESCE(a.content_hash = b.content_hash, false) AS exact,
+                  bit_count((a.simhash # b.simhash)::bit(64))::int AS simhash_distance,
+                  (1 - (a.embedding <=> b.embedding))::float AS similarity
+           FROM candidates c
+           JOIN docs a ON a.id = c.a_id
+           JOIN docs b ON b.id = c.b_id
+         )
+         SELECT * FROM pairs
+         WHERE exact OR simhash_distance <= $2 OR similarity >= $3
+         ORDER BY exact DESC, simhash_distance ASC NULLS LAST, similarity DESC NULLS LAST
+         LIMIT $4`,
+        [ownerId, maxDistance, minSimilarity, MAX_PAIRS, EMBEDDING_NEIGHBOURS]
+      );
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to find duplicate documents');
+    }
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    /* Union-find over the pairs */
+    const parents = new Map<string, string>();
+    const root = (id: string): string => {
+      const parent = parents.get(id) ?? id;
+      if (parent === id) {
+        return id;
+      }
+      const top = root(parent);
+      parents.set(id, top);
+      return top;
+    };
+    for (const row of rows) {
+      parents.set(root(row.duplicate_id), root(row.document_id));
+    }
+
+    const documents = await AppDataSource.getRepository(Document).find({
+      where: { id: In(rows.flatMap((row) => [row.document_id, row.duplicate_id])) },
+      select: {
+        id: true,
+        ownerId: true,
+        title: true,
+        filePath: true,
+        fileType: true,
+        language: true,
+        metadata: true,
+        contentHash: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+      order: { createdAt: 'ASC' },
+    });
+
+    const clusters = new Map<string, DuplicateCluster>();
+    const clusterOf = (id: string): DuplicateCluster => {
+      const key = root(id);
+      const cluster = clusters.get(key) ?? { documents: [], pairs: [] };
+      clusters.set(key, cluster);
+      return cluster;
+    };
+    for (const document of documents) {
+      clusterOf(document.id).documents.push(document);
+    }
+    for (const row of rows) {
+      clusterOf(row.document_id).pairs.push({
+        documentId: row.document_id,
+        duplicateId: row.duplicate_id,
+        exact: row.exact,
+        simhashDistance: row.simhash_distance,
+        similarity: row.similarity,
+      });
+    }
+
+    return [...clusters.values()].sort((a, b) => b.documents.length - a.documents.length);
+  }
+}
+
+/* Singleton instance */
+export const duplicateDetectionService = new DuplicateDetectionService();
@@ -0,0 +1,95 @@
+import { env } from '../config/environment.ts';
+import { embeddingModelService } from './EmbeddingModelService.ts';
+import { logger } from '../utils/logger.ts';
+
+import {
+  EmbeddingMigrationConflictError,
+  IndexRebuildInProgressError,
+} from '../errors/DomainErrors.ts';
+
+/**
+ * Embedding Backfill Worker
+ * Re-embeds the corpus with the model being migrated to, cuts over once it is complete (unless
+ * the migration waits for an explicit cutover), and keeps this replica serving the active model
+ */
+export class EmbeddingBackfillWorker {
+  #running: boolean = false;
+  #timer: NodeJS.Timeout | null = null;
+  #activeTick: Promise<void> | null = null;
+
+  /* Start polling for backfill work */
+  start(): void {
+    if (this.#running) {
+      return;
+    }
+
+    this.#running = true;
+    this.#schedule(env.embeddingMigration.pollIntervalMs);
+  }
+
+  /* Stop polling and wait for the batch in flight */
+  async stop(): Promise<void> {
+    this.#running = false;
+
+    if (this.#timer) {
+      clearTimeout(this.#timer);
+      this.#timer = null;
+    }
+
+    await this.#activeTick;
+  }
+
+  #schedule(delayMs: number): void {
+    if (!this.#running) {
+      return;
+    }
+
+    this.#timer = setTimeout(() => {
+      this.#activeTick = this.#tick().finally(() => {
+        this.#activeTick = null;
+      });
+    }, delayMs);
+  }
+
+  /* Backfill batches until there is nothing left for this replica to do */
+  async #tick(): Promise<void> {
+    try {
+      /* Another replica may have cut over */
+      await embeddingModelService.refresh();
+
+      while (this.#running) {
+        const { target, embedded, complete } = await embeddingModelService.backfillBatch();
+
+        if (target && complete && target.autoCutover) {
+          await this.#cutover();
+        }
+        if (embedded === 0) {
+          break;
+        }
+      }
+    } catch (err) {
+      logger.error('Embedding backfill failed:', err);
+    } finally {
+      this.#schedule(env.embeddingMigration.pollIntervalMs);
+    }
+  }
+
+  async #cutover(): Promise<void> {
+    try {
+      await embeddingModelService.cutover();
+    } catch (err) {
+      /* Cancelled, new chunks arrived, or a rebuild holds the index: retried on the next poll */
+      if (
+        err instanceof EmbeddingMigrationConflictError ||
+        err instanceof IndexRebuildInProgressError
+      ) {
+        logger.info(`Embedding model cutover postponed: ${err.message}`);
+        return;
+      }
+      throw err;
+    }
+  }
+}
+
+/* Singleton instance */
+export const embeddingBackfillWorker = new EmbeddingBackfillWorker();
@@ -0,0 +1,677 @@
+import { In } from 'typeorm';
+import type { QueryRunner } from 'typeorm';
+
+import { AppDataSource } from '../config/data-source.ts';
+import { env } from '../config/environment.ts';
+import type { EmbeddingConfig, EmbeddingProviderName } from '../config/environment.ts';
+import { EmbeddingModel } from '../models/EmbeddingModel.ts';
+import {
+  createEmbeddingProvider,
+  embeddingProvider,
+  useEmbeddingProvider,
+  verifyEmbeddingDimensions,
+} from './embeddings/index.ts';
+import type { EmbeddingProvider } from './embeddings/index.ts';
+import { searchService } from './SearchService.ts';
+import { IndexOptimizer } from '../utils/index-optmizer.ts';
+import { logger } from '../utils/logger.ts';
+
+import {
+  ConfigurationError,
+  EmbeddingMigrationConflictError,
+  EmbeddingModelChangedError,
+  ValidationError,
+} from '../errors/DomainErrors.ts';
+import { handleDatabaseError } from '../utils/errorHandler.ts';
+
+export interface EmbeddingModelInput {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+  /* Required for openai-compatible servers */
+  baseUrl?: string;
+  /* Switch to the model as soon as its backfill completes (defaults to true) */
+  autoCutover?: boolean;
+}
+
+export interface EmbeddingMigrationProgress {
+  active: EmbeddingModel;
+  target: EmbeddingModel;
+  totalChunks: number;
+  /* Chunks that already have an embedding of the target model */
+  embeddedChunks: number;
+  /* Between 0 and 1 */
+  progress: number;
+}
+
+/* Embeddings of chunk texts, for every model chunks are currently written with */
+export interface ChunkEmbeddings {
+  active: EmbeddingModel;
+  embeddings: number[][];
+  /* The model being migrated to, while its backfill runs */
+  target: EmbeddingModel | null;
+  /* Null when there is no migration, or the target model failed (the backfill catches up) */
+  targetEmbeddings: number[][] | null;
+}
+
+export interface BackfillResult {
+  target: EmbeddingModel | null;
+  embedded: number;
+  /* Every chunk has an embedding of the target model */
+  complete: boolean;
+}
+
+/* pgvector indexes (IVFFlat and HNSW) support up to 2000 dimensions */
+const MAX_INDEXED_DIMENSIONS = 2000;
+
+/* Session advisory lock held by the replica running the backfill */
+const BACKFILL_LOCK = 'embedding_backfill';
+
+/* Formats an embedding for a ::vector cast */
+function toVector(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+/**
+ * Embedding Model Service
+ * Keeps track of the model the corpus is embedded with, and migrates it to another model:
+ * new embeddings are backfilled into `embedding_next` columns while search keeps using the
+ * current ones, then both are swapped in one transaction and the old embeddings dropped.
+ */
+export class EmbeddingModelService {
+  /* Providers of registered models other than the configured one, by model id */
+  #providers = new Map<string, EmbeddingProvider>();
+
+  /**
+   * Record the model of the existing embeddings, or serve the recorded one
+   * The first startup registers the configured provider, after checking it fits the embedding
+   * column. From then on the recorded active model wins over the configuration: switching
+   * models without a migration would compare vectors of different models.
+   */
+  async initialize(): Promise<EmbeddingModel> {
+    const repository = AppDataSource.getRepository(EmbeddingModel);
+
+    let active = await repository.findOneBy({ status: 'active' });
+    if (!active) {
+      await verifyEmbeddingDimensions(embeddingProvider);
+      active = await this.#registerConfiguredModel();
+    } else if (!this.#serves(active, embeddingProvider)) {
+      logger.warn(
+        `Embedding provider is configured as ${embeddingProvider.name} (${embeddingProvider.model}, ${embeddingProvider.dimensions} dimensions), but the corpus is embedded with ${active.provider} (${active.model}, ${active.dimensions} dimensions). The recorded model stays in use; start an embedding model migration to switch.`
+      );
+    }
+
+    this.#serve(active);
+    logger.info(
+      `Embedding model: ${active.provider} (${active.model}, ${active.dimensions} dimensions)`
+    );
+    return active;
+  }
+
+  /**
+   * Serve the active model of the registry
+   * Replicas call this periodically, so a cutover made by one reaches all of them
+   */
+  async refresh(): Promise<EmbeddingModel | null> {
+    const active = await AppDataSource.getRepository(EmbeddingModel).findOneBy({
+      status: 'active',
+    });
+    if (active) {
+      this.#serve(active);
+    }
+    return active;
+  }
+
+  /* Registered models, most recent first */
+  async listModels(): Promise<EmbeddingModel[]> {
+    return AppDataSource.getRepository(EmbeddingModel).find({ order: { createdAt: 'DESC' } });
+  }
+
+  /**
+   * Embed chunk texts with the active model, and with the model being migrated to
+   * The registry is read on every call; saving the result with checkModels fails if it changed.
+   */
+  async embedChunks(
+    texts: string[],
+    batchSize: number = env.ingestion.batchSize
+  ): Promise<ChunkEmbeddings> {
+    const { active, target } = await this.#loadModels();
+    this.#serve(active);
+
+    const embeddings: number[][] = [];
+    let targetEmbeddings: number[][] | null = target ? [] : null;
+    for (let i = 0; i < texts.length; i += batchSize) {
+      const batch = texts.slice(i, i + batchSize);
+      embeddings.push(...(await this.#providerFor(active).embedBatch(batch)));
+
+      if (target && targetEmbeddings) {
+        /* Ingestion doesn't depend on the model being migrated to */
+        try {
+          targetEmbeddings.push(...(await this.#providerFor(target).embedBatch(batch)));
+        } catch (err) {
+          logger.warn(`Leaving chunks to the backfill of ${target.model}:`, err);
+          targetEmbeddings = null;
+        }
+      }
+    }
+
+    return { active, embeddings, target, targetEmbeddings };
+  }
+
+  /**
+   * Make sure the models embeddings were generated with are still the active and target models
+   * Call in the transaction that writes them, before writing: the chunks table is locked against
+   * a concurrent migration start, and the registry against a cutover or cancellation, until the
+   * transaction ends.
+   */
+  async checkModels(
+    queryRunner: QueryRunner,
+    { active, target }: Pick<ChunkEmbeddings, 'active' | 'target'>
+  ): Promise<void> {
+    await queryRunner.query(`LOCK TABLE document_chunks IN ROW EXCLUSIVE MODE`);
+
+    const rows: Array<{ id: string; status: string }> = await queryRunner.query(
+      `SELECT id, status FROM embedding_models
+       WHERE status IN ('active', 'backfilling')
+       FOR SHARE`
+    );
+    const current = (status: string): string | null =>
+      rows.find((row) => row.status === status)?.id ?? null;
+
+    if (current('active') !== active.id || current('backfilling') !== (target?.id ?? null)) {
+      throw new EmbeddingModelChangedError();
+    }
+  }
+
+  /**
+   * Start migrating the corpus to another embedding model
+   * The model is tried once before anything changes. Search keeps using the active model while
+   * the background backfill embeds every chunk with the new one; new chunks get both embeddings.
+   */
+  async startMigration({
+    provider,
+    model,
+    dimensions,
+    baseUrl,
+    autoCutover = true,
+  }: EmbeddingModelInput): Promise<EmbeddingMigrationProgress> {
+    if (!model.trim()) {
+      throw new ValidationError('"model" is required', 'model', model);
+    }
+    if (!Number.isInteger(dimensions) || dimensions < 1 || dimensions > MAX_INDEXED_DIMENSIONS) {
+      throw new ValidationError(
+        `"dimensions" must be between 1 and ${MAX_INDEXED_DIMENSIONS}`,
+        'dimensions',
+        dimensions
+      );
+    }
+
+    const repository = AppDataSource.getRepository(EmbeddingModel);
+    const candidate = repository.create({
+      provider,
+      model: model.trim(),
+      dimensions,
+      baseUrl: baseUrl ?? null,
+      status: 'backfilling',
+      autoCutover,
+    });
+
+    const { active, target } = await this.#loadModels();
+    if (target) {
+      throw new EmbeddingMigrationConflictError(
+        `A migration to ${target.model} is already in progress. Cancel it first.`,
+        { targetModelId: target.id }
+      );
+    }
+    if (
+      active.provider === candidate.provider &&
+      active.model === candidate.model &&
+      active.dimensions === candidate.dimensions
+    ) {
+      throw new ValidationError(`${model} is already the active embedding model`, 'model', model);
+    }
+
+    let candidateProvider: EmbeddingProvider;
+    try {
+      candidateProvider = createEmbeddingProvider(this.#config(candidate), { cached: false });
+    } catch (err) {
+      if (err instanceof ConfigurationError) {
+        throw new ValidationError(err.message, 'provider', provider);
+      }
+      throw err;
+    }
+    /* Fails when the model is unreachable or returns vectors of other dimensions */
+    await candidateProvider.embed('Embedding model migration check');
+
+    /* A cutover interrupted before its cleanup leaves the old embeddings behind */
+    await this.#dropPreviousEmbeddings();
+
+    let saved: EmbeddingModel;
+    try {
+      saved = await AppDataSource.transaction(async (manager) => {
+        const row = await manager.save(candidate);
+
+        await manager.query(`
+          ALTER TABLE document_chunks
+          DROP COLUMN IF EXISTS embedding_next,
+          DROP COLUMN IF EXISTS embedding_next_model,
+          DROP COLUMN IF EXISTS embedding_next_dimensions,
+          ADD COLUMN embedding_next vector(${dimensions}),
+          ADD COLUMN embedding_next_model VARCHAR(255),
+          ADD COLUMN embedding_next_dimensions INTEGER
+        `);
+        await manager.query(`
+          ALTER TABLE documents
+          DROP COLUMN IF EXISTS embedding_next,
+          ADD COLUMN embedding_next vector(${dimensions})
+        `);
+
+        return row;
+      });
+    } catch (err) {
+      /* Another migration started meanwhile (one backfilling model at a time) */
+      if ((err as { code?: string }).code === '23505') {
+        throw new EmbeddingMigrationConflictError('Another embedding model migration just started');
+      }
+      throw handleDatabaseError(err, 'Failed to start the embedding model migration');
+    }
+
+    this.#providers.set(saved.id, candidateProvider);
+    logger.info(
+      `Started migrating embeddings from ${active.model} to ${saved.model} (${saved.dimensions} dimensions)`
+    );
+    return (await this.getMigration())!;
+  }
+
+  /* Progress of the migration in progress, if any */
+  async getMigration(): Promise<EmbeddingMigrationProgress | null> {
+    const { active, target } = await this.#loadModels();
+    if (!target) {
+      return null;
+    }
+
+    try {
+      const [{ total, embedded }]: [{ total: number; embedded: number }] =
+        await AppDataSource.query(
+          `SELECT COUNT(*)::int AS total, COUNT(embedding_next)::int AS embedded
+           FROM document_chunks`
+        );
+
+      return {
+        active,
+        target,
+        totalChunks: total,
+        embeddedChunks: embedded,
+        progress: total > 0 ? embedded / total : 1,
+      };
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to read the embedding model migration progress');
+    }
+  }
+
+  /**
+   * Embed the next batch of chunks that have no embedding of the model being migrated to
+   * One replica backfills at a time; the others get `embedded: 0` back.
+   */
+  async backfillBatch(limit: number = env.embeddingMigration.batchSize): Promise<BackfillResult> {
+    const target = await AppDataSource.getRepository(EmbeddingModel).findOneBy({
+      status: 'backfilling',
+    });
+    if (!target) {
+      return { target: null, embedded: 0, complete: false };
+    }
+
+    const queryRunner = AppDataSource.createQueryRunner();
+
+    try {
+      await queryRunner.connect();
+
+      const [{ locked }] = await queryRunner.query(
+        `SELECT pg_try_advisory_lock(hashtext($1)) AS locked`,
+        [BACKFILL_LOCK]
+      );
+      if (!locked) {
+        return { target, embedded: 0, complete: false };
+      }
+
+      try {
+        const chunks: Array<{ id: string; chunk_text: string }> = await queryRunner.query(
+          `SELECT id, chunk_text FROM document_chunks
+           WHERE embedding_next IS NULL
+           ORDER BY id
+           LIMIT $1`,
+          [limit]
+        );
+        if (chunks.length === 0) {
+          return { target, embedded: 0, complete: true };
+        }
+
+        let embeddings: number[][];
+        try {
+          embeddings = await this.#providerFor(target).embedBatch(
+            chunks.map((chunk) => chunk.chunk_text)
+          );
+        } catch (err) {
+          await AppDataSource.getRepository(EmbeddingModel).update(target.id, {
+            error: err instanceof Error ? err.message : String(err),
+          });
+          throw err;
+        }
+
+        let embedded = 0;
+        await queryRunner.startTransaction();
+        try {
+          /* Cancelling the migration drops the columns; it waits for this transaction */
+          const [current] = await queryRunner.query(
+            `SELECT id FROM embedding_models WHERE id = $1 AND status = 'backfilling' FOR SHARE`,
+            [target.id]
+          );
+          if (current) {
+            for (const [index, chunk] of chunks.entries()) {
+              /* Chunks whose text changed meanwhile are embedded again by the next batch */
+              const [, affected] = await queryRunner.query(
+                `UPDATE document_chunks
+                 SET embedding_next = $2::vector,
+                     embedding_next_model = $3,
+                     embedding_next_dimensions = $4
+                 WHERE id = $1 AND chunk_text = $5 AND embedding_next IS NULL`,
+                [
+                  chunk.id,
+                  toVector(embeddings[index]!),
+                  target.model,
+                  target.dimensions,
+                  chunk.chunk_text,
+                ]
+              );
+              embedded += affected ?? 0;
+            }
+            if (target.error) {
+              await queryRunner.query(`UPDATE embedding_models SET error = NULL WHERE id = $1`, [
+                target.id,
+              ]);
+            }
+          }
+          await queryRunner.commitTransaction();
+        } catch (err) {
+          await queryRunner.rollbackTransaction();
+          throw err;
+        }
+
+        return { target, embedded, complete: false };
+      } finally {
+        await queryRunner.query(`SELECT pg_advisory_unlock(hashtext($1))`, [BACKFILL_LOCK]);
+      }
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Switch to the model being migrated to, then drop the embeddings of the previous one
+   * The backfill must be complete. The new indexes are built concurrently first; the swap itself
+   * renames columns and indexes in a single transaction, so search moves from one model to the
+   * other at once.
+   */
+  async cutover(): Promise<EmbeddingModel> {
+    const { active, target } = await this.#loadModels();
+    if (!target) {
+      throw new EmbeddingMigrationConflictError('No embedding model migration is in progress');
+    }
+
+    await IndexOptimizer.withRebuildLock(async (queryRunner) => {
+      await this.#checkBackfillComplete(queryRunner, target);
+
+      await IndexOptimizer.buildMigrationIndex(queryRunner);
+      await queryRunner.query(`DROP INDEX CONCURRENTLY IF EXISTS documents_embedding_next_idx;`);
+      await queryRunner.query(`
+        CREATE INDEX CONCURRENTLY documents_embedding_next_idx
+        ON documents
+        USING hnsw (embedding_next vector_cosine_ops);
+      `);
+
+      await queryRunner.startTransaction();
+      try {
+        /* Writers check the registry after taking a conflicting lock, so none writes mid-swap */
+        await queryRunner.query(`LOCK TABLE document_chunks IN SHARE ROW EXCLUSIVE MODE`);
+        const [current] = await queryRunner.query(
+          `SELECT id FROM embedding_models WHERE id = $1 AND status = 'backfilling' FOR UPDATE`,
+          [target.id]
+        );
+        if (!current) {
+          throw new EmbeddingMigrationConflictError(
+            `The migration to ${target.model} was cancelled`
+          );
+        }
+        await this.#checkBackfillComplete(queryRunner, target);
+
+        await queryRunner.query(`
+          UPDATE documents d
+          SET embedding_next = (
+            SELECT AVG(dc.embedding_next)
+            FROM document_chunks dc
+            WHERE dc.document_id = d.id
+          )
+        `);
+
+        for (const [table, columns] of [
+          ['document_chunks', ['embedding', 'embedding_model', 'embedding_dimensions']],
+          ['documents', ['embedding']],
+        ] as const) {
+          for (const column of columns) {
+            const suffix = column.slice('embedding'.length);
+            await queryRunner.query(
+              `ALTER TABLE ${table} RENAME COLUMN ${column} TO embedding_previous${suffix}`
+            );
+            await queryRunner.query(
+              `ALTER TABLE ${table} RENAME COLUMN embedding_next${suffix} TO ${column}`
+            );
+          }
+        }
+
+        await IndexOptimizer.swapMigrationIndex(queryRunner);
+        await queryRunner.query(
+          `ALTER INDEX IF EXISTS documents_embedding_idx RENAME TO documents_embedding_previous_idx`
+        );
+        await queryRunner.query(
+          `ALTER INDEX documents_embedding_next_idx RENAME TO documents_embedding_idx`
+        );
+
+        await queryRunner.query(
+          `UPDATE embedding_models SET status = 'retired', retired_at = NOW() WHERE id = $1`,
+          [active.id]
+        );
+        await queryRunner.query(
+          `UPDATE embedding_models
+           SET status = 'active', activated_at = NOW(), error = NULL
+           WHERE id = $1`,
+          [target.id]
+        );
+
+        await queryRunner.commitTransaction();
+      } catch (err) {
+        await queryRunner.rollbackTransaction();
+        throw err;
+      }
+    });
+
+    const activated = await AppDataSource.getRepository(EmbeddingModel).findOneByOrFail({
+      id: target.id,
+    });
+    this.#serve(activated);
+    logger.info(`Switched embeddings from ${active.model} to ${activated.model}`);
+
+    await this.#dropPreviousEmbeddings();
+    try {
+      await searchService.invalidateCache();
+    } catch (err) {
+      /* Log but don't fail - cached results expire on their own */
+      logger.warn('Failed to invalidate search cache after the embedding model cutover:', err);
+    }
+
+    return activated;
+  }
+
+  /* Abandon the migration in progress and drop the embeddings it backfilled */
+  async cancelMigration(): Promise<EmbeddingModel> {
+    const { target } = await this.#loadModels();
+    if (!target) {
+      throw new EmbeddingMigrationConflictError('No embedding model migration is in progress');
+    }
+
+    try {
+      await AppDataSource.transaction(async (manager) => {
+        await manager.query(
+          `UPDATE embedding_models
+           SET status = 'cancelled', retired_at = NOW()
+           WHERE id = $1 AND status = 'backfilling'`,
+          [target.id]
+        );
+        await manager.query(`
+          ALTER TABLE document_chunks
+          DROP COLUMN IF EXISTS embedding_next,
+          DROP COLUMN IF EXISTS embedding_next_model,
+          DROP COLUMN IF EXISTS embedding_next_dimensions
+        `);
+        await manager.query(`ALTER TABLE documents DROP COLUMN IF EXISTS embedding_next`);
+      });
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to cancel the embedding model migration');
+    }
+
+    this.#providers.delete(target.id);
+    logger.info(`Cancelled the migration of embeddings to ${target.model}`);
+    return AppDataSource.getRepository(EmbeddingModel).findOneByOrFail({ id: target.id });
+  }
+
+  /* The active model, and the model being migrated to if any */
+  async #loadModels(): Promise<{ active: EmbeddingModel; target: EmbeddingModel | null }> {
+    const models = await AppDataSource.getRepository(EmbeddingModel).findBy({
+      status: In(['active', 'backfilling']),
+    });
+
+    const active = models.find((model) => model.status === 'active');
+    if (!active) {
+      throw new ConfigurationError('No embedding model is registered; the server did not start');
+    }
+    return { active, target: models.find((model) => model.status === 'backfilling') ?? null };
+  }
+
+  /**
+   * Register the configured provider as the model of the existing embeddings
+   * Chunks and versions embedded before models were recorded are attributed to it.
+   */
+  async #registerConfiguredModel(): Promise<EmbeddingModel> {
+    const repository = AppDataSource.getRepository(EmbeddingModel);
+
+    try {
+      return await AppDataSource.transaction(async (manager) => {
+        const active = await manager.save(
+          repository.create({
+            provider: embeddingProvider.name,
+            model: embeddingProvider.model,
+            dimensions: embeddingProvider.dimensions,
+            baseUrl: env.embedding.baseUrl ?? null,
+            status: 'active',
+            activatedAt: new Date(),
+          })
+        );
+
+        await manager.query(
+          `UPDATE document_chunks
+           SET embedding_model = $1, embedding_dimensions = vector_dims(embedding)
+           WHERE embedding_model IS NULL AND embedding IS NOT NULL`,
+          [active.model]
+        );
+        await manager.query(
+          `UPDATE document_versions
+           SET embedding_provider = $1, embedding_model = $2
+           WHERE embedding_model IS NULL`,
+          [active.provider, active.model]
+        );
+
+        logger.info(`Registered ${active.model} as the embedding model of the corpus`);
+        return active;
+      });
+    } catch (err) {
+      /* Another replica registered it first */
+      const active = await repository.findOneBy({ status: 'active' });
+      if (active) {
+        return active;
+      }
+      throw handleDatabaseError(err, 'Failed to register the embedding model');
+    }
+  }
+
+  /* Fail unless every chunk has an embedding of the target model */
+  async #checkBackfillComplete(queryRunner: QueryRunner, target: EmbeddingModel): Promise<void> {
+    const [{ remaining }] = await queryRunner.query(
+      `SELECT COUNT(*)::int AS remaining FROM document_chunks WHERE embedding_next IS NULL`
+    );
+    if (remaining > 0) {
+      throw new EmbeddingMigrationConflictError(
+        `The backfill of ${target.model} is not complete: ${remaining} chunks left`,
+        { remaining }
+      );
+    }
+  }
+
+  /* Drop the embeddings a cutover replaced (their indexes go with them) */
+  async #dropPreviousEmbeddings(): Promise<void> {
+    try {
+      await AppDataSource.query(`
+        ALTER TABLE document_chunks
+        DROP COLUMN IF EXISTS embedding_previous,
+        DROP COLUMN IF EXISTS embedding_previous_model,
+        DROP COLUMN IF EXISTS embedding_previous_dimensions
+      `);
+      await AppDataSource.query(`ALTER TABLE documents DROP COLUMN IF EXISTS embedding_previous`);
+    } catch (err) {
+      /* Dropped by the next migration */
+      logger.warn('Failed to drop the previous embeddings:', err);
+    }
+  }
+
+  /* Generate query and chunk embeddings with the active model */
+  #serve(active: EmbeddingModel): void {
+    if (!this.#serves(active, embeddingProvider)) {
+      useEmbeddingProvider(this.#providerFor(active));
+      logger.info(`Now serving embedding model ${active.model}`);
+    }
+  }
+
+  #serves(model: EmbeddingModel, provider: EmbeddingProvider): boolean {
+    return (
+      provider.name === model.provider &&
+      provider.model === model.model &&
+      provider.dimensions === model.dimensions
+    );
+  }
+
+  #providerFor(model: EmbeddingModel): EmbeddingProvider {
+    if (this.#serves(model, embeddingProvider)) {
+      return embeddingProvider;
+    }
+
+    let provider = this.#providers.get(model.id);
+    if (!provider) {
+      provider = createEmbeddingProvider(this.#config(model));
+      this.#providers.set(model.id, provider);
+    }
+    return provider;
+  }
+
+  /* API keys are never stored: a model of the configured provider uses its key */
+  #config(model: EmbeddingModel): EmbeddingConfig {
+    return {
+      provider: model.provider,
+      model: model.model,
+      dimensions: model.dimensions,
+      ...(model.baseUrl && { baseUrl: model.baseUrl }),
+      ...(model.provider === env.embedding.provider &&
+        env.embedding.apiKey && { apiKey: env.embedding.apiKey }),
+    };
+  }
+}
+
+/* Singleton instance */
+export const embeddingModelService = new EmbeddingModelService();
@@ -0,0 +1,225 @@
+import { env } from '../config/environment.ts';
+import { chunkDocument } from './chunking/index.ts';
+import {
+  buildEnrichmentMessages,
+  buildSummarizePartMessages,
+  completionProvider,
+  estimateTokens,
+  sumUsage,
+} from './completions/index.ts';
+import type { GenerationOptions, TokenUsage } from './completions/index.ts';
+import { contentHash } from './deduplication/index.ts';
+import { logger } from '../utils/logger.ts';
+
+import { EnrichmentError } from '../errors/DomainErrors.ts';
+
+export type EntityType = 'person' | 'organization' | 'location' | 'product' | 'event' | 'other';
+
+export interface NamedEntity {
+  name: string;
+  type: EntityType;
+}
+
+/* Generated description of a document, stored as `metadata.enrichment` */
+export interface DocumentEnrichment {
+  title: string | null;
+  summary: string;
+  keywords: string[];
+  topics: string[];
+  /* Language named by the model; `document.language` is detected from the text separately */
+  language: string | null;
+  entities: NamedEntity[];
+  model: string;
+  /* Hash of the content the enrichment was generated from */
+  contentHash: string;
+  /* Parts the document was summarized in before being described (1 when it fit in one completion) */
+  parts: number;
+  generatedAt: string;
+}
+
+/* Same approximation as estimateTokens */
+const CHARS_PER_TOKEN = 4;
+/* Summaries of summaries are re-summarized at most this many times, then truncated */
+const MAX_REDUCE_ROUNDS = 3;
+const MAX_TITLE_LENGTH = 255;
+const MAX_TOPICS = 10;
+const MAX_ENTITIES = 50;
+
+const SUMMARY_OPTIONS = { temperature: 0.2, maxTokens: 400 };
+const DESCRIPTION_OPTIONS = { temperature: 0.2, maxTokens: 1000 };
+
+const ENTITY_TYPES = new Set<EntityType>([
+  'person',
+  'organization',
+  'location',
+  'product',
+  'event',
+  'other',
+]);
+
+/* Trimmed, non-empty strings of an array, without case-insensitive repeats */
+function uniqueStrings(value: unknown, limit: number): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const strings: string[] = [];
+  for (const item of value) {
+    const text = typeof item === 'string' ? item.trim() : '';
+    if (text && !seen.has(text.toLowerCase())) {
+      seen.add(text.toLowerCase());
+      strings.push(text);
+    }
+  }
+  return strings.slice(0, limit);
+}
+
+/**
+ * Enrichment Service
+ * Describes documents with the completion provider: summary, keywords, topics, title, language
+ * and named entities
+ */
+export class EnrichmentService {
+  /**
+   * Describe the text of a document
+   * Text longer than ENRICHMENT_CONTEXT_TOKENS is map-reduced: every part is summarized, and the
+   * joined summaries are summarized again until they fit in a single completion.
+   */
+  async generate(text: string, fileName?: string | null): Promise<DocumentEnrichment> {
+    const { contextTokens, maxKeywords, model } = env.enrichment;
+    const generation: GenerationOptions = model ? { model } : {};
+    const usages: TokenUsage[] = [];
+
+    try {
+      let source = text;
+      let parts = 1;
+      for (let round = 0; estimateTokens(source) > contextTokens; round++) {
+        if (round === MAX_REDUCE_ROUNDS) {
+          source = source.slice(0, contextTokens * CHARS_PER_TOKEN);
+          break;
+        }
+
+        const pieces = chunkDocument(source, {
+          strategy: 'recursive',
+          chunkSize: contextTokens * CHARS_PER_TOKEN,
+          chunkOverlap: 0,
+        }).map((chunk) => chunk.text);
+        if (round === 0) {
+          parts = pieces.length;
+        }
+
+        const summaries: string[] = [];
+        for (const [index, piece] of pieces.entries()) {
+          const result = await completionProvider.complete(
+            buildSummarizePartMessages(piece, index, pieces.length),
+            { ...generation, ...SUMMARY_OPTIONS }
+          );
+          usages.push(result.usage);
+          summaries.push(result.content.trim());
+        }
+        source = summaries.join('\n\n');
+      }
+
+      const result = await completionProvider.complete(
+        buildEnrichmentMessages(source, fileName ?? null, maxKeywords, parts > 1),
+        { ...generation, ...DESCRIPTION_OPTIONS }
+      );
+      usages.push(result.usage);
+
+      const enrichment: DocumentEnrichment = {
+        ...this.#parse(result.content, maxKeywords),
+        model: result.model,
+        contentHash: contentHash(text),
+        parts,
+        generatedAt: new Date().toISOString(),
+      };
+
+      const usage = sumUsage(...usages);
+      logger.info(
+        `Enriched ${fileName ?? 'document'} in ${usages.length} completions (${usage.totalTokens} tokens)`
+      );
+      return enrichment;
+    } catch (err) {
+      if (err instanceof EnrichmentError) {
+        throw err;
+      }
+      throw new EnrichmentError(
+        'the completion provider failed',
+        err instanceof Error ? err : undefined,
+        { fileName }
+      );
+    }
+  }
+
+  /* Read the JSON description out of the completion, dropping anything malformed */
+  #parse(
+    content: string,
+    maxKeywords: number
+  ): Omit<DocumentEnrichment, 'model' | 'contentHash' | 'parts' | 'generatedAt'> {
+    /* Models sometimes wrap the object in prose or a code fence */
+    const start = content.indexOf('{');
+    const end = content.lastIndexOf('}');
+    let parsed: unknown;
+    try {
+      parsed = start === -1 ? null : JSON.parse(content.slice(start, end + 1));
+    } catch (err) {
+      throw new EnrichmentError(
+        'the model did not reply with JSON',
+        err instanceof Error ? err : undefined
+      );
+    }
+    if (typeof parsed !== 'object' || parsed === null) {
+      throw new EnrichmentError('the model did not reply with a JSON object');
+    }
+    const description = parsed as Record<string, unknown>;
+
+    const summary = typeof description.summary === 'string' ? description.summary.trim() : '';
+    if (!summary) {
+      throw new EnrichmentError('the model did not reply with a summary');
+    }
+
+    const title =
+      typeof description.title === 'string'
+        ? description.title.trim().slice(0, MAX_TITLE_LENGTH)
+        : '';
+    const language =
+      typeof description.language === 'string' &&
+      /^[a-z]{2,3}(-[a-z0-9]+)*$/i.test(description.language)
+        ? description.language.toLowerCase()
+        : null;
+
+    const entities: NamedEntity[] = [];
+    const seen = new Set<string>();
+    const items: Array<{ name?: unknown; type?: unknown } | null> = Array.isArray(
+      description.entities
+    )
+      ? description.entities
+      : [];
+    for (const item of items) {
+      const name = typeof item?.name === 'string' ? item.name.trim() : '';
+      const type = typeof item?.type === 'string' ? item.type.trim().toLowerCase() : '';
+      const entity: NamedEntity = {
+        name,
+        type: ENTITY_TYPES.has(type as EntityType) ? (type as EntityType) : 'other',
+      };
+      const key = `${entity.type}:${name.toLowerCase()}`;
+      if (name && !seen.has(key)) {
+        seen.add(key);
+        entities.push(entity);
+      }
+    }
+
+    return {
+      title: title || null,
+      summary,
+      keywords: uniqueStrings(description.keywords, maxKeywords),
+      topics: uniqueStrings(description.topics, MAX_TOPICS),
+      language,
+      entities: entities.slice(0, MAX_ENTITIES),
+    };
+  }
+}
+
+/* Singleton instance */
+export const enrichmentService = new EnrichmentService();
@@ -0,0 +1,284 @@
+import type { QueryDeepPartialEntity } from 'typeorm';
+import { setTimeout as sleep } from 'timers/promises';
+
+import { AppDataSource } from '../config/data-source.ts';
+import { env } from '../config/environment.ts';
+import type { DuplicatePolicy } from '../config/environment.ts';
+import { IngestionJob, IngestionJobStatus, IngestionProgress } from '../models/IngestionJob.ts';
+import { logger } from '../utils/logger.ts';
+import type { ChunkingOptions } from './chunking/index.ts';
+
+import {
+  DuplicateDocumentError,
+  IngestionJobLockLostError,
+  IngestionJobNotFoundError,
+} from '../errors/DomainErrors.ts';
+import { handleDatabaseError, getErrorMessage } from '../utils/errorHandler.ts';
+
+export interface EnqueueOptions {
+  chunking?: Partial<ChunkingOptions> | undefined;
+  /* Source path recorded on the document (archive entries) */
+  filePath?: string | undefined;
+  /* Upload a new version of this document instead of creating one */
+  targetDocumentId?: string | undefined;
+  /* What to do when the file duplicates an existing document */
+  duplicatePolicy?: DuplicatePolicy | undefined;
+}
+
+export interface ListIngestionJobsOptions {
+  ownerId: string;
+  status?: IngestionJobStatus;
+  limit?: number;
+}
+
+/**
+ * Ingestion Queue Service
+ * Durable Postgres-backed job queue for document ingestion
+ */
+export class IngestionQueueService {
+  /* Enqueue an uploaded file for asynchronous processing */
+  async enqueue(
+    fileBuffer: Buffer,
+    fileName: string,
+    mimeType: string,
+    ownerId: string,
+    { chunking, filePath, targetDocumentId, duplicatePolicy }: EnqueueOptions = {}
+  ): Promise<IngestionJob> {
+    try {
+      const jobRepository = AppDataSource.getRepository(IngestionJob);
+      const job = jobRepository.create({
+        ownerId,
+        fileName,
+        filePath: filePath ?? null,
+        targetDocumentId: targetDocumentId ?? null,
+        duplicatePolicy: duplicatePolicy ?? null,
+        mimeType,
+        fileSize: fileBuffer.length,
+        payload: fileBuffer,
+        chunking: chunking ?? null,
+        maxAttempts: env.ingestion.maxAttempts,
+      });
+
+      const savedJob = await jobRepository.save(job);
+      logger.info(`Ingestion job queued: ${savedJob.id} (${fileName})`);
+
+      /* Never hand the raw file back to callers */
+      delete savedJob.payload;
+      return savedJob;
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to enqueue ingestion job');
+    }
+  }
+
+  /* Get a single job */
+  async getJob(jobId: string): Promise<IngestionJob | null> {
+    try {
+      return await AppDataSource.getRepository(IngestionJob).findOneBy({ id: jobId });
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to load ingestion job');
+    }
+  }
+
+  /* List jobs, most recent first */
+  async listJobs(options: ListIngestionJobsOptions): Promise<IngestionJob[]> {
+    const { ownerId, status, limit = 50 } = options;
+
+    try {
+      return await AppDataSource.getRepository(IngestionJob).find({
+        where: { ownerId, ...(status && { status }) },
+        order: { createdAt: 'DESC' },
+        take: limit,
+      });
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to list ingestion jobs');
+    }
+  }
+
+  /**
+   * Atomically claim the next runnable job
+   * SKIP LOCKED lets several workers (or replicas) poll the same table safely.
+   * Jobs whose worker died mid-run are reclaimed once their lock goes stale.
+   */
+  async claimNextJob(workerId: string): Promise<IngestionJob | null> {
+    try {
+      const rows = await AppDataSource.query(
+        `UPDATE ingestion_jobs
+         SET status = 'running',
+             attempts = attempts + 1,
+             locked_at = NOW(),
+             locked_by = $1,
+             error = NULL,
+             updated_at = NOW()
+         WHERE id = (
+           SELECT id FROM ingestion_jobs
+           WHERE (status = 'queued' AND run_at <= NOW())
+              OR (status = 'running' AND locked_at < NOW() - make_interval(secs => $2))
+           ORDER BY run_at, created_at
+           FOR UPDATE SKIP LOCKED
+           LIMIT 1
+         )
+         RETURNING id`,
+        [workerId, env.ingestion.staleJobTimeoutMs / 1000]
+      );
+
+      /* UPDATE ... RETURNING yields [rows, affectedCount] through the pg driver */
+      const claimedId: string | undefined = rows[0]?.[0]?.id;
+      if (!claimedId) {
+        return null;
+      }
+
+      return await this.getJob(claimedId);
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to claim ingestion job');
+    }
+  }
+
+  /* Load the raw uploaded file of a job */
+  async loadPayload(jobId: string): Promise<Buffer | null> {
+    try {
+      const job = await AppDataSource.getRepository(IngestionJob)
+        .createQueryBuilder('job')
+        .addSelect('job.payload')
+        .where('job.id = :jobId', { jobId })
+        .getOne();
+
+      return job?.payload ?? null;
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to load ingestion job payload');
+    }
+  }
+
+  /**
+   * Persist progress and notify subscribers
+   * Also refreshes the lock, so a job that keeps reporting progress is never reclaimed
+   */
+  async updateProgress(
+    jobId: string,
+    workerId: string,
+    progress: IngestionProgress
+  ): Promise<IngestionJob> {
+    return this.#update(jobId, workerId, { ...progress, lockedAt: () => 'NOW()' });
+  }
+
+  /* Keep the lock of a running job fresh; false when another worker has claimed it */
+  async heartbeat(jobId: string, workerId: string): Promise<boolean> {
+    try {
+      const [, affected]: [unknown, number] = await AppDataSource.query(
+        `UPDATE ingestion_jobs
+         SET locked_at = NOW()
+         WHERE id = $1 AND locked_by = $2 AND status = 'running'`,
+        [jobId, workerId]
+      );
+      return affected > 0;
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to refresh ingestion job lock');
+    }
+  }
+
+  /* Mark a job as completed and drop its payload */
+  async completeJob(jobId: string, workerId: string): Promise<IngestionJob> {
+    const job = await this.#update(jobId, workerId, {
+      status: 'completed',
+      stage: 'done',
+      completedAt: new Date(),
+      payload: null,
+      lockedAt: null,
+      lockedBy: null,
+    });
+
+    logger.info(`Ingestion job completed: ${jobId}`);
+    return job;
+  }
+
+  /**
+   * Record a failed attempt
+   * Re-queues the job with exponential backoff until maxAttempts is reached; a rejected
+   * duplicate would be rejected again, so it fails right away
+   */
+  async failJob(jobId: string, workerId: string, error: unknown): Promise<IngestionJob> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      throw new IngestionJobNotFoundError(jobId);
+    }
+
+    const message = getErrorMessage(error);
+    const willRetry = job.attempts < job.maxAttempts && !(error instanceof DuplicateDocumentError);
+
+    if (willRetry) {
+      const delay = env.ingestion.retryBaseDelayMs * 2 ** Math.max(0, job.attempts - 1);
+      logger.warn(
+        `Ingestion job ${jobId} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delay}ms: ${message}`
+      );
+
+      return this.#update(jobId, workerId, {
+        status: 'queued',
+        error: message,
+        runAt: new Date(Date.now() + delay),
+        lockedAt: null,
+        lockedBy: null,
+      });
+    }
+
+    logger.error(
+      `Ingestion job ${jobId} failed permanently after ${job.attempts} attempts: ${message}`
+    );
+
+    return this.#update(jobId, workerId, {
+      status: 'failed',
+      error: message,
+      payload: null,
+      lockedAt: null,
+      lockedBy: null,
+    });
+  }
+
+  /**
+   * Stream the changes of a job after the given state, until the job is deleted
+   * The job row is polled: the worker holding the job may run in any replica.
+   */
+  async *watch(job: IngestionJob): AsyncGenerator<IngestionJob> {
+    let updatedAt = job.updatedAt.getTime();
+    for (;;) {
+      await sleep(env.ingestion.pollIntervalMs);
+
+      const current = await this.getJob(job.id);
+      if (!current) {
+        return;
+      }
+      if (current.updatedAt.getTime() !== updatedAt) {
+        updatedAt = current.updatedAt.getTime();
+        yield current;
+      }
+    }
+  }
+
+  /* Only the worker holding the job may change it; throws IngestionJobLockLostError otherwise */
+  async #update(
+    jobId: string,
+    workerId: string,
+    changes: QueryDeepPartialEntity<IngestionJob>
+  ): Promise<IngestionJob> {
+    try {
+      const jobRepository = AppDataSource.getRepository(IngestionJob);
+      const result = await jobRepository.update(
+        { id: jobId, lockedBy: workerId, status: 'running' },
+        changes
+      );
+      if (!result.affected) {
+        throw new IngestionJobLockLostError(jobId, workerId);
+      }
+
+      const job = await jobRepository.findOneBy({ id: jobId });
+      if (!job) {
+        throw new IngestionJobNotFoundError(jobId);
+      }
+
+      return job;
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to update ingestion job');
+    }
+  }
+}
+
+/* Singleton instance */
+export const ingestionQueueService = new IngestionQueueService();
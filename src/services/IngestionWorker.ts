@@ -0,0 +1,147 @@
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+
+import { env } from '../config/environment.ts';
+import { IngestionJob } from '../models/IngestionJob.ts';
+import { ingestionQueueService } from './IngestionQueueService.ts';
+import { documentProcessingService } from './DocumentProcessingService.ts';
+import { logger } from '../utils/logger.ts';
+
+import { IngestionJobLockLostError } from '../errors/DomainErrors.ts';
+
+/**
+ * Ingestion Worker
+ * Polls the ingestion queue and runs jobs in the background, up to the configured concurrency
+ */
+export class IngestionWorker {
+  readonly #workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  #running: boolean = false;
+  #polling: boolean = false;
+  #timer: NodeJS.Timeout | null = null;
+  #activeJobs = new Set<Promise<void>>();
+
+  /* Start polling for jobs */
+  start(): void {
+    if (this.#running) {
+      return;
+    }
+
+    this.#running = true;
+    logger.info(
+      `Ingestion worker ${this.#workerId} started (concurrency: ${env.ingestion.concurrency})`
+    );
+    this.#schedule(0);
+  }
+
+  /* Stop polling and wait for in-flight jobs to finish */
+  async stop(): Promise<void> {
+    this.#running = false;
+
+    if (this.#timer) {
+      clearTimeout(this.#timer);
+      this.#timer = null;
+    }
+
+    await Promise.allSettled(this.#activeJobs);
+    logger.info(`Ingestion worker ${this.#workerId} stopped`);
+  }
+
+  #schedule(delayMs: number): void {
+    if (!this.#running) {
+      return;
+    }
+
+    if (this.#timer) {
+      clearTimeout(this.#timer);
+    }
+    this.#timer = setTimeout(() => void this.#poll(), delayMs);
+  }
+
+  /* Claim jobs until the queue is empty or every slot is busy */
+  async #poll(): Promise<void> {
+    if (this.#polling) {
+      return;
+    }
+    this.#polling = true;
+
+    try {
+      while (this.#running && this.#activeJobs.size < env.ingestion.concurrency) {
+        const job = await ingestionQueueService.claimNextJob(this.#workerId);
+        if (!job) {
+          break;
+        }
+
+        const run: Promise<void> = this.#runJob(job).finally(() => {
+          this.#activeJobs.delete(run);
+          /* A slot just freed up - look for more work right away */
+          this.#schedule(0);
+        });
+        this.#activeJobs.add(run);
+      }
+    } catch (err) {
+      logger.error('Ingestion worker failed to poll the queue:', err);
+    } finally {
+      this.#polling = false;
+      this.#schedule(env.ingestion.pollIntervalMs);
+    }
+  }
+
+  async #runJob(job: IngestionJob): Promise<void> {
+    logger.info(`Running ingestion job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    /* Refresh the lock between progress updates, so long stages are not taken for a dead worker */
+    const heartbeat = setInterval(() => {
+      ingestionQueueService.heartbeat(job.id, this.#workerId).then(
+        (held) => {
+          if (!held) {
+            clearInterval(heartbeat);
+          }
+        },
+        (err) => {
+          logger.warn(`Failed to refresh the lock of ingestion job ${job.id}:`, err);
+        }
+      );
+    }, env.ingestion.staleJobTimeoutMs / 3);
+
+    try {
+      const payload = job.documentId ? null : await ingestionQueueService.loadPayload(job.id);
+
+      /* A progress update fails once another worker holds the job, which stops this run */
+      await documentProcessingService.processIngestionJob(job, payload, (progress) =>
+        ingestionQueueService.updateProgress(job.id, this.#workerId, progress)
+      );
+
+      await ingestionQueueService.completeJob(job.id, this.#workerId);
+    } catch (err) {
+      if (err instanceof IngestionJobLockLostError) {
+        logger.warn(`Ingestion job ${job.id} was claimed by another worker, abandoning this run`);
+        return;
+      }
+
+      try {
+        const failedJob = await ingestionQueueService.failJob(job.id, this.#workerId, err);
+
+        /* Out of retries: don't leave a half-indexed document behind (but never an existing one) */
+        if (
+          failedJob.status === 'failed' &&
+          failedJob.documentId &&
+          !failedJob.targetDocumentId &&
+          !failedJob.duplicateOfId
+        ) {
+          await documentProcessingService.deleteDocument(failedJob.documentId);
+        }
+      } catch (failErr) {
+        if (failErr instanceof IngestionJobLockLostError) {
+          logger.warn(`Ingestion job ${job.id} was claimed by another worker, abandoning this run`);
+          return;
+        }
+        logger.error(`Failed to record failure of ingestion job ${job.id}:`, failErr);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
+
+/* Singleton instance */
+export const ingestionWorker = new IngestionWorker();
@@ -0,0 +1,143 @@
+import { env } from '../config/environment.ts';
+import type { MaintenanceTrigger } from '../models/MaintenanceRun.ts';
+import { maintenanceService } from './MaintenanceService.ts';
+import { nextCronTime, parseCron } from '../utils/cron.ts';
+import type { CronSchedule } from '../utils/cron.ts';
+import { logger } from '../utils/logger.ts';
+
+/* setTimeout overflows past ~24.8 days; longer waits are split */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/* Wait before trying a scheduled slot again when another run kept it from running */
+const SLOT_RETRY_DELAY_MS = 60_000;
+
+/**
+ * Maintenance Scheduler
+ * Runs database maintenance on MAINTENANCE_SCHEDULE, and after ingestion bursts once the queue
+ * drains. Every replica schedules runs; the advisory lock in MaintenanceService lets one run them.
+ */
+export class MaintenanceScheduler {
+  #running: boolean = false;
+  #schedule: CronSchedule | null = null;
+  #scheduleTimer: NodeJS.Timeout | null = null;
+  #burstTimer: NodeJS.Timeout | null = null;
+  #activeRun: Promise<void> | null = null;
+
+  /* Start scheduling runs; throws ConfigurationError when MAINTENANCE_SCHEDULE is invalid */
+  start(): void {
+    if (this.#running || !env.maintenance.enabled) {
+      return;
+    }
+
+    this.#schedule = parseCron(env.maintenance.schedule);
+    this.#running = true;
+    logger.info(`Maintenance scheduler started (schedule: ${env.maintenance.schedule})`);
+
+    this.#planNextRun();
+    this.#planBurstCheck();
+  }
+
+  /* Stop scheduling and wait for a run in progress to finish */
+  async stop(): Promise<void> {
+    this.#running = false;
+
+    if (this.#scheduleTimer) {
+      clearTimeout(this.#scheduleTimer);
+      this.#scheduleTimer = null;
+    }
+    if (this.#burstTimer) {
+      clearTimeout(this.#burstTimer);
+      this.#burstTimer = null;
+    }
+
+    await this.#activeRun;
+  }
+
+  #planNextRun(): void {
+    if (!this.#running || !this.#schedule) {
+      return;
+    }
+
+    const scheduledAt = nextCronTime(this.#schedule, new Date());
+    const wait = (): void => {
+      const delayMs = scheduledAt.getTime() - Date.now();
+      if (delayMs > 0) {
+        this.#scheduleTimer = setTimeout(wait, Math.min(delayMs, MAX_TIMER_DELAY_MS));
+        return;
+      }
+
+      void this.#run('schedule', scheduledAt).then((settled) => {
+        if (!this.#running) {
+          return;
+        }
+        if (settled) {
+          this.#planNextRun();
+          return;
+        }
+
+        /* An ingestion or manual run holds maintenance: run the slot once it is done */
+        logger.info(
+          `Scheduled maintenance for ${scheduledAt.toISOString()} postponed: another run is in progress`
+        );
+        this.#scheduleTimer = setTimeout(wait, SLOT_RETRY_DELAY_MS);
+      });
+    };
+    wait();
+  }
+
+  #planBurstCheck(): void {
+    if (!this.#running) {
+      return;
+    }
+
+    this.#burstTimer = setTimeout(async () => {
+      try {
+        if (
+          !this.#activeRun &&
+          (await maintenanceService.ingestionBurstEnded(env.maintenance.burstJobs))
+        ) {
+          await this.#run('ingestion');
+        }
+      } catch (err) {
+        logger.error('Failed to check for ingestion bursts:', err);
+      } finally {
+        this.#planBurstCheck();
+      }
+    }, env.maintenance.burstCheckIntervalMs);
+  }
+
+  /**
+   * One run at a time in this process; other replicas are kept out by the lock
+   * Resolves to false when a run in progress kept a scheduled slot from running
+   */
+  async #run(trigger: MaintenanceTrigger, scheduledAt?: Date): Promise<boolean> {
+    if (!this.#running) {
+      return true;
+    }
+    if (this.#activeRun) {
+      return !scheduledAt;
+    }
+
+    let settled = true;
+    this.#activeRun = maintenanceService
+      .runMaintenance(trigger, scheduledAt ? { scheduledAt } : {})
+      .then(async (run) => {
+        /* No run: another replica holds the lock, or already ran the slot */
+        if (!run && scheduledAt) {
+          settled = await maintenanceService.scheduledRunExists(scheduledAt);
+        }
+      })
+      .catch((err) => {
+        logger.error('Maintenance run failed:', err);
+      })
+      .finally(() => {
+        this.#activeRun = null;
+      });
+    await this.#activeRun;
+
+    return settled;
+  }
+}
+
+/* Singleton instance */
+export const maintenanceScheduler = new MaintenanceScheduler();
@@ -0,0 +1,261 @@
+import { hostname } from 'os';
+
+import { AppDataSource } from '../config/data-source.ts';
+import { MaintenanceRun } from '../models/MaintenanceRun.ts';
+import type {
+  MaintenanceTask,
+  MaintenanceTaskResult,
+  MaintenanceTrigger,
+} from '../models/MaintenanceRun.ts';
+import { documentProcessingService } from './DocumentProcessingService.ts';
+import { IndexOptimizer } from '../utils/index-optmizer.ts';
+import { logger } from '../utils/logger.ts';
+
+import { IndexRebuildInProgressError } from '../errors/DomainErrors.ts';
+import { handleDatabaseError } from '../utils/errorHandler.ts';
+
+/* Session advisory lock held by the replica running maintenance */
+const MAINTENANCE_LOCK = 'maintenance_runs';
+
+export interface RunMaintenanceOptions {
+  /* Slot of the schedule this run is for; a slot another replica already ran is skipped */
+  scheduledAt?: Date;
+}
+
+/* Outcome of a task, without its timing */
+type TaskOutcome = Pick<MaintenanceTaskResult, 'details'> & { skipped?: boolean };
+
+/**
+ * Maintenance Service
+ * Keeps the chunk table and its vector index healthy: prunes orphaned chunks, vacuums and
+ * analyzes the table, and rebuilds the index when it drifted from the data. Every run is recorded.
+ */
+export class MaintenanceService {
+  readonly #workerId = `${hostname()}:${process.pid}`;
+
+  /**
+   * Run every maintenance task
+   * Only one replica runs maintenance at a time: returns null when another one holds the lock,
+   * or when the scheduled slot was already run
+   */
+  async runMaintenance(
+    trigger: MaintenanceTrigger,
+    { scheduledAt }: RunMaintenanceOptions = {}
+  ): Promise<MaintenanceRun | null> {
+    const queryRunner = AppDataSource.createQueryRunner();
+
+    try {
+      await queryRunner.connect();
+
+      const [{ locked }] = await queryRunner.query(
+        `SELECT pg_try_advisory_lock(hashtext($1)) AS locked`,
+        [MAINTENANCE_LOCK]
+      );
+      if (!locked) {
+        logger.debug('Maintenance is running on another replica');
+        return null;
+      }
+
+      try {
+        return await this.#runLocked(trigger, scheduledAt);
+      } finally {
+        await queryRunner.query(`SELECT pg_advisory_unlock(hashtext($1))`, [MAINTENANCE_LOCK]);
+      }
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /* Whether a scheduled run for the slot, or a later one, was started */
+  async scheduledRunExists(scheduledAt: Date): Promise<boolean> {
+    try {
+      return await AppDataSource.getRepository(MaintenanceRun)
+        .createQueryBuilder('run')
+        .where('run.trigger = :trigger', { trigger: 'schedule' })
+        .andWhere('run.startedAt >= :scheduledAt', { scheduledAt })
+        .getExists();
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to check maintenance runs');
+    }
+  }
+
+  /* Maintenance runs, most recent first */
+  async listRuns(limit: number = 20): Promise<MaintenanceRun[]> {
+    return AppDataSource.getRepository(MaintenanceRun).find({
+      order: { startedAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Whether an ingestion burst just ended
+   * True once the queue is empty and at least `minJobs` jobs completed since the last run
+   */
+  async ingestionBurstEnded(minJobs: number): Promise<boolean> {
+    const [row]: Array<{ idle: boolean; completed: number }> = await AppDataSource.query(
+      `SELECT
+         NOT EXISTS (
+           SELECT 1 FROM ingestion_jobs WHERE status IN ('queued', 'running')
+         ) AS idle,
+         (
+           SELECT COUNT(*)::int FROM ingestion_jobs
+           WHERE status = 'completed'
+             AND completed_at > COALESCE((SELECT MAX(started_at) FROM maintenance_runs), '-infinity')
+         ) AS completed`
+    );
+    return Boolean(row?.idle) && (row?.completed ?? 0) >= minJobs;
+  }
+
+  async #runLocked(
+    trigger: MaintenanceTrigger,
+    scheduledAt: Date | undefined
+  ): Promise<MaintenanceRun | null> {
+    const repository = AppDataSource.getRepository(MaintenanceRun);
+
+    try {
+      /* Holding the lock, nothing else is running: a run still marked running died midway */
+      await repository.update(
+        { status: 'running' },
+        { status: 'failed', error: 'Interrupted', finishedAt: new Date() }
+      );
+
+      if (scheduledAt && (await this.scheduledRunExists(scheduledAt))) {
+        return null;
+      }
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to start maintenance run');
+    }
+
+    let run = await repository.save(
+      repository.create({ trigger, status: 'running', tasks: [], workerId: this.#workerId })
+    );
+    logger.info(`Maintenance run ${run.id} started (${trigger})`);
+
+    /* Tasks are independent: one failing doesn't stop the others */
+    const tasks: Array<[MaintenanceTask, () => Promise<TaskOutcome>]> = [
+      ['prune_orphans', (): Promise<TaskOutcome> => this.#pruneOrphans()],
+      ['vacuum', (): Promise<TaskOutcome> => this.#vacuum()],
+      ['index', (): Promise<TaskOutcome> => this.#checkIndex()],
+    ];
+    for (const [task, execute] of tasks) {
+      const startedAt = Date.now();
+      let result: MaintenanceTaskResult;
+      try {
+        const { details, skipped } = await execute();
+        result = {
+          task,
+          status: skipped ? 'skipped' : 'completed',
+          durationMs: Date.now() - startedAt,
+          details,
+        };
+      } catch (err) {
+        logger.error(`Maintenance task ${task} failed:`, err);
+        result = {
+          task,
+          status: 'failed',
+          durationMs: Date.now() - startedAt,
+          details: {},
+          error: err instanceof Error ? err.message : String(err),
+        };
+      }
+
+      run.tasks = [...run.tasks, result];
+      run = await repository.save(run);
+    }
+
+    const failed = run.tasks.filter((result) => result.status === 'failed');
+    run.status = failed.length > 0 ? 'failed' : 'completed';
+    run.error =
+      failed.length > 0 ? failed.map(({ task, error }) => `${task}: ${error}`).join('; ') : null;
+    run.finishedAt = new Date();
+    run = await repository.save(run);
+
+    logger.info(`Maintenance run ${run.id} ${run.status}`);
+    return run;
+  }
+
+  /**
+   * Delete chunks without a document, and the documents that failed ingestion left behind
+   * A job out of retries deletes its half-indexed document; this catches the ones whose deletion
+   * failed. A document that was ever indexed completely has a version and is never touched.
+   */
+  async #pruneOrphans(): Promise<TaskOutcome> {
+    const [{ count: orphanedChunks }]: [{ count: number }] = await AppDataSource.query(
+      `WITH deleted AS (
+         DELETE FROM document_chunks dc
+         WHERE NOT EXISTS (SELECT 1 FROM documents d WHERE d.id = dc.document_id)
+         RETURNING 1
+       )
+       SELECT COUNT(*)::int AS count FROM deleted`
+    );
+
+    const abandoned: Array<{ document_id: string }> = await AppDataSource.query(
+      `SELECT DISTINCT j.document_id
+       FROM ingestion_jobs j
+       WHERE j.status = 'failed'
+         AND j.document_id IS NOT NULL
+         AND j.target_document_id IS NULL
+         AND j.duplicate_of_id IS NULL
+         AND NOT EXISTS (SELECT 1 FROM document_versions v WHERE v.document_id = j.document_id)
+         AND NOT EXISTS (
+           SELECT 1 FROM ingestion_jobs other
+           WHERE other.document_id = j.document_id AND other.status <> 'failed'
+         )`
+    );
+    let abandonedDocuments = 0;
+    for (const { document_id } of abandoned) {
+      if (await documentProcessingService.deleteDocument(document_id)) {
+        abandonedDocuments++;
+      }
+    }
+
+    return { details: { orphanedChunks, abandonedDocuments } };
+  }
+
+  /* Reclaim dead chunk rows and refresh the planner statistics */
+  async #vacuum(): Promise<TaskOutcome> {
+    const [before] = await AppDataSource.query(
+      `SELECT n_dead_tup::int AS dead_tuples FROM pg_stat_user_tables WHERE relname = 'document_chunks'`
+    );
+
+    /* VACUUM can't run in a transaction; this runs in autocommit mode */
+    await AppDataSource.query(`VACUUM ANALYZE document_chunks`);
+
+    return { details: { deadTuplesBefore: before?.dead_tuples ?? null } };
+  }
+
+  /* Rebuild the vector index concurrently when it drifted from the data */
+  async #checkIndex(): Promise<TaskOutcome> {
+    const stats = await IndexOptimizer.getIndexStats();
+    const index = {
+      type: stats.indexType,
+      lists: stats.currentLists,
+      recommendedLists: stats.recommendedLists,
+      rowCount: stats.rowCount,
+    };
+
+    if (!(await IndexOptimizer.needsOptimization(stats))) {
+      return { details: { rebuilt: false, index }, skipped: true };
+    }
+
+    try {
+      const rebuilt = await IndexOptimizer.rebuildIndex();
+      return {
+        details: {
+          rebuilt: true,
+          before: index,
+          after: { type: rebuilt.indexType, lists: rebuilt.currentLists, m: rebuilt.m },
+        },
+      };
+    } catch (err) {
+      /* An administrator is rebuilding it right now */
+      if (err instanceof IndexRebuildInProgressError) {
+        return { details: { rebuilt: false, index, reason: err.message }, skipped: true };
+      }
+      throw err;
+    }
+  }
+}
+
+/* Singleton instance */
+export const maintenanceService = new MaintenanceService();
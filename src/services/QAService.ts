@@ -1,69 +1,214 @@
-import { searchService, SearchResult } from './SearchService.ts';
-import { openAIService } from './HuggingFaceAIService.ts';
+import { env } from '../config/environment.ts';
+import { searchService } from './SearchService.ts';
+import { citationService } from './CitationService.ts';
+import type { AnswerSpan, Citation } from './CitationService.ts';
+import { completionProvider, buildAnswerMessages } from './completions/index.ts';
+import type { ChatMessage, GenerationOptions, TokenUsage } from './completions/index.ts';
 import { logger } from '../utils/logger.ts';
 
+import { QAError, ValidationError } from '../errors/DomainErrors.ts';
+import { AppError } from '../errors/AppError.ts';
+
+export interface QASource {
+  /* Number the answer cites this source with, e.g. [1] */
+  marker: number;
+  chunkId: string;
+  documentId: string;
+  documentTitle: string;
+  chunkText: string;
+  similarity: number;
+  /* Character offsets of the chunk in the document content */
+  startOffset: number | null;
+  endOffset: number | null;
+}
+
 export interface QAAnswer {
-  answer: IteratorResult<any, any> | string;
-  sources: Array<{
-    documentId: string;
-    documentTitle: string;
-    chunkText: string;
-    similarity: number;
-  }>;
+  answer: string;
+  sources: QASource[];
+  citations: Citation[];
+  /* Sentences of the answer not backed by any cited source */
+  unsupportedSentences: AnswerSpan[];
+  /* Model that generated the answer; null when no context was found and no model was called */
+  model: string | null;
+  usage: TokenUsage;
 }
 
 export interface QAOptions {
+  /* Only documents owned by this user are used as context */
+  ownerId: string;
   maxSources?: number;
   documentId?: string;
+  /* Overrides of the deployment's generation settings */
+  generation?: GenerationOptions;
+  /* Previous turns of a conversation, sent to the model before the question */
+  history?: ChatMessage[];
+  /* Query used for retrieval when it differs from the question (e.g. a rewritten follow-up) */
+  searchQuery?: string;
+  /* Rerank retrieved chunks before picking the sources (defaults to RERANK_QA) */
+  rerank?: boolean;
 }
 
+/**
+ * Frames emitted while streaming an answer:
+ * token deltas first, then the sources used as context, the parsed citations, then a final done frame
+ */
+export type QAStreamEvent =
+  | { type: 'token'; delta: string }
+  | { type: 'sources'; sources: QASource[] }
+  | { type: 'citations'; citations: Citation[]; unsupportedSentences: AnswerSpan[] }
+  | { type: 'done'; model: string | null; usage: TokenUsage };
+
+const NO_CONTEXT_ANSWER = "I couldn't find relevant information to answer your question.";
+
+const NO_USAGE: TokenUsage = {
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  estimated: false,
+};
+
 /**
  * Q&A Service (RAG - Retrieval-Augmented Generation)
  * Answers questions using retrieved document chunks
  */
 
 export class QAService {
-  /* Answer a question using RAG */
-  async answerQuestion(question: string, options: QAOptions = {}): Promise<QAAnswer> {
-    const { maxSources = 5, documentId } = options;
+  /* Answer a question using RAG, collecting the full token stream */
+  async answerQuestion(question: string, options: QAOptions): Promise<QAAnswer> {
+    let answer = '';
+    let sources: QASource[] = [];
+    let citations: Citation[] = [];
+    let unsupportedSentences: AnswerSpan[] = [];
+    let model: string | null = null;
+    let usage: TokenUsage = NO_USAGE;
+
+    for await (const event of this.answerQuestionStream(question, options)) {
+      switch (event.type) {
+        case 'token':
+          answer += event.delta;
+          break;
+        case 'sources':
+          sources = event.sources;
+          break;
+        case 'citations':
+          citations = event.citations;
+          unsupportedSentences = event.unsupportedSentences;
+          break;
+        case 'done':
+          model = event.model;
+          usage = event.usage;
+          break;
+      }
+    }
+
+    return { answer, sources, citations, unsupportedSentences, model, usage };
+  }
+
+  /* Answer a question using RAG, streaming token deltas as they are generated */
+  async *answerQuestionStream(question: string, options: QAOptions): AsyncGenerator<QAStreamEvent> {
+    const {
+      ownerId,
+      maxSources = 5,
+      documentId,
+      generation,
+      history,
+      searchQuery,
+      rerank = env.reranking.qaDefault,
+    } = options;
+
+    if (!question || question.trim().length === 0) {
+      throw new ValidationError('Question cannot be empty', 'question', question);
+    }
+
+    if (maxSources < 1 || maxSources > 20) {
+      throw new ValidationError('Max sources must be between 1 and 20', 'maxSources', maxSources);
+    }
+
+    /* Reject invalid generation settings before doing any retrieval */
+    const generationOptions = completionProvider.resolveOptions(generation);
 
     try {
       /* Retrieve relevant chunks */
-      logger.info(`Retrieving relevant chunks for question: ${question}`);
-      const searchResults = await searchService.search(question, {
+      const query = searchQuery?.trim() || question;
+      logger.info(`Retrieving relevant chunks for question: ${query}`);
+      const searchResults = await searchService.search(query, {
+        ownerId,
         limit: maxSources,
-        documentId: documentId!,
+        ...(documentId ? { documentId } : {}),
         threshold: 0.7,
+        rerank,
       });
 
       if (searchResults.length === 0) {
-        return {
-          answer: "I couldn't find relevant information to answer your question.",
-          sources: [],
-        };
+        yield { type: 'token', delta: NO_CONTEXT_ANSWER };
+        yield { type: 'sources', sources: [] };
+        yield { type: 'citations', citations: [], unsupportedSentences: [] };
+        yield { type: 'done', model: null, usage: NO_USAGE };
+        return;
       }
 
-      /* Extract context from search results */
-      const context = searchResults.map((result) => result.chunk.chunkText);
-      const sources = searchResults.map((result) => ({
+      /* Number the retrieved chunks so the answer can cite them */
+      const passages = await citationService.buildPassages(
+        searchResults.map((result) => result.chunk)
+      );
+      const context = searchResults.map((result, index) => ({
+        marker: passages[index]!.marker,
+        title: result.document.title,
+        text: result.chunk.chunkText,
+      }));
+      const sources = searchResults.map((result, index) => ({
+        marker: passages[index]!.marker,
+        chunkId: result.chunk.id,
         documentId: result.document.id,
         documentTitle: result.document.title,
         chunkText: result.chunk.chunkText.substring(0, 200) + '...', // Truncate for display
         similarity: result.similarity,
+        startOffset: passages[index]!.startOffset,
+        endOffset: passages[index]!.endOffset,
       }));
 
-      /* Generate answer using OpenAI */
-      logger.info('Generating answer using OpenAI...');
-      const answer = await openAIService.generateAnswer(question, context);
-
-      return {
-        answer,
-        sources,
-      };
-    } catch (error) {
-      logger.error('Error answering question:', error);
-      throw new Error(
-        `Failed to answer question: ${error instanceof Error ? error.message : 'Unknown error'}`
+      /* Stream answer tokens from the completion model */
+      logger.info(
+        `Generating answer using ${completionProvider.name} (${generationOptions.model})`
+      );
+      let usage: TokenUsage = NO_USAGE;
+      let answer = '';
+
+      for await (const chunk of completionProvider.stream(
+        buildAnswerMessages(question, context, history),
+        generationOptions
+      )) {
+        if (chunk.delta) {
+          answer += chunk.delta;
+          yield { type: 'token', delta: chunk.delta };
+        }
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+      }
+
+      yield { type: 'sources', sources };
+
+      /* Tie answer sentences to the passages they cite */
+      const { citations, unsupportedSentences } = citationService.verify(answer, passages);
+      if (unsupportedSentences.length > 0) {
+        logger.warn(
+          `Answer has ${unsupportedSentences.length} sentence(s) without supporting citation`
+        );
+      }
+      yield { type: 'citations', citations, unsupportedSentences };
+
+      yield { type: 'done', model: generationOptions.model, usage };
+    } catch (err) {
+      if (err instanceof AppError) {
+        throw err;
+      }
+
+      logger.error('Error answering question:', err);
+      throw new QAError(
+        err instanceof Error ? err.message : 'Unknown error',
+        err instanceof Error ? err : undefined,
+        { question, options }
       );
     }
   }
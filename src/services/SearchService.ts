@@ -1,15 +1,32 @@
 import { AppDataSource } from '../config/data-source.ts';
 import { DocumentChunk } from '../models/DocumentChunk.ts';
-import { openAIService } from './HuggingFaceAIService.ts';
+import type { DocumentSummary } from './DocumentListService.ts';
+import { embeddingProvider } from './embeddings/index.ts';
+import { reranker } from './reranking/index.ts';
 import { redisClient } from '../config/redis.ts';
 import { logger } from '../utils/logger.ts';
 import { createHash } from 'crypto';
+import { env } from '../config/environment.ts';
+import type { SearchRecall } from '../config/environment.ts';
+import {
+  ALL_TEXT_SEARCH_CONFIGS,
+  applyRecall,
+  compileSearchFilter,
+  fuseRankings,
+  normalizeLanguage,
+  resolveFusionOptions,
+  resolveRecall,
+  textSearchConfig,
+} from './search/index.ts';
+import type { FusionOptions, RetrieverHit, SearchFilter } from './search/index.ts';
 
 import {
+  DocumentNotFoundError,
   SearchError,
   InvalidSearchQueryError,
   EmbeddingGenerationError,
   DatabaseError,
+  ValidationError,
 } from '../errors/DomainErrors.ts';
 import { handleDatabaseError, logError } from '../utils/errorHandler.ts';
 import { AppError } from 'errors/AppError.ts';
@@ -29,24 +46,102 @@ export interface SearchResult {
   };
   similarity: number;
   score: number;
+  /* Rank and score of the result in every retriever that found it */
+  retrievers: RetrieverHit[];
+  /* Relevance assigned by the reranker, when the results were reranked */
+  rerankScore?: number;
 }
 
 export interface SearchOptions {
+  /* Only chunks owned by this user are searched */
+  ownerId: string;
   limit?: number;
   threshold?: number;
   documentId?: string;
+  /* Metadata, file type, date and document conditions */
+  filter?: SearchFilter;
+  /* Only documents in this language (BCP 47 tag, e.g. "pt") */
+  language?: string;
+  /* Search the chunks of this document version instead of the current chunks */
+  versionId?: string;
+  /* How hybrid search merges its rankings; unset fields use the deployment defaults */
+  fusion?: Partial<FusionOptions>;
+  /* How exhaustively the vector index is scanned (defaults to SEARCH_RECALL) */
+  recall?: SearchRecall;
   useCache?: boolean;
   hybrid?: boolean;
+  /* Rescore the retrieved candidates with the configured reranker before taking the top `limit` */
+  rerank?: boolean;
+  /* Candidates retrieved for reranking (defaults to RERANK_CANDIDATES) */
+  rerankCandidates?: number;
+}
+
+/* How the scores of a document's matching chunks combine into the document score */
+export type ScoreAggregation = 'max' | 'mean' | 'sum';
+
+export interface DocumentSearchOptions extends SearchOptions {
+  aggregation?: ScoreAggregation;
+}
+
+/* A document among the search hits */
+export interface DocumentSearchResult {
+  document: SearchResult['document'];
+  /* Aggregated score of the document's matching chunks */
+  score: number;
+  /* Chunks of the document among the hits */
+  matchCount: number;
+  /* Best-scoring chunk of the document */
+  bestMatch: SearchResult;
+  /* Text of the best-scoring chunk */
+  snippet: string;
+}
+
+export interface SimilarDocument {
+  document: DocumentSummary;
+  /* Cosine similarity of the document embeddings */
+  similarity: number;
+}
+
+/* Upper bound of candidates retrieved for reranking */
+const MAX_RERANK_CANDIDATES = 200;
+
+const SEARCH_CACHE_TTL_SECONDS = 3600;
+
+/* Part of every search cache key: bumping it drops every cached search at once */
+const CACHE_GENERATION_KEY = 'search:generation';
+
+/* Bumped by every document invalidation; results computed across one are not cached */
+const CACHE_INVALIDATIONS_KEY = 'search:invalidations';
+
+/* Where a search's results are cached, and the counters it read before searching */
+interface CacheSlot {
+  key: string;
+  counters: Record<string, number>;
 }
 
+/* Cached searches that returned, or are restricted to, a document */
+function documentCacheTag(documentId: string): string {
+  return `search:tag:document:${documentId}`;
+}
+
+/* Cached searches any document of the owner may join */
+function ownerCacheTag(ownerId: string): string {
+  return `search:tag:owner:${ownerId}`;
+}
+
+/* Chunk hits retrieved per requested document when grouping hits by document */
+const CHUNKS_PER_DOCUMENT = 5;
+const MAX_CHUNK_HITS = 100;
+
 /**
  * Search Service
  * Handles semantic search using pgvector
  */
 export class SearchService {
   /* Perform semantic search */
-  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
-    const { limit = 10, threshold = 0.7, documentId, useCache = true } = options;
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    const { ownerId, limit = 10, threshold = 0.7, documentId, filter, useCache = true } = options;
+    const language = options.language && normalizeLanguage(options.language);
 
     /* Validate Query */
     if (!query || typeof query !== 'string' || query.trim().length === 0) {
@@ -60,14 +155,26 @@ export class SearchService {
       });
     }
 
+    /* Validate filter (compiling throws on malformed conditions) */
+    if (filter) {
+      compileSearchFilter(filter, []);
+    }
+
+    const fetchLimit = this.#getFetchLimit(options);
+    resolveRecall(options.recall, fetchLimit);
+
+    if (options.versionId) {
+      await this.#checkVersionModel(options.versionId);
+    }
+
     try {
       /* Generate cache key */
-      const cacheKey = this.#getCacheKey(query, options);
+      const cacheSlot = await this.#getCacheSlot(query, options);
 
       /* Try to get from cache */
       if (useCache) {
         try {
-          const cached = await redisClient.get<SearchResult[]>(cacheKey);
+          const cached = await redisClient.get<SearchResult[]>(cacheSlot.key);
           if (cached) {
             logger.debug('Search result retrieved from cache');
             return cached;
@@ -79,10 +186,10 @@ export class SearchService {
       }
 
       /* Generate query embedding */
-      let queryEmbedding = await openAIService.generateEmbedding(query);
+      let queryEmbedding: number[];
 
       try {
-        queryEmbedding = await openAIService.generateEmbedding(query);
+        queryEmbedding = await embeddingProvider.embed(query);
       } catch (err) {
         throw new EmbeddingGenerationError(
           'Failed to generate embedding for search query',
@@ -91,17 +198,29 @@ export class SearchService {
       }
 
       /* Perform vector similarity search */
-      const results = await this.#vectorSimilaritySearch(
+      const candidates = await this.#vectorSimilaritySearch(
         queryEmbedding,
-        limit,
+        ownerId,
+        fetchLimit,
         threshold,
-        documentId
+        documentId,
+        filter,
+        language,
+        options.versionId,
+        options.recall
       );
+      const results = options.rerank ? await this.#rerank(query, candidates, limit) : candidates;
 
       /* Cache results (gracefully handle failures) */
       if (useCache && results.length > 0) {
         try {
-          await redisClient.set(cacheKey, results, 3600);
+          await redisClient.setTagged(
+            cacheSlot.key,
+            results,
+            this.#cacheTags(options, results),
+            SEARCH_CACHE_TTL_SECONDS,
+            cacheSlot.counters
+          );
         } catch (err) {
           if (err instanceof AppError) {
             logError(err, { query, options });
@@ -127,15 +246,21 @@ export class SearchService {
    * Uses raw SQL because TypeORM doesn't support vector operations
    */
   async #vectorSimilaritySearch(
-    queryEmbedding: (number | number[] | number[][])[],
+    queryEmbedding: number[],
+    ownerId: string,
     limit: number,
     threshold: number,
-    documentId?: string
+    documentId?: string,
+    filter?: SearchFilter,
+    language?: string,
+    versionId?: string,
+    recall?: SearchRecall
   ): Promise<SearchResult[]> {
     const queryRunner = AppDataSource.createQueryRunner();
 
     try {
       await queryRunner.connect();
+      await applyRecall(queryRunner, resolveRecall(recall, limit));
 
       /* Convert embedding array to PostgreSQL vector format */
       const vectorString = `[${queryEmbedding.join(',')}]`;
@@ -148,23 +273,37 @@ export class SearchService {
           dc.chunk_text,
           dc.chunk_index,
           dc.metadata,
-          d.id as doc_id,
+          dc.document_id as doc_id,
           d.title,
           d.file_type,
           -- Cosine similarity (1 - cosine distance)
           (1 - (dc.embedding <=> $1::vector)) as similarity
-        FROM document_chunks dc
-        JOIN documents d ON dc.document_id = d.id
+        FROM ${this.#chunkSource(versionId)}
         WHERE dc.embedding IS NOT NULL
+        AND dc.owner_id = $2
       `;
 
-      const params: any[] = [vectorString];
+      const params: any[] = [vectorString, ownerId];
+
+      if (versionId) {
+        sql += ` AND dc.version_id = $${params.length + 1}`;
+        params.push(versionId);
+      }
 
       if (documentId) {
         sql += ` AND dc.document_id = $${params.length + 1}`;
         params.push(documentId);
       }
 
+      if (filter) {
+        sql += ` AND ${compileSearchFilter(filter, params)}`;
+      }
+
+      if (language) {
+        sql += ` AND d.language = $${params.length + 1}`;
+        params.push(language);
+      }
+
       sql += `
         AND (1 - (dc.embedding <=> $1::vector)) >= $${params.length + 1}
         ORDER BY dc.embedding <=> $1::vector
@@ -182,7 +321,7 @@ export class SearchService {
       }
 
       /* Transform results */
-      return rows.map((row: any) => ({
+      return rows.map((row: any, index: number) => ({
         chunk: {
           id: row.id,
           documentId: row.document_id,
@@ -197,6 +336,9 @@ export class SearchService {
         },
         similarity: parseFloat(row.similarity),
         score: parseFloat(row.similarity) /* Can be enhanced with other factors */,
+        retrievers: [
+          { retriever: 'vector' as const, rank: index + 1, score: parseFloat(row.similarity) },
+        ],
       }));
     } catch (err) {
       if (err instanceof AppError) {
@@ -204,6 +346,10 @@ export class SearchService {
       }
       throw handleDatabaseError(err, 'Vector similarity search failed');
     } finally {
+      /* Nothing was written; ending the transaction ends the recall settings */
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
       await queryRunner.release();
     }
   }
@@ -212,8 +358,9 @@ export class SearchService {
    * Hybrid search (vector + full-text)
    * Combines vector similarity with PostgreSQL full-text search
    */
-  async hybridSearch(question: string, options: SearchOptions = {}): Promise<SearchResult[]> {
-    const { limit = 10, threshold = 0.7, documentId, useCache = true } = options;
+  async hybridSearch(question: string, options: SearchOptions): Promise<SearchResult[]> {
+    const { ownerId, limit = 10, threshold = 0.7, documentId, filter, useCache = true } = options;
+    const language = options.language && normalizeLanguage(options.language);
 
     /* Validate query */
     if (!question || typeof question !== 'string' || question.trim().length === 0) {
@@ -232,12 +379,26 @@ export class SearchService {
       });
     }
 
+    /* Validate filter (compiling throws on malformed conditions) */
+    if (filter) {
+      compileSearchFilter(filter, []);
+    }
+
+    const fetchLimit = this.#getFetchLimit(options);
+    resolveRecall(options.recall, fetchLimit);
+
+    if (options.versionId) {
+      await this.#checkVersionModel(options.versionId);
+    }
+
+    const fusion = resolveFusionOptions(options.fusion);
+
     try {
-      const cacheKey = this.#getCacheKey(question, { ...options, hybrid: true });
+      const cacheSlot = await this.#getCacheSlot(question, { ...options, fusion, hybrid: true });
 
       if (useCache) {
         try {
-          const cached = await redisClient.get<SearchResult[]>(cacheKey);
+          const cached = await redisClient.get<SearchResult[]>(cacheSlot.key);
           if (cached) {
             logger.debug('Hybrid search result retrieved from cache');
             return cached;
@@ -249,10 +410,10 @@ export class SearchService {
       }
 
       /* Generate query embedding */
-      let queryEmbedding: (number | number[] | number[][])[];
+      let queryEmbedding: number[];
 
       try {
-        queryEmbedding = await openAIService.generateEmbedding(question);
+        queryEmbedding = await embeddingProvider.embed(question);
       } catch (err) {
         throw new EmbeddingGenerationError(
           'Failed to generate embedding for hybrid search query',
@@ -261,18 +422,31 @@ export class SearchService {
       }
 
       // Perform hybrid search
-      const results = await this.#performHybridSearch(
+      const candidates = await this.#performHybridSearch(
         queryEmbedding,
         question,
-        limit,
+        ownerId,
+        fetchLimit,
         threshold,
-        documentId
+        documentId,
+        filter,
+        language,
+        options.versionId,
+        fusion,
+        options.recall
       );
+      const results = options.rerank ? await this.#rerank(question, candidates, limit) : candidates;
 
       // Cache results (gracefully handle failures)
       if (useCache && results.length > 0) {
         try {
-          await redisClient.set(cacheKey, results, 3600);
+          await redisClient.setTagged(
+            cacheSlot.key,
+            results,
+            this.#cacheTags(options, results),
+            SEARCH_CACHE_TTL_SECONDS,
+            cacheSlot.counters
+          );
         } catch (error) {
           logger.warn('Cache storage failed for hybrid search:', error);
         }
@@ -298,15 +472,22 @@ export class SearchService {
 
   /**
    * Perform hybrid search using pgvector and PostgreSQL full-text search
-   * Uses raw SQL because TypeORM doesn't support vector operations
-   * This is a private helper method extracted from hybridSearch for better error handling
+   * The vector and full-text retrievals run independently - a chunk needs no lexical match to
+   * be found by meaning, nor a close embedding to be found by its words - and their rankings
+   * are merged with the configured fusion method.
    */
   async #performHybridSearch(
-    queryEmbedding: (number | number[] | number[][])[],
+    queryEmbedding: number[],
     question: string,
+    ownerId: string,
     limit: number,
     threshold: number,
-    documentId?: string
+    documentId: string | undefined,
+    filter: SearchFilter | undefined,
+    language: string | undefined,
+    versionId: string | undefined,
+    fusion: FusionOptions,
+    recall: SearchRecall | undefined
   ): Promise<SearchResult[]> {
     const queryRunner = AppDataSource.createQueryRunner();
 
@@ -315,84 +496,121 @@ export class SearchService {
 
       /* Convert embedding array to PostgreSQL vector format */
       const vectorString = `[${queryEmbedding.join(',')}]`;
+      const candidateLimit = Math.min(limit * env.search.candidateMultiplier, 200);
+      await applyRecall(queryRunner, resolveRecall(recall, candidateLimit));
+
+      /* Restrict both retrievals to the same chunks */
+      const scope = (params: unknown[]): string => {
+        let sql = `dc.embedding IS NOT NULL AND dc.owner_id = $${params.push(ownerId)}`;
+        if (versionId) {
+          sql += ` AND dc.version_id = $${params.push(versionId)}`;
+        }
+        if (documentId) {
+          sql += ` AND dc.document_id = $${params.push(documentId)}`;
+        }
+        if (filter) {
+          sql += ` AND ${compileSearchFilter(filter, params)}`;
+        }
+        if (language) {
+          sql += ` AND d.language = $${params.push(language)}`;
+        }
+        return sql;
+      };
 
-      /* Build hybrid search query */
-      let sql = `
-          SELECT
+      const columns = `
             dc.id,
             dc.document_id,
             dc.chunk_text,
             dc.chunk_index,
             dc.metadata,
-            d.id as doc_id,
+            dc.document_id as doc_id,
             d.title,
             d.file_type,
             -- Cosine similarity
-            (1 - (dc.embedding <=> $1::vector)) as vector_similarity,
-            -- Full-text search rank
-            ts_rank(to_tsvector('english', dc.chunk_text), plainto_tsquery('english', $2)) as text_rank
-          FROM document_chunks dc
-          JOIN documents d ON dc.document_id = d.id
-          WHERE dc.embedding IS NOT NULL
-          AND to_tsvector('english', dc.chunk_text) @@ plainto_tsquery('english', $2)
+            (1 - (dc.embedding <=> $1::vector)) as vector_similarity`;
+
+      /* Vector retrieval: nearest chunks above the similarity threshold */
+      const vectorParams: unknown[] = [vectorString];
+      const vectorSql = `
+          SELECT ${columns}
+          FROM ${this.#chunkSource(versionId)}
+          WHERE ${scope(vectorParams)}
+          AND (1 - (dc.embedding <=> $1::vector)) >= $${vectorParams.push(threshold)}
+          ORDER BY dc.embedding <=> $1::vector
+          LIMIT $${vectorParams.push(candidateLimit)}
         `;
 
-      const params: any[] = [vectorString, question];
-
-      if (documentId) {
-        sql += ` AND dc.document_id = $${params.length + 1}`;
-        params.push(documentId);
-      }
-
       /**
-       * Add threshold filter for vector similarity
-       * Only include results above the similarity threshold
+       * Full-text retrieval: best ts_rank among chunks matching the query terms
+       * The query is parsed once per text search configuration and each chunk is matched with
+       * the query of its own configuration, so stemming follows the document's language
        */
-      sql += `
-          AND (1 - (dc.embedding <=> $1::vector)) >= $${params.length + 1}
-        `;
-      params.push(threshold);
-
-      sql += `
-          ORDER BY
-            (1 - (dc.embedding <=> $1::vector)) * 0.7 +
-            ts_rank(to_tsvector('english', dc.chunk_text), plainto_tsquery('english', $2)) * 0.3 DESC
-          LIMIT $${params.length + 1}
+      const configs = language ? [textSearchConfig(language)] : ALL_TEXT_SEARCH_CONFIGS;
+      const textParams: unknown[] = [vectorString, question, configs];
+      const textSql = `
+          SELECT ${columns},
+            -- Full-text search rank
+            ts_rank(dc.search_vector, q.query) as text_rank
+          FROM ${this.#chunkSource(versionId)}
+          JOIN (
+            SELECT config, plainto_tsquery(config, $2) AS query
+            FROM unnest($3::regconfig[]) AS config
+          ) q ON q.config = dc.ts_config
+          WHERE ${scope(textParams)}
+          AND dc.search_vector @@ q.query
+          ORDER BY text_rank DESC
+          LIMIT $${textParams.push(candidateLimit)}
         `;
-      params.push(limit);
 
-      let rows;
+      let vectorRows: any[];
+      let textRows: any[];
 
       try {
-        rows = await queryRunner.query(sql, params);
+        vectorRows = await queryRunner.query(vectorSql, vectorParams);
+        textRows = await queryRunner.query(textSql, textParams);
       } catch (err) {
         throw handleDatabaseError(err, 'Hybrid search query failed');
       }
 
-      return rows.map((row: any) => {
-        const vectorSimilarity = parseFloat(row.vector_similarity) || 0;
-        const textRank = parseFloat(row.text_rank) || 0;
-
-        /* Calculate combined score: 70% vector similarity + 30% text rank */
-        const combinedScore = vectorSimilarity * 0.7 + textRank * 0.3;
-
-        return {
-          chunk: {
-            id: row.id,
-            documentId: row.document_id,
-            chunkText: row.chunk_text,
-            chunkIndex: row.chunk_index,
-            metadata: row.metadata,
+      const fused = fuseRankings(
+        [
+          {
+            retriever: 'vector',
+            candidates: vectorRows.map((row) => ({
+              id: row.id,
+              item: row,
+              score: parseFloat(row.vector_similarity) || 0,
+            })),
           },
-          document: {
-            id: row.doc_id,
-            title: row.title,
-            fileType: row.file_type,
+          {
+            retriever: 'text',
+            candidates: textRows.map((row) => ({
+              id: row.id,
+              item: row,
+              score: parseFloat(row.text_rank) || 0,
+            })),
           },
-          similarity: parseFloat(row.vector_similarity),
-          score: parseFloat(row.vector_similarity) * 0.7 + parseFloat(row.text_rank) * 0.3,
-        };
-      });
+        ],
+        fusion
+      );
+
+      return fused.slice(0, limit).map(({ item: row, score, hits }) => ({
+        chunk: {
+          id: row.id,
+          documentId: row.document_id,
+          chunkText: row.chunk_text,
+          chunkIndex: row.chunk_index,
+          metadata: row.metadata,
+        },
+        document: {
+          id: row.doc_id,
+          title: row.title,
+          fileType: row.file_type,
+        },
+        similarity: parseFloat(row.vector_similarity) || 0,
+        score,
+        retrievers: hits,
+      }));
     } catch (error) {
       /* If it's already an AppError, re-throw it */
       if (error instanceof AppError) {
@@ -402,18 +620,305 @@ export class SearchService {
       /* Wrap unexpected errors */
       throw handleDatabaseError(error, 'Hybrid search operation failed');
     } finally {
+      /* Nothing was written; ending the transaction ends the recall settings */
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
       /* Always release the query runner */
       await queryRunner.release();
     }
   }
 
+  /**
+   * Number of results to retrieve
+   * Reranking over-fetches so the reranker can promote results retrieval ranked lower
+   */
+  #getFetchLimit(options: SearchOptions): number {
+    const { limit = 10, rerank = false, rerankCandidates = env.reranking.candidates } = options;
+
+    if (!rerank) {
+      return limit;
+    }
+
+    if (rerankCandidates < 1 || rerankCandidates > MAX_RERANK_CANDIDATES) {
+      throw new SearchError(
+        `Rerank candidates must be between 1 and ${MAX_RERANK_CANDIDATES}`,
+        undefined,
+        { rerankCandidates }
+      );
+    }
+
+    return Math.max(limit, rerankCandidates);
+  }
+
+  /**
+   * Rescore candidates with the reranker and keep the best `limit`
+   * A failing reranker degrades to the retrieval order instead of failing the search
+   */
+  async #rerank(query: string, candidates: SearchResult[], limit: number): Promise<SearchResult[]> {
+    if (candidates.length === 0) {
+      return candidates;
+    }
+
+    let scores: number[];
+    try {
+      scores = await reranker.rerank(
+        query,
+        candidates.map((result) => result.chunk.chunkText)
+      );
+    } catch (err) {
+      logger.warn(`Reranking with ${reranker.name} failed, keeping retrieval order:`, err);
+      return candidates.slice(0, limit);
+    }
+
+    return candidates
+      .map((result, index) => ({ ...result, score: scores[index]!, rerankScore: scores[index]! }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+      .slice(0, limit);
+  }
+
+  /**
+   * Search whole documents
+   * Chunk hits (vector or hybrid, reranked when asked) are grouped by document: a document scores
+   * the aggregation of its hits' scores and keeps its best hit as snippet. `limit` counts documents.
+   */
+  async searchDocuments(
+    query: string,
+    { aggregation = 'max', ...options }: DocumentSearchOptions
+  ): Promise<DocumentSearchResult[]> {
+    const limit = options.limit ?? 10;
+    const chunkOptions = {
+      ...options,
+      limit: Math.min(MAX_CHUNK_HITS, Math.max(limit, limit * CHUNKS_PER_DOCUMENT)),
+    };
+    const hits = options.hybrid
+      ? await this.hybridSearch(query, chunkOptions)
+      : await this.search(query, chunkOptions);
+
+    /* Hits arrive best first, so the first hit of a document is its best match */
+    const groups = new Map<string, SearchResult[]>();
+    for (const hit of hits) {
+      groups.set(hit.document.id, [...(groups.get(hit.document.id) ?? []), hit]);
+    }
+
+    return [...groups.values()]
+      .map((matches) => {
+        const bestMatch = matches[0]!;
+        const scores = matches.map((match) => match.score);
+        const total = scores.reduce((sum, score) => sum + score, 0);
+
+        return {
+          document: bestMatch.document,
+          score:
+            aggregation === 'sum'
+              ? total
+              : aggregation === 'mean'
+                ? total / scores.length
+                : Math.max(...scores),
+          matchCount: matches.length,
+          bestMatch,
+          snippet: bestMatch.chunk.chunkText,
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Documents of the same user closest to a document, by document embedding
+   * Empty when the document has no embedded chunks yet
+   */
+  async similarDocuments(
+    documentId: string,
+    { ownerId, limit = 10 }: { ownerId: string; limit?: number }
+  ): Promise<SimilarDocument[]> {
+    if (limit < 1 || limit > 100) {
+      throw new SearchError('Limit must be between 1 and 100', undefined, { limit });
+    }
+
+    const queryRunner = AppDataSource.createQueryRunner();
+
+    try {
+      await queryRunner.connect();
+
+      const [source]: Array<{ embedding: string | null }> = await queryRunner.query(
+        `SELECT embedding::text AS embedding FROM documents WHERE id = $1 AND owner_id = $2`,
+        [documentId, ownerId]
+      );
+      if (!source) {
+        throw new DocumentNotFoundError(documentId);
+      }
+      if (!source.embedding) {
+        return [];
+      }
+
+      /*
+       * The owner filter only applies to the rows the HNSW scan returns (ef_search of them, across
+       * all users); iterative scans (pgvector 0.8) keep scanning until enough rows pass it
+       */
+      await applyRecall(queryRunner, resolveRecall(undefined, limit));
+      await queryRunner.query(`SELECT set_config('hnsw.iterative_scan', 'strict_order', true)`);
+
+      const rows: Array<{
+        id: string;
+        owner_id: string | null;
+        title: string;
+        file_path: string | null;
+        file_type: string | null;
+        language: string | null;
+        metadata: Record<string, unknown> | null;
+        content_hash: string | null;
+        created_at: Date;
+        updated_at: Date;
+        similarity: number;
+      }> = await queryRunner.query(
+        `SELECT d.id, d.owner_id, d.title, d.file_path, d.file_type, d.language, d.metadata,
+                d.content_hash, d.created_at, d.updated_at,
+                (1 - (d.embedding <=> $1::vector))::float AS similarity
+         FROM documents d
+         WHERE d.owner_id = $2 AND d.id <> $3 AND d.embedding IS NOT NULL
+         ORDER BY d.embedding <=> $1::vector
+         LIMIT $4`,
+        [source.embedding, ownerId, documentId, limit]
+      );
+
+      return rows.map((row) => ({
+        document: {
+          id: row.id,
+          ownerId: row.owner_id,
+          title: row.title,
+          filePath: row.file_path,
+          fileType: row.file_type,
+          language: row.language,
+          metadata: row.metadata,
+          contentHash: row.content_hash,
+          createdAt: row.created_at,
+          updatedAt: row.updated_at,
+        },
+        similarity: row.similarity,
+      }));
+    } catch (err) {
+      if (err instanceof AppError) {
+        throw err;
+      }
+      throw handleDatabaseError(err, 'Failed to find similar documents');
+    } finally {
+      /* Nothing was written; ending the transaction ends the scan settings */
+      if (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * Chunks searched, as `dc`, with their document as `d`
+   * A document version has the same columns as the current document and chunks, so filters and
+   * ranking apply unchanged
+   */
+  #chunkSource(versionId: string | undefined): string {
+    return versionId
+      ? `document_version_chunks dc JOIN document_versions d ON dc.version_id = d.id`
+      : `document_chunks dc JOIN documents d ON dc.document_id = d.id`;
+  }
+
+  /**
+   * Versions recorded before an embedding model migration keep the embeddings of the previous
+   * model, which can't be compared with query embeddings of the active one
+   */
+  async #checkVersionModel(versionId: string): Promise<void> {
+    let version: { embedding_provider: string | null; embedding_model: string | null } | undefined;
+    try {
+      [version] = await AppDataSource.query(
+        `SELECT embedding_provider, embedding_model FROM document_versions WHERE id = $1`,
+        [versionId]
+      );
+    } catch (err) {
+      throw handleDatabaseError(err, 'Failed to look up the document version');
+    }
+
+    if (
+      version &&
+      (version.embedding_provider !== embeddingProvider.name ||
+        version.embedding_model !== embeddingProvider.model)
+    ) {
+      throw new ValidationError(
+        `This version was embedded with ${version.embedding_model ?? 'an unknown model'}, not the active embedding model ${embeddingProvider.model}, and can't be searched`,
+        'versionId',
+        versionId
+      );
+    }
+  }
+
+  /**
+   * Drop the cached searches a document change may affect: those that returned the document and,
+   * unless it was deleted and can only leave results, those of its owner it may now join
+   */
+  async invalidateDocument(
+    documentId: string,
+    ownerId: string | null | undefined,
+    { deleted = false }: { deleted?: boolean } = {}
+  ): Promise<number> {
+    const tags = [documentCacheTag(documentId)];
+    if (!deleted && ownerId) {
+      tags.push(ownerCacheTag(ownerId));
+    }
+
+    /* First, so searches still running can't cache what they read before the change */
+    await redisClient.incr(CACHE_INVALIDATIONS_KEY);
+    return redisClient.invalidateTags(tags);
+  }
+
+  /* Drop every cached search at once by starting a new cache generation; old entries expire */
+  async invalidateCache(): Promise<void> {
+    await redisClient.incr(CACHE_GENERATION_KEY);
+  }
+
+  /**
+   * Tags of a cached search: the documents it returned, which a change may alter, and the
+   * documents it may return, which a new or changed document may join
+   */
+  #cacheTags(options: SearchOptions, results: SearchResult[]): string[] {
+    const documentIds = new Set(results.map((result) => result.document.id));
+
+    /* Top-level filter conditions all apply, so documentIds restricts the search */
+    const scope = options.documentId ? [options.documentId] : options.filter?.documentIds;
+    const tags: string[] = [];
+    if (scope?.length) {
+      scope.forEach((documentId) => documentIds.add(documentId));
+    } else if (!options.versionId) {
+      /* A version's chunks never change; other searches may gain any document of the owner */
+      tags.push(ownerCacheTag(options.ownerId));
+    }
+
+    return [...tags, ...[...documentIds].map(documentCacheTag)];
+  }
+
   /**
    * Generate cache key for search query
+   * Keys belong to the current cache generation, so invalidateCache drops them all at once.
+   * The counters are read before searching and checked again when the results are cached.
    */
-  #getCacheKey(question: string, options: SearchOptions): string {
-    const keyData = JSON.stringify({ question, ...options });
+  async #getCacheSlot(question: string, options: SearchOptions): Promise<CacheSlot> {
+    const [generation, invalidations] = await Promise.all([
+      redisClient.get<number>(CACHE_GENERATION_KEY),
+      redisClient.get<number>(CACHE_INVALIDATIONS_KEY),
+    ]);
+
+    /* Results of another embedding model are stale after a cutover */
+    const keyData = JSON.stringify({
+      question,
+      ...options,
+      embeddingModel: `${embeddingProvider.name}:${embeddingProvider.model}`,
+    });
     const hash = createHash('md5').update(keyData).digest('hex');
-    return `search:${hash}`;
+    return {
+      key: `search:${generation ?? 0}:${options.ownerId}:${hash}`,
+      counters: {
+        [CACHE_GENERATION_KEY]: generation ?? 0,
+        [CACHE_INVALIDATIONS_KEY]: invalidations ?? 0,
+      },
+    };
   }
 }
 /* Singleton instance */
@@ -0,0 +1,54 @@
+import type { ChunkingStrategyName } from '../../config/environment.ts';
+
+export interface ChunkingOptions {
+  strategy: ChunkingStrategyName;
+  /* Characters, or tokens for the token strategy */
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+/* Character range of a page in the document content */
+export interface PageSpan {
+  page: number;
+  start: number;
+  end: number;
+}
+
+/* A heading and the character offset where it starts in the document content */
+export interface HeadingSpan {
+  level: number;
+  title: string;
+  offset: number;
+}
+
+/* Layout information recovered during text extraction */
+export interface DocumentStructure {
+  pages?: PageSpan[];
+  headings?: HeadingSpan[];
+}
+
+/* Half-open character range [start, end) */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface TextChunk {
+  text: string;
+  /* Character offsets into Document.content */
+  startOffset: number;
+  endOffset: number;
+  /* Titles of the enclosing headings, outermost first */
+  headingPath: string[];
+  page: number | null;
+}
+
+/**
+ * Chunking Strategy
+ * Splits document content into the ranges that get embedded
+ */
+export interface ChunkingStrategy {
+  readonly name: ChunkingStrategyName;
+
+  split(text: string, options: ChunkingOptions, structure: DocumentStructure): TextSpan[];
+}
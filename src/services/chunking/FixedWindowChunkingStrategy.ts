@@ -0,0 +1,41 @@
+import type { ChunkingOptions, ChunkingStrategy, TextSpan } from './ChunkingStrategy.ts';
+import { trimSpans } from './spans.ts';
+
+/**
+ * Fixed character window with overlap
+ * Windows are cut back to the last sentence or line break when one falls in their second half
+ */
+export class FixedWindowChunkingStrategy implements ChunkingStrategy {
+  readonly name = 'fixed' as const;
+
+  split(text: string, { chunkSize, chunkOverlap }: ChunkingOptions): TextSpan[] {
+    if (text.length <= chunkSize) {
+      return trimSpans(text, [{ start: 0, end: text.length }]);
+    }
+
+    const spans: TextSpan[] = [];
+    let start = 0;
+
+    while (start < text.length) {
+      const end = Math.min(start + chunkSize, text.length);
+      let chunkEnd = end;
+      let next = end;
+
+      /* Try to end at sentence boundary */
+      if (end < text.length) {
+        const window = text.slice(start, end);
+        const boundary = Math.max(window.lastIndexOf('.'), window.lastIndexOf('\n'));
+
+        if (boundary > chunkSize * 0.5) {
+          chunkEnd = start + boundary + 1;
+        }
+        next = Math.max(chunkEnd - chunkOverlap, start + 1);
+      }
+
+      spans.push({ start, end: chunkEnd });
+      start = next;
+    }
+
+    return trimSpans(text, spans);
+  }
+}
@@ -0,0 +1,36 @@
+import type {
+  ChunkingOptions,
+  ChunkingStrategy,
+  DocumentStructure,
+  TextSpan,
+} from './ChunkingStrategy.ts';
+import { detectMarkdownHeadings, mergeSpans, splitRecursively, trimSpans } from './spans.ts';
+
+/**
+ * One section per chunk
+ * Sections start at headings (found during extraction, or `#` lines in the text);
+ * sections longer than the chunk size are split recursively, never across a heading
+ */
+export class MarkdownHeadingChunkingStrategy implements ChunkingStrategy {
+  readonly name = 'markdown-heading' as const;
+
+  split(
+    text: string,
+    { chunkSize, chunkOverlap }: ChunkingOptions,
+    structure: DocumentStructure
+  ): TextSpan[] {
+    const headings = structure.headings?.length ? structure.headings : detectMarkdownHeadings(text);
+    const boundaries = [
+      ...new Set([0, ...headings.map((heading) => heading.offset), text.length]),
+    ].sort((a, b) => a - b);
+
+    const spans: TextSpan[] = [];
+    for (let i = 0; i < boundaries.length - 1; i++) {
+      const section = { start: boundaries[i]!, end: boundaries[i + 1]! };
+      const pieces = splitRecursively(text, section, chunkSize);
+      spans.push(...mergeSpans(pieces, chunkSize, chunkOverlap));
+    }
+
+    return trimSpans(text, spans);
+  }
+}
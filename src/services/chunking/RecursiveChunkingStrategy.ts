@@ -0,0 +1,15 @@
+import type { ChunkingOptions, ChunkingStrategy, TextSpan } from './ChunkingStrategy.ts';
+import { mergeSpans, splitRecursively, trimSpans } from './spans.ts';
+
+/**
+ * Recursive separator splitting
+ * Splits on paragraphs, then lines, sentences and words until pieces fit, then packs them back together
+ */
+export class RecursiveChunkingStrategy implements ChunkingStrategy {
+  readonly name = 'recursive' as const;
+
+  split(text: string, { chunkSize, chunkOverlap }: ChunkingOptions): TextSpan[] {
+    const pieces = splitRecursively(text, { start: 0, end: text.length }, chunkSize);
+    return trimSpans(text, mergeSpans(pieces, chunkSize, chunkOverlap));
+  }
+}
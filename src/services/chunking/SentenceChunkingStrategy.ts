@@ -0,0 +1,35 @@
+import type { ChunkingOptions, ChunkingStrategy, TextSpan } from './ChunkingStrategy.ts';
+import { mergeSpans, spanLength, splitRecursively, trimSpans } from './spans.ts';
+
+/* Sentence end (with closing quotes/brackets) followed by whitespace, or a blank line */
+const SENTENCE_END = /[.!?]+["')\]]*(?=\s)|\n\s*\n/g;
+
+/**
+ * Whole sentences packed up to the chunk size
+ * Overlap is made of whole sentences; overlong sentences are split on words
+ */
+export class SentenceChunkingStrategy implements ChunkingStrategy {
+  readonly name = 'sentence' as const;
+
+  split(text: string, { chunkSize, chunkOverlap }: ChunkingOptions): TextSpan[] {
+    const sentences: TextSpan[] = [];
+    let start = 0;
+
+    for (const match of text.matchAll(SENTENCE_END)) {
+      const end = match.index + match[0].length;
+      sentences.push({ start, end });
+      start = end;
+    }
+    if (start < text.length) {
+      sentences.push({ start, end: text.length });
+    }
+
+    const pieces = sentences.flatMap((sentence) =>
+      spanLength(sentence) > chunkSize
+        ? splitRecursively(text, sentence, chunkSize, [' '])
+        : [sentence]
+    );
+
+    return trimSpans(text, mergeSpans(pieces, chunkSize, chunkOverlap));
+  }
+}
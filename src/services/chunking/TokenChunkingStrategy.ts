@@ -0,0 +1,48 @@
+import { getEncoding, Tiktoken, TiktokenEncoding } from 'js-tiktoken';
+
+import type { ChunkingOptions, ChunkingStrategy, TextSpan } from './ChunkingStrategy.ts';
+import { mergeSpans, trimSpans } from './spans.ts';
+
+/**
+ * Token-count windows
+ * Chunk size and overlap are counted in tokenizer tokens; chunks are cut on word boundaries.
+ * Tokens are counted word by word, so a chunk's count only approximates the tokens of its joined
+ * text, and a single word longer than the chunk size becomes an oversized chunk of its own.
+ */
+export class TokenChunkingStrategy implements ChunkingStrategy {
+  readonly name = 'token' as const;
+  #encodingName: TiktokenEncoding;
+  #encoding: Tiktoken | null = null;
+
+  constructor(encodingName: TiktokenEncoding = 'cl100k_base') {
+    this.#encodingName = encodingName;
+  }
+
+  split(text: string, { chunkSize, chunkOverlap }: ChunkingOptions): TextSpan[] {
+    /* Words with their leading whitespace, as BPE tokenizers see them */
+    const words: TextSpan[] = [];
+    for (const match of text.matchAll(/\s*\S+/g)) {
+      words.push({ start: match.index, end: match.index + match[0].length });
+    }
+
+    const encoding = this.#getEncoding();
+    const counts = new Map<string, number>();
+    const countTokens = (span: TextSpan): number => {
+      const word = text.slice(span.start, span.end);
+      let count = counts.get(word);
+      if (count === undefined) {
+        count = encoding.encode(word).length;
+        counts.set(word, count);
+      }
+      return count;
+    };
+
+    return trimSpans(text, mergeSpans(words, chunkSize, chunkOverlap, countTokens));
+  }
+
+  /* The BPE ranks are only loaded when the strategy is used */
+  #getEncoding(): Tiktoken {
+    this.#encoding ??= getEncoding(this.#encodingName);
+    return this.#encoding;
+  }
+}
@@ -0,0 +1,113 @@
+import { env } from '../../config/environment.ts';
+import type { ChunkingStrategyName } from '../../config/environment.ts';
+import { ValidationError } from '../../errors/DomainErrors.ts';
+
+import type {
+  ChunkingOptions,
+  ChunkingStrategy,
+  DocumentStructure,
+  HeadingSpan,
+  TextChunk,
+} from './ChunkingStrategy.ts';
+import { FixedWindowChunkingStrategy } from './FixedWindowChunkingStrategy.ts';
+import { RecursiveChunkingStrategy } from './RecursiveChunkingStrategy.ts';
+import { MarkdownHeadingChunkingStrategy } from './MarkdownHeadingChunkingStrategy.ts';
+import { SentenceChunkingStrategy } from './SentenceChunkingStrategy.ts';
+import { TokenChunkingStrategy } from './TokenChunkingStrategy.ts';
+import { detectMarkdownHeadings } from './spans.ts';
+
+export type {
+  ChunkingOptions,
+  ChunkingStrategy,
+  DocumentStructure,
+  HeadingSpan,
+  PageSpan,
+  TextChunk,
+  TextSpan,
+} from './ChunkingStrategy.ts';
+
+/* Registered strategies, by name */
+export const chunkingStrategies = new Map<ChunkingStrategyName, ChunkingStrategy>(
+  [
+    new FixedWindowChunkingStrategy(),
+    new RecursiveChunkingStrategy(),
+    new MarkdownHeadingChunkingStrategy(),
+    new SentenceChunkingStrategy(),
+    new TokenChunkingStrategy(),
+  ].map((strategy) => [strategy.name, strategy])
+);
+
+/**
+ * Fill in and validate chunking options
+ * Sizes default per unit: characters for most strategies, tokens for the token strategy
+ */
+export function resolveChunkingOptions(
+  options: Partial<ChunkingOptions> | null = {}
+): ChunkingOptions {
+  const strategy = options?.strategy ?? env.chunking.strategy;
+  const defaults =
+    strategy === 'token'
+      ? { chunkSize: env.chunking.tokenChunkSize, chunkOverlap: env.chunking.tokenChunkOverlap }
+      : { chunkSize: env.chunking.chunkSize, chunkOverlap: env.chunking.chunkOverlap };
+  const chunkSize = options?.chunkSize ?? defaults.chunkSize;
+  const chunkOverlap = options?.chunkOverlap ?? Math.min(defaults.chunkOverlap, chunkSize - 1);
+
+  if (!chunkingStrategies.has(strategy)) {
+    throw new ValidationError(
+      `Unknown chunking strategy "${strategy}". Expected one of: ${[...chunkingStrategies.keys()].join(', ')}`,
+      'strategy',
+      strategy
+    );
+  }
+
+  if (!Number.isInteger(chunkSize) || chunkSize < 10 || chunkSize > 20000) {
+    throw new ValidationError('Chunk size must be between 10 and 20000', 'chunkSize', chunkSize);
+  }
+
+  if (!Number.isInteger(chunkOverlap) || chunkOverlap < 0 || chunkOverlap >= chunkSize) {
+    throw new ValidationError(
+      'Chunk overlap must be at least 0 and smaller than the chunk size',
+      'chunkOverlap',
+      chunkOverlap
+    );
+  }
+
+  return { strategy, chunkSize, chunkOverlap };
+}
+
+/* Split document content with the given strategy and locate every chunk in the document */
+export function chunkDocument(
+  text: string,
+  options: ChunkingOptions,
+  structure: DocumentStructure = {}
+): TextChunk[] {
+  const strategy = chunkingStrategies.get(options.strategy)!;
+  const headings = [
+    ...(structure.headings?.length ? structure.headings : detectMarkdownHeadings(text)),
+  ].sort((a, b) => a.offset - b.offset);
+
+  return strategy.split(text, options, structure).map((span) => ({
+    text: text.slice(span.start, span.end),
+    startOffset: span.start,
+    endOffset: span.end,
+    headingPath: headingPathAt(headings, span.start),
+    page: structure.pages?.find((page) => span.start < page.end)?.page ?? null,
+  }));
+}
+
+/* Titles of the headings enclosing an offset, outermost first */
+function headingPathAt(headings: HeadingSpan[], offset: number): string[] {
+  const path: HeadingSpan[] = [];
+
+  for (const heading of headings) {
+    if (heading.offset > offset) {
+      break;
+    }
+    while (path.length > 0 && path[path.length - 1]!.level >= heading.level) {
+      path.pop();
+    }
+    path.push(heading);
+  }
+
+  return path.map((heading) => heading.title);
+}
@@ -0,0 +1,118 @@
+import type { HeadingSpan, TextSpan } from './ChunkingStrategy.ts';
+
+/**
+ * Span helpers shared by the chunking strategies
+ * Strategies work on offsets rather than strings so every chunk can be traced back to Document.content
+ */
+
+const RECURSIVE_SEPARATORS = ['\n\n', '\n', '. ', ' '];
+
+export function spanLength(span: TextSpan): number {
+  return span.end - span.start;
+}
+
+/* Shrink a span to exclude surrounding whitespace; null when nothing is left */
+export function trimSpan(text: string, span: TextSpan): TextSpan | null {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start]!)) {
+    start++;
+  }
+  while (end > start && /\s/.test(text[end - 1]!)) {
+    end--;
+  }
+  return end > start ? { start, end } : null;
+}
+
+export function trimSpans(text: string, spans: TextSpan[]): TextSpan[] {
+  return spans.map((span) => trimSpan(text, span)).filter((span) => span !== null);
+}
+
+/**
+ * Pack contiguous pieces into chunks of at most `maxSize`, repeating up to `overlap`
+ * worth of trailing pieces at the start of the next chunk. Oversized pieces become their own chunk.
+ */
+export function mergeSpans(
+  pieces: TextSpan[],
+  maxSize: number,
+  overlap: number,
+  measure: (span: TextSpan) => number = spanLength
+): TextSpan[] {
+  const chunks: TextSpan[] = [];
+  let window: Array<{ span: TextSpan; size: number }> = [];
+  let windowSize = 0;
+
+  for (const span of pieces) {
+    const size = measure(span);
+
+    if (window.length > 0 && windowSize + size > maxSize) {
+      chunks.push({ start: window[0]!.span.start, end: window[window.length - 1]!.span.end });
+
+      /* Keep the tail as overlap, as long as the next piece still fits */
+      while (window.length > 0 && (windowSize > overlap || windowSize + size > maxSize)) {
+        windowSize -= window.shift()!.size;
+      }
+    }
+
+    window.push({ span, size });
+    windowSize += size;
+  }
+
+  if (window.length > 0) {
+    chunks.push({ start: window[0]!.span.start, end: window[window.length - 1]!.span.end });
+  }
+
+  return chunks;
+}
+
+/**
+ * Split a range on the coarsest separator that yields pieces no longer than `maxSize`
+ * (paragraphs, then lines, then sentences, then words, then hard cuts)
+ */
+export function splitRecursively(
+  text: string,
+  range: TextSpan,
+  maxSize: number,
+  separators: string[] = RECURSIVE_SEPARATORS
+): TextSpan[] {
+  if (spanLength(range) <= maxSize) {
+    return [range];
+  }
+
+  const [separator, ...finer] = separators;
+
+  if (separator === undefined) {
+    const pieces: TextSpan[] = [];
+    for (let start = range.start; start < range.end; start += maxSize) {
+      pieces.push({ start, end: Math.min(start + maxSize, range.end) });
+    }
+    return pieces;
+  }
+
+  /* Pieces end right after their separator */
+  const pieces: TextSpan[] = [];
+  let start = range.start;
+  let index = text.indexOf(separator, start);
+  while (index !== -1 && index + separator.length < range.end) {
+    pieces.push({ start, end: index + separator.length });
+    start = index + separator.length;
+    index = text.indexOf(separator, start);
+  }
+  pieces.push({ start, end: range.end });
+
+  if (pieces.length === 1) {
+    return splitRecursively(text, range, maxSize, finer);
+  }
+
+  return pieces.flatMap((piece) =>
+    spanLength(piece) > maxSize ? splitRecursively(text, piece, maxSize, finer) : [piece]
+  );
+}
+
+/* ATX headings (`## Title`) written in the text itself */
+export function detectMarkdownHeadings(text: string): HeadingSpan[] {
+  const headings: HeadingSpan[] = [];
+  for (const match of text.matchAll(/^(#{1,6})[ \t]+(.+?)[ \t]*#*[ \t]*$/gm)) {
+    headings.push({ level: match[1]!.length, title: match[2]!, offset: match.index });
+  }
+  return headings;
+}
@@ -0,0 +1,222 @@
+import type { CompletionProviderName } from '../../config/environment.ts';
+import {
+  AnswerGenerationError,
+  ConfigurationError,
+  ValidationError,
+} from '../../errors/DomainErrors.ts';
+import { AppError } from '../../errors/AppError.ts';
+import { handleExternalAPIError } from '../../utils/errorHandler.ts';
+import { logger } from '../../utils/logger.ts';
+
+export type ChatMessage = {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+};
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /* True when the provider didn't report usage and it was approximated from text length */
+  estimated: boolean;
+}
+
+/* A single frame of a streamed completion: either a content delta or the final usage report */
+export interface CompletionStreamChunk {
+  delta?: string;
+  usage?: TokenUsage;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  usage: TokenUsage;
+}
+
+/* Per-call overrides of the deployment's generation settings */
+export interface GenerationOptions {
+  model?: string | null;
+  temperature?: number | null;
+  maxTokens?: number | null;
+  stop?: string[] | null;
+  seed?: number | null;
+}
+
+export interface ResolvedGenerationOptions {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  stop: string[];
+  seed?: number;
+}
+
+const MAX_TOKENS_LIMIT = 16384;
+const MAX_STOP_SEQUENCES = 4;
+
+/**
+ * Completion Provider
+ * Generates chat completions; every stream ends with exactly one usage frame
+ */
+export interface CompletionProvider {
+  readonly name: CompletionProviderName;
+  readonly defaults: ResolvedGenerationOptions;
+
+  /* Merge per-call overrides into the defaults, validating them */
+  resolveOptions(options?: GenerationOptions): ResolvedGenerationOptions;
+
+  /* Stream a completion token by token */
+  stream(
+    messages: ChatMessage[],
+    options?: GenerationOptions
+  ): AsyncGenerator<CompletionStreamChunk>;
+
+  /* Generate a whole completion */
+  complete(messages: ChatMessage[], options?: GenerationOptions): Promise<CompletionResult>;
+}
+
+/**
+ * Shared option handling, error handling and usage reporting
+ * Implementations only provide `streamCompletion`
+ */
+export abstract class BaseCompletionProvider implements CompletionProvider {
+  abstract readonly name: CompletionProviderName;
+  readonly defaults: ResolvedGenerationOptions;
+
+  constructor(defaults: ResolvedGenerationOptions) {
+    this.defaults = defaults;
+  }
+
+  resolveOptions(options: GenerationOptions = {}): ResolvedGenerationOptions {
+    const model = options.model?.trim() || this.defaults.model;
+    const temperature = options.temperature ?? this.defaults.temperature;
+    const maxTokens = options.maxTokens ?? this.defaults.maxTokens;
+    const stop = options.stop ?? this.defaults.stop;
+    const seed = options.seed ?? this.defaults.seed;
+
+    if (!model) {
+      throw new ConfigurationError(
+        'COMPLETION_MODEL must be set (or a model passed per request) to generate answers',
+        { provider: this.name }
+      );
+    }
+
+    if (Number.isNaN(temperature) || temperature < 0 || temperature > 2) {
+      throw new ValidationError('Temperature must be between 0 and 2', 'temperature', temperature);
+    }
+
+    if (!Number.isInteger(maxTokens) || maxTokens < 1 || maxTokens > MAX_TOKENS_LIMIT) {
+      throw new ValidationError(
+        `Max tokens must be an integer between 1 and ${MAX_TOKENS_LIMIT}`,
+        'maxTokens',
+        maxTokens
+      );
+    }
+
+    if (stop.length > MAX_STOP_SEQUENCES || stop.some((sequence) => sequence.length === 0)) {
+      throw new ValidationError(
+        `Up to ${MAX_STOP_SEQUENCES} non-empty stop sequences are allowed`,
+        'stop',
+        stop
+      );
+    }
+
+    if (seed !== undefined && !Number.isInteger(seed)) {
+      throw new ValidationError('Seed must be an integer', 'seed', seed);
+    }
+
+    return { model, temperature, maxTokens, stop, ...(seed !== undefined && { seed }) };
+  }
+
+  async *stream(
+    messages: ChatMessage[],
+    options?: GenerationOptions
+  ): AsyncGenerator<CompletionStreamChunk> {
+    if (!messages || messages.length === 0) {
+      throw new ValidationError('Messages array cannot be empty', 'messages');
+    }
+
+    const resolved = this.resolveOptions(options);
+    let completion = '';
+    let usage: TokenUsage | null = null;
+
+    try {
+      for await (const chunk of this.streamCompletion(messages, resolved)) {
+        if (chunk.delta) {
+          completion += chunk.delta;
+          yield { delta: chunk.delta };
+        }
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+      }
+    } catch (err) {
+      if (err instanceof AppError) {
+        throw err;
+      }
+
+      logger.error(`Error streaming completion from ${this.name}:`, err);
+      throw handleExternalAPIError(this.name, err, 'streamCompletion');
+    }
+
+    yield { usage: usage ?? estimateUsage(messages, completion) };
+  }
+
+  async complete(messages: ChatMessage[], options?: GenerationOptions): Promise<CompletionResult> {
+    const { model } = this.resolveOptions(options);
+    let content = '';
+    let usage: TokenUsage | null = null;
+
+    for await (const chunk of this.stream(messages, options)) {
+      if (chunk.delta) {
+        content += chunk.delta;
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+    }
+
+    if (content.trim().length === 0) {
+      throw new AnswerGenerationError(`No completion returned by ${this.name}`, undefined, {
+        model,
+      });
+    }
+
+    return { content, model, usage: usage! };
+  }
+
+  protected abstract streamCompletion(
+    messages: ChatMessage[],
+    options: ResolvedGenerationOptions
+  ): AsyncIterable<CompletionStreamChunk>;
+}
+
+/* Roughly four characters per token for English text */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/* Add up the usage of several completions */
+export function sumUsage(...usages: TokenUsage[]): TokenUsage {
+  return usages.reduce(
+    (total, usage) => ({
+      promptTokens: total.promptTokens + usage.promptTokens,
+      completionTokens: total.completionTokens + usage.completionTokens,
+      totalTokens: total.totalTokens + usage.totalTokens,
+      estimated: total.estimated || usage.estimated,
+    }),
+    { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimated: false }
+  );
+}
+
+/* Approximate usage for providers that don't report it */
+export function estimateUsage(messages: ChatMessage[], completion: string): TokenUsage {
+  const promptTokens = messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+  const completionTokens = estimateTokens(completion);
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    estimated: true,
+  };
+}
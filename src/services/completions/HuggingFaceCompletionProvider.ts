@@ -0,0 +1,77 @@
+import { InferenceClient } from '@huggingface/inference';
+
+import { BaseCompletionProvider } from './CompletionProvider.ts';
+import type {
+  ChatMessage,
+  CompletionStreamChunk,
+  ResolvedGenerationOptions,
+} from './CompletionProvider.ts';
+import type { HuggingfaceInferenceProvider } from '../../config/environment.ts';
+import { HuggingFaceAPIError } from '../../errors/DomainErrors.ts';
+
+/**
+ * Hugging Face Inference chat completions
+ * Routed to the inference provider given by HF_COMPLETION_PROVIDER
+ */
+export class HuggingFaceCompletionProvider extends BaseCompletionProvider {
+  readonly name = 'huggingface' as const;
+  #client: InferenceClient | null = null;
+  #apiKey: string;
+  #provider: HuggingfaceInferenceProvider | undefined;
+
+  constructor(
+    apiKey: string,
+    defaults: ResolvedGenerationOptions,
+    provider?: HuggingfaceInferenceProvider
+  ) {
+    super(defaults);
+    this.#apiKey = apiKey;
+    this.#provider = provider;
+  }
+
+  protected async *streamCompletion(
+    messages: ChatMessage[],
+    options: ResolvedGenerationOptions
+  ): AsyncGenerator<CompletionStreamChunk> {
+    const stream = this.#getClient().chatCompletionStream({
+      model: options.model,
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      ...(this.#provider && { provider: this.#provider }),
+      ...(options.stop.length > 0 && { stop: options.stop }),
+      ...(options.seed !== undefined && { seed: options.seed }),
+      stream_options: { include_usage: true },
+    });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield { delta };
+      }
+
+      if (chunk.usage) {
+        yield {
+          usage: {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+            estimated: false,
+          },
+        };
+      }
+    }
+  }
+
+  /* The API key is only required once a completion is actually requested */
+  #getClient(): InferenceClient {
+    if (!this.#apiKey) {
+      throw new HuggingFaceAPIError(
+        'HF_API_KEY environment variable is required. Please configure your Hugging Face API key.'
+      );
+    }
+
+    this.#client ??= new InferenceClient(this.#apiKey);
+    return this.#client;
+  }
+}
@@ -0,0 +1,19 @@
+import { OpenAICompletionProvider } from './OpenAICompletionProvider.ts';
+import type { ResolvedGenerationOptions } from './CompletionProvider.ts';
+
+/**
+ * Any server exposing the OpenAI `/v1/chat/completions` API
+ * (llama.cpp server, Ollama, vLLM, LM Studio, LocalAI...)
+ */
+export class OpenAICompatibleCompletionProvider extends OpenAICompletionProvider {
+  override readonly name = 'openai-compatible' as const;
+
+  constructor(baseUrl: string, defaults: ResolvedGenerationOptions, apiKey?: string) {
+    super(apiKey ?? '', defaults, baseUrl);
+  }
+
+  /* Local servers generally only understand the original parameter */
+  protected override tokenLimit(maxTokens: number): { max_tokens: number } {
+    return { max_tokens: maxTokens };
+  }
+}
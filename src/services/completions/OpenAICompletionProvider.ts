@@ -0,0 +1,79 @@
+import OpenAI from 'openai';
+
+import { BaseCompletionProvider } from './CompletionProvider.ts';
+import type {
+  ChatMessage,
+  CompletionStreamChunk,
+  ResolvedGenerationOptions,
+} from './CompletionProvider.ts';
+import { ExternalServiceError } from '../../errors/DomainErrors.ts';
+
+/**
+ * OpenAI Chat Completions API
+ */
+export class OpenAICompletionProvider extends BaseCompletionProvider {
+  readonly name: 'openai' | 'openai-compatible' = 'openai';
+  #client: OpenAI | null = null;
+  #apiKey: string;
+  #baseUrl: string | undefined;
+
+  constructor(apiKey: string, defaults: ResolvedGenerationOptions, baseUrl?: string) {
+    super(defaults);
+    this.#apiKey = apiKey;
+    this.#baseUrl = baseUrl;
+  }
+
+  protected async *streamCompletion(
+    messages: ChatMessage[],
+    options: ResolvedGenerationOptions
+  ): AsyncGenerator<CompletionStreamChunk> {
+    const stream = await this.#getClient().chat.completions.create({
+      model: options.model,
+      messages,
+      stream: true,
+      stream_options: { include_usage: true },
+      temperature: options.temperature,
+      ...this.tokenLimit(options.maxTokens),
+      ...(options.stop.length > 0 && { stop: options.stop }),
+      ...(options.seed !== undefined && { seed: options.seed }),
+    });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield { delta };
+      }
+
+      if (chunk.usage) {
+        yield {
+          usage: {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+            estimated: false,
+          },
+        };
+      }
+    }
+  }
+
+  /* `max_tokens` is deprecated on OpenAI in favour of `max_completion_tokens` */
+  protected tokenLimit(maxTokens: number): { max_tokens?: number; max_completion_tokens?: number } {
+    return { max_completion_tokens: maxTokens };
+  }
+
+  #getClient(): OpenAI {
+    if (!this.#apiKey && !this.#baseUrl) {
+      throw new ExternalServiceError(
+        this.name,
+        'OPENAI_API_KEY environment variable is required. Please configure your OpenAI API key.'
+      );
+    }
+
+    this.#client ??= new OpenAI({
+      apiKey: this.#apiKey || 'not-needed',
+      ...(this.#baseUrl && { baseURL: this.#baseUrl }),
+    });
+    return this.#client;
+  }
+}
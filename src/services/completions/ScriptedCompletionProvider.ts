@@ -0,0 +1,65 @@
+import { BaseCompletionProvider } from './CompletionProvider.ts';
+import type {
+  ChatMessage,
+  CompletionStreamChunk,
+  ResolvedGenerationOptions,
+} from './CompletionProvider.ts';
+
+/* A canned reply, or a function computing one from the prompt */
+export type ScriptedResponse =
+  | string
+  | ((messages: ChatMessage[], options: ResolvedGenerationOptions) => string);
+
+export interface ScriptedCall {
+  messages: ChatMessage[];
+  options: ResolvedGenerationOptions;
+}
+
+/**
+ * Offline completion provider for tests and local development
+ * Replies with queued responses in order (falling back to a fixed reply) and records every call
+ */
+export class ScriptedCompletionProvider extends BaseCompletionProvider {
+  readonly name = 'scripted' as const;
+  readonly calls: ScriptedCall[] = [];
+  #responses: ScriptedResponse[];
+  #fallback: ScriptedResponse;
+
+  constructor(
+    defaults: ResolvedGenerationOptions,
+    responses: ScriptedResponse[] = [],
+    fallback: ScriptedResponse = 'This is a scripted answer.'
+  ) {
+    super(defaults);
+    this.#responses = [...responses];
+    this.#fallback = fallback;
+  }
+
+  /* Queue replies for the next calls */
+  enqueue(...responses: ScriptedResponse[]): void {
+    this.#responses.push(...responses);
+  }
+
+  protected async *streamCompletion(
+    messages: ChatMessage[],
+    options: ResolvedGenerationOptions
+  ): AsyncGenerator<CompletionStreamChunk> {
+    this.calls.push({ messages, options });
+
+    const response = this.#responses.shift() ?? this.#fallback;
+    let text = typeof response === 'function' ? response(messages, options) : response;
+
+    /* Honour stop sequences like a real model would */
+    for (const sequence of options.stop) {
+      const index = text.indexOf(sequence);
+      if (index !== -1) {
+        text = text.slice(0, index);
+      }
+    }
+
+    /* Stream word by word, keeping the whitespace */
+    for (const delta of text.match(/\S+\s*|\s+/g) ?? []) {
+      yield { delta };
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { env } from '../../config/environment.ts';
+import type { CompletionConfig } from '../../config/environment.ts';
+import { ConfigurationError } from '../../errors/DomainErrors.ts';
+
+import type { CompletionProvider, ResolvedGenerationOptions } from './CompletionProvider.ts';
+import { HuggingFaceCompletionProvider } from './HuggingFaceCompletionProvider.ts';
+import { OpenAICompletionProvider } from './OpenAICompletionProvider.ts';
+import { OpenAICompatibleCompletionProvider } from './OpenAICompatibleCompletionProvider.ts';
+import { ScriptedCompletionProvider } from './ScriptedCompletionProvider.ts';
+
+export type {
+  ChatMessage,
+  CompletionProvider,
+  CompletionResult,
+  CompletionStreamChunk,
+  GenerationOptions,
+  ResolvedGenerationOptions,
+  TokenUsage,
+} from './CompletionProvider.ts';
+export {
+  BaseCompletionProvider,
+  estimateTokens,
+  estimateUsage,
+  sumUsage,
+} from './CompletionProvider.ts';
+export { HuggingFaceCompletionProvider } from './HuggingFaceCompletionProvider.ts';
+export { OpenAICompletionProvider } from './OpenAICompletionProvider.ts';
+export { OpenAICompatibleCompletionProvider } from './OpenAICompatibleCompletionProvider.ts';
+export { ScriptedCompletionProvider } from './ScriptedCompletionProvider.ts';
+export type { ScriptedResponse, ScriptedCall } from './ScriptedCompletionProvider.ts';
+export * from './prompts.ts';
+
+/* Build the completion provider selected by COMPLETION_PROVIDER */
+export function createCompletionProvider(config: CompletionConfig): CompletionProvider {
+  const defaults: ResolvedGenerationOptions = {
+    model: config.model,
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+    stop: config.stop,
+    ...(config.seed !== undefined && { seed: config.seed }),
+  };
+
+  switch (config.provider) {
+    case 'huggingface':
+      return new HuggingFaceCompletionProvider(
+        config.apiKey || env.huggingface.apiKey,
+        defaults,
+        env.huggingface.completionProvider
+      );
+
+    case 'openai':
+      return new OpenAICompletionProvider(
+        config.apiKey || env.openai.apiKey,
+        { ...defaults, model: defaults.model || env.openai.model || '' },
+        config.baseUrl || env.openai.baseUrl
+      );
+
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new ConfigurationError(
+          'COMPLETION_BASE_URL is required when COMPLETION_PROVIDER is "openai-compatible"',
+          { provider: config.provider }
+        );
+      }
+      return new OpenAICompatibleCompletionProvider(config.baseUrl, defaults, config.apiKey);
+
+    case 'scripted':
+      return new ScriptedCompletionProvider({ ...defaults, model: defaults.model || 'scripted' });
+
+    default:
+      throw new ConfigurationError(
+        `Unknown completion provider "${String(config.provider)}". Expected one of: huggingface, openai, openai-compatible, scripted`,
+        { provider: config.provider }
+      );
+  }
+}
+
+/* Singleton instance */
+export const completionProvider = createCompletionProvider(env.completion);
@@ -0,0 +1,111 @@
+import type { ChatMessage } from './CompletionProvider.ts';
+
+/**
+ * Prompt templates
+ * Kept in one place so they can be reviewed and tuned without touching service code
+ */
+
+export const RAG_SYSTEM_PROMPT = `You are a helpful assistant that answers questions based on the provided context.
+Use only the information from the context to answer the question.
+The context is made of numbered passages. End every sentence of your answer with the number of the
+passage(s) supporting it in square brackets, e.g. "The notice period is 30 days [2]." or "[1, 3]".
+Only cite passages that state the information; never invent passage numbers.
+If the context doesn't contain enough information to answer the question, say so.
+Be concise and accurate.`;
+
+/* A retrieved chunk, cited in answers by its marker */
+export interface ContextPassage {
+  marker: number;
+  title: string;
+  text: string;
+}
+
+export const STANDALONE_QUESTION_PROMPT = `Given a conversation and a follow-up question, rewrite the follow-up into a standalone question
+that can be understood without the conversation. Resolve pronouns and references such as "it", "that" or
+"the second clause" using the conversation. Keep the language of the follow-up question.
+If the follow-up is already standalone, return it unchanged. Reply with the question only.`;
+
+/**
+ * Messages for answering a question from retrieved document chunks
+ * Previous turns of a conversation, if any, go between the system prompt and the question
+ */
+export function buildAnswerMessages(
+  question: string,
+  context: ContextPassage[],
+  history: ChatMessage[] = []
+): ChatMessage[] {
+  const contextText = context
+    .map((passage) => `[${passage.marker}] (${passage.title})\n${passage.text}`)
+    .join('\n\n---\n\n');
+
+  return [
+    { role: 'system', content: RAG_SYSTEM_PROMPT },
+    ...history,
+    { role: 'user', content: `Context:\n${contextText}\n\nQuestion: ${question}\n\nAnswer:` },
+  ];
+}
+
+/* Messages for rewriting a follow-up question into a standalone search query */
+export function buildStandaloneQuestionMessages(
+  history: ChatMessage[],
+  question: string
+): ChatMessage[] {
+  const transcript = history
+    .map((message) => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n');
+
+  return [
+    { role: 'system', content: STANDALONE_QUESTION_PROMPT },
+    {
+      role: 'user',
+      content: `Conversation:\n${transcript}\n\nFollow-up question: ${question}\n\nStandalone question:`,
+    },
+  ];
+}
+
+export const SUMMARIZE_PART_PROMPT = `You summarize one part of a longer document. Keep the facts, names, figures and
+conclusions a reader of the whole document would need. Write in the language of the text. Reply with the summary only.`;
+
+export const ENRICHMENT_PROMPT = `You describe documents for a search index. Reply with a single JSON object and nothing else:
+{
+  "title": "a short descriptive title",
+  "summary": "a summary of the document in at most 5 sentences",
+  "keywords": ["specific terms a searcher would use"],
+  "topics": ["broad subjects the document is about"],
+  "language": "BCP 47 tag of the document language, e.g. en or pt",
+  "entities": [{ "name": "entity as written", "type": "person | organization | location | product | event | other" }]
+}
+Write the title and summary in the language of the document. Only use information from the document.`;
+
+/* Messages for summarizing one part of a document too long for a single completion */
+export function buildSummarizePartMessages(
+  part: string,
+  index: number,
+  total: number
+): ChatMessage[] {
+  return [
+    { role: 'system', content: SUMMARIZE_PART_PROMPT },
+    { role: 'user', content: `Part ${index + 1} of ${total}:\n${part}\n\nSummary:` },
+  ];
+}
+
+/**
+ * Messages for describing a document
+ * `partial` marks text that is made of summaries of the document parts rather than the document
+ */
+export function buildEnrichmentMessages(
+  text: string,
+  fileName: string | null,
+  maxKeywords: number,
+  partial: boolean
+): ChatMessage[] {
+  const source = partial ? 'Summaries of the consecutive parts of the document' : 'Document';
+
+  return [
+    { role: 'system', content: ENRICHMENT_PROMPT },
+    {
+      role: 'user',
+      content: `${fileName ? `File name: ${fileName}\n` : ''}At most ${maxKeywords} keywords.\n\n${source}:\n${text}\n\nJSON:`,
+    },
+  ];
+}
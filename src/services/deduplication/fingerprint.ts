@@ -0,0 +1,48 @@
+import { createHash } from 'crypto';
+
+/* Words per shingle: near-duplicates share most of their word sequences, not just their words */
+const SHINGLE_SIZE = 3;
+
+/* Identifies documents with exactly the same text */
+export function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * 64-bit SimHash of a text, as a signed integer (PostgreSQL BIGINT)
+ * Each bit is the weighted vote of the word shingles of the text, so texts differing in a few
+ * words end up a few bits apart. Null for text without words.
+ */
+export function simhash(text: string): string | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length === 0) {
+    return null;
+  }
+
+  const size = Math.min(SHINGLE_SIZE, words.length);
+  const shingles = new Map<string, number>();
+  for (let i = 0; i + size <= words.length; i++) {
+    const shingle = words.slice(i, i + size).join(' ');
+    shingles.set(shingle, (shingles.get(shingle) ?? 0) + 1);
+  }
+
+  const votes = new Array<number>(64).fill(0);
+  for (const [shingle, count] of shingles) {
+    const digest = createHash('md5').update(shingle).digest();
+    /* Two 32-bit halves keep the bit arithmetic on plain numbers */
+    const halves = [digest.readUInt32BE(0), digest.readUInt32BE(4)];
+    halves.forEach((half, h) => {
+      for (let bit = 0; bit < 32; bit++) {
+        votes[h * 32 + bit]! += (half >>> bit) & 1 ? count : -count;
+      }
+    });
+  }
+
+  let fingerprint = 0n;
+  votes.forEach((vote, bit) => {
+    if (vote > 0) {
+      fingerprint |= 1n << BigInt(bit);
+    }
+  });
+  return BigInt.asIntN(64, fingerprint).toString();
+}
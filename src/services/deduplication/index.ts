@@ -0,0 +1 @@
+export { contentHash, simhash } from './fingerprint.ts';
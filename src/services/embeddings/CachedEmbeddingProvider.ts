@@ -0,0 +1,71 @@
+import type { EmbeddingProviderName } from '../../config/environment.ts';
+import type { EmbeddingProvider } from './EmbeddingProvider.ts';
+import { embeddingCache, normalizeEmbeddingText } from './EmbeddingCache.ts';
+import type { EmbeddingCache } from './EmbeddingCache.ts';
+
+/**
+ * Cached Embedding Provider
+ * Answers repeated texts from the embedding cache and only sends the others to the wrapped
+ * provider, so repeated questions and re-uploaded text are not embedded again
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  readonly #provider: EmbeddingProvider;
+  readonly #cache: EmbeddingCache;
+
+  constructor(provider: EmbeddingProvider, cache: EmbeddingCache = embeddingCache) {
+    this.#provider = provider;
+    this.#cache = cache;
+  }
+
+  get name(): EmbeddingProviderName {
+    return this.#provider.name;
+  }
+
+  get model(): string {
+    return this.#provider.model;
+  }
+
+  get dimensions(): number {
+    return this.#provider.dimensions;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    /* Empty input fails in the provider, with its own message */
+    if (!text || text.trim().length === 0) {
+      return this.#provider.embed(text);
+    }
+
+    const [embedding] = await this.embedBatch([text]);
+    return embedding!;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (!texts || texts.length === 0 || texts.some((t) => !t || t.trim().length === 0)) {
+      return this.#provider.embedBatch(texts);
+    }
+
+    const embeddings = await this.#cache.getMany(this, texts);
+
+    /* Each distinct missing text is embedded once, like it is cached once */
+    const missing = new Map<string, string>();
+    texts.forEach((text, index) => {
+      const normalized = normalizeEmbeddingText(text);
+      if (!embeddings[index] && !missing.has(normalized)) {
+        missing.set(normalized, text);
+      }
+    });
+
+    if (missing.size > 0) {
+      const missingTexts = [...missing.values()];
+      const generated = await this.#provider.embedBatch(missingTexts);
+      await this.#cache.setMany(this, missingTexts, generated);
+
+      const byText = new Map([...missing.keys()].map((key, index) => [key, generated[index]!]));
+      texts.forEach((text, index) => {
+        embeddings[index] ??= byText.get(normalizeEmbeddingText(text))!;
+      });
+    }
+
+    return embeddings as number[][];
+  }
+}
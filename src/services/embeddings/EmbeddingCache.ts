@@ -0,0 +1,175 @@
+import { createHash } from 'crypto';
+
+import { env } from '../../config/environment.ts';
+import { redisClient } from '../../config/redis.ts';
+
+/* Approximate overhead of a Map entry and an array header, on top of 8 bytes per number */
+const ENTRY_OVERHEAD_BYTES = 96;
+
+export interface EmbeddingCacheLevelStats {
+  hits: number;
+  misses: number;
+  /* hits / (hits + misses), 0 before the first lookup */
+  hitRate: number;
+}
+
+export interface EmbeddingCacheStats {
+  enabled: boolean;
+  /* Lookups answered by either level */
+  hitRate: number;
+  memory: EmbeddingCacheLevelStats & {
+    entries: number;
+    sizeBytes: number;
+    maxSizeBytes: number;
+    evictions: number;
+  };
+  /* Only consulted on memory misses */
+  redis: EmbeddingCacheLevelStats;
+}
+
+/* Identifies the model an embedding was generated with; vectors of different models never mix */
+export interface EmbeddingModelKey {
+  name: string;
+  model: string;
+  dimensions: number;
+}
+
+/* Texts differing only in whitespace or Unicode composition share an embedding */
+export function normalizeEmbeddingText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+function hitRate(hits: number, misses: number): number {
+  return hits + misses === 0 ? 0 : hits / (hits + misses);
+}
+
+/**
+ * Embedding Cache
+ * Two levels keyed by model and normalized text hash: a least recently used map bounded by
+ * memory in this process, backed by Redis shared between replicas. Redis being unavailable
+ * only costs its hits.
+ */
+export class EmbeddingCache {
+  /* Map iteration order is insertion order: the first key is the least recently used */
+  #entries = new Map<string, number[]>();
+  #sizeBytes: number = 0;
+  #memoryHits: number = 0;
+  #memoryMisses: number = 0;
+  #redisHits: number = 0;
+  #redisMisses: number = 0;
+  #evictions: number = 0;
+
+  /* Cached embeddings of the texts, in order; null where neither level has one */
+  async getMany(model: EmbeddingModelKey, texts: string[]): Promise<Array<number[] | null>> {
+    const keys = texts.map((text) => this.#key(model, text));
+    const embeddings = keys.map((key) => this.#getMemory(key));
+
+    const missing = keys.flatMap((key, index) => (embeddings[index] ? [] : [index]));
+    this.#memoryHits += keys.length - missing.length;
+    this.#memoryMisses += missing.length;
+    if (missing.length === 0) {
+      return embeddings;
+    }
+
+    /* Concurrent commands are pipelined by the client */
+    const stored = await Promise.all(
+      missing.map((index) => redisClient.get<number[]>(keys[index]!))
+    );
+    stored.forEach((embedding, i) => {
+      const index = missing[i]!;
+      if (Array.isArray(embedding) && embedding.length === model.dimensions) {
+        this.#redisHits++;
+        embeddings[index] = embedding;
+        this.#setMemory(keys[index]!, embedding);
+      } else {
+        this.#redisMisses++;
+      }
+    });
+
+    return embeddings;
+  }
+
+  /* Cache embeddings generated for the texts, in both levels */
+  async setMany(model: EmbeddingModelKey, texts: string[], embeddings: number[][]): Promise<void> {
+    await Promise.all(
+      texts.map((text, index) => {
+        const key = this.#key(model, text);
+        const embedding = embeddings[index]!;
+        this.#setMemory(key, embedding);
+        return redisClient.set(key, embedding, env.embeddingCache.ttlSeconds);
+      })
+    );
+  }
+
+  getStats(): EmbeddingCacheStats {
+    const hits = this.#memoryHits + this.#redisHits;
+
+    return {
+      enabled: env.embeddingCache.enabled,
+      hitRate: hitRate(hits, this.#memoryHits + this.#memoryMisses - hits),
+      memory: {
+        hits: this.#memoryHits,
+        misses: this.#memoryMisses,
+        hitRate: hitRate(this.#memoryHits, this.#memoryMisses),
+        entries: this.#entries.size,
+        sizeBytes: this.#sizeBytes,
+        maxSizeBytes: env.embeddingCache.maxMemoryBytes,
+        evictions: this.#evictions,
+      },
+      redis: {
+        hits: this.#redisHits,
+        misses: this.#redisMisses,
+        hitRate: hitRate(this.#redisHits, this.#redisMisses),
+      },
+    };
+  }
+
+  #key(model: EmbeddingModelKey, text: string): string {
+    const hash = createHash('sha256').update(normalizeEmbeddingText(text)).digest('hex');
+    return `embedding:${model.name}:${model.model}:${model.dimensions}:${hash}`;
+  }
+
+  #getMemory(key: string): number[] | null {
+    const embedding = this.#entries.get(key);
+    if (!embedding) {
+      return null;
+    }
+
+    /* Move to the most recently used end */
+    this.#entries.delete(key);
+    this.#entries.set(key, embedding);
+    return embedding;
+  }
+
+  #setMemory(key: string, embedding: number[]): void {
+    const previous = this.#entries.get(key);
+    if (previous) {
+      this.#entries.delete(key);
+      this.#sizeBytes -= this.#entrySize(key, previous);
+    }
+
+    const size = this.#entrySize(key, embedding);
+    if (size > env.embeddingCache.maxMemoryBytes) {
+      return;
+    }
+
+    this.#entries.set(key, embedding);
+    this.#sizeBytes += size;
+
+    for (const [oldestKey, oldest] of this.#entries) {
+      if (this.#sizeBytes <= env.embeddingCache.maxMemoryBytes) {
+        break;
+      }
+      this.#entries.delete(oldestKey);
+      this.#sizeBytes -= this.#entrySize(oldestKey, oldest);
+      this.#evictions++;
+    }
+  }
+
+  #entrySize(key: string, embedding: number[]): number {
+    return embedding.length * 8 + key.length * 2 + ENTRY_OVERHEAD_BYTES;
+  }
+}
+
+/* Singleton instance */
+export const embeddingCache = new EmbeddingCache();
@@ -0,0 +1,85 @@
+import type { EmbeddingProviderName } from '../../config/environment.ts';
+import { EmbeddingGenerationError } from '../../errors/DomainErrors.ts';
+import { AppError } from '../../errors/AppError.ts';
+import { handleExternalAPIError } from '../../utils/errorHandler.ts';
+
+/**
+ * Embedding Provider
+ * Turns text into fixed-size vectors stored in `document_chunks.embedding`
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  /* Length of every vector this provider returns */
+  readonly dimensions: number;
+
+  /* Embed a single text */
+  embed(text: string): Promise<number[]>;
+
+  /* Embed several texts, preserving order */
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Shared input validation, error handling and dimension checks
+ * Implementations only provide `embedTexts`
+ */
+export abstract class BaseEmbeddingProvider implements EmbeddingProvider {
+  abstract readonly name: EmbeddingProviderName;
+  readonly model: string;
+  readonly dimensions: number;
+
+  constructor(model: string, dimensions: number) {
+    this.model = model;
+    this.dimensions = dimensions;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    if (!text || text.trim().length === 0) {
+      throw new EmbeddingGenerationError('Text input cannot be empty');
+    }
+
+    const [embedding] = await this.embedBatch([text]);
+    return embedding!;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (!texts || texts.length === 0) {
+      throw new EmbeddingGenerationError('Texts array cannot be empty');
+    }
+
+    /* Validate all texts */
+    const emptyTexts = texts.filter((t) => !t || t.trim().length === 0);
+    if (emptyTexts.length > 0) {
+      throw new EmbeddingGenerationError(`${emptyTexts.length} text(s) in the array are empty`);
+    }
+
+    let embeddings: number[][];
+    try {
+      embeddings = await this.embedTexts(texts);
+    } catch (err) {
+      if (err instanceof AppError) {
+        throw err;
+      }
+      throw handleExternalAPIError(this.name, err, 'embedBatch');
+    }
+
+    if (!Array.isArray(embeddings) || embeddings.length !== texts.length) {
+      throw new EmbeddingGenerationError(
+        `Expected ${texts.length} embeddings, but received ${embeddings?.length || 0}`
+      );
+    }
+
+    embeddings.forEach((embedding, index) => {
+      if (!Array.isArray(embedding) || embedding.length !== this.dimensions) {
+        throw new EmbeddingGenerationError(
+          `Embedding at index ${index} has ${embedding?.length ?? 0} dimensions, expected ${this.dimensions}`
+        );
+      }
+    });
+
+    return embeddings;
+  }
+
+  protected abstract embedTexts(texts: string[]): Promise<number[][]>;
+}
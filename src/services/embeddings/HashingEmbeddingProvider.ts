@@ -0,0 +1,62 @@
+import { BaseEmbeddingProvider } from './EmbeddingProvider.ts';
+
+/**
+ * Deterministic feature-hashing embeddings
+ * Needs no network or model: words and character trigrams are hashed into a signed,
+ * L2-normalized vector. Texts sharing vocabulary end up close to each other, which is
+ * enough for tests and offline development - not a substitute for a real model.
+ */
+export class HashingEmbeddingProvider extends BaseEmbeddingProvider {
+  readonly name = 'hashing' as const;
+
+  constructor(dimensions: number) {
+    super('feature-hashing', dimensions);
+  }
+
+  protected async embedTexts(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.#hashText(text));
+  }
+
+  #hashText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words =
+      text
+        .normalize('NFKC')
+        .toLowerCase()
+        .match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    for (const word of words) {
+      this.#addFeature(vector, `w:${word}`, 1);
+
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.#addFeature(vector, `t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    if (norm === 0) {
+      /* pgvector cannot compute cosine distance to a zero vector */
+      vector[0] = 1;
+      return vector;
+    }
+
+    return vector.map((value) => value / norm);
+  }
+
+  #addFeature(vector: number[], feature: string, weight: number): void {
+    const bucket = fnv1a(feature, 0x811c9dc5) % this.dimensions;
+    const sign = fnv1a(feature, 0x01000193) & 1 ? 1 : -1;
+    vector[bucket]! += sign * weight;
+  }
+}
+
+/* 32-bit FNV-1a hash */
+function fnv1a(input: string, seed: number): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
@@ -0,0 +1,78 @@
+import { InferenceClient } from '@huggingface/inference';
+
+import { BaseEmbeddingProvider } from './EmbeddingProvider.ts';
+import type { HuggingfaceConfig } from '../../config/environment.ts';
+import { EmbeddingGenerationError, HuggingFaceAPIError } from '../../errors/DomainErrors.ts';
+
+/**
+ * Hugging Face Inference embeddings (feature extraction)
+ * e.g. intfloat/multilingual-e5-large -> 1024 dimensions
+ */
+export class HuggingFaceEmbeddingProvider extends BaseEmbeddingProvider {
+  readonly name = 'huggingface' as const;
+  #client: InferenceClient | null = null;
+  #apiKey: string;
+  #provider: HuggingfaceConfig['provider'];
+
+  constructor(
+    apiKey: string,
+    model: string,
+    dimensions: number,
+    provider: HuggingfaceConfig['provider']
+  ) {
+    super(model, dimensions);
+    this.#apiKey = apiKey;
+    this.#provider = provider;
+  }
+
+  protected async embedTexts(texts: string[]): Promise<number[][]> {
+    const response = await this.#getClient().featureExtraction({
+      model: this.model,
+      inputs: texts,
+      ...(this.#provider && { provider: this.#provider }),
+    });
+
+    if (!response || !Array.isArray(response)) {
+      throw new EmbeddingGenerationError('Invalid response format from Hugging Face API');
+    }
+
+    return response.map((item, index) => this.#toVector(item, index));
+  }
+
+  /* The API key is only required once embeddings are actually requested */
+  #getClient(): InferenceClient {
+    if (!this.#apiKey) {
+      throw new HuggingFaceAPIError(
+        'HF_API_KEY environment variable is required. Please configure your Hugging Face API key.'
+      );
+    }
+
+    this.#client ??= new InferenceClient(this.#apiKey);
+    return this.#client;
+  }
+
+  /**
+   * Normalize one item of a feature-extraction response to a flat vector
+   * Models without a pooling layer return one vector per token; those are mean-pooled
+   */
+  #toVector(item: number | number[] | number[][], index: number): number[] {
+    if (!Array.isArray(item) || item.length === 0) {
+      throw new EmbeddingGenerationError(`Invalid embedding format at index ${index}`);
+    }
+
+    if (!Array.isArray(item[0])) {
+      /* Already pooled: [1,2,3] */
+      return item as number[];
+    }
+
+    /* Token embeddings: [[1,2], [3,4]] -> [2,3] */
+    const tokens = item as number[][];
+    const pooled = new Array<number>(tokens[0]!.length).fill(0);
+    for (const token of tokens) {
+      token.forEach((value, i) => {
+        pooled[i]! += value / tokens.length;
+      });
+    }
+    return pooled;
+  }
+}
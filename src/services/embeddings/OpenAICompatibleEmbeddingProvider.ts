@@ -0,0 +1,18 @@
+import { OpenAIEmbeddingProvider } from './OpenAIEmbeddingProvider.ts';
+
+/**
+ * Any server exposing the OpenAI `/v1/embeddings` API
+ * (vLLM, Ollama, llama.cpp server, Text Embeddings Inference, LocalAI...)
+ */
+export class OpenAICompatibleEmbeddingProvider extends OpenAIEmbeddingProvider {
+  override readonly name = 'openai-compatible' as const;
+
+  constructor(baseUrl: string, model: string, dimensions: number, apiKey?: string) {
+    super(apiKey ?? '', model, dimensions, baseUrl);
+  }
+
+  /* Most local servers reject the `dimensions` parameter */
+  protected override sendsDimensions(): boolean {
+    return false;
+  }
+}
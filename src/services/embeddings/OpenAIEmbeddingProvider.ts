@@ -0,0 +1,53 @@
+import OpenAI from 'openai';
+
+import { BaseEmbeddingProvider } from './EmbeddingProvider.ts';
+import { ExternalServiceError } from '../../errors/DomainErrors.ts';
+
+/**
+ * OpenAI embeddings API
+ * text-embedding-3 models are shortened to the configured dimensions server-side
+ */
+export class OpenAIEmbeddingProvider extends BaseEmbeddingProvider {
+  readonly name: 'openai' | 'openai-compatible' = 'openai';
+  #client: OpenAI | null = null;
+  #apiKey: string;
+  #baseUrl: string | undefined;
+
+  constructor(apiKey: string, model: string, dimensions: number, baseUrl?: string) {
+    super(model, dimensions);
+    this.#apiKey = apiKey;
+    this.#baseUrl = baseUrl;
+  }
+
+  protected async embedTexts(texts: string[]): Promise<number[][]> {
+    const response = await this.#getClient().embeddings.create({
+      model: this.model,
+      input: texts,
+      encoding_format: 'float',
+      ...(this.sendsDimensions() && { dimensions: this.dimensions }),
+    });
+
+    /* The API may return items out of order */
+    return [...response.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+
+  /* Whether to ask the server to shorten vectors to `dimensions` */
+  protected sendsDimensions(): boolean {
+    return this.model.startsWith('text-embedding-3');
+  }
+
+  #getClient(): OpenAI {
+    if (!this.#apiKey && !this.#baseUrl) {
+      throw new ExternalServiceError(
+        this.name,
+        'OPENAI_API_KEY environment variable is required. Please configure your OpenAI API key.'
+      );
+    }
+
+    this.#client ??= new OpenAI({
+      apiKey: this.#apiKey || 'not-needed',
+      ...(this.#baseUrl && { baseURL: this.#baseUrl }),
+    });
+    return this.#client;
+  }
+}
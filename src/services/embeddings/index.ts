@@ -0,0 +1,132 @@
+import { AppDataSource } from '../../config/data-source.ts';
+import { env } from '../../config/environment.ts';
+import type { EmbeddingConfig } from '../../config/environment.ts';
+import { ConfigurationError, EmbeddingDimensionMismatchError } from '../../errors/DomainErrors.ts';
+import { logger } from '../../utils/logger.ts';
+
+import type { EmbeddingProvider } from './EmbeddingProvider.ts';
+import { HuggingFaceEmbeddingProvider } from './HuggingFaceEmbeddingProvider.ts';
+import { OpenAIEmbeddingProvider } from './OpenAIEmbeddingProvider.ts';
+import { OpenAICompatibleEmbeddingProvider } from './OpenAICompatibleEmbeddingProvider.ts';
+import { HashingEmbeddingProvider } from './HashingEmbeddingProvider.ts';
+import { CachedEmbeddingProvider } from './CachedEmbeddingProvider.ts';
+
+export type { EmbeddingProvider } from './EmbeddingProvider.ts';
+export { BaseEmbeddingProvider } from './EmbeddingProvider.ts';
+export { HuggingFaceEmbeddingProvider } from './HuggingFaceEmbeddingProvider.ts';
+export { OpenAIEmbeddingProvider } from './OpenAIEmbeddingProvider.ts';
+export { OpenAICompatibleEmbeddingProvider } from './OpenAICompatibleEmbeddingProvider.ts';
+export { HashingEmbeddingProvider } from './HashingEmbeddingProvider.ts';
+export { CachedEmbeddingProvider } from './CachedEmbeddingProvider.ts';
+export { embeddingCache } from './EmbeddingCache.ts';
+export type { EmbeddingCacheStats } from './EmbeddingCache.ts';
+
+/**
+ * Build the embedding provider selected by EMBEDDING_PROVIDER
+ * Wrapped in the embedding cache unless it is disabled, or `cached` is false to always reach
+ * the model
+ */
+export function createEmbeddingProvider(
+  config: EmbeddingConfig,
+  { cached = env.embeddingCache.enabled }: { cached?: boolean } = {}
+): EmbeddingProvider {
+  const provider = buildEmbeddingProvider(config);
+  return cached ? new CachedEmbeddingProvider(provider) : provider;
+}
+
+function buildEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'huggingface':
+      return new HuggingFaceEmbeddingProvider(
+        config.apiKey || env.huggingface.apiKey,
+        config.model || env.huggingface.model || '',
+        config.dimensions,
+        env.huggingface.provider
+      );
+
+    case 'openai':
+      return new OpenAIEmbeddingProvider(
+        config.apiKey || env.openai.apiKey,
+        config.model || env.openai.embeddingModel || 'text-embedding-3-large',
+        config.dimensions,
+        config.baseUrl || env.openai.baseUrl
+      );
+
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new ConfigurationError(
+          'EMBEDDING_BASE_URL is required when EMBEDDING_PROVIDER is "openai-compatible"',
+          { provider: config.provider }
+        );
+      }
+      if (!config.model) {
+        throw new ConfigurationError(
+          'EMBEDDING_MODEL is required when EMBEDDING_PROVIDER is "openai-compatible"',
+          { provider: config.provider }
+        );
+      }
+      return new OpenAICompatibleEmbeddingProvider(
+        config.baseUrl,
+        config.model,
+        config.dimensions,
+        config.apiKey
+      );
+
+    case 'hashing':
+      return new HashingEmbeddingProvider(config.dimensions);
+
+    default:
+      throw new ConfigurationError(
+        `Unknown embedding provider "${String(config.provider)}". Expected one of: huggingface, openai, openai-compatible, hashing`,
+        { provider: config.provider }
+      );
+  }
+}
+
+/**
+ * Make sure the configured provider produces vectors that fit the `document_chunks.embedding`
+ * column. Called at startup so a misconfiguration fails fast instead of on the first insert.
+ */
+export async function verifyEmbeddingDimensions(
+  provider: EmbeddingProvider = embeddingProvider
+): Promise<void> {
+  /* For pgvector columns atttypmod holds the declared dimensions (-1 when unconstrained) */
+  const rows: Array<{ dimensions: number }> = await AppDataSource.query(
+    `SELECT a.atttypmod AS dimensions
+       FROM pg_attribute a
+      WHERE a.attrelid = 'document_chunks'::regclass
+        AND a.attname = 'embedding'
+        AND NOT a.attisdropped`
+  );
+
+  const columnDimensions = rows[0]?.dimensions;
+  if (columnDimensions === undefined || columnDimensions < 0) {
+    logger.warn('Could not determine document_chunks.embedding dimensions, skipping check');
+    return;
+  }
+
+  if (columnDimensions !== provider.dimensions) {
+    throw new EmbeddingDimensionMismatchError(
+      provider.name,
+      provider.model,
+      provider.dimensions,
+      columnDimensions
+    );
+  }
+
+  logger.info(
+    `Embedding provider: ${provider.name} (${provider.model}, ${provider.dimensions} dimensions)`
+  );
+}
+
+/**
+ * Provider of the active embedding model
+ * Starts as the configured provider; replaced with useEmbeddingProvider when the recorded active
+ * model differs or a model migration cuts over
+ */
+export let embeddingProvider: EmbeddingProvider = createEmbeddingProvider(env.embedding);
+
+/* Generate query and chunk embeddings with another provider from now on */
+export function useEmbeddingProvider(provider: EmbeddingProvider): void {
+  embeddingProvider = provider;
+}
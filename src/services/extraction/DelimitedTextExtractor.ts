@@ -0,0 +1,54 @@
+import { parse } from 'csv-parse/sync';
+
+import type { ExtractedText, TextExtractor } from './TextExtractor.ts';
+import { logger } from '../../utils/logger.ts';
+
+/**
+ * Extract row-aware text from CSV/TSV
+ * Each row becomes one line of `Header: value` pairs, so a chunk boundary never separates
+ * a value from its column name and every chunk is readable on its own
+ */
+export class DelimitedTextExtractor implements TextExtractor {
+  readonly mimeTypes: string[];
+
+  readonly #delimiter: string;
+
+  constructor(delimiter: ',' | '\t') {
+    this.#delimiter = delimiter;
+    this.mimeTypes = delimiter === '\t' ? ['text/tab-separated-values'] : ['text/csv'];
+  }
+
+  async extract(buffer: Buffer): Promise<ExtractedText> {
+    let rows: string[][];
+    try {
+      rows = parse(buffer, {
+        delimiter: this.#delimiter,
+        bom: true,
+        relax_column_count: true,
+        relax_quotes: true,
+        skip_empty_lines: true,
+        trim: true,
+      });
+    } catch (err) {
+      logger.error('Error parsing delimited text: ', err);
+      throw new Error(`Failed to parse ${this.#delimiter === '\t' ? 'TSV' : 'CSV'} file!`);
+    }
+
+    const [header, ...records] = rows;
+    if (!header) {
+      return { text: '', structure: {} };
+    }
+
+    const columns = header.map((name, index) => name || `Column ${index + 1}`);
+    const lines = records.map((record) =>
+      record
+        .map((value, index) =>
+          value ? `${columns[index] ?? `Column ${index + 1}`}: ${value}` : ''
+        )
+        .filter((pair) => pair.length > 0)
+        .join('; ')
+    );
+
+    return { text: lines.filter((line) => line.length > 0).join('\n'), structure: {} };
+  }
+}
@@ -0,0 +1,33 @@
+import mammoth from 'mammoth';
+
+import type { ExtractedText, TextExtractor } from './TextExtractor.ts';
+import { HtmlExtractor } from './HtmlExtractor.ts';
+import { logger } from '../../utils/logger.ts';
+
+/**
+ * Extract text from Word documents
+ * mammoth maps Word styles to semantic HTML, so headings survive as structure
+ */
+export class DocxExtractor implements TextExtractor {
+  readonly mimeTypes = ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+
+  readonly #html: HtmlExtractor;
+
+  constructor(html: HtmlExtractor) {
+    this.#html = html;
+  }
+
+  async extract(buffer: Buffer): Promise<ExtractedText> {
+    try {
+      const result = await mammoth.convertToHtml({ buffer });
+      for (const message of result.messages) {
+        logger.debug(`DOCX conversion ${message.type}: ${message.message}`);
+      }
+
+      return this.#html.extractFromHtml(result.value, { stripBoilerplate: false });
+    } catch (err) {
+      logger.error('Error parsing DOCX: ', err);
+      throw new Error('Failed to parse DOCX file!');
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import JSZip from 'jszip';
+import { parse } from 'node-html-parser';
+import { posix } from 'path';
+
+import { env } from '../../config/environment.ts';
+import type { ExtractedText, TextExtractor } from './TextExtractor.ts';
+import type { HeadingSpan } from '../chunking/index.ts';
+import { HtmlExtractor } from './HtmlExtractor.ts';
+import { readZipEntry } from './readZipEntry.ts';
+import { logger } from '../../utils/logger.ts';
+
+const CHAPTER_SEPARATOR = '\n\n';
+const CHAPTER_MEDIA_TYPES = ['application/xhtml+xml', 'text/html'];
+
+/* Bytes one book may still inflate; each entry and all of them together stay within a file */
+interface InflateBudget {
+  remaining: number;
+}
+
+/**
+ * Extract text from EPUB books
+ * Chapters are read in spine (reading) order; headings keep their offsets in the joined text
+ */
+export class EpubExtractor implements TextExtractor {
+  readonly mimeTypes = ['application/epub+zip'];
+
+  readonly #html: HtmlExtractor;
+
+  constructor(html: HtmlExtractor) {
+    this.#html = html;
+  }
+
+  async extract(buffer: Buffer): Promise<ExtractedText> {
+    try {
+      const zip = await JSZip.loadAsync(buffer);
+      const budget: InflateBudget = { remaining: env.upload.maxFileSize };
+
+      let text = '';
+      const headings: HeadingSpan[] = [];
+      for (const path of await this.#readSpine(zip, budget)) {
+        const html = await this.#read(zip, path, budget);
+        if (html === null) {
+          logger.warn(`EPUB spine item not found in archive: ${path}`);
+          continue;
+        }
+
+        const chapter = this.#html.extractFromHtml(html, { stripBoilerplate: false });
+        if (chapter.text.length === 0) {
+          continue;
+        }
+
+        if (text.length > 0) {
+          text += CHAPTER_SEPARATOR;
+        }
+        for (const heading of chapter.structure.headings ?? []) {
+          headings.push({ ...heading, offset: heading.offset + text.length });
+        }
+        text += chapter.text;
+      }
+
+      return { text, structure: { headings } };
+    } catch (err) {
+      logger.error('Error parsing EPUB: ', err);
+      throw new Error('Failed to parse EPUB file!');
+    }
+  }
+
+  /* Resolve the archive paths of the chapters, in reading order */
+  async #readSpine(zip: JSZip, budget: InflateBudget): Promise<string[]> {
+    const container = await this.#read(zip, 'META-INF/container.xml', budget);
+    const packagePath = container
+      ? parse(container).querySelector('rootfile')?.getAttribute('full-path')
+      : undefined;
+    if (!packagePath) {
+      throw new Error('EPUB container does not reference a package document');
+    }
+
+    const packageXml = await this.#read(zip, packagePath, budget);
+    if (!packageXml) {
+      throw new Error(`EPUB package document not found: ${packagePath}`);
+    }
+
+    const packageDocument = parse(packageXml);
+    const baseDir = posix.dirname(packagePath);
+    const manifest = new Map<string, string>();
+    for (const item of packageDocument.querySelectorAll('manifest item')) {
+      const id = item.getAttribute('id');
+      const href = item.getAttribute('href');
+      const mediaType = item.getAttribute('media-type') ?? '';
+      if (id && href && CHAPTER_MEDIA_TYPES.includes(mediaType)) {
+        manifest.set(id, posix.normalize(posix.join(baseDir, decodeURIComponent(href))));
+      }
+    }
+
+    const spine = packageDocument
+      .querySelectorAll('spine itemref')
+      .filter((itemref) => itemref.getAttribute('linear') !== 'no')
+      .map((itemref) => manifest.get(itemref.getAttribute('idref') ?? ''))
+      .filter((path): path is string => path !== undefined);
+
+    /* Listing a chapter over and over would multiply its text */
+    const repeated = spine.find((path, index) => spine.indexOf(path) !== index);
+    if (repeated) {
+      throw new Error(`EPUB spine lists ${repeated} more than once`);
+    }
+    return spine;
+  }
+
+  /* Inflate an entry as text within the budget; null when the archive has no such entry */
+  async #read(zip: JSZip, path: string, budget: InflateBudget): Promise<string | null> {
+    const file = zip.file(path);
+    if (!file) {
+      return null;
+    }
+
+    const content = await readZipEntry(file, budget.remaining);
+    if (!content) {
+      const maxSizeMB = (env.upload.maxFileSize / 1024 / 1024).toFixed(2);
+      throw new Error(`EPUB expands to more than ${maxSizeMB} MB`);
+    }
+    budget.remaining -= content.length;
+    return content.toString('utf-8');
+  }
+}
@@ -0,0 +1,201 @@
+import { parse, HTMLElement, NodeType } from 'node-html-parser';
+import type { Node } from 'node-html-parser';
+
+import type { ExtractedText, TextExtractor } from './TextExtractor.ts';
+import type { HeadingSpan } from '../chunking/index.ts';
+import { logger } from '../../utils/logger.ts';
+
+/* Elements that never carry document content */
+const NON_CONTENT_TAGS = ['script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas'];
+
+/* Page chrome removed when boilerplate stripping is on */
+const BOILERPLATE_TAGS = ['nav', 'header', 'footer', 'aside', 'form', 'button', 'dialog'];
+const BOILERPLATE_ROLES = ['navigation', 'banner', 'contentinfo', 'complementary', 'search'];
+const BOILERPLATE_NAME =
+  /(^|[-_\s])(nav|navbar|menu|sidebar|footer|breadcrumbs?|cookies?|consent|banner|advert|ads?|share|social|related|comments?)($|[-_\s])/i;
+
+/* Elements that start a new paragraph in the extracted text */
+const BLOCK_TAGS = new Set([
+  'ADDRESS',
+  'ARTICLE',
+  'BLOCKQUOTE',
+  'BODY',
+  'CAPTION',
+  'DD',
+  'DIV',
+  'DL',
+  'DT',
+  'FIGCAPTION',
+  'FIGURE',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'H5',
+  'H6',
+  'HR',
+  'LI',
+  'MAIN',
+  'OL',
+  'P',
+  'PRE',
+  'SECTION',
+  'TABLE',
+  'TBODY',
+  'TFOOT',
+  'THEAD',
+  'TR',
+  'UL',
+]);
+
+const HEADING_TAG = /^H([1-6])$/;
+
+export interface HtmlExtractionOptions {
+  /* Drop navigation, headers, footers, sidebars and similar page chrome */
+  stripBoilerplate: boolean;
+}
+
+/**
+ * Extract readable text from HTML
+ * Block elements become paragraphs separated by blank lines; h1-h6 are recorded as headings
+ */
+export class HtmlExtractor implements TextExtractor {
+  readonly mimeTypes = ['text/html', 'application/xhtml+xml'];
+
+  async extract(buffer: Buffer): Promise<ExtractedText> {
+    try {
+      return this.extractFromHtml(buffer.toString('utf-8'), { stripBoilerplate: true });
+    } catch (err) {
+      logger.error('Error parsing HTML: ', err);
+      throw new Error('Failed to parse HTML file!');
+    }
+  }
+
+  /* Shared with the DOCX and EPUB extractors, which produce HTML themselves */
+  extractFromHtml(html: string, options: HtmlExtractionOptions): ExtractedText {
+    const root = parse(html, { comment: false });
+
+    root.querySelectorAll(NON_CONTENT_TAGS.join(',')).forEach((element) => element.remove());
+    if (options.stripBoilerplate) {
+      this.#stripBoilerplate(root);
+    }
+
+    const content =
+      root.querySelector('main') ??
+      root.querySelector('[role="main"]') ??
+      root.querySelector('article') ??
+      root.querySelector('body') ??
+      root;
+
+    const writer = new BlockWriter();
+    writer.walk(content);
+    return writer.finish();
+  }
+
+  #stripBoilerplate(root: HTMLElement): void {
+    root.querySelectorAll(BOILERPLATE_TAGS.join(',')).forEach((element) => {
+      /* A page-level header/footer is chrome, but an <article>'s own header is content */
+      if (
+        (element.tagName === 'HEADER' || element.tagName === 'FOOTER') &&
+        element.closest('article')
+      ) {
+        return;
+      }
+      element.remove();
+    });
+
+    root.querySelectorAll('[role],[class],[id]').forEach((element) => {
+      const role = element.getAttribute('role');
+      if (role && BOILERPLATE_ROLES.includes(role)) {
+        element.remove();
+        return;
+      }
+      if (
+        element.tagName === 'BODY' ||
+        element.tagName === 'MAIN' ||
+        element.tagName === 'ARTICLE'
+      ) {
+        return;
+      }
+      if (element.classNames.split(/\s+/).some((name) => BOILERPLATE_NAME.test(name))) {
+        element.remove();
+        return;
+      }
+      if (element.id && BOILERPLATE_NAME.test(element.id)) {
+        element.remove();
+      }
+    });
+  }
+}
+
+/* Accumulates inline text and flushes it as paragraphs at block boundaries */
+class BlockWriter {
+  #text = '';
+  #inline = '';
+  #headings: HeadingSpan[] = [];
+
+  walk(node: Node, preformatted: boolean = false): void {
+    if (node.nodeType === NodeType.TEXT_NODE) {
+      this.#inline += preformatted ? node.text : node.text.replace(/\s+/g, ' ');
+      return;
+    }
+    if (!(node instanceof HTMLElement)) {
+      return;
+    }
+
+    const tag = node.tagName ?? '';
+    if (tag === 'BR') {
+      this.#inline += '\n';
+      return;
+    }
+
+    const heading = HEADING_TAG.exec(tag);
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) {
+      this.#flush();
+    }
+
+    for (const child of node.childNodes) {
+      this.walk(child, preformatted || tag === 'PRE');
+    }
+    if (tag === 'TD' || tag === 'TH') {
+      /* Keep table rows on one line */
+      this.#inline += ' ';
+      return;
+    }
+
+    if (isBlock) {
+      this.#flush(heading ? Number(heading[1]) : undefined);
+    }
+  }
+
+  finish(): ExtractedText {
+    this.#flush();
+    return { text: this.#text, structure: { headings: this.#headings } };
+  }
+
+  #flush(headingLevel?: number): void {
+    const block = this.#inline
+      .split('\n')
+      .map((line) => line.trim())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+    this.#inline = '';
+    if (block.length === 0) {
+      return;
+    }
+
+    if (this.#text.length > 0) {
+      this.#text += '\n\n';
+    }
+    if (headingLevel !== undefined) {
+      this.#headings.push({
+        level: headingLevel,
+        title: block.replace(/\s+/g, ' '),
+        offset: this.#text.length,
+      });
+    }
+    this.#text += block;
+  }
+}
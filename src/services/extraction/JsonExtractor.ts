@@ -0,0 +1,51 @@
+import type { ExtractedText, TextExtractor } from './TextExtractor.ts';
+import { logger } from '../../utils/logger.ts';
+
+/**
+ * Extract text from JSON
+ * Leaves are flattened to `path.to.field: value` lines; the elements of a top-level array
+ * are separated by blank lines so each record can become its own chunk
+ */
+export class JsonExtractor implements TextExtractor {
+  readonly mimeTypes = ['application/json'];
+
+  async extract(buffer: Buffer): Promise<ExtractedText> {
+    let value: unknown;
+    try {
+      value = JSON.parse(buffer.toString('utf-8').replace(/^\uFEFF/, ''));
+    } catch (err) {
+      logger.error('Error parsing JSON: ', err);
+      throw new Error('Failed to parse JSON file!');
+    }
+
+    const records = Array.isArray(value) ? value : [value];
+    const text = records
+      .map((record) => {
+        const lines: string[] = [];
+        this.#flatten(record, '', lines);
+        return lines.join('\n');
+      })
+      .filter((block) => block.length > 0)
+      .join('\n\n');
+
+    return { text, structure: {} };
+  }
+
+  #flatten(value: unknown, path: string, lines: string[]): void {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => this.#flatten(item, `${path}[${index}]`, lines));
+      return;
+    }
+    if (value !== null && typeof value === 'object') {
+      for (const [key, item] of Object.entries(value)) {
+        this.#flatten(item, path ? `${path}.${key}` : key, lines);
+      }
+      return;
+    }
+    if (value === null || value === '') {
+      return;
+    }
+
+    lines.push(path ? `${path}: ${String(value)}` : String(value));
+  }
+}
@@ -0,0 +1,48 @@
+import { marked } from 'marked';
+
+import type { ExtractedText, TextExtractor } from './TextExtractor.ts';
+import type { HeadingSpan } from '../chunking/index.ts';
+import { logger } from '../../utils/logger.ts';
+
+/* Extract text from Markdown (convert to plain text), keeping track of headings */
+export class MarkdownExtractor implements TextExtractor {
+  readonly mimeTypes = ['text/markdown', 'text/x-markdown'];
+
+  async extract(buffer: Buffer): Promise<ExtractedText> {
+    try {
+      const markdown = buffer.toString('utf-8');
+
+      let text = '';
+      const headings: HeadingSpan[] = [];
+      for (const token of marked.lexer(markdown)) {
+        /* Convert each block to HTML then extract text */
+        const html =
+          token.type === 'heading'
+            ? await marked.parseInline(token.text)
+            : await marked.parser([token]);
+
+        /* Simple HTML tag removal */
+        const blockText = html
+          .replace(/<[^>]*>/g, '')
+          .replace(/\n\s*\n/g, '\n')
+          .trim();
+        if (blockText.length === 0) {
+          continue;
+        }
+
+        if (text.length > 0) {
+          text += '\n\n';
+        }
+        if (token.type === 'heading') {
+          headings.push({ level: token.depth, title: blockText, offset: text.length });
+        }
+        text += blockText;
+      }
+
+      return { text, structure: { headings } };
+    } catch (err) {
+      logger.error('Error parsing Markdown: ', err);
+      throw new Error('Failed to parse Markdown file!');
+    }
+  }
+}
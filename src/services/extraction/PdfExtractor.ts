@@ -0,0 +1,38 @@
+import { PDFParse } from 'pdf-parse';
+
+import type { ExtractedText, TextExtractor } from './TextExtractor.ts';
+import type { PageSpan } from '../chunking/index.ts';
+import { logger } from '../../utils/logger.ts';
+
+const PAGE_SEPARATOR = '\n\n';
+
+/* Extract text from PDF, keeping track of where each page starts */
+export class PdfExtractor implements TextExtractor {
+  readonly mimeTypes = ['application/pdf'];
+
+  async extract(buffer: Buffer): Promise<ExtractedText> {
+    try {
+      const parser = new PDFParse({ data: buffer });
+      const parsedText = await parser.getText();
+
+      let text = '';
+      const pages: PageSpan[] = [];
+      for (const page of parsedText.pages) {
+        const pageText = page.text.trim();
+        if (pageText.length === 0) {
+          continue;
+        }
+        if (text.length > 0) {
+          text += PAGE_SEPARATOR;
+        }
+        pages.push({ page: page.num, start: text.length, end: text.length + pageText.length });
+        text += pageText;
+      }
+
+      return { text, structure: { pages } };
+    } catch (err) {
+      logger.error('Error parsing PDF!', err);
+      throw new Error('Failed to parse PDF file!');
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import type { ExtractedText, TextExtractor } from './TextExtractor.ts';
+
+/* Extract text from plain text file */
+export class PlainTextExtractor implements TextExtractor {
+  readonly mimeTypes = ['text/plain'];
+
+  async extract(buffer: Buffer): Promise<ExtractedText> {
+    return { text: buffer.toString('utf-8').replace(/^\uFEFF/, ''), structure: {} };
+  }
+}
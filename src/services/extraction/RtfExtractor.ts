@@ -0,0 +1,203 @@
+import type { ExtractedText, TextExtractor } from './TextExtractor.ts';
+import { logger } from '../../utils/logger.ts';
+
+/* Destinations holding metadata, tables or binary data rather than document text */
+const SKIPPED_DESTINATIONS = new Set([
+  'author',
+  'buptim',
+  'colorschememapping',
+  'colortbl',
+  'comment',
+  'creatim',
+  'datastore',
+  'doccomm',
+  'falt',
+  'fldinst',
+  'fonttbl',
+  'footer',
+  'footerf',
+  'footerl',
+  'footerr',
+  'generator',
+  'header',
+  'headerf',
+  'headerl',
+  'headerr',
+  'info',
+  'keywords',
+  'latentstyles',
+  'listoverridetable',
+  'listtable',
+  'object',
+  'operator',
+  'pict',
+  'printim',
+  'revtim',
+  'rsidtbl',
+  'stylesheet',
+  'subject',
+  'themedata',
+  'title',
+  'xmlnstbl',
+]);
+
+/* Control words that stand for a piece of text */
+const CONTROL_WORD_TEXT: Record<string, string> = {
+  par: '\n\n',
+  sect: '\n\n',
+  page: '\n\n',
+  line: '\n',
+  row: '\n',
+  cell: ' ',
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+};
+
+const CONTROL_WORD = /^\\([a-z]{1,32})(-?\d{1,10})? ?/i;
+
+interface GroupState {
+  skip: boolean;
+  /* Number of fallback characters following a \u escape */
+  unicodeSkip: number;
+}
+
+/**
+ * Extract text from RTF
+ * A small control-word scanner: keeps the text, drops formatting and skipped destinations
+ */
+export class RtfExtractor implements TextExtractor {
+  readonly mimeTypes = ['application/rtf', 'text/rtf'];
+
+  readonly #codePage = new TextDecoder('windows-1252');
+
+  async extract(buffer: Buffer): Promise<ExtractedText> {
+    const rtf = buffer.toString('latin1');
+    if (!rtf.startsWith('{\\rtf')) {
+      logger.error('Error parsing RTF: missing {\\rtf header');
+      throw new Error('Failed to parse RTF file!');
+    }
+
+    const text = this.#scan(rtf)
+      .split('\n')
+      .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+
+    return { text, structure: {} };
+  }
+
+  #scan(rtf: string): string {
+    const stack: GroupState[] = [];
+    let state: GroupState = { skip: false, unicodeSkip: 1 };
+    let pendingSkip = 0;
+    let output = '';
+
+    const emit = (value: string): void => {
+      if (pendingSkip > 0) {
+        pendingSkip--;
+        return;
+      }
+      if (!state.skip) {
+        output += value;
+      }
+    };
+
+    let i = 0;
+    while (i < rtf.length) {
+      const char = rtf[i]!;
+
+      if (char === '{') {
+        stack.push(state);
+        state = { ...state };
+        pendingSkip = 0;
+        i++;
+        continue;
+      }
+      if (char === '}') {
+        state = stack.pop() ?? state;
+        pendingSkip = 0;
+        i++;
+        continue;
+      }
+      if (char === '\r' || char === '\n') {
+        i++;
+        continue;
+      }
+      if (char !== '\\') {
+        emit(char);
+        i++;
+        continue;
+      }
+
+      const next = rtf[i + 1];
+      if (next === '\\' || next === '{' || next === '}') {
+        emit(next);
+        i += 2;
+        continue;
+      }
+      if (next === "'") {
+        const code = parseInt(rtf.slice(i + 2, i + 4), 16);
+        if (!Number.isNaN(code)) {
+          emit(this.#codePage.decode(Uint8Array.of(code)));
+        }
+        i += 4;
+        continue;
+      }
+      if (next === '*') {
+        /* Optional destination the reader doesn't understand */
+        state.skip = true;
+        i += 2;
+        continue;
+      }
+      if (next === '~') {
+        emit(' ');
+        i += 2;
+        continue;
+      }
+      if (next === '_') {
+        emit('‑');
+        i += 2;
+        continue;
+      }
+      if (next === '\r' || next === '\n') {
+        emit('\n\n');
+        i += 2;
+        continue;
+      }
+
+      const match = CONTROL_WORD.exec(rtf.slice(i, i + 48));
+      if (!match) {
+        /* Other control symbols (\-, \| ...) carry no text */
+        i += 2;
+        continue;
+      }
+      i += match[0].length;
+
+      const word = match[1]!.toLowerCase();
+      const parameter = match[2] !== undefined ? Number(match[2]) : undefined;
+
+      if (word === 'bin' && parameter !== undefined) {
+        /* Raw binary data follows */
+        i += parameter;
+      } else if (SKIPPED_DESTINATIONS.has(word)) {
+        state.skip = true;
+      } else if (word === 'uc' && parameter !== undefined) {
+        state.unicodeSkip = parameter;
+      } else if (word === 'u' && parameter !== undefined) {
+        emit(String.fromCharCode(parameter < 0 ? parameter + 65536 : parameter));
+        pendingSkip = state.unicodeSkip;
+      } else if (CONTROL_WORD_TEXT[word] !== undefined) {
+        emit(CONTROL_WORD_TEXT[word]);
+      }
+    }
+
+    return output;
+  }
+}
@@ -0,0 +1,18 @@
+import type { DocumentStructure } from '../chunking/index.ts';
+
+export interface ExtractedText {
+  text: string;
+  /* Pages and headings, for formats that have them */
+  structure: DocumentStructure;
+}
+
+/**
+ * Text Extractor
+ * Turns one family of file formats into plain text for chunking
+ */
+export interface TextExtractor {
+  /* MIME types handled, the first one being canonical */
+  readonly mimeTypes: string[];
+
+  extract(buffer: Buffer): Promise<ExtractedText>;
+}
@@ -0,0 +1,129 @@
+import JSZip from 'jszip';
+import { extname } from 'path';
+
+import { readZipEntry } from './readZipEntry.ts';
+
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const PDF_SIGNATURE = Buffer.from('%PDF-');
+const RTF_SIGNATURE = Buffer.from('{\\rtf');
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+const GZIP_SIGNATURE = Buffer.from([0x1f, 0x8b]);
+const TAR_MAGIC = Buffer.from('ustar');
+const TAR_MAGIC_OFFSET = 257;
+
+/* Bytes inspected when deciding whether a file is text */
+const SNIFF_LENGTH = 8192;
+
+/* The EPUB `mimetype` entry only holds its media type; anything longer is not one */
+const EPUB_MIMETYPE_MAX_LENGTH = 64;
+
+export const OCTET_STREAM = 'application/octet-stream';
+
+/* Archives recognised by detection; they are expanded rather than extracted */
+export const ARCHIVE_MIME_TYPES = ['application/zip', 'application/gzip', 'application/x-tar'];
+
+/* Text formats that can only be told apart by name or declared type */
+const TEXT_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.csv': 'text/csv',
+  '.tsv': 'text/tab-separated-values',
+  '.tab': 'text/tab-separated-values',
+  '.txt': 'text/plain',
+};
+const DECLARABLE_TEXT_TYPES = new Set([
+  'text/markdown',
+  'text/x-markdown',
+  'text/csv',
+  'text/tab-separated-values',
+  'text/plain',
+]);
+
+/**
+ * Detect the MIME type of an upload from its content
+ * Binary formats are identified by their magic bytes; the file name and the client-supplied
+ * type are only consulted to tell plain-text formats (Markdown, CSV, TSV) apart.
+ * Returns one of ARCHIVE_MIME_TYPES for archives and `application/octet-stream` for
+ * content no extractor can read.
+ */
+export async function detectMimeType(
+  buffer: Buffer,
+  fileName: string,
+  declaredMimeType?: string
+): Promise<string> {
+  if (startsWith(buffer, PDF_SIGNATURE)) {
+    return 'application/pdf';
+  }
+  if (startsWith(buffer, ZIP_SIGNATURE)) {
+    return detectZipContainer(buffer);
+  }
+  if (startsWith(buffer, RTF_SIGNATURE)) {
+    return 'application/rtf';
+  }
+  if (startsWith(buffer, GZIP_SIGNATURE)) {
+    return 'application/gzip';
+  }
+  if (buffer.subarray(TAR_MAGIC_OFFSET, TAR_MAGIC_OFFSET + TAR_MAGIC.length).equals(TAR_MAGIC)) {
+    return 'application/x-tar';
+  }
+
+  const head = buffer.subarray(0, SNIFF_LENGTH);
+  if (head.includes(0)) {
+    return OCTET_STREAM;
+  }
+
+  const text = (startsWith(buffer, UTF8_BOM) ? head.subarray(UTF8_BOM.length) : head)
+    .toString('utf-8')
+    .trimStart();
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<(!doctype\s+html|html[\s>])/i.test(text)) {
+    return 'text/html';
+  }
+  if ((text.startsWith('{') || text.startsWith('[')) && isJson(buffer)) {
+    return 'application/json';
+  }
+
+  const byExtension = TEXT_TYPES_BY_EXTENSION[extname(fileName).toLowerCase()];
+  if (byExtension) {
+    return byExtension;
+  }
+  if (declaredMimeType && DECLARABLE_TEXT_TYPES.has(declaredMimeType)) {
+    return declaredMimeType === 'text/x-markdown' ? 'text/markdown' : declaredMimeType;
+  }
+  return 'text/plain';
+}
+
+/* Tell EPUB and DOCX apart from plain zip archives */
+async function detectZipContainer(buffer: Buffer): Promise<string> {
+  try {
+    const zip = await JSZip.loadAsync(buffer);
+
+    const mimetypeFile = zip.file('mimetype');
+    const epubMimeType = mimetypeFile
+      ? await readZipEntry(mimetypeFile, EPUB_MIMETYPE_MAX_LENGTH)
+      : null;
+    if (epubMimeType?.toString('utf-8').trim() === 'application/epub+zip') {
+      return 'application/epub+zip';
+    }
+    if (zip.file('word/document.xml')) {
+      return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    }
+    return 'application/zip';
+  } catch {
+    /* Corrupt archive */
+  }
+
+  return OCTET_STREAM;
+}
+
+function startsWith(buffer: Buffer, signature: Buffer): boolean {
+  return buffer.subarray(0, signature.length).equals(signature);
+}
+
+function isJson(buffer: Buffer): boolean {
+  try {
+    JSON.parse(buffer.toString('utf-8').replace(/^\uFEFF/, ''));
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,38 @@
+import type { TextExtractor } from './TextExtractor.ts';
+import { PdfExtractor } from './PdfExtractor.ts';
+import { MarkdownExtractor } from './MarkdownExtractor.ts';
+import { PlainTextExtractor } from './PlainTextExtractor.ts';
+import { HtmlExtractor } from './HtmlExtractor.ts';
+import { DocxExtractor } from './DocxExtractor.ts';
+import { DelimitedTextExtractor } from './DelimitedTextExtractor.ts';
+import { JsonExtractor } from './JsonExtractor.ts';
+import { EpubExtractor } from './EpubExtractor.ts';
+import { RtfExtractor } from './RtfExtractor.ts';
+
+export type { ExtractedText, TextExtractor } from './TextExtractor.ts';
+export { detectMimeType, ARCHIVE_MIME_TYPES, OCTET_STREAM } from './detectMimeType.ts';
+
+const htmlExtractor = new HtmlExtractor();
+
+const extractors: TextExtractor[] = [
+  new PdfExtractor(),
+  new MarkdownExtractor(),
+  new PlainTextExtractor(),
+  htmlExtractor,
+  new DocxExtractor(htmlExtractor),
+  new DelimitedTextExtractor(','),
+  new DelimitedTextExtractor('\t'),
+  new JsonExtractor(),
+  new EpubExtractor(htmlExtractor),
+  new RtfExtractor(),
+];
+
+/* Registered extractors, keyed by every MIME type they handle */
+export const extractorRegistry = new Map<string, TextExtractor>(
+  extractors.flatMap((extractor) =>
+    extractor.mimeTypes.map((mimeType) => [mimeType, extractor] as const)
+  )
+);
+
+/* Canonical MIME type of every supported format */
+export const supportedMimeTypes = extractors.map((extractor) => extractor.mimeTypes[0]!);
@@ -0,0 +1,25 @@
+import type JSZip from 'jszip';
+import { Readable } from 'stream';
+
+/**
+ * Inflate a zip entry, giving up as soon as it exceeds `maxBytes`
+ * Null for larger entries: a few kilobytes of archive can inflate to gigabytes.
+ */
+export async function readZipEntry(
+  file: JSZip.JSZipObject,
+  maxBytes: number
+): Promise<Buffer | null> {
+  let size = 0;
+  const parts: Buffer[] = [];
+  /* jszip hands out a legacy stream; wrap it to read it with for-await */
+  const stream = new Readable().wrap(file.nodeStream('nodebuffer'));
+  for await (const part of stream as AsyncIterable<Buffer>) {
+    size += part.length;
+    if (size > maxBytes) {
+      return null;
+    }
+    parts.push(part);
+  }
+
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,59 @@
+import { BaseReranker, postJSON } from './Reranker.ts';
+import { HuggingFaceAPIError, RerankingError } from '../../errors/DomainErrors.ts';
+
+const DEFAULT_BASE_URL = 'https://router.huggingface.co/hf-inference/models';
+
+type ClassificationLabel = { label: string; score: number };
+
+/**
+ * Hugging Face Inference cross-encoder (text classification over query/passage pairs)
+ * e.g. BAAI/bge-reranker-base, cross-encoder/ms-marco-MiniLM-L-6-v2
+ */
+export class HuggingFaceReranker extends BaseReranker {
+  readonly name = 'huggingface' as const;
+  #apiKey: string;
+  #baseUrl: string;
+
+  constructor(apiKey: string, model: string, baseUrl?: string) {
+    super(model);
+    this.#apiKey = apiKey;
+    this.#baseUrl = (baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  }
+
+  protected async scorePassages(query: string, passages: string[]): Promise<number[]> {
+    if (!this.#apiKey) {
+      throw new HuggingFaceAPIError(
+        'HF_API_KEY or RERANKER_API_KEY is required for the huggingface reranker.'
+      );
+    }
+
+    const response = await postJSON(
+      `${this.#baseUrl}/${this.model}`,
+      { inputs: passages.map((passage) => ({ text: query, text_pair: passage })) },
+      this.#apiKey
+    );
+
+    if (!Array.isArray(response)) {
+      throw new RerankingError('Invalid response format from Hugging Face API');
+    }
+
+    return response.map((item, index) => this.#toScore(item, index));
+  }
+
+  /**
+   * Normalize one item of a text-classification response to a score
+   * Single-logit cross-encoders return one label; two-class ones report the positive label
+   */
+  #toScore(item: ClassificationLabel | ClassificationLabel[], index: number): number {
+    const labels = Array.isArray(item) ? item : [item];
+    const positive =
+      labels.length === 1
+        ? labels[0]
+        : labels.find((label) => /^(LABEL_1|1|relevant|entailment)$/i.test(label.label));
+
+    if (!positive || typeof positive.score !== 'number') {
+      throw new RerankingError(`Invalid score format at index ${index}`);
+    }
+    return positive.score;
+  }
+}
@@ -0,0 +1,54 @@
+import { BaseReranker } from './Reranker.ts';
+
+/* BM25 term-frequency saturation and length normalization */
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * BM25 over the candidate set
+ * Needs no network or model: rewards passages containing the query terms, weighted by how
+ * rare each term is among the candidates. A cheap fallback, not a substitute for a cross-encoder.
+ */
+export class LexicalReranker extends BaseReranker {
+  readonly name = 'lexical' as const;
+
+  constructor() {
+    super('bm25');
+  }
+
+  protected async scorePassages(query: string, passages: string[]): Promise<number[]> {
+    const queryTerms = [...new Set(tokenize(query))];
+    const documents = passages.map(tokenize);
+    const averageLength =
+      documents.reduce((sum, terms) => sum + terms.length, 0) / documents.length || 1;
+
+    /* Inverse document frequency of each query term within the candidates */
+    const idf = new Map<string, number>();
+    for (const term of queryTerms) {
+      const frequency = documents.filter((terms) => terms.includes(term)).length;
+      idf.set(term, Math.log(1 + (documents.length - frequency + 0.5) / (frequency + 0.5)));
+    }
+
+    return documents.map((terms) => {
+      const counts = new Map<string, number>();
+      for (const term of terms) {
+        counts.set(term, (counts.get(term) ?? 0) + 1);
+      }
+
+      const lengthNorm = 1 - B + B * (terms.length / averageLength);
+      return queryTerms.reduce((score, term) => {
+        const tf = counts.get(term) ?? 0;
+        return score + (idf.get(term)! * tf * (K1 + 1)) / (tf + K1 * lengthNorm);
+      }, 0);
+    });
+  }
+}
+
+function tokenize(text: string): string[] {
+  return (
+    text
+      .normalize('NFKC')
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) ?? []
+  );
+}
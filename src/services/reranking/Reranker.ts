@@ -0,0 +1,97 @@
+import { env } from '../../config/environment.ts';
+import type { RerankerProviderName } from '../../config/environment.ts';
+import { RerankingError } from '../../errors/DomainErrors.ts';
+import { AppError } from '../../errors/AppError.ts';
+import { handleExternalAPIError } from '../../utils/errorHandler.ts';
+
+/**
+ * Reranker
+ * Scores retrieved passages against the query, jointly, after first-stage retrieval
+ */
+export interface Reranker {
+  readonly name: RerankerProviderName;
+  readonly model: string;
+
+  /* Relevance score of every passage, in input order (higher is more relevant) */
+  rerank(query: string, passages: string[]): Promise<number[]>;
+}
+
+/**
+ * Shared input validation, error handling and response checks
+ * Implementations only provide `scorePassages`
+ */
+export abstract class BaseReranker implements Reranker {
+  abstract readonly name: RerankerProviderName;
+  readonly model: string;
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  async rerank(query: string, passages: string[]): Promise<number[]> {
+    if (!query || query.trim().length === 0) {
+      throw new RerankingError('Query cannot be empty');
+    }
+
+    if (passages.length === 0) {
+      return [];
+    }
+
+    let scores: number[];
+    try {
+      scores = await this.scorePassages(query, passages);
+    } catch (err) {
+      if (err instanceof AppError) {
+        throw err;
+      }
+      throw handleExternalAPIError(this.name, err, 'rerank');
+    }
+
+    if (!Array.isArray(scores) || scores.length !== passages.length) {
+      throw new RerankingError(
+        `Expected ${passages.length} scores, but received ${scores?.length || 0}`
+      );
+    }
+
+    scores.forEach((score, index) => {
+      if (typeof score !== 'number' || Number.isNaN(score)) {
+        throw new RerankingError(`Score at index ${index} is not a number`);
+      }
+    });
+
+    return scores;
+  }
+
+  protected abstract scorePassages(query: string, passages: string[]): Promise<number[]>;
+}
+
+/**
+ * POST a JSON body and parse the JSON response, surfacing HTTP failures with their status
+ * Gives up after `timeoutMs`, so a hanging endpoint cannot hang the searches waiting on it
+ */
+export async function postJSON(
+  url: string,
+  body: unknown,
+  apiKey?: string,
+  timeoutMs: number = env.reranking.timeoutMs
+): Promise<unknown> {
+  const response = await fetch(url, {
+    method: 'POST',
+    signal: AbortSignal.timeout(timeoutMs),
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw Object.assign(
+      new Error(`HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`),
+      { status: response.status }
+    );
+  }
+
+  return response.json();
+}
@@ -0,0 +1,39 @@
+import { BaseReranker, postJSON } from './Reranker.ts';
+import { RerankingError } from '../../errors/DomainErrors.ts';
+
+/**
+ * Cross-encoder served locally by Text Embeddings Inference (`POST /rerank`)
+ * The model is chosen when the server starts; `model` is informational only
+ */
+export class TeiReranker extends BaseReranker {
+  readonly name = 'tei' as const;
+  #baseUrl: string;
+  #apiKey: string | undefined;
+
+  constructor(baseUrl: string, model: string, apiKey?: string) {
+    super(model);
+    this.#baseUrl = baseUrl.replace(/\/+$/, '');
+    this.#apiKey = apiKey;
+  }
+
+  protected async scorePassages(query: string, passages: string[]): Promise<number[]> {
+    const response = await postJSON(
+      `${this.#baseUrl}/rerank`,
+      { query, texts: passages, truncate: true },
+      this.#apiKey
+    );
+
+    if (!Array.isArray(response)) {
+      throw new RerankingError('Invalid response format from the rerank server');
+    }
+
+    /* Results come back sorted by score; put them back in input order */
+    const scores = new Array<number>(passages.length).fill(Number.NaN);
+    for (const { index, score } of response as Array<{ index: number; score: number }>) {
+      if (index >= 0 && index < passages.length) {
+        scores[index] = score;
+      }
+    }
+    return scores;
+  }
+}
@@ -0,0 +1,49 @@
+import { env } from '../../config/environment.ts';
+import type { RerankingConfig } from '../../config/environment.ts';
+import { ConfigurationError } from '../../errors/DomainErrors.ts';
+
+import type { Reranker } from './Reranker.ts';
+import { HuggingFaceReranker } from './HuggingFaceReranker.ts';
+import { TeiReranker } from './TeiReranker.ts';
+import { LexicalReranker } from './LexicalReranker.ts';
+
+export type { Reranker } from './Reranker.ts';
+export { BaseReranker } from './Reranker.ts';
+export { HuggingFaceReranker } from './HuggingFaceReranker.ts';
+export { TeiReranker } from './TeiReranker.ts';
+export { LexicalReranker } from './LexicalReranker.ts';
+
+/* Build the reranker selected by RERANKER_PROVIDER */
+export function createReranker(config: RerankingConfig): Reranker {
+  switch (config.provider) {
+    case 'huggingface':
+      return new HuggingFaceReranker(
+        config.apiKey || env.huggingface.apiKey,
+        config.model,
+        config.baseUrl
+      );
+
+    case 'tei':
+      if (!config.baseUrl) {
+        throw new ConfigurationError(
+          'RERANKER_BASE_URL is required when RERANKER_PROVIDER is "tei"',
+          {
+            provider: config.provider,
+          }
+        );
+      }
+      return new TeiReranker(config.baseUrl, config.model, config.apiKey);
+
+    case 'lexical':
+      return new LexicalReranker();
+
+    default:
+      throw new ConfigurationError(
+        `Unknown reranker provider "${String(config.provider)}". Expected one of: huggingface, tei, lexical`,
+        { provider: config.provider }
+      );
+  }
+}
+
+/* Singleton instance */
+export const reranker = createReranker(env.reranking);
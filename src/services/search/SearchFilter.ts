@@ -0,0 +1,256 @@
+import { ValidationError } from '../../errors/DomainErrors.ts';
+
+/* Which metadata a key is looked up in */
+export type MetadataScope = 'document' | 'chunk';
+
+/**
+ * Condition on one metadata key
+ * Every operator that is set must hold; `in` matches any of the values
+ */
+export interface MetadataFilter {
+  /* Dots address nested keys, e.g. `author.name` */
+  key: string;
+  scope?: MetadataScope | null;
+  eq?: unknown;
+  in?: unknown[] | null;
+  /* The array at the key holds the value (or every value of an array) */
+  contains?: unknown;
+  gt?: number | string | null;
+  gte?: number | string | null;
+  lt?: number | string | null;
+  lte?: number | string | null;
+  exists?: boolean | null;
+}
+
+/* Half-open range [from, to) */
+export interface DateRangeFilter {
+  from?: Date | null;
+  to?: Date | null;
+}
+
+/**
+ * Search filter
+ * All conditions of one filter must hold; `and`, `or` and `not` combine nested filters
+ */
+export interface SearchFilter {
+  documentIds?: string[] | null;
+  fileTypes?: string[] | null;
+  createdAt?: DateRangeFilter | null;
+  metadata?: MetadataFilter[] | null;
+  and?: SearchFilter[] | null;
+  or?: SearchFilter[] | null;
+  not?: SearchFilter | null;
+}
+
+const MAX_DEPTH = 5;
+const MAX_CONDITIONS = 50;
+const MAX_VALUES = 100;
+const KEY_PATTERN = /^[\w-]+(\.[\w-]+)*$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const RANGE_OPERATORS = [
+  ['gt', '>'],
+  ['gte', '>='],
+  ['lt', '<'],
+  ['lte', '<='],
+] as const;
+
+/**
+ * Compile a search filter to a SQL condition
+ * Values are appended to `params` and referenced as $n placeholders - nothing from the filter
+ * is interpolated into the SQL. The condition refers to documents as `d` and chunks as `dc`.
+ */
+export function compileSearchFilter(filter: SearchFilter, params: unknown[]): string {
+  return new FilterCompiler(params).compile(filter, 'filter', 0);
+}
+
+class FilterCompiler {
+  readonly #params: unknown[];
+  #conditions = 0;
+
+  constructor(params: unknown[]) {
+    this.#params = params;
+  }
+
+  compile(filter: SearchFilter, path: string, depth: number): string {
+    if (depth > MAX_DEPTH) {
+      throw new ValidationError(
+        `Search filters can be nested at most ${MAX_DEPTH} levels deep`,
+        path
+      );
+    }
+
+    const clauses: string[] = [];
+
+    if (filter.documentIds != null) {
+      this.#checkList(filter.documentIds, `${path}.documentIds`);
+      const invalid = filter.documentIds.find((id) => !UUID_PATTERN.test(id));
+      if (invalid !== undefined) {
+        throw new ValidationError('Document IDs must be UUIDs', `${path}.documentIds`, invalid);
+      }
+      clauses.push(
+        this.#condition(`dc.document_id = ANY(${this.#param(filter.documentIds)}::uuid[])`)
+      );
+    }
+
+    if (filter.fileTypes != null) {
+      this.#checkList(filter.fileTypes, `${path}.fileTypes`);
+      clauses.push(this.#condition(`d.file_type = ANY(${this.#param(filter.fileTypes)}::text[])`));
+    }
+
+    if (filter.createdAt != null) {
+      clauses.push(...this.#dateRange(filter.createdAt, `${path}.createdAt`));
+    }
+
+    filter.metadata?.forEach((metadataFilter, index) => {
+      clauses.push(this.#metadata(metadataFilter, `${path}.metadata[${index}]`));
+    });
+
+    filter.and?.forEach((nested, index) => {
+      clauses.push(this.compile(nested, `${path}.and[${index}]`, depth + 1));
+    });
+
+    if (filter.or != null) {
+      this.#checkList(filter.or, `${path}.or`);
+      const alternatives = filter.or.map((nested, index) =>
+        this.compile(nested, `${path}.or[${index}]`, depth + 1)
+      );
+      clauses.push(`(${alternatives.join(' OR ')})`);
+    }
+
+    if (filter.not != null) {
+      clauses.push(`NOT (${this.compile(filter.not, `${path}.not`, depth + 1)})`);
+    }
+
+    if (clauses.length === 0) {
+      return 'TRUE';
+    }
+    return clauses.length === 1 ? clauses[0]! : `(${clauses.join(' AND ')})`;
+  }
+
+  #dateRange(range: DateRangeFilter, path: string): string[] {
+    const clauses: string[] = [];
+
+    for (const [bound, operator] of [
+      ['from', '>='],
+      ['to', '<'],
+    ] as const) {
+      const value = range[bound];
+      if (value == null) {
+        continue;
+      }
+      if (!(value instanceof Date) || Number.isNaN(value.getTime())) {
+        throw new ValidationError('Invalid date in search filter', `${path}.${bound}`, value);
+      }
+      clauses.push(this.#condition(`d.created_at ${operator} ${this.#param(value)}`));
+    }
+
+    if (clauses.length === 0) {
+      throw new ValidationError('A date range needs "from" or "to"', path);
+    }
+    return clauses;
+  }
+
+  #metadata(filter: MetadataFilter, path: string): string {
+    if (!filter.key || !KEY_PATTERN.test(filter.key)) {
+      throw new ValidationError(
+        'Metadata keys may only contain letters, digits, "_" and "-", separated by dots',
+        `${path}.key`,
+        filter.key
+      );
+    }
+
+    const segments = filter.key.split('.');
+    const column = filter.scope === 'chunk' ? 'dc.metadata' : 'd.metadata';
+    /* Only bind the path when an operator needs it; unused parameters fail to type-check */
+    let pathParam: string | undefined;
+    const valueAt = (): string => {
+      pathParam ??= this.#param(segments);
+      return `(${column} #> ${pathParam}::text[])`;
+    };
+    const clauses: string[] = [];
+
+    /* Equality as containment, so the GIN index applies */
+    if (filter.eq != null) {
+      clauses.push(`${column} @> ${this.#param(JSON.stringify(nest(segments, filter.eq)))}::jsonb`);
+    }
+
+    if (filter.in != null) {
+      this.#checkList(filter.in, `${path}.in`);
+      const candidates = filter.in.map((item) => JSON.stringify(nest(segments, item)));
+      clauses.push(`${column} @> ANY(${this.#param(candidates)}::jsonb[])`);
+    }
+
+    if (filter.contains != null) {
+      const items = Array.isArray(filter.contains) ? filter.contains : [filter.contains];
+      clauses.push(`${valueAt()} @> ${this.#param(JSON.stringify(items))}::jsonb`);
+    }
+
+    for (const [name, operator] of RANGE_OPERATORS) {
+      const bound = filter[name];
+      if (bound == null) {
+        continue;
+      }
+
+      /* Only values of the bound's JSON type are compared; casting anything else would fail */
+      if (typeof bound === 'number' && Number.isFinite(bound)) {
+        const value = valueAt();
+        clauses.push(
+          `CASE WHEN jsonb_typeof(${value}) = 'number' THEN (${value} #>> '{}')::numeric ${operator} ${this.#param(bound)}::numeric ELSE FALSE END`
+        );
+      } else if (typeof bound === 'string') {
+        const value = valueAt();
+        clauses.push(
+          `CASE WHEN jsonb_typeof(${value}) = 'string' THEN (${value} #>> '{}') COLLATE "C" ${operator} ${this.#param(bound)}::text ELSE FALSE END`
+        );
+      } else {
+        throw new ValidationError(
+          'Range bounds must be numbers or strings',
+          `${path}.${name}`,
+          bound
+        );
+      }
+    }
+
+    if (filter.exists != null) {
+      clauses.push(`${valueAt()} IS ${filter.exists ? 'NOT ' : ''}NULL`);
+    }
+
+    if (clauses.length === 0) {
+      throw new ValidationError(
+        'A metadata filter needs at least one of eq, in, contains, gt, gte, lt, lte or exists',
+        path
+      );
+    }
+
+    const condition = clauses.length === 1 ? clauses[0]! : `(${clauses.join(' AND ')})`;
+    return this.#condition(condition);
+  }
+
+  #checkList(values: unknown[], path: string): void {
+    if (values.length === 0 || values.length > MAX_VALUES) {
+      throw new ValidationError(`Filter lists must hold between 1 and ${MAX_VALUES} values`, path);
+    }
+  }
+
+  /* Count leaf conditions so a filter can't grow into an arbitrarily expensive query */
+  #condition(sql: string): string {
+    if (++this.#conditions > MAX_CONDITIONS) {
+      throw new ValidationError(
+        `Search filters are limited to ${MAX_CONDITIONS} conditions`,
+        'filter'
+      );
+    }
+    return sql;
+  }
+
+  #param(value: unknown): string {
+    this.#params.push(value);
+    return `$${this.#params.length}`;
+  }
+}
+
+/* Build `{a: {b: value}}` from the key path `a.b` */
+function nest(segments: string[], value: unknown): unknown {
+  return segments.reduceRight<unknown>((nested, segment) => ({ [segment]: nested }), value);
+}
@@ -0,0 +1,114 @@
+import { env } from '../../config/environment.ts';
+import type { FusionMethod } from '../../config/environment.ts';
+import { ValidationError } from '../../errors/DomainErrors.ts';
+
+export type RetrieverName = 'vector' | 'text';
+
+/* Where one retriever placed a result */
+export interface RetrieverHit {
+  retriever: RetrieverName;
+  /* 1-based position in the retriever's ranking */
+  rank: number;
+  /* Cosine similarity for the vector retriever, ts_rank for the full-text retriever */
+  score: number;
+}
+
+export interface FusionOptions {
+  method: FusionMethod;
+  rrfK: number;
+  vectorWeight: number;
+  textWeight: number;
+}
+
+/* A retriever's candidates, best first */
+export interface Ranking<T> {
+  retriever: RetrieverName;
+  candidates: { id: string; item: T; score: number }[];
+}
+
+export interface FusedResult<T> {
+  item: T;
+  score: number;
+  hits: RetrieverHit[];
+}
+
+const FUSION_METHODS: FusionMethod[] = ['rrf', 'linear'];
+
+/* Fill in fusion settings from the deployment defaults and validate them */
+export function resolveFusionOptions(overrides: Partial<FusionOptions> = {}): FusionOptions {
+  const options: FusionOptions = {
+    method: overrides.method ?? env.search.fusionMethod,
+    rrfK: overrides.rrfK ?? env.search.rrfK,
+    vectorWeight: overrides.vectorWeight ?? env.search.vectorWeight,
+    textWeight: overrides.textWeight ?? env.search.textWeight,
+  };
+
+  if (!FUSION_METHODS.includes(options.method)) {
+    throw new ValidationError(
+      `Unknown fusion method "${options.method}". Expected one of: ${FUSION_METHODS.join(', ')}`,
+      'method',
+      options.method
+    );
+  }
+  if (!Number.isInteger(options.rrfK) || options.rrfK < 1 || options.rrfK > 1000) {
+    throw new ValidationError('RRF k must be an integer between 1 and 1000', 'rrfK', options.rrfK);
+  }
+  for (const field of ['vectorWeight', 'textWeight'] as const) {
+    if (!Number.isFinite(options[field]) || options[field] < 0 || options[field] > 100) {
+      throw new ValidationError(
+        'Retriever weights must be between 0 and 100',
+        field,
+        options[field]
+      );
+    }
+  }
+  if (options.vectorWeight + options.textWeight === 0) {
+    throw new ValidationError('At least one retriever weight must be positive', 'vectorWeight');
+  }
+
+  return options;
+}
+
+/**
+ * Merge independent rankings into one
+ * - rrf: sum of weight / (k + rank); only positions matter, so the retrievers' incomparable
+ *   score scales never meet
+ * - linear: weighted mean of each retriever's min-max normalized scores
+ * A result missing from a ranking simply gets nothing from that retriever.
+ */
+export function fuseRankings<T>(rankings: Ranking<T>[], options: FusionOptions): FusedResult<T>[] {
+  const fused = new Map<string, FusedResult<T>>();
+  const totalWeight = rankings.reduce(
+    (sum, ranking) => sum + weightOf(ranking.retriever, options),
+    0
+  );
+
+  for (const ranking of rankings) {
+    const weight = weightOf(ranking.retriever, options);
+    const scores = ranking.candidates.map((candidate) => candidate.score);
+    const min = Math.min(...scores);
+    const max = Math.max(...scores);
+
+    ranking.candidates.forEach((candidate, index) => {
+      const rank = index + 1;
+      const contribution =
+        options.method === 'rrf'
+          ? weight / (options.rrfK + rank)
+          : (weight * (max > min ? (candidate.score - min) / (max - min) : 1)) / totalWeight;
+
+      const entry = fused.get(candidate.id) ?? { item: candidate.item, score: 0, hits: [] };
+      entry.score += contribution;
+      entry.hits.push({ retriever: ranking.retriever, rank, score: candidate.score });
+      fused.set(candidate.id, entry);
+    });
+  }
+
+  /* Ties go to the result placed highest by any retriever */
+  const bestRank = (result: FusedResult<T>): number =>
+    Math.min(...result.hits.map((hit) => hit.rank));
+  return [...fused.values()].sort((a, b) => b.score - a.score || bestRank(a) - bestRank(b));
+}
+
+function weightOf(retriever: RetrieverName, options: FusionOptions): number {
+  return retriever === 'vector' ? options.vectorWeight : options.textWeight;
+}
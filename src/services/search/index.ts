@@ -0,0 +1,21 @@
+export type {
+  DateRangeFilter,
+  MetadataFilter,
+  MetadataScope,
+  SearchFilter,
+} from './SearchFilter.ts';
+export { compileSearchFilter } from './SearchFilter.ts';
+
+export type { FusedResult, FusionOptions, Ranking, RetrieverHit, RetrieverName } from './fusion.ts';
+export { fuseRankings, resolveFusionOptions } from './fusion.ts';
+
+export type { RecallSettings } from './recall.ts';
+export { applyRecall, resolveRecall } from './recall.ts';
+
+export {
+  ALL_TEXT_SEARCH_CONFIGS,
+  DEFAULT_TEXT_SEARCH_CONFIG,
+  detectLanguage,
+  normalizeLanguage,
+  textSearchConfig,
+} from './language.ts';
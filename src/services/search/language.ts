@@ -0,0 +1,89 @@
+import { franc } from 'franc-min';
+
+import { ValidationError } from '../../errors/DomainErrors.ts';
+
+/* Text search configuration for chunks whose language has no stemmer (or is unknown) */
+export const DEFAULT_TEXT_SEARCH_CONFIG = 'simple';
+
+/* Detection only looks at the start of long documents */
+const DETECTION_SAMPLE_LENGTH = 10_000;
+
+/**
+ * Languages franc-min detects, by ISO 639-3 code
+ * `code` is the BCP 47 tag stored on documents; `config` the PostgreSQL text search configuration
+ */
+const LANGUAGES: Record<string, { code: string; config?: string }> = {
+  arb: { code: 'ar', config: 'arabic' },
+  deu: { code: 'de', config: 'german' },
+  eng: { code: 'en', config: 'english' },
+  fra: { code: 'fr', config: 'french' },
+  hin: { code: 'hi', config: 'hindi' },
+  hun: { code: 'hu', config: 'hungarian' },
+  ind: { code: 'id', config: 'indonesian' },
+  ita: { code: 'it', config: 'italian' },
+  nld: { code: 'nl', config: 'dutch' },
+  npi: { code: 'ne', config: 'nepali' },
+  por: { code: 'pt', config: 'portuguese' },
+  ron: { code: 'ro', config: 'romanian' },
+  rus: { code: 'ru', config: 'russian' },
+  spa: { code: 'es', config: 'spanish' },
+  srp: { code: 'sr', config: 'serbian' },
+  swe: { code: 'sv', config: 'swedish' },
+  tur: { code: 'tr', config: 'turkish' },
+  bel: { code: 'be' },
+  bul: { code: 'bg' },
+  ces: { code: 'cs' },
+  cmn: { code: 'zh' },
+  hrv: { code: 'hr' },
+  jpn: { code: 'ja' },
+  kor: { code: 'ko' },
+  pes: { code: 'fa' },
+  pol: { code: 'pl' },
+  ukr: { code: 'uk' },
+  urd: { code: 'ur' },
+  vie: { code: 'vi' },
+};
+
+const TEXT_SEARCH_CONFIGS = new Map(
+  Object.values(LANGUAGES).flatMap(({ code, config }) => (config ? [[code, config] as const] : []))
+);
+
+/**
+ * Every configuration a chunk can be indexed with
+ * Chunks indexed before language detection existed use 'english'
+ */
+export const ALL_TEXT_SEARCH_CONFIGS = [
+  ...new Set([DEFAULT_TEXT_SEARCH_CONFIG, 'english', ...TEXT_SEARCH_CONFIGS.values()]),
+];
+
+/**
+ * Detect the language of a text
+ * Returns a BCP 47 tag - the ISO 639-1 code when there is one, the ISO 639-3 code otherwise -
+ * or null when the text is too short or ambiguous to tell
+ */
+export function detectLanguage(text: string): string | null {
+  const detected = franc(text.slice(0, DETECTION_SAMPLE_LENGTH));
+  if (detected === 'und') {
+    return null;
+  }
+  return LANGUAGES[detected]?.code ?? detected;
+}
+
+/* Text search configuration matching a language; languages without a stemmer use 'simple' */
+export function textSearchConfig(language: string | null | undefined): string {
+  return (language && TEXT_SEARCH_CONFIGS.get(language)) || DEFAULT_TEXT_SEARCH_CONFIG;
+}
+
+/* Normalize a language filter to the tag stored on documents */
+export function normalizeLanguage(language: string): string {
+  const normalized = language.trim().toLowerCase();
+  if (!/^[a-z]{2,3}$/.test(normalized)) {
+    throw new ValidationError(
+      'Language must be an ISO 639-1 or ISO 639-3 code (e.g. "pt")',
+      'language',
+      language
+    );
+  }
+  /* Accept ISO 639-3 codes of languages that also have a two-letter code */
+  return LANGUAGES[normalized]?.code ?? normalized;
+}
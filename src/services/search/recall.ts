@@ -0,0 +1,61 @@
+import type { QueryRunner } from 'typeorm';
+
+import { env } from '../../config/environment.ts';
+import type { SearchRecall } from '../../config/environment.ts';
+import { ValidationError } from '../../errors/DomainErrors.ts';
+
+/* Index scan settings of each recall level; both are set since either index type may be live */
+export interface RecallSettings {
+  /* IVFFlat clusters scanned */
+  probes: number;
+  /* HNSW candidate list size */
+  efSearch: number;
+}
+
+const RECALL_SETTINGS: Record<SearchRecall, RecallSettings> = {
+  fast: { probes: 1, efSearch: 40 },
+  balanced: { probes: 10, efSearch: 100 },
+  high: { probes: 40, efSearch: 400 },
+};
+
+/* pgvector's upper bound of hnsw.ef_search */
+const MAX_EF_SEARCH = 1000;
+
+/**
+ * Index scan settings for a search
+ * HNSW returns at most ef_search rows, so it is raised to the number of rows asked for
+ */
+export function resolveRecall(
+  recall: SearchRecall = env.search.recall,
+  limit: number
+): RecallSettings {
+  const settings = RECALL_SETTINGS[recall];
+  if (!settings) {
+    throw new ValidationError(
+      `Unknown recall "${recall}". Expected one of: ${Object.keys(RECALL_SETTINGS).join(', ')}`,
+      'recall',
+      recall
+    );
+  }
+
+  return {
+    probes: settings.probes,
+    efSearch: Math.min(MAX_EF_SEARCH, Math.max(settings.efSearch, limit)),
+  };
+}
+
+/**
+ * Apply index scan settings to the following queries of a connection
+ * Opens a transaction: the settings are transaction-local, so they end with it instead of
+ * leaking into the next user of the pooled connection
+ */
+export async function applyRecall(
+  queryRunner: QueryRunner,
+  { probes, efSearch }: RecallSettings
+): Promise<void> {
+  await queryRunner.startTransaction();
+  await queryRunner.query(
+    `SELECT set_config('ivfflat.probes', $1, true), set_config('hnsw.ef_search', $2, true)`,
+    [String(probes), String(efSearch)]
+  );
+}
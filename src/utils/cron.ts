@@ -0,0 +1,122 @@
+import { ConfigurationError } from '../errors/DomainErrors.ts';
+
+/* Parsed five-field cron expression: the values every field matches */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /* 0 = Sunday */
+  daysOfWeek: Set<number>;
+  /* Cron matches either day field when both are restricted */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+/* No schedule skips more than a few years (e.g. 29 February on a Monday) */
+const MAX_SEARCH_DAYS = 366 * 8;
+
+/* Values of one field: `*`, `5`, `1-5`, `*\/15`, `1-30/5` and comma-separated lists of these */
+function parseField(
+  text: string,
+  { name, min, max }: (typeof FIELDS)[number],
+  expression: string
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new ConfigurationError(`Invalid ${name} "${part}" in cron expression "${expression}"`);
+    }
+
+    const [, range, from, to, step] = match;
+    const start = range === '*' ? min : parseInt(from!, 10);
+    const end = range === '*' ? max : to !== undefined ? parseInt(to, 10) : step ? max : start;
+    const increment = step ? parseInt(step, 10) : 1;
+
+    if (start < min || end > max || start > end || increment < 1) {
+      throw new ConfigurationError(
+        `The ${name} of cron expression "${expression}" must be between ${min} and ${max}`
+      );
+    }
+    for (let value = start; value <= end; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a standard cron expression: minute hour day-of-month month day-of-week
+ * Throws ConfigurationError on anything else
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new ConfigurationError(
+      `Cron expression "${expression}" must have 5 fields: minute hour day-of-month month day-of-week`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELDS[index]!, expression)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  /* 7 is Sunday too */
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2]!.startsWith('*'),
+    anyDayOfWeek: fields[4]!.startsWith('*'),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/* First minute strictly after `after` that the schedule matches, in server time */
+export function nextCronTime(schedule: CronSchedule, after: Date): Date {
+  const time = new Date(after);
+  time.setSeconds(0, 0);
+  time.setMinutes(time.getMinutes() + 1);
+
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+  while (time.getTime() <= limit) {
+    if (!schedule.months.has(time.getMonth() + 1) || !matchesDay(schedule, time)) {
+      time.setDate(time.getDate() + 1);
+      time.setHours(0, 0);
+    } else if (!schedule.hours.has(time.getHours())) {
+      time.setHours(time.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(time.getMinutes())) {
+      time.setMinutes(time.getMinutes() + 1);
+    } else {
+      return time;
+    }
+  }
+
+  throw new ConfigurationError('Cron expression never matches a date');
+}
@@ -1,16 +1,62 @@
+import type { QueryRunner } from 'typeorm';
+
 import { AppDataSource } from '../config/data-source.ts';
+import { env } from '../config/environment.ts';
+import type { VectorIndexType } from '../config/environment.ts';
 import { logger } from './logger.ts';
 
+import { IndexRebuildInProgressError, ValidationError } from '../errors/DomainErrors.ts';
+
+const INDEX_NAME = 'document_chunks_embedding_idx';
+/* The replacement is built under this name next to the live index, then swapped in */
+const BUILD_INDEX_NAME = 'document_chunks_embedding_idx_build';
+/* The replaced index until it is dropped */
+const RETIRED_INDEX_NAME = 'document_chunks_embedding_idx_old';
+/* Index of the embeddings a model migration backfills, until its cutover */
+const MIGRATION_INDEX_NAME = 'document_chunks_embedding_next_idx';
+
+const INDEX_TYPES: VectorIndexType[] = ['ivfflat', 'hnsw'];
+
+export interface VectorIndexParams {
+  type: VectorIndexType;
+  /* IVFFlat clusters */
+  lists?: number;
+  /* HNSW neighbours per node */
+  m?: number;
+  /* HNSW candidate list size while building */
+  efConstruction?: number;
+}
+
 export interface IndexStats {
   rowCount: number;
+  /* Null when document_chunks has no vector index */
+  indexType: VectorIndexType | null;
   currentLists: number | null;
   recommendedLists: number;
+  m: number | null;
+  efConstruction: number | null;
   indexSize: string;
   indexUsage: string;
+  /* False while a concurrent build is unfinished, or after it failed */
+  isValid: boolean;
+  /* Index build running on document_chunks, if any */
+  build: { phase: string; progress: number | null } | null;
+}
+
+/* Integer storage parameter of an index definition, e.g. lists from `WITH (lists='100')` */
+function storageParameter(definition: string, name: string): number | null {
+  const match = definition.match(new RegExp(`${name}\\s*=\\s*'?(\\d+)`, 'i'));
+  return match ? parseInt(match[1]!, 10) : null;
+}
+
+function checkRange(value: number, field: string, min: number, max: number): void {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new ValidationError(`"${field}" must be between ${min} and ${max}`, field, value);
+  }
 }
 
 /**
- * Utility to optimize IVFFlat index parameters
+ * Utility to manage the vector index of document_chunks (IVFFlat or HNSW)
  */
 export class IndexOptimizer {
   /**
@@ -26,36 +72,24 @@ export class IndexOptimizer {
       `);
       const rowCount = parseInt(rowCountResult[0]?.count || '0', 10);
 
-      /* Get current index parameters */
-      const indexInfo = await queryRunner.query(`
-        SELECT 
-          pg_size_pretty(pg_relation_size('document_chunks_embedding_idx')) as index_size,
-          idx.indisvalid as is_valid
-          FROM pg_index idx
-          JOIN pg_class cls ON idx.indexrelid = cls.oid
-          WHERE cls.relname = 'document_chunks_embedding_idx';
-      `);
+      /* Get index definition, size and validity (all null when the index doesn't exist) */
+      const [indexInfo] = await queryRunner.query(
+        `SELECT
+           pg_get_indexdef(to_regclass($1)) AS definition,
+           pg_size_pretty(pg_relation_size(to_regclass($1))) AS index_size,
+           (SELECT indisvalid FROM pg_index WHERE indexrelid = to_regclass($1)) AS is_valid`,
+        [INDEX_NAME]
+      );
 
-      /* Get index definition to extract lists parameter */
-      const indexDef = await queryRunner.query(`
-        SELECT pg_get_indexdef('document_chunks_embedding_idx'::regclass) as definition;
-      `);
-
-      let currentLists: number | null = null;
-      const definition = indexDef[0]?.definition || '';
-      const listsMatch = definition.match(/lists\s*=\s*(\d+)/i);
-      if (listsMatch) {
-        currentLists = parseInt(listsMatch[1], 10);
-      }
+      const definition: string = indexInfo?.definition || '';
+      const typeMatch = definition.match(/USING (\w+)/i)?.[1]?.toLowerCase();
+      const indexType = INDEX_TYPES.find((type) => type === typeMatch) ?? null;
 
-      /* Calculate recommended lists */
-      const recommendedLists = this.calculateOptimalLists(rowCount);
-
-      /* Get index usage stats (requires pg_stat_statements extension) */
+      /* Get index usage stats */
       let indexUsage = 'N/A';
       try {
         const usageResult = await queryRunner.query(`
-          SELECT 
+          SELECT
             idx_scan as scans,
             idx_tup_read as tuples_read,
             idx_tup_fetch as tuples_fetched
@@ -66,16 +100,36 @@ export class IndexOptimizer {
           indexUsage = `Scans: ${usageResult[0].scans}, Reads: ${usageResult[0].tuples_read}`;
         }
       } catch (err) {
-        /* pg_stat_statements might not be enabled */
         logger.debug('Index usage stats not available');
       }
 
+      /* Progress of an index build on the table, from whichever session runs it */
+      const [progress] = await queryRunner.query(`
+        SELECT phase, blocks_total, blocks_done, tuples_total, tuples_done
+        FROM pg_stat_progress_create_index
+        WHERE relid = 'document_chunks'::regclass
+        LIMIT 1;
+      `);
+      let build: IndexStats['build'] = null;
+      if (progress) {
+        const [done, total] =
+          Number(progress.blocks_total) > 0
+            ? [Number(progress.blocks_done), Number(progress.blocks_total)]
+            : [Number(progress.tuples_done), Number(progress.tuples_total)];
+        build = { phase: progress.phase, progress: total > 0 ? done / total : null };
+      }
+
       return {
         rowCount,
-        currentLists,
-        recommendedLists,
-        indexSize: indexInfo[0]?.index_size || 'N/A',
+        indexType,
+        currentLists: storageParameter(definition, 'lists'),
+        recommendedLists: this.calculateOptimalLists(rowCount),
+        m: storageParameter(definition, 'm'),
+        efConstruction: storageParameter(definition, 'ef_construction'),
+        indexSize: indexInfo?.index_size || 'N/A',
         indexUsage,
+        isValid: indexInfo?.is_valid === true,
+        build,
       };
     } finally {
       await queryRunner.release();
@@ -84,6 +138,7 @@ export class IndexOptimizer {
 
   /**
    * Calculate optimal lists parameter
+   * Rule of thumb: rows / 1000, between 10 and 1000; 100 for an empty table
    */
   static calculateOptimalLists(rowCount: number): number {
     if (rowCount === 0) {
@@ -98,57 +153,183 @@ export class IndexOptimizer {
   }
 
   /**
-   * Rebuild index with optimal parameters
+   * Rebuild the index, optionally as another type or with other parameters
+   * The replacement is built CONCURRENTLY under a temporary name, so writes continue and searches
+   * keep using the current index; the two are then swapped by renaming them in a short
+   * transaction. Unset parameters keep the current type, use the recommended lists for IVFFlat
+   * and HNSW_M / HNSW_EF_CONSTRUCTION for HNSW.
    */
-  static async rebuildIndex(): Promise<void> {
+  static async rebuildIndex(params: Partial<VectorIndexParams> = {}): Promise<IndexStats> {
     const stats = await this.getIndexStats();
-    const optimalLists = stats.recommendedLists;
-
-    logger.info(`Rebuilding IVFFlat index with lists=${optimalLists} (${stats.rowCount} rows)`);
-
-    const queryRunner = AppDataSource.createQueryRunner();
+    const target = this.#resolveParams(params, stats);
+    const description = this.#describe(target);
 
     try {
-      await queryRunner.startTransaction();
+      await this.withRebuildLock(async (queryRunner) => {
+        /* An interrupted rebuild leaves the index it replaced behind */
+        await queryRunner.query(`DROP INDEX CONCURRENTLY IF EXISTS ${RETIRED_INDEX_NAME};`);
 
-      /* Drop existing index */
-      await queryRunner.query(`
-        DROP INDEX IF EXISTS document_chunks_embedding_idx;
-      `);
+        logger.info(`Building ${description} index (${stats.rowCount} rows)`);
+        await this.#createIndex(queryRunner, BUILD_INDEX_NAME, 'embedding', target);
 
-      /* Create new index with optimal parameters */
-      await queryRunner.query(`
-        CREATE INDEX document_chunks_embedding_idx
-        ON document_chunks
-        USING ivfflat (embedding vector_cosine_ops)
-        WITH (lists = ${optimalLists});
-      `);
+        await queryRunner.startTransaction();
+        try {
+          await queryRunner.query(
+            `ALTER INDEX IF EXISTS ${INDEX_NAME} RENAME TO ${RETIRED_INDEX_NAME};`
+          );
+          await queryRunner.query(`ALTER INDEX ${BUILD_INDEX_NAME} RENAME TO ${INDEX_NAME};`);
+          await queryRunner.commitTransaction();
+        } catch (err) {
+          await queryRunner.rollbackTransaction();
+          throw err;
+        }
+
+        await queryRunner.query(`DROP INDEX CONCURRENTLY IF EXISTS ${RETIRED_INDEX_NAME};`);
+      });
 
-      await queryRunner.commitTransaction();
-      logger.info(`✅ Index rebuilt successfully with lists=${optimalLists}`);
+      logger.info(`✅ Index rebuilt successfully as ${description}`);
     } catch (err) {
-      await queryRunner.rollbackTransaction();
       logger.error(`❌ Failed to rebuild index: ${err}`);
       throw err;
+    }
+
+    return this.getIndexStats();
+  }
+
+  /**
+   * Run work on a session holding the rebuild lock
+   * One rebuild (or embedding model cutover) at a time across all replicas
+   */
+  static async withRebuildLock<T>(work: (queryRunner: QueryRunner) => Promise<T>): Promise<T> {
+    const queryRunner = AppDataSource.createQueryRunner();
+
+    try {
+      await queryRunner.connect();
+
+      const [{ locked }] = await queryRunner.query(
+        `SELECT pg_try_advisory_lock(hashtext($1)) AS locked`,
+        [INDEX_NAME]
+      );
+      if (!locked) {
+        throw new IndexRebuildInProgressError(INDEX_NAME);
+      }
+
+      try {
+        return await work(queryRunner);
+      } finally {
+        await queryRunner.query(`SELECT pg_advisory_unlock(hashtext($1))`, [INDEX_NAME]);
+      }
     } finally {
       await queryRunner.release();
     }
   }
 
   /**
-   * Check if index needs optimization
+   * Index the embeddings of a model migration (`embedding_next`) like the current embeddings
+   * Built concurrently before the cutover; call with the session holding the rebuild lock
    */
-  static async needsOptimization(): Promise<boolean> {
+  static async buildMigrationIndex(queryRunner: QueryRunner): Promise<void> {
     const stats = await this.getIndexStats();
+    const target = this.#resolveParams({}, stats);
+
+    logger.info(`Building ${this.#describe(target)} index of the migrated embeddings`);
+    await this.#createIndex(queryRunner, MIGRATION_INDEX_NAME, 'embedding_next', target);
+  }
 
-    if (stats.currentLists === null) {
-      return true; /* Index doesn't exist */
+  /**
+   * Make the index of the migrated embeddings the vector index
+   * Runs in the cutover transaction, which renames `embedding_next` to `embedding`; the replaced
+   * index is dropped with the column it indexes.
+   */
+  static async swapMigrationIndex(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER INDEX IF EXISTS ${INDEX_NAME} RENAME TO ${RETIRED_INDEX_NAME};`);
+    await queryRunner.query(`ALTER INDEX ${MIGRATION_INDEX_NAME} RENAME TO ${INDEX_NAME};`);
+  }
+
+  /**
+   * Check if index needs optimization
+   * A missing or invalid index always does; IVFFlat also does when its lists drifted more than 20%
+   * from the recommended value. HNSW doesn't depend on the row count.
+   */
+  static async needsOptimization(stats?: IndexStats): Promise<boolean> {
+    const { indexType, isValid, currentLists, recommendedLists } =
+      stats ?? (await this.getIndexStats());
+
+    if (indexType === null || !isValid) {
+      return true; /* Index doesn't exist or its build failed */
+    }
+    if (indexType === 'hnsw' || currentLists === null) {
+      return false;
     }
 
     /* Consider optimization needed if difference is > 20% */
-    const difference = Math.abs(stats.currentLists - stats.recommendedLists);
-    const threshold = Math.max(10, stats.recommendedLists * 0.2);
+    const difference = Math.abs(currentLists - recommendedLists);
+    const threshold = Math.max(10, recommendedLists * 0.2);
 
     return difference > threshold;
   }
+
+  /* Fill in unset parameters and validate them against pgvector's limits */
+  static #resolveParams(params: Partial<VectorIndexParams>, stats: IndexStats): VectorIndexParams {
+    const type = params.type ?? stats.indexType ?? env.vectorIndex.type;
+    if (!INDEX_TYPES.includes(type)) {
+      throw new ValidationError(
+        `Unknown index type "${type}". Expected one of: ${INDEX_TYPES.join(', ')}`,
+        'type',
+        type
+      );
+    }
+
+    if (type === 'ivfflat') {
+      const lists = params.lists ?? stats.recommendedLists;
+      checkRange(lists, 'lists', 1, 32768);
+      return { type, lists };
+    }
+
+    const m = params.m ?? env.vectorIndex.hnswM;
+    const efConstruction = params.efConstruction ?? env.vectorIndex.hnswEfConstruction;
+    checkRange(m, 'm', 2, 100);
+    checkRange(efConstruction, 'efConstruction', 4, 1000);
+    if (efConstruction < 2 * m) {
+      throw new ValidationError(
+        '"efConstruction" must be at least twice "m"',
+        'efConstruction',
+        efConstruction
+      );
+    }
+    return { type, m, efConstruction };
+  }
+
+  /* Build an index concurrently, replacing what an interrupted build left under its name */
+  static async #createIndex(
+    queryRunner: QueryRunner,
+    name: string,
+    column: string,
+    target: VectorIndexParams
+  ): Promise<void> {
+    await queryRunner.query(`DROP INDEX CONCURRENTLY IF EXISTS ${name};`);
+
+    try {
+      await queryRunner.query(`
+        CREATE INDEX CONCURRENTLY ${name}
+        ON document_chunks
+        USING ${target.type} (${column} vector_cosine_ops)
+        WITH (${this.#storageParameters(target)});
+      `);
+    } catch (err) {
+      /* A failed concurrent build leaves an invalid index */
+      await queryRunner.query(`DROP INDEX CONCURRENTLY IF EXISTS ${name};`);
+      throw err;
+    }
+  }
+
+  static #storageParameters({ type, lists, m, efConstruction }: VectorIndexParams): string {
+    return type === 'ivfflat'
+      ? `lists = ${lists}`
+      : `m = ${m}, ef_construction = ${efConstruction}`;
+  }
+
+  static #describe(params: VectorIndexParams): string {
+    return `${params.type === 'ivfflat' ? 'IVFFlat' : 'HNSW'} (${this.#storageParameters(params)})`;
+  }
 }